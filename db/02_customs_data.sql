@@ -25,7 +25,8 @@ CREATE TABLE wco_editions (
     wco_edition_description TEXT,
     wco_edition_introduction TEXT, -- Introduction text from introduction_2022e.md
     wco_edition_gir_rules JSONB, -- General Rules for Interpretation (GIR) from 0001_2022e-gir.md
-    -- Format: {"rule_1": {"title": "Rule 1", "text": "..."}, "rule_2": {...}, ...}
+    -- Format: {"rule_1": {"title": "Rule 1", "text": "..."}, "rule_2": {"title": "Rule 2", "text": "...", "subrules": {"2a": {"title": "Rule 2 (a)", "text": "..."}, ...}}, ...}
+    -- Produced by scripts/extract-wco-gir.ts
     wco_edition_effective_date DATE,
     wco_edition_is_active BOOLEAN DEFAULT true,
     wco_edition_created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -0,0 +1,350 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Additional (non-chapter) WCO PDFs: config loading, validation and discovery write-back
+ *
+ * `download-wco-pdfs-config.ts` (or a JSON file passed with `--config`) lists the Introduction,
+ * Table of Contents and other documents to download before the chapter PDFs. Entries can be
+ * limited to some editions, carry aliases (other names the same document is published under)
+ * and be marked required, so a missing Table of Contents fails the run instead of being skipped.
+ * The config is validated when it is loaded; every problem is reported at once.
+ *
+ * The browser script uses `findNewAdditionalPdfs` and `proposeConfigUpdate` to append the
+ * non-chapter PDFs it discovers on the edition page to the config, printed as a unified diff.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { WCO_LANGUAGES, applyPlaceholders, unifiedDiff, type WcoLanguage } from './shared-utils.js';
+import type { AdditionalPdfEntry, WCOPdfsConfig } from './download-wco-pdfs-config.js';
+
+export type { AdditionalPdfEntry } from './download-wco-pdfs-config.js';
+
+// Get __dirname for config file imports
+// tsx handles both ES modules and CommonJS, so we support both
+const getScriptDir = (): string => {
+  try {
+    // Try ES modules approach (when using import.meta.url)
+    if (typeof import.meta !== 'undefined' && import.meta.url) {
+      return path.dirname(fileURLToPath(import.meta.url));
+    }
+  } catch {
+    // Fall through to CommonJS
+  }
+  // CommonJS fallback (tsx provides __dirname in CommonJS mode)
+  // @ts-ignore - __dirname may not be defined in ES modules, but tsx provides it
+  return typeof __dirname !== 'undefined' ? __dirname : process.cwd();
+};
+
+export const DEFAULT_CONFIG_FILE = path.join(getScriptDir(), 'download-wco-pdfs-config.ts');
+
+// Default additional PDFs for LLM classification context, merged with the config file
+// (a config entry with the same file replaces the default one)
+export const DEFAULT_ADDITIONAL_PDFS: AdditionalPdfEntry[] = [
+  { file: 'introduction_{EDITION}{LANG}.pdf', required: true, description: 'Introduction to the HS Nomenclature' }
+];
+
+const ENTRY_KEYS = ['file', 'aliases', 'editions', 'required', 'description'];
+const EDITION_PATTERN = /^\d{4}$/;
+const PLACEHOLDER_PATTERN = /{([^}]*)}/g;
+const ALLOWED_PLACEHOLDERS = ['EDITION', 'LANG'];
+
+// Chapter/heading PDFs (0101_2022e.pdf, 0001_2022e-gir.pdf) are downloaded separately
+const CHAPTER_PDF_PATTERN = /^\d{4}_\d{4}[a-z]/i;
+
+// Problems with one filename template
+const checkTemplate = (template: unknown, where: string): string[] => {
+  if (typeof template !== 'string' || template.trim() === '') {
+    return [`${where}: must be a non-empty string`];
+  }
+  const problems: string[] = [];
+  if (!template.toLowerCase().endsWith('.pdf')) {
+    problems.push(`${where}: "${template}" must end with .pdf`);
+  }
+  if (/[\\/]/.test(template)) {
+    problems.push(`${where}: "${template}" must be a filename, not a path`);
+  }
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!ALLOWED_PLACEHOLDERS.includes(match[1]!)) {
+      problems.push(`${where}: unknown placeholder {${match[1]}} in "${template}" (use {EDITION} or {LANG})`);
+    }
+  }
+  return problems;
+};
+
+// Whether two entries can apply to the same edition
+const editionsOverlap = (a: AdditionalPdfEntry, b: AdditionalPdfEntry): boolean => {
+  if (!a.editions || !b.editions) {
+    return true;
+  }
+  return a.editions.some(edition => b.editions!.includes(edition));
+};
+
+/**
+ * Validate the `additionalPdfs` list of a config and normalize strings to entries
+ * Throws one error listing every problem.
+ */
+export const validateAdditionalPdfs = (value: unknown, source: string): AdditionalPdfEntry[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid additional PDF config ${source}: additionalPdfs must be an array`);
+  }
+  const problems: string[] = [];
+  const entries: AdditionalPdfEntry[] = [];
+
+  value.forEach((item: unknown, index) => {
+    const where = `additionalPdfs[${index}]`;
+    if (typeof item === 'string') {
+      problems.push(...checkTemplate(item, where));
+      entries.push({ file: item });
+      return;
+    }
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      problems.push(`${where}: must be a filename or an object with a "file" field`);
+      return;
+    }
+    const entry = item as Record<string, unknown>;
+    for (const key of Object.keys(entry)) {
+      if (!ENTRY_KEYS.includes(key)) {
+        problems.push(`${where}: unknown field "${key}" (allowed: ${ENTRY_KEYS.join(', ')})`);
+      }
+    }
+    problems.push(...checkTemplate(entry.file, `${where}.file`));
+    if (entry.aliases !== undefined) {
+      if (!Array.isArray(entry.aliases)) {
+        problems.push(`${where}.aliases: must be an array of filenames`);
+      } else {
+        entry.aliases.forEach((alias: unknown, aliasIndex) => problems.push(...checkTemplate(alias, `${where}.aliases[${aliasIndex}]`)));
+      }
+    }
+    if (entry.editions !== undefined) {
+      if (!Array.isArray(entry.editions) || entry.editions.length === 0) {
+        problems.push(`${where}.editions: must be a non-empty array of edition years`);
+      } else {
+        for (const edition of entry.editions) {
+          if (typeof edition !== 'string' || !EDITION_PATTERN.test(edition)) {
+            problems.push(`${where}.editions: "${String(edition)}" is not an edition year (e.g., "2022")`);
+          }
+        }
+      }
+    }
+    if (entry.required !== undefined && typeof entry.required !== 'boolean') {
+      problems.push(`${where}.required: must be true or false`);
+    }
+    if (entry.description !== undefined && typeof entry.description !== 'string') {
+      problems.push(`${where}.description: must be a string`);
+    }
+    entries.push(entry as unknown as AdditionalPdfEntry);
+  });
+
+  // The same file twice for one edition would be downloaded twice with different flags
+  entries.forEach((entry, index) => {
+    const duplicate = entries.findIndex((other, otherIndex) => otherIndex < index && other.file === entry.file && editionsOverlap(entry, other));
+    if (duplicate !== -1 && typeof entry.file === 'string') {
+      problems.push(`additionalPdfs[${index}]: "${entry.file}" is already listed at additionalPdfs[${duplicate}] for the same edition(s)`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid additional PDF config ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return entries;
+};
+
+/**
+ * Merge config entries over the defaults (same file replaces the default entry)
+ */
+export const mergeAdditionalPdfs = (defaults: AdditionalPdfEntry[], configured: AdditionalPdfEntry[]): AdditionalPdfEntry[] => [
+  ...defaults.filter(entry => !configured.some(other => other.file === entry.file)),
+  ...configured
+];
+
+/**
+ * Entries that apply to an edition
+ */
+export const selectAdditionalPdfs = (entries: AdditionalPdfEntry[], edition: string): AdditionalPdfEntry[] =>
+  entries.filter(entry => !entry.editions || entry.editions.includes(edition));
+
+/**
+ * Filenames to try for an entry, in order (file first, then aliases)
+ */
+export const getCandidateFilenames = (entry: AdditionalPdfEntry, edition: string, language: WcoLanguage): string[] => [
+  ...new Set([entry.file, ...(entry.aliases || [])].map(template => applyPlaceholders(template, edition, language)))
+];
+
+/**
+ * Load, validate and merge the additional PDF config, returning the entries for an edition
+ * Without `configPath` the default TypeScript config is used if present; an explicit path must exist.
+ * JSON files (`{ "additionalPdfs": [...] }`) are supported for backward compatibility.
+ */
+export const loadAdditionalPdfs = async (edition: string, configPath?: string): Promise<AdditionalPdfEntry[]> => {
+  const source = configPath ? path.resolve(configPath) : DEFAULT_CONFIG_FILE;
+  let config: Partial<WCOPdfsConfig> | undefined;
+  try {
+    if (source.endsWith('.json')) {
+      config = JSON.parse(await fs.readFile(source, 'utf-8')) as Partial<WCOPdfsConfig>;
+    } else {
+      // tsx handles TypeScript imports
+      config = ((await import(source)) as { config?: Partial<WCOPdfsConfig> }).config;
+    }
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    const missing = code === 'ENOENT' || code === 'MODULE_NOT_FOUND' || code === 'ERR_MODULE_NOT_FOUND';
+    if (!configPath && missing) {
+      return selectAdditionalPdfs(DEFAULT_ADDITIONAL_PDFS, edition);
+    }
+    throw new Error(`Could not load config file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!config || config.additionalPdfs === undefined) {
+    throw new Error(`Invalid additional PDF config ${source}: expected an exported config with an additionalPdfs array`);
+  }
+  const configured = validateAdditionalPdfs(config.additionalPdfs, source);
+  const entries = selectAdditionalPdfs(mergeAdditionalPdfs(DEFAULT_ADDITIONAL_PDFS, configured), edition);
+  console.log(`Loaded ${configured.length} additional PDFs from config file (${entries.length} for edition ${edition})`);
+  return entries;
+};
+
+/**
+ * Turn a discovered filename back into a template (introduction_2022e.pdf -> introduction_{EDITION}{LANG}.pdf)
+ */
+export const toFilenameTemplate = (filename: string, edition: string, language: WcoLanguage): string =>
+  filename.replace(new RegExp(`${edition}${WCO_LANGUAGES[language]}(?=[._-])`, 'i'), '{EDITION}{LANG}');
+
+/**
+ * Non-chapter PDFs among discovered links that no entry (file or alias) covers yet
+ * Returns filename templates, sorted.
+ */
+export const findNewAdditionalPdfs = (
+  urls: string[],
+  entries: AdditionalPdfEntry[],
+  edition: string,
+  language: WcoLanguage
+): string[] => {
+  const known = new Set(entries.flatMap(entry => getCandidateFilenames(entry, edition, language).map(name => name.toLowerCase())));
+  const templates = new Set<string>();
+  for (const url of urls) {
+    let filename: string;
+    try {
+      filename = decodeURIComponent(path.posix.basename(new URL(url).pathname));
+    } catch {
+      continue;
+    }
+    if (!filename.toLowerCase().endsWith('.pdf') || CHAPTER_PDF_PATTERN.test(filename) || known.has(filename.toLowerCase())) {
+      continue;
+    }
+    templates.add(toFilenameTemplate(filename, edition, language));
+  }
+  return [...templates].sort();
+};
+
+/**
+ * Find the `additionalPdfs: [` array in TypeScript config source
+ * Returns the index of its closing bracket and of the last character of its last element.
+ */
+const findAdditionalPdfsArray = (source: string): { close: number; lastElementEnd: number } | null => {
+  const start = source.search(/additionalPdfs\s*:\s*\[/);
+  if (start === -1) {
+    return null;
+  }
+  const open = source.indexOf('[', start);
+  let depth = 0;
+  let lastElementEnd = open;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i]!;
+    if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i);
+      if (i === -1) {
+        return null;
+      }
+      continue;
+    }
+    if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i) + 1;
+      if (i === 0) {
+        return null;
+      }
+      continue;
+    }
+    if (char === '"' || char === '\'' || char === '`') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      i = end;
+      lastElementEnd = i;
+      continue;
+    }
+    if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return { close: i, lastElementEnd };
+      }
+    }
+    if (!/\s/.test(char)) {
+      lastElementEnd = i;
+    }
+  }
+  return null;
+};
+
+// Entry appended for a discovered PDF (optional, limited to the edition it was found in)
+const discoveredEntry = (template: string, edition: string, date: string): AdditionalPdfEntry => ({
+  file: template,
+  editions: [edition],
+  required: false,
+  description: `Discovered by download-wco-pdfs-browser.ts on ${date}`
+});
+
+/**
+ * Append discovered PDFs to a config file's source
+ * TypeScript configs are edited in place (formatting and comments are kept); JSON configs are rewritten.
+ */
+export const proposeConfigUpdate = (
+  source: string,
+  configPath: string,
+  templates: string[],
+  edition: string,
+  date: string = new Date().toISOString().substring(0, 10)
+): { updated: string; diff: string } => {
+  const relative = path.relative(process.cwd(), configPath);
+  const label = relative && !relative.startsWith('..') ? relative : configPath;
+  const entries = templates.map(template => discoveredEntry(template, edition, date));
+  if (entries.length === 0) {
+    return { updated: source, diff: '' };
+  }
+
+  if (configPath.endsWith('.json')) {
+    const config = JSON.parse(source) as WCOPdfsConfig;
+    config.additionalPdfs = [...(config.additionalPdfs || []), ...entries];
+    const updated = JSON.stringify(config, null, 2) + '\n';
+    return { updated, diff: unifiedDiff(source, updated, label) };
+  }
+
+  const array = findAdditionalPdfsArray(source);
+  if (!array) {
+    throw new Error(`Could not find the additionalPdfs array in ${configPath}`);
+  }
+  const closeLineStart = source.lastIndexOf('\n', array.close) + 1;
+  const closeIndent = source.substring(closeLineStart).match(/^[ \t]*/)?.[0] || '';
+  const indent = `${closeIndent}  `;
+  const lines = entries.map((entry, index) => {
+    const comma = index < entries.length - 1 ? ',' : '';
+    return `${indent}{ file: ${JSON.stringify(entry.file)}, editions: ${JSON.stringify(entry.editions)}, required: false, description: ${JSON.stringify(entry.description)} }${comma}`;
+  });
+  const isEmpty = source[array.lastElementEnd] === '[';
+  const needsComma = !isEmpty && source[array.lastElementEnd] !== ',';
+  // Insert on the lines before the closing bracket (or break "[]" / "...]" onto its own line)
+  const onOwnLine = source.substring(closeLineStart, array.close).trim() === '';
+  const insertAt = onOwnLine ? closeLineStart : array.close;
+  const insertion = onOwnLine ? `${lines.join('\n')}\n` : `\n${lines.join('\n')}\n${closeIndent}`;
+  const updated = source.substring(0, array.lastElementEnd + 1)
+    + (needsComma ? ',' : '')
+    + source.substring(array.lastElementEnd + 1, insertAt)
+    + insertion
+    + source.substring(insertAt);
+  return { updated, diff: unifiedDiff(source, updated, label) };
+};
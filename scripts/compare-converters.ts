@@ -0,0 +1,388 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * Converter Comparison Script
+ *
+ * Converts a sample of an edition's PDFs with every available tool (marker, pdfplumber, pdfjs)
+ * and scores each output (see converter-quality.ts): recall of the HS codes expected from the
+ * file name and table of contents, heading-title detection, table count, character error rate
+ * against the checked-in golden Markdown (golden/wco/{edition}/{language}/) and runtime.
+ * Outputs are scored after the same cleanup pass as pdf-to-markdown.ts (markdown-cleanup.ts).
+ * Writes report.json and report.html with the recommended default tool for the edition.
+ *
+ * Usage:
+ *   tsx scripts/compare-converters.ts [options]
+ *
+ * Options:
+ *   --edition <year>    WCO edition year (default: 2022)
+ *   --language <code>   Edition language: en (default) or fr
+ *   --input <dir>       Input directory with PDFs (default: ./data/wco/{edition}/{language}/pdfs)
+ *   --golden <dir>      Golden Markdown directory (default: ./golden/wco/{edition}/{language})
+ *   --output <dir>      Converted files and reports (default: ./data/wco/{edition}/{language}/comparison)
+ *   --tools <list>      Comma-separated tools to compare (default: marker,pdfplumber,pdfjs)
+ *   --sample <n>        Number of PDFs to compare (default: 10; PDFs with a golden file first)
+ *   --files <list>      Comma-separated PDF files to compare instead of a sample
+ *   --toc <file>        Table of contents (.pdf or .md) for the expected headings
+ *   --allow-missing-golden  Compare even when no sampled PDF has a golden file (no CER)
+ *   --help, -h          Show help message
+ *
+ * Sampled PDFs without a golden file are listed as a warning (on the console and in the report);
+ * when none of them has one the comparison stops, as the CER column would be empty.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { existsSync } from 'fs';
+import { parseLanguage, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import {
+  checkMarker,
+  checkPdfplumber,
+  checkPython,
+  createConversionPool,
+  CONVERSION_TOOLS,
+  type ConversionTool
+} from './pdf-converters.js';
+import { getToolVersion } from './conversion-record.js';
+import { cleanupMarkdownFile } from './markdown-cleanup.js';
+import { loadTableOfContents, type TocEntry } from './wco-toc.js';
+import { buildExpectations, scoreMarkdown } from './converter-quality.js';
+import {
+  createComparisonReport,
+  resultScore,
+  summarizeTool,
+  writeComparisonReport,
+  type ComparisonResult,
+  type ToolSummary
+} from './converter-report.js';
+
+// Configuration
+const DEFAULT_EDITION = '2022';
+const DEFAULT_INPUT_DIR = './data/wco';
+const DEFAULT_GOLDEN_DIR = './golden/wco';
+const DEFAULT_OUTPUT_DIR = './data/wco';
+const DEFAULT_SAMPLE = 10;
+
+interface Config {
+  edition: string;
+  language: WcoLanguage;
+  inputDir: string;
+  goldenDir: string;
+  outputDir: string | null; // null = {input}/{edition}/{language}/comparison
+  tools: ConversionTool[];
+  sample: number;
+  files: string[] | null;
+  tocFile?: string;
+  allowMissingGolden: boolean;
+}
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    edition: DEFAULT_EDITION,
+    language: DEFAULT_LANGUAGE,
+    inputDir: DEFAULT_INPUT_DIR,
+    goldenDir: DEFAULT_GOLDEN_DIR,
+    outputDir: null,
+    tools: [...CONVERSION_TOOLS],
+    sample: DEFAULT_SAMPLE,
+    files: null,
+    allowMissingGolden: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--edition':
+        config.edition = args[++i] || DEFAULT_EDITION;
+        break;
+      case '--language':
+        try {
+          config.language = parseLanguage(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
+      case '--input':
+        config.inputDir = args[++i] || DEFAULT_INPUT_DIR;
+        break;
+      case '--golden':
+        config.goldenDir = args[++i] || DEFAULT_GOLDEN_DIR;
+        break;
+      case '--output':
+        config.outputDir = args[++i] || null;
+        break;
+      case '--tools':
+        const tools = (args[++i] || '').toLowerCase().split(',').map(tool => tool.trim()).filter(Boolean);
+        const unknown = tools.filter(tool => !CONVERSION_TOOLS.includes(tool as ConversionTool));
+        if (tools.length === 0 || unknown.length > 0) {
+          console.error(`Invalid tools: ${unknown.join(', ') || '(none)'}. Must be ${CONVERSION_TOOLS.join(', ')}`);
+          process.exit(1);
+        }
+        config.tools = [...new Set(tools as ConversionTool[])];
+        break;
+      case '--sample':
+        const sample = parseInt(args[++i] || '', 10);
+        if (isNaN(sample) || sample < 1) {
+          console.error('Invalid sample value. Must be a number >= 1');
+          process.exit(1);
+        }
+        config.sample = sample;
+        break;
+      case '--files':
+        config.files = (args[++i] || '').split(',').map(file => file.trim()).filter(Boolean);
+        break;
+      case '--toc':
+        config.tocFile = args[++i] || undefined;
+        break;
+      case '--allow-missing-golden':
+        config.allowMissingGolden = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Converter Comparison Script
+
+Usage:
+  tsx scripts/compare-converters.ts [options]
+
+Options:
+  --edition <year>      WCO edition year (default: ${DEFAULT_EDITION})
+  --language <code>     Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --input <dir>         Input directory with PDFs (default: ${DEFAULT_INPUT_DIR}/{edition}/{language}/pdfs)
+  --golden <dir>        Golden Markdown directory (default: ${DEFAULT_GOLDEN_DIR}/{edition}/{language})
+  --output <dir>        Converted files and reports (default: ${DEFAULT_OUTPUT_DIR}/{edition}/{language}/comparison)
+  --tools <list>        Comma-separated tools to compare (default: ${CONVERSION_TOOLS.join(',')})
+  --sample <n>          Number of PDFs to compare (default: ${DEFAULT_SAMPLE}; PDFs with a golden file first)
+  --files <list>        Comma-separated PDF files to compare instead of a sample
+  --toc <file>          Table of contents (.pdf or .md) for the expected headings
+  --allow-missing-golden
+                        Compare even when no sampled PDF has a golden file (no CER)
+  --help, -h            Show this help message
+
+Scores (per file and tool):
+  HS code recall        Expected codes found: the heading from the file name (0101_2022e.pdf -> 01.01),
+                        all headings for the table of contents file, the codes of the golden file
+  Heading recall        Expected titles (TOC title, # lines of the golden file) found in a Markdown heading
+  Tables                GFM tables in the output (and in the golden file)
+  CER                   Character error rate against the golden file
+  Time                  Conversion time
+
+Examples:
+  # Compare all tools on 10 PDFs of the 2022 edition
+  tsx scripts/compare-converters.ts
+
+  # Compare pdfjs and pdfplumber on specific files
+  tsx scripts/compare-converters.ts --tools pdfjs,pdfplumber --files 0101_2022e.pdf,8471_2022e.pdf
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  return config;
+}
+
+// Why a tool cannot run here (null when it can)
+async function unavailableReason(tool: ConversionTool): Promise<string | null> {
+  if (tool === 'pdfjs') {
+    try {
+      await import('pdfjs-dist/legacy/build/pdf.mjs');
+      return null;
+    } catch {
+      return 'pdfjs-dist is not installed (yarn add pdfjs-dist)';
+    }
+  }
+  if (!(await checkPython())) {
+    return 'Python 3 not found';
+  }
+  if (tool === 'marker' && !(await checkMarker())) {
+    return 'marker is not installed (pip install marker-pdf)';
+  }
+  if (tool === 'pdfplumber' && !(await checkPdfplumber())) {
+    return 'pdfplumber is not installed (pip install pdfplumber)';
+  }
+  return null;
+}
+
+// Golden Markdown files by PDF base name (empty when the directory does not exist)
+async function loadGoldenFiles(goldenDir: string): Promise<Map<string, string>> {
+  const golden = new Map<string, string>();
+  if (!existsSync(goldenDir)) {
+    return golden;
+  }
+  for (const file of (await fs.readdir(goldenDir)).filter(f => f.toLowerCase().endsWith('.md')).sort()) {
+    golden.set(file.replace(/\.md$/i, ''), await fs.readFile(path.join(goldenDir, file), 'utf-8'));
+  }
+  return golden;
+}
+
+// PDFs with a golden file first, then others spread evenly over the (sorted) edition
+function selectSample(pdfFiles: string[], golden: Map<string, string>, size: number): string[] {
+  const withGolden = pdfFiles.filter(file => golden.has(file.replace(/\.pdf$/i, '')));
+  const others = pdfFiles.filter(file => !withGolden.includes(file));
+  const sample = withGolden.slice(0, size);
+  const remaining = Math.min(size - sample.length, others.length);
+  for (let k = 0; k < remaining; k++) {
+    sample.push(others[Math.floor((k * others.length) / remaining)]!);
+  }
+  return sample;
+}
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  const inputDir = path.join(config.inputDir, config.edition, config.language, 'pdfs');
+  const goldenDir = path.join(config.goldenDir, config.edition, config.language);
+  const outputDir = config.outputDir || path.join(DEFAULT_OUTPUT_DIR, config.edition, config.language, 'comparison');
+
+  console.log('Converter Comparison Script');
+  console.log('===========================');
+  console.log(`Edition: ${config.edition}`);
+  console.log(`Language: ${config.language}`);
+  console.log(`Input: ${inputDir}`);
+  console.log(`Golden: ${goldenDir}`);
+  console.log(`Output: ${outputDir}`);
+  console.log(`Tools: ${config.tools.join(', ')}`);
+  console.log('');
+
+  if (!existsSync(inputDir)) {
+    console.error(`❌ Input directory does not exist: ${inputDir}`);
+    process.exit(1);
+  }
+
+  const pdfFiles = (await fs.readdir(inputDir)).filter(f => f.toLowerCase().endsWith('.pdf')).sort();
+  const golden = await loadGoldenFiles(goldenDir);
+  let files: string[];
+  if (config.files) {
+    const missing = config.files.filter(file => !pdfFiles.includes(file));
+    if (missing.length > 0) {
+      console.error(`❌ Not found in ${inputDir}: ${missing.join(', ')}`);
+      process.exit(1);
+    }
+    files = config.files;
+  } else {
+    files = selectSample(pdfFiles, golden, config.sample);
+  }
+  if (files.length === 0) {
+    console.error(`❌ No PDF files found in ${inputDir}`);
+    process.exit(1);
+  }
+
+  let toc: TocEntry[] = [];
+  let tocSource: string | null = null;
+  try {
+    const tableOfContents = await loadTableOfContents(inputDir, config.edition, config.tocFile, config.language);
+    toc = tableOfContents?.entries || [];
+    tocSource = tableOfContents?.source || null;
+  } catch (error) {
+    console.warn(`⚠️  Could not read the table of contents: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const missingGolden = files.filter(file => !golden.has(file.replace(/\.pdf$/i, '')));
+  const goldenCount = files.length - missingGolden.length;
+  console.log(`Comparing ${files.length} of ${pdfFiles.length} PDFs (${goldenCount} with a golden file)`);
+  console.log(`Table of contents: ${tocSource ? `${tocSource} (${toc.length} headings)` : 'none'}\n`);
+  if (missingGolden.length > 0) {
+    console.warn(`⚠️  No golden file for ${missingGolden.length} of ${files.length} PDFs, their CER is not measured:`);
+    console.warn(`   ${missingGolden.join(', ')}`);
+    console.warn(`   Add them to ${goldenDir} (see golden/wco/README.md)\n`);
+  }
+  if (goldenCount === 0 && !config.allowMissingGolden) {
+    console.error(`❌ None of the compared PDFs has a golden file in ${goldenDir}: the CER column would be empty`);
+    console.error('   Add golden files or pass --allow-missing-golden to compare without CER');
+    process.exit(1);
+  }
+
+  const results: ComparisonResult[] = [];
+  const summaries: ToolSummary[] = [];
+  for (const tool of config.tools) {
+    const reason = await unavailableReason(tool);
+    if (reason) {
+      console.log(`⊘ ${tool} - ${reason}, skipping\n`);
+      summaries.push(summarizeTool(tool, null, [], reason));
+      continue;
+    }
+    const version = await getToolVersion(tool);
+    console.log(`${tool} ${version || '(version unknown)'}`);
+
+    const toolDir = path.join(outputDir, tool);
+    await fs.mkdir(toolDir, { recursive: true });
+    const pool = createConversionPool(tool, 1, { language: config.language, tables: 'markdown', documentModel: false });
+    const toolResults: ComparisonResult[] = [];
+    try {
+      for (const [index, file] of files.entries()) {
+        const mdPath = path.join(toolDir, file.replace(/\.pdf$/i, '.md'));
+        const startedAt = Date.now();
+        let result: ComparisonResult;
+        try {
+          const report = await pool.convert(path.join(inputDir, file), mdPath);
+          await cleanupMarkdownFile(mdPath); // Score what extraction reads (see pdf-to-markdown.ts)
+          const durationMs = Date.now() - startedAt;
+          const expectations = buildExpectations(file, toc, golden.get(file.replace(/\.pdf$/i, '')) ?? null);
+          const scores = scoreMarkdown(await fs.readFile(mdPath, 'utf-8'), expectations);
+          result = { file, tool, status: 'converted', error: null, durationMs, pageCount: report.pageCount, scores, score: resultScore(scores) };
+          const cer = scores.cer !== null ? `, CER ${(scores.cer * 100).toFixed(1)}%` : '';
+          console.log(`  [${index + 1}/${files.length}] ✓ ${file} (score ${(result.score * 100).toFixed(1)}%${cer}, ${(durationMs / 1000).toFixed(1)}s)`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result = { file, tool, status: 'failed', error: message, durationMs: Date.now() - startedAt, pageCount: null, scores: null, score: 0 };
+          console.log(`  [${index + 1}/${files.length}] ✗ ${file}: ${message}`);
+        }
+        toolResults.push(result);
+      }
+    } finally {
+      await pool.close();
+    }
+    results.push(...toolResults);
+    summaries.push(summarizeTool(tool, version, toolResults));
+    console.log('');
+  }
+
+  const report = createComparisonReport({
+    edition: config.edition,
+    language: config.language,
+    goldenDir,
+    goldenFiles: goldenCount,
+    missingGolden,
+    tocSource,
+    files,
+    tools: summaries,
+    results
+  });
+  const written = await writeComparisonReport(report, outputDir);
+
+  const percent = (value: number | null): string => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+
+  // Summary
+  console.log('========================================');
+  console.log('Comparison Summary');
+  console.log('========================================');
+  for (const summary of summaries) {
+    if (!summary.available) {
+      console.log(`${summary.tool}: not run (${summary.reason})`);
+      continue;
+    }
+    console.log(`${summary.tool}: score ${percent(summary.score)}, HS codes ${percent(summary.hsCodeRecall)}, ` +
+      `headings ${percent(summary.headingTitleRecall)}, CER ${percent(summary.cer)}, ${summary.tables} tables, ` +
+      `${(summary.durationMs / 1000).toFixed(1)}s, ${summary.failed} failed`);
+  }
+  if (missingGolden.length > 0) {
+    console.log(`⚠️  CER measured on ${goldenCount} of ${files.length} PDFs (no golden file: ${missingGolden.join(', ')})`);
+  }
+  console.log(report.recommendation
+    ? `\nRecommended default for ${config.edition} (${config.language}): ${report.recommendation.tool}`
+    : '\nNo tool could be run');
+  console.log(`\nReports saved to: ${written.json}, ${written.html}`);
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Conversion records: the sidecar of each converted Markdown file
+ *
+ * `0101_2022e.md` gets a `0101_2022e.conversion.json` describing how it was made: the source PDF
+ * (name, SHA-256, size), the tool and its version, the converter version of this repository and
+ * the converter options, plus the SHA-256 of the Markdown written. An output is up to date only
+ * when all of those still match, so a revised PDF, another `--tool`, an upgraded tool or changed
+ * options reconvert the file, and a hand-edited or missing Markdown file is reported as stale.
+ */
+
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { sha256File } from './download-manifest.js';
+import type { ConversionOptions, ConversionTool } from './pdf-converters.js';
+
+const execFileAsync = promisify(execFile);
+
+const RECORD_VERSION = 1;
+const RECORD_SUFFIX = '.conversion.json';
+
+/**
+ * Bump when a converter in this repository (pdf-converters.ts, pdf-layout.ts, pdf-tables.ts,
+ * pdf-convert-worker.py) changes its output, so existing Markdown is reconverted
+ */
+export const CONVERTER_VERSION = 2;
+
+// Python package of each Python tool
+const PYTHON_PACKAGES: Record<Exclude<ConversionTool, 'pdfjs'>, string> = {
+  marker: 'marker-pdf',
+  pdfplumber: 'pdfplumber'
+};
+
+export interface ConversionRecord {
+  version: number;
+  source: {
+    filename: string;
+    sha256: string;
+    size: number;
+  };
+  tool: ConversionTool;
+  toolVersion: string | null;
+  converterVersion: number;
+  options: Record<string, string>;
+  outputSha256: string;
+  convertedAt: string;
+}
+
+/**
+ * What an up-to-date output must have been converted with
+ */
+export interface ConversionSettings {
+  tool: ConversionTool;
+  toolVersion: string | null;
+  options: Record<string, string>;
+}
+
+export type ConversionState =
+  | { status: 'up-to-date'; record: ConversionRecord }
+  | { status: 'missing' }
+  | { status: 'stale'; reasons: string[] };
+
+/**
+ * Converter options that change a tool's output (marker: language, pdfjs: tables and the
+ * document model, recorded only when enabled so older records stay valid)
+ */
+export const toolOptions = (tool: ConversionTool, options: ConversionOptions): Record<string, string> => {
+  switch (tool) {
+    case 'marker':
+      return { language: options.language };
+    case 'pdfjs':
+      return { tables: options.tables, ...(options.documentModel ? { document: 'json' } : {}) };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Sidecar path of a Markdown file: 0101_2022e.md -> 0101_2022e.conversion.json
+ */
+export const recordPath = (mdPath: string): string => mdPath.replace(/\.md$/i, '') + RECORD_SUFFIX;
+
+/**
+ * Installed version of a tool: pdfjs-dist, or the Python package (null when unknown)
+ */
+export const getToolVersion = async (tool: ConversionTool): Promise<string | null> => {
+  try {
+    if (tool === 'pdfjs') {
+      const manifest = JSON.parse(await fs.readFile(require.resolve('pdfjs-dist/package.json'), 'utf-8'));
+      return manifest.version || null;
+    }
+    const { stdout } = await execFileAsync('python3', [
+      '-c',
+      'import sys; from importlib.metadata import version; print(version(sys.argv[1]))',
+      PYTHON_PACKAGES[tool]
+    ]);
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the record of a Markdown file (null when there is none or it cannot be read)
+ */
+export const readConversionRecord = async (mdPath: string): Promise<ConversionRecord | null> => {
+  try {
+    const record = JSON.parse(await fs.readFile(recordPath(mdPath), 'utf-8')) as ConversionRecord;
+    return record.version === RECORD_VERSION ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Write the record of a Markdown file just converted from `pdfPath`
+ *
+ * @param sourceSha256 - Hash of the PDF taken before the conversion started
+ */
+export const writeConversionRecord = async (
+  pdfPath: string,
+  mdPath: string,
+  sourceSha256: string,
+  settings: ConversionSettings
+): Promise<ConversionRecord> => {
+  const stats = await fs.stat(pdfPath);
+  const record: ConversionRecord = {
+    version: RECORD_VERSION,
+    source: { filename: path.basename(pdfPath), sha256: sourceSha256, size: stats.size },
+    tool: settings.tool,
+    toolVersion: settings.toolVersion,
+    converterVersion: CONVERTER_VERSION,
+    options: settings.options,
+    outputSha256: await sha256File(mdPath),
+    convertedAt: new Date().toISOString()
+  };
+  await fs.writeFile(recordPath(mdPath), JSON.stringify(record, null, 2) + '\n', 'utf-8');
+  return record;
+};
+
+// Options as one comparable string
+const formatOptions = (options: Record<string, string>): string =>
+  Object.keys(options).sort().map(key => `${key}=${options[key]}`).join(', ') || 'none';
+
+/**
+ * Whether a Markdown file is up to date for these settings, and why not
+ *
+ * @param sourceSha256 - Hash of the PDF (computed by the caller, which also needs it for the record)
+ */
+export const checkConversion = async (
+  mdPath: string,
+  sourceSha256: string,
+  settings: ConversionSettings
+): Promise<ConversionState> => {
+  if (!existsSync(mdPath)) {
+    return { status: 'missing' };
+  }
+  const record = await readConversionRecord(mdPath);
+  if (!record) {
+    return { status: 'stale', reasons: ['no conversion record'] };
+  }
+
+  const reasons: string[] = [];
+  if (record.source.sha256 !== sourceSha256) {
+    reasons.push('source PDF changed');
+  }
+  if (record.tool !== settings.tool) {
+    reasons.push(`converted with ${record.tool}`);
+  } else if (record.toolVersion !== settings.toolVersion) {
+    reasons.push(`${record.tool} ${record.toolVersion ?? 'unknown'} -> ${settings.toolVersion ?? 'unknown'}`);
+  }
+  if (record.converterVersion !== CONVERTER_VERSION) {
+    reasons.push(`converter version ${record.converterVersion} -> ${CONVERTER_VERSION}`);
+  }
+  if (record.tool === settings.tool && formatOptions(record.options) !== formatOptions(settings.options)) {
+    reasons.push(`options ${formatOptions(record.options)} -> ${formatOptions(settings.options)}`);
+  }
+  if (await sha256File(mdPath) !== record.outputSha256) {
+    reasons.push('Markdown modified since conversion');
+  }
+  return reasons.length > 0 ? { status: 'stale', reasons } : { status: 'up-to-date', record };
+};
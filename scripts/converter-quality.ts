@@ -0,0 +1,303 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Quality scores of a converted Markdown file, used by compare-converters.ts
+ *
+ * - HS code recall: share of the expected codes (the heading from the file name, all headings of
+ *   the table of contents for the TOC file, the codes of the golden file) found in the output
+ * - Heading-title recall: share of the expected titles (TOC title of the heading, `#` lines of the
+ *   golden file) found in a Markdown heading of the output
+ * - Table count: GFM tables in the output, next to the count in the golden file
+ * - Character error rate: edit distance between the plain text of the output and of the golden
+ *   file, divided by the length of the golden text
+ *
+ * All measures are null when there is nothing to compare against.
+ */
+
+import type { TocEntry } from './wco-toc.js';
+
+/**
+ * Expected content of one PDF
+ */
+export interface QualityExpectations {
+  hsCodes: string[]; // Dotted codes: "01.01" (heading) or "0101.21" (subheading)
+  headingTitles: string[];
+  golden: string | null; // Golden Markdown
+}
+
+export interface RecallScore {
+  expected: number;
+  found: number;
+  missing: string[];
+  recall: number | null; // null when nothing is expected
+}
+
+export interface QualityScores {
+  hsCodes: RecallScore;
+  headingTitles: RecallScore;
+  tables: { count: number; golden: number | null };
+  cer: number | null; // null without a golden file
+}
+
+// Chapter/heading files: 0101_2022e.pdf (heading 01.01), 0100_2022e.pdf (chapter 1 notes)
+const HEADING_FILE_PATTERN = /^(\d{2})(\d{2})_\d{4}[a-z]/i;
+const TOC_FILE_PATTERN = /^table-of-contents_/i;
+
+// Codes in plain text: "01.01" (not part of a date or a longer number) and "0101.21"
+const HEADING_CODE_PATTERN = /(?<![\d.])(\d{2})\.(\d{2})(?![\d.]\d)/g;
+const SUBHEADING_CODE_PATTERN = /(?<![\d.])(\d{4})\.(\d{2})(?!\d)/g;
+
+// Markdown heading lines that are not titles (converter page markers)
+const PAGE_MARKER_PATTERN = /^(page \d+|table)$/i;
+
+// Titles are matched on this many leading characters (TOC titles are often shortened)
+const TITLE_MATCH_LENGTH = 60;
+// Largest edit distance table computed for one unaligned gap; larger gaps count as fully replaced
+const MAX_GAP_CELLS = 4_000_000;
+
+/**
+ * Plain text of converted Markdown: comments, `<div>` tags, heading marks, table pipes and separator
+ * rows and emphasis removed, whitespace collapsed
+ */
+export const markdownToPlainText = (markdown: string): string =>
+  markdown
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<\/?div\b[^>]*>/gi, ' ')
+    .split('\n')
+    .filter(line => !/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line))
+    .map(line => line.replace(/^\s*#{1,6}\s+/, '').replace(/[|*_`]/g, ' '))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Text for title matching: lower case letters and digits only
+const normalizeTitle = (title: string): string =>
+  title.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Markdown heading lines (without the #), converter page markers excluded
+const headingLines = (markdown: string): string[] =>
+  markdown
+    .split('\n')
+    .map(line => line.match(/^\s*#{1,6}\s+(.*)$/)?.[1]?.replace(/[*_`]/g, '').trim() || '')
+    .filter(line => line && !PAGE_MARKER_PATTERN.test(line));
+
+/**
+ * HS codes in Markdown, dotted as printed ("01.01", "0101.21")
+ */
+export const findHsCodes = (markdown: string): Set<string> => {
+  const text = markdownToPlainText(markdown);
+  const codes = new Set<string>();
+  for (const match of text.matchAll(HEADING_CODE_PATTERN)) {
+    codes.add(`${match[1]}.${match[2]}`);
+  }
+  for (const match of text.matchAll(SUBHEADING_CODE_PATTERN)) {
+    codes.add(`${match[1]}.${match[2]}`);
+  }
+  return codes;
+};
+
+/**
+ * Number of GFM tables (runs of at least two lines starting with "|")
+ */
+export const countTables = (markdown: string): number => {
+  let tables = 0;
+  let run = 0;
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('|')) {
+      run++;
+      if (run === 2) {
+        tables++;
+      }
+    } else {
+      run = 0;
+    }
+  }
+  return tables;
+};
+
+/**
+ * What a PDF's output should contain, from its file name, the table of contents and its golden
+ * Markdown (if any)
+ */
+export const buildExpectations = (pdfFile: string, toc: TocEntry[], golden: string | null): QualityExpectations => {
+  const hsCodes = new Set<string>();
+  const headingTitles: string[] = [];
+
+  const heading = pdfFile.match(HEADING_FILE_PATTERN);
+  if (heading && heading[2] !== '00') {
+    const code = `${heading[1]}.${heading[2]}`;
+    hsCodes.add(code);
+    const entry = toc.find(tocEntry => tocEntry.code === `${heading[1]}${heading[2]}`);
+    if (entry?.title) {
+      headingTitles.push(entry.title);
+    }
+  } else if (TOC_FILE_PATTERN.test(pdfFile)) {
+    for (const entry of toc) {
+      hsCodes.add(`${entry.code.slice(0, 2)}.${entry.code.slice(2)}`);
+    }
+  }
+
+  if (golden !== null) {
+    for (const code of findHsCodes(golden)) {
+      hsCodes.add(code);
+    }
+    // A golden heading containing the TOC title replaces it ("01.01 Live horses, ...")
+    const goldenTitles = headingLines(golden);
+    const covered = (title: string): boolean =>
+      goldenTitles.some(goldenTitle => normalizeTitle(goldenTitle).includes(normalizeTitle(title)));
+    headingTitles.splice(0, headingTitles.length, ...headingTitles.filter(title => !covered(title)), ...goldenTitles);
+  }
+
+  return { hsCodes: [...hsCodes].sort(), headingTitles, golden };
+};
+
+// Recall of expected items
+const recallOf = (expected: string[], isFound: (item: string) => boolean): RecallScore => {
+  const missing = expected.filter(item => !isFound(item));
+  return {
+    expected: expected.length,
+    found: expected.length - missing.length,
+    missing,
+    recall: expected.length > 0 ? (expected.length - missing.length) / expected.length : null
+  };
+};
+
+// Levenshtein distance of two strings (two rows)
+const levenshtein = (a: string, b: string): number => {
+  if (a.length === 0 || b.length === 0) {
+    return a.length + b.length;
+  }
+  let previous = new Uint32Array(b.length + 1).map((_, j) => j);
+  let current = new Uint32Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1);
+      current[j] = Math.min(substitution, previous[j]! + 1, current[j - 1]! + 1);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length]!;
+};
+
+// Character distance of two word ranges that could not be aligned further
+const gapDistance = (a: string[], b: string[]): number => {
+  const left = a.join(' ');
+  const right = b.join(' ');
+  if (!left || !right) {
+    // Insertion or deletion of whole words, with one separating space
+    return left.length + right.length + (left || right ? 1 : 0);
+  }
+  if ((left.length + 1) * (right.length + 1) > MAX_GAP_CELLS) {
+    return Math.max(left.length, right.length);
+  }
+  return levenshtein(left, right);
+};
+
+// Words that occur exactly once in both ranges, as increasing position pairs (patience diff anchors)
+const uniqueAnchors = (a: string[], b: string[]): Array<[number, number]> => {
+  const countA = new Map<string, number>();
+  const countB = new Map<string, number>();
+  const positionB = new Map<string, number>();
+  a.forEach(word => countA.set(word, (countA.get(word) || 0) + 1));
+  b.forEach((word, j) => {
+    countB.set(word, (countB.get(word) || 0) + 1);
+    positionB.set(word, j);
+  });
+  const pairs: Array<[number, number]> = [];
+  a.forEach((word, i) => {
+    if (countA.get(word) === 1 && countB.get(word) === 1) {
+      pairs.push([i, positionB.get(word)!]);
+    }
+  });
+
+  // Longest increasing subsequence of the positions in b
+  const tails: number[] = [];
+  const previous: number[] = new Array(pairs.length).fill(-1);
+  pairs.forEach(([, j], index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (pairs[tails[middle]!]![1] < j) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1]! : -1;
+    tails[low] = index;
+  });
+  const anchors: Array<[number, number]> = [];
+  for (let index = tails.length > 0 ? tails[tails.length - 1]! : -1; index >= 0; index = previous[index]!) {
+    anchors.unshift(pairs[index]!);
+  }
+  return anchors;
+};
+
+// Character distance of two word sequences: equal ends are trimmed, unique common words anchor
+// the alignment (recursively), and the gaps between anchors are compared character by character
+const wordDistance = (a: string[], b: string[]): number => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+    end++;
+  }
+  const left = a.slice(start, a.length - end);
+  const right = b.slice(start, b.length - end);
+  if (left.length === 0 || right.length === 0) {
+    return gapDistance(left, right);
+  }
+
+  const anchors = uniqueAnchors(left, right);
+  if (anchors.length === 0) {
+    return gapDistance(left, right);
+  }
+  let distance = 0;
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of anchors) {
+    distance += wordDistance(left.slice(i, anchorI), right.slice(j, anchorJ));
+    i = anchorI + 1;
+    j = anchorJ + 1;
+  }
+  return distance + wordDistance(left.slice(i), right.slice(j));
+};
+
+/**
+ * Character error rate of Markdown against a golden file: character edits (insertions,
+ * deletions, substitutions) between their plain texts per golden character. The texts are
+ * aligned on words first, so the result is exact for local differences and an upper bound when
+ * large parts differ.
+ */
+export const characterErrorRate = (markdown: string, golden: string): number => {
+  const reference = markdownToPlainText(golden);
+  const hypothesis = markdownToPlainText(markdown);
+  if (reference.length === 0) {
+    return hypothesis.length === 0 ? 0 : 1;
+  }
+  const distance = wordDistance(reference.split(' ').filter(Boolean), hypothesis.split(' ').filter(Boolean));
+  return distance / reference.length;
+};
+
+/**
+ * Score converted Markdown against the expectations of its PDF
+ */
+export const scoreMarkdown = (markdown: string, expectations: QualityExpectations): QualityScores => {
+  const codes = findHsCodes(markdown);
+  const titles = headingLines(markdown).map(normalizeTitle);
+  return {
+    hsCodes: recallOf(expectations.hsCodes, code => codes.has(code)),
+    headingTitles: recallOf(expectations.headingTitles, title => {
+      const expected = normalizeTitle(title).slice(0, TITLE_MATCH_LENGTH).trim();
+      return titles.some(heading => heading.includes(expected));
+    }),
+    tables: { count: countTables(markdown), golden: expectations.golden !== null ? countTables(expectations.golden) : null },
+    cer: expectations.golden !== null ? characterErrorRate(markdown, expectations.golden) : null
+  };
+};
@@ -0,0 +1,235 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Converter comparison report written by compare-converters.ts
+ *
+ * `report.json` holds the score of every sampled PDF for every tool (see converter-quality.ts),
+ * a summary per tool and the recommended default tool; `report.html` shows the same as tables.
+ *
+ * The recommendation ranks tools by their mean score per file: the mean of the available measures
+ * (HS code recall, heading-title recall, 1 - character error rate), 0 for a failed conversion.
+ * Tools within SCORE_TIE of the best are ranked by total runtime.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ConversionTool } from './pdf-converters.js';
+import type { QualityScores } from './converter-quality.js';
+import type { WcoLanguage } from './shared-utils.js';
+
+const REPORT_VERSION = 2;
+const SCORE_TIE = 0.01;
+
+export interface ComparisonResult {
+  file: string;
+  tool: ConversionTool;
+  status: 'converted' | 'failed';
+  error: string | null;
+  durationMs: number;
+  pageCount: number | null;
+  scores: QualityScores | null; // null when the conversion failed
+  score: number; // Mean of the available measures (0 when failed)
+}
+
+export interface ToolSummary {
+  tool: ConversionTool;
+  available: boolean;
+  version: string | null;
+  reason: string | null; // Why the tool was not run
+  files: number;
+  failed: number;
+  hsCodeRecall: number | null;
+  headingTitleRecall: number | null;
+  cer: number | null;
+  tables: number;
+  tableCountError: number | null; // Mean |tables - golden tables| over files with a golden file
+  durationMs: number;
+  pagesPerSecond: number | null;
+  score: number | null;
+}
+
+export interface ComparisonReport {
+  version: number;
+  edition: string;
+  language: WcoLanguage;
+  generatedAt: string;
+  goldenDir: string;
+  goldenFiles: number;
+  missingGolden: string[]; // Compared PDFs without a golden file (no CER)
+  tocSource: string | null;
+  files: string[];
+  tools: ToolSummary[];
+  results: ComparisonResult[];
+  recommendation: { tool: ConversionTool; score: number } | null;
+}
+
+// Mean of the non-null values (null when there are none)
+const mean = (values: Array<number | null>): number | null => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+/**
+ * Score of one converted file: mean of its available measures
+ */
+export const resultScore = (scores: QualityScores | null): number => {
+  if (!scores) {
+    return 0;
+  }
+  const cer = scores.cer !== null ? 1 - Math.min(scores.cer, 1) : null;
+  return mean([scores.hsCodes.recall, scores.headingTitles.recall, cer]) ?? 0;
+};
+
+/**
+ * Summary of one tool over its results
+ */
+export const summarizeTool = (
+  tool: ConversionTool,
+  version: string | null,
+  results: ComparisonResult[],
+  reason: string | null = null
+): ToolSummary => {
+  const converted = results.filter(result => result.scores !== null);
+  const withGolden = converted.filter(result => result.scores!.tables.golden !== null);
+  const durationMs = results.reduce((sum, result) => sum + result.durationMs, 0);
+  const pages = converted.reduce((sum, result) => sum + (result.pageCount ?? 0), 0);
+  return {
+    tool,
+    available: reason === null,
+    version,
+    reason,
+    files: results.length,
+    failed: results.length - converted.length,
+    hsCodeRecall: mean(converted.map(result => result.scores!.hsCodes.recall)),
+    headingTitleRecall: mean(converted.map(result => result.scores!.headingTitles.recall)),
+    cer: mean(converted.map(result => result.scores!.cer)),
+    tables: converted.reduce((sum, result) => sum + result.scores!.tables.count, 0),
+    tableCountError: mean(withGolden.map(result => Math.abs(result.scores!.tables.count - result.scores!.tables.golden!))),
+    durationMs,
+    pagesPerSecond: pages > 0 && durationMs > 0 ? pages / (durationMs / 1000) : null,
+    score: results.length > 0 ? mean(results.map(result => result.score)) : null
+  };
+};
+
+/**
+ * Best tool by mean score (faster tool on a near tie), null when no tool ran
+ */
+export const recommendTool = (tools: ToolSummary[]): ComparisonReport['recommendation'] => {
+  const ranked = tools.filter(tool => tool.score !== null);
+  if (ranked.length === 0) {
+    return null;
+  }
+  const best = Math.max(...ranked.map(tool => tool.score!));
+  const [choice] = ranked.filter(tool => best - tool.score! <= SCORE_TIE).sort((a, b) => a.durationMs - b.durationMs);
+  return { tool: choice!.tool, score: choice!.score! };
+};
+
+// HTML escaping for text content and attributes
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Cell text of a measure
+const percent = (value: number | null): string => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+const seconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Render the report as a standalone HTML page
+ */
+export const renderHtmlReport = (report: ComparisonReport): string => {
+  const summaryRows = report.tools.map(tool => {
+    const recommended = report.recommendation?.tool === tool.tool ? ' class="best"' : '';
+    if (!tool.available) {
+      return `<tr><td>${tool.tool}</td><td colspan="9">Not run: ${escapeHtml(tool.reason || '')}</td></tr>`;
+    }
+    return `<tr${recommended}><td>${tool.tool}</td><td>${escapeHtml(tool.version || 'unknown')}</td>` +
+      `<td>${percent(tool.score)}</td><td>${percent(tool.hsCodeRecall)}</td><td>${percent(tool.headingTitleRecall)}</td>` +
+      `<td>${percent(tool.cer)}</td><td>${tool.tables}${tool.tableCountError !== null ? ` (±${tool.tableCountError.toFixed(1)})` : ''}</td>` +
+      `<td>${seconds(tool.durationMs)}</td><td>${tool.pagesPerSecond !== null ? tool.pagesPerSecond.toFixed(2) : '–'}</td>` +
+      `<td>${tool.failed}/${tool.files}</td></tr>`;
+  });
+
+  const resultRows = report.results.map(result => {
+    if (!result.scores) {
+      return `<tr class="failed"><td>${escapeHtml(result.file)}</td><td>${result.tool}</td><td colspan="6">Failed: ${escapeHtml(result.error || '')}</td></tr>`;
+    }
+    const { hsCodes, headingTitles, tables, cer } = result.scores;
+    const missing = [...hsCodes.missing, ...headingTitles.missing.map(title => `"${title}"`)].join(', ');
+    return `<tr><td>${escapeHtml(result.file)}</td><td>${result.tool}</td><td>${percent(result.score)}</td>` +
+      `<td>${percent(hsCodes.recall)} (${hsCodes.found}/${hsCodes.expected})</td>` +
+      `<td>${percent(headingTitles.recall)} (${headingTitles.found}/${headingTitles.expected})</td>` +
+      `<td>${percent(cer)}</td><td>${tables.count}${tables.golden !== null ? ` / ${tables.golden}` : ''}</td>` +
+      `<td>${seconds(result.durationMs)}</td></tr>` +
+      (missing ? `\n<tr class="missing"><td></td><td colspan="7">Missing: ${escapeHtml(missing)}</td></tr>` : '');
+  });
+
+  const missingGolden = report.missingGolden.length > 0
+    ? `<p class="warning">⚠️ No golden file for ${report.missingGolden.length} of ${report.files.length} PDFs, their CER is not measured: ` +
+      `${escapeHtml(report.missingGolden.join(', '))}. Add them to ${escapeHtml(report.goldenDir)}.</p>\n`
+    : '';
+
+  const recommendation = report.recommendation
+    ? `<p>Recommended default for ${report.edition} (${report.language}): <strong>${report.recommendation.tool}</strong> (score ${percent(report.recommendation.score)})</p>`
+    : '<p>No tool could be run.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Converter comparison - ${report.edition} ${report.language}</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 2em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f0f0f0; }
+tr.best { background: #e6f4e6; }
+tr.failed { background: #fbe9e9; }
+tr.missing td { color: #666; font-size: 0.9em; }
+p.warning { background: #fff4d6; border: 1px solid #e0b800; padding: 8px; }
+</style>
+</head>
+<body>
+<h1>Converter comparison - ${report.edition} (${report.language})</h1>
+<p>Generated ${escapeHtml(report.generatedAt)} from ${report.files.length} PDFs; ${report.goldenFiles} with a golden file in ${escapeHtml(report.goldenDir)}; table of contents: ${escapeHtml(report.tocSource || 'none')}.</p>
+${missingGolden}${recommendation}
+<h2>Tools</h2>
+<table>
+<tr><th>Tool</th><th>Version</th><th>Score</th><th>HS code recall</th><th>Heading recall</th><th>CER</th><th>Tables (± golden)</th><th>Time</th><th>Pages/s</th><th>Failed</th></tr>
+${summaryRows.join('\n')}
+</table>
+<h2>Files</h2>
+<table>
+<tr><th>File</th><th>Tool</th><th>Score</th><th>HS code recall</th><th>Heading recall</th><th>CER</th><th>Tables / golden</th><th>Time</th></tr>
+${resultRows.join('\n')}
+</table>
+</body>
+</html>
+`;
+};
+
+/**
+ * Build the report document from the per-tool summaries and results
+ */
+export const createComparisonReport = (
+  fields: Omit<ComparisonReport, 'version' | 'generatedAt' | 'recommendation'>
+): ComparisonReport => ({
+  version: REPORT_VERSION,
+  generatedAt: new Date().toISOString(),
+  ...fields,
+  recommendation: recommendTool(fields.tools)
+});
+
+/**
+ * Write report.json and report.html to a directory
+ *
+ * @returns Paths of the JSON and HTML reports
+ */
+export const writeComparisonReport = async (report: ComparisonReport, dir: string): Promise<{ json: string; html: string }> => {
+  await fs.mkdir(dir, { recursive: true });
+  const json = path.join(dir, 'report.json');
+  const html = path.join(dir, 'report.html');
+  await fs.writeFile(json, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+  await fs.writeFile(html, renderHtmlReport(report), 'utf-8');
+  return { json, html };
+};
@@ -0,0 +1,357 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Customs book source adapters
+ *
+ * Every country publishes its customs book (the national extension of the WCO 6-digit codes)
+ * in its own format: TARIC XML, UK Trade Tariff JSON, USITC HTS JSON, Israeli CSV/PDF, etc.
+ * An adapter knows where a book is published and how to read it; the pipeline here fetches
+ * the sources (or reads saved copies) and turns every adapter's output into one record stream:
+ * code, description, indentation level, parent and notes.
+ *
+ * Adapters are registered in customs-books.ts; downloadCustomsBook() writes a book to
+ * `{dir}/records.jsonl` (run it with download-customs-book.ts).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createTransport, type Transport, type TransportMode } from './http-transport.js';
+import { sha256Buffer } from './download-manifest.js';
+import { getBrowserHeaders } from './shared-utils.js';
+import { horizontalGap, readingColumns, textDirection } from './pdf-bidi.js';
+
+export type CustomsBookSourceFormat = 'xml' | 'json' | 'csv' | 'pdf';
+
+/**
+ * One line of a customs book, normalized across countries
+ */
+export interface CustomsBookRecord {
+  code: string; // Digits only, as long as the book publishes it (e.g., "0101210000")
+  checkDigit: string | null; // Published check digit (Israel), not part of code
+  description: string;
+  level: number; // Indentation level (0 = chapter, 1 = heading, deeper levels below)
+  parentCode: string | null; // Nearest preceding record with a lower level
+  notes: string[]; // Footnotes, conditions and other remarks attached to the line
+}
+
+// What an adapter produces: the pipeline fills in the parent
+export type CustomsBookLine = Omit<CustomsBookRecord, 'parentCode'>;
+
+export interface CustomsBookAdapter {
+  id: string; // e.g., "eu-taric" (--book value, data directory name)
+  country: string; // ISO 3166-1 alpha-2 as in countries.country_code ("EU" for the Union tariff)
+  name: string; // customs_books.customs_book_name
+  format: CustomsBookSourceFormat;
+  sourceUrls: string[]; // Official sources, read in order (one book may span several files)
+  /** Read one source file; lines must come in book order */
+  parse(content: Buffer, source: string): AsyncIterable<CustomsBookLine> | Iterable<CustomsBookLine>;
+}
+
+export interface CustomsBookSource {
+  source: string; // URL or local path
+  sha256: string;
+  size: number;
+}
+
+export const RECORDS_FILENAME = 'records.jsonl';
+export const BOOK_FILENAME = 'book.json';
+
+// Redirects followed when fetching a source
+const MAX_REDIRECTS = 5;
+// Items of a PDF line closer than this (in font sizes) are parts of one word
+const WORD_GAP_EM = 0.15;
+// Items of a PDF line farther apart than this (in font sizes) are in separate columns
+const COLUMN_GAP_EM = 1.5;
+
+// Whether a source is a URL (anything else is a local file)
+const isUrl = (source: string): boolean => /^https?:\/\//i.test(source);
+
+// GET a URL into memory, following redirects
+const fetchBuffer = (transport: Transport, url: string, redirects: number = 0): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const request = transport.get(url, { headers: getBrowserHeaders() }, response => {
+      const status = response.statusCode || 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`Too many redirects: ${url}`));
+          return;
+        }
+        fetchBuffer(transport, new URL(response.headers.location, url).href, redirects + 1).then(resolve, reject);
+        return;
+      }
+      if (status !== 200) {
+        response.resume();
+        reject(new Error(`HTTP ${status} for ${url}`));
+        return;
+      }
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+  });
+
+/**
+ * Create a source loader: URLs are fetched through the HTTP transport (live, record or
+ * replay, see http-transport.ts), anything else is read as a local file
+ */
+export const createSourceLoader = async (mode: TransportMode = 'live', fixturesDir?: string) => {
+  const transport = await createTransport({ mode, fixturesDir });
+  return {
+    load: async (source: string): Promise<Buffer> =>
+      isUrl(source) ? fetchBuffer(transport, source) : fs.readFile(source),
+    close: (): Promise<void> => transport.close()
+  };
+};
+
+export type SourceLoader = Awaited<ReturnType<typeof createSourceLoader>>;
+
+// Books without an official download URL (the Israeli books) are read from saved files only
+const requireSources = (adapter: CustomsBookAdapter, sources: string[]): string[] => {
+  if (sources.length === 0) {
+    throw new Error(`${adapter.id} has no official download URL; pass the saved source files with --source`
+      + ' (sync service: customs_book_data_source_url or "sources" in the sync metadata)');
+  }
+  return sources;
+};
+
+/**
+ * Read a customs book: load each source, parse it with the adapter and link every
+ * record to its parent (the nearest preceding record with a lower level)
+ *
+ * @param sources - Sources to read (default: the adapter's official URLs; an error when it has none)
+ * @param onSource - Called for each source once it is loaded (checksums for change detection)
+ */
+export async function* readCustomsBook(
+  adapter: CustomsBookAdapter,
+  loader: SourceLoader,
+  sources: string[] = adapter.sourceUrls,
+  onSource?: (source: CustomsBookSource) => void
+): AsyncGenerator<CustomsBookRecord> {
+  const ancestors: CustomsBookRecord[] = [];
+  for (const source of requireSources(adapter, sources)) {
+    const content = await loader.load(source);
+    onSource?.({ source, sha256: sha256Buffer(content), size: content.length });
+    for await (const line of adapter.parse(content, source)) {
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1]!.level >= line.level) {
+        ancestors.pop();
+      }
+      const record: CustomsBookRecord = {
+        code: line.code,
+        checkDigit: line.checkDigit,
+        description: line.description,
+        level: line.level,
+        parentCode: ancestors[ancestors.length - 1]?.code ?? null,
+        notes: line.notes
+      };
+      ancestors.push(record);
+      yield record;
+    }
+  }
+}
+
+/**
+ * book.json: what was downloaded, from where, and a checksum of the normalized records
+ */
+export interface CustomsBookDownload {
+  book: string;
+  country: string;
+  name: string;
+  format: string;
+  sources: CustomsBookSource[];
+  records: number;
+  recordsSha256: string;
+  downloadedAt: string;
+}
+
+/**
+ * Download and normalize one customs book into `{outputDir}/records.jsonl` and `book.json`
+ * The records file is replaced only once the whole book was read.
+ */
+export const downloadCustomsBook = async (
+  adapter: CustomsBookAdapter,
+  outputDir: string,
+  sources: string[] = adapter.sourceUrls,
+  transportMode: TransportMode = 'live',
+  fixturesDir?: string
+): Promise<CustomsBookDownload> => {
+  requireSources(adapter, sources);
+  await fs.mkdir(outputDir, { recursive: true });
+  const recordsPath = path.join(outputDir, RECORDS_FILENAME);
+  const tempPath = `${recordsPath}.tmp`;
+  const loader = await createSourceLoader(transportMode, fixturesDir);
+  const loaded: CustomsBookSource[] = [];
+  const hash = createHash('sha256');
+  let count = 0;
+  const file = await fs.open(tempPath, 'w');
+  try {
+    for await (const record of readCustomsBook(adapter, loader, sources, source => loaded.push(source))) {
+      const line = JSON.stringify(record) + '\n';
+      hash.update(line);
+      await file.write(line);
+      count++;
+    }
+  } catch (error) {
+    await file.close();
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  } finally {
+    await loader.close();
+  }
+  await file.close();
+  await fs.rename(tempPath, recordsPath);
+
+  const download: CustomsBookDownload = {
+    book: adapter.id,
+    country: adapter.country,
+    name: adapter.name,
+    format: adapter.format,
+    sources: loaded,
+    records: count,
+    recordsSha256: hash.digest('hex'),
+    downloadedAt: new Date().toISOString()
+  };
+  await fs.writeFile(path.join(outputDir, BOOK_FILENAME), JSON.stringify(download, null, 2) + '\n', 'utf-8');
+  return download;
+};
+
+/**
+ * Digits of a published code ("0101.21.00.10" -> "0101210010")
+ */
+export const codeDigits = (code: string): string => code.replace(/\D/g, '');
+
+/**
+ * Level implied by the code itself for books without indentation data:
+ * 2 digits = chapter (0), 4 = heading (1), 6 = subheading (2), then one level per 2 digits.
+ * Trailing "00" pairs do not count (0101000000 is the heading 01.01).
+ */
+export const levelFromCode = (code: string): number => {
+  let significant = code;
+  while (significant.length > 2 && significant.endsWith('00')) {
+    significant = significant.slice(0, -2);
+  }
+  return Math.max(0, Math.ceil(significant.length / 2) - 1);
+};
+
+/**
+ * Level of a TARIC-style line (EU TARIC, UK Trade Tariff): chapters and headings have
+ * 0 indents, subheadings count their dashes
+ */
+export const taricLevel = (itemId: string, indents: number): number => {
+  if (itemId.endsWith('00000000')) {
+    return 0;
+  }
+  if (itemId.endsWith('000000') && indents === 0) {
+    return 1;
+  }
+  return indents + 1;
+};
+
+/**
+ * Decode the XML entities used in tariff descriptions (&amp;, &lt;, &#8364;, ...)
+ */
+export const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith('#')) {
+      return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower]!;
+  });
+
+/**
+ * Parse CSV (RFC 4180: quoted fields, doubled quotes, newlines inside quotes) into rows
+ * keyed by the header row; a UTF-8 BOM is ignored
+ */
+export const parseCsv = (text: string, delimiter: string = ','): Array<Record<string, string>> => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(value => value.trim().length > 0));
+  if (!header) {
+    return [];
+  }
+  const names = header.map(name => name.trim());
+  return body.map(values => Object.fromEntries(names.map((name, index) => [name, (values[index] ?? '').trim()])));
+};
+
+/**
+ * Text lines of a PDF (text items grouped by their baseline, in reading order: right to left for
+ * Hebrew lines and their columns, with codes and numbers kept left to right; see pdf-bidi.ts)
+ */
+export const extractPdfLines = async (content: Buffer): Promise<string[]> => {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(content), verbosity: 0 }).promise;
+  const lines: string[] = [];
+  try {
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+      const rows = new Map<number, Array<{ x: number; width: number; fontSize: number; text: string }>>();
+      for (const item of textContent.items) {
+        if ('str' in item && item.str.trim()) {
+          const [a = 0, b = 0, c = 0, d = 0, x = 0, baseline = 0] = item.transform as number[];
+          const y = Math.round(baseline);
+          const row = rows.get(y) || [];
+          row.push({ x, width: item.width, fontSize: Math.hypot(c, d) || Math.hypot(a, b) || 1, text: item.str });
+          rows.set(y, row);
+        }
+      }
+      // PDF coordinates grow upwards: top of the page first
+      for (const y of [...rows.keys()].sort((a, b) => b - a)) {
+        const parts = rows.get(y)!;
+        const ordered = readingColumns(parts, textDirection(parts.map(part => part.text).join(' ')), COLUMN_GAP_EM).flat();
+        // Items that touch are one word (PDFs that place every glyph separately)
+        const text = ordered.map((part, i) =>
+          i > 0 && horizontalGap(ordered[i - 1]!, part) <= WORD_GAP_EM * part.fontSize ? part.text : ` ${part.text}`).join('');
+        lines.push(text.replace(/\s+/g, ' ').trim());
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return lines;
+};
@@ -0,0 +1,101 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * EU TARIC adapter (10-digit Integrated Tariff of the European Union)
+ *
+ * Reads the TARIC3 XML extraction published by DG TAXUD: an envelope of records, each
+ * carrying one table row. The goods nomenclature is spread over several record types
+ * linked by goods.nomenclature.sid:
+ * - 400/00 goods.nomenclature: item id (10 digits) and product line suffix
+ * - 400/05 goods.nomenclature.indents: number of indents (dashes)
+ * - 400/15 goods.nomenclature.description: description per language
+ * - 400/20 footnote.association.goods.nomenclature: footnote references (e.g., "TN701")
+ * Only declarable nomenclature lines (suffix 80) are emitted; the other suffixes are
+ * intermediate grouping texts that share the code of a real line.
+ */
+
+import { decodeXmlEntities, taricLevel, type CustomsBookAdapter, type CustomsBookLine } from './customs-book-adapters.js';
+
+// Product line suffix of real nomenclature lines
+const DECLARABLE_SUFFIX = '80';
+
+// TARIC3 update type for deleted rows
+const UPDATE_TYPE_DELETE = '2';
+
+// Description language taken from the extraction
+const DESCRIPTION_LANGUAGE = 'EN';
+
+interface TaricItem {
+  itemId: string;
+  suffix: string;
+  indents: number;
+  description: string;
+  footnotes: string[];
+}
+
+// Text of a child element (namespace prefix optional)
+const element = (xml: string, name: string): string | null => {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name.replace(/\./g, '\\.')}>([\\s\\S]*?)</(?:\\w+:)?${name.replace(/\./g, '\\.')}>`));
+  return match ? decodeXmlEntities(match[1]!.trim()) : null;
+};
+
+// All <record> elements of the envelope
+const records = (xml: string): string[] => xml.match(/<(?:\w+:)?record>[\s\S]*?<\/(?:\w+:)?record>/g) || [];
+
+export const euTaricAdapter: CustomsBookAdapter = {
+  id: 'eu-taric',
+  country: 'EU',
+  name: 'EU TARIC',
+  format: 'xml',
+  sourceUrls: ['https://ec.europa.eu/taxation_customs/dds2/taric/xml/taric3_extraction.xml'],
+  *parse(content: Buffer): Iterable<CustomsBookLine> {
+    const items = new Map<string, TaricItem>();
+    const getItem = (sid: string): TaricItem => {
+      let item = items.get(sid);
+      if (!item) {
+        item = { itemId: '', suffix: '', indents: 0, description: '', footnotes: [] };
+        items.set(sid, item);
+      }
+      return item;
+    };
+
+    for (const record of records(content.toString('utf-8'))) {
+      const sid = element(record, 'goods.nomenclature.sid');
+      if (!sid) {
+        continue;
+      }
+      const recordCode = `${element(record, 'record.code')}/${element(record, 'subrecord.code')}`;
+      if (recordCode === '400/00') {
+        if (element(record, 'update.type') === UPDATE_TYPE_DELETE) {
+          items.delete(sid);
+          continue;
+        }
+        const item = getItem(sid);
+        item.itemId = element(record, 'goods.nomenclature.item.id') || '';
+        item.suffix = element(record, 'producline.suffix') || '';
+      } else if (recordCode === '400/05') {
+        getItem(sid).indents = parseInt(element(record, 'number.indents') || '0', 10);
+      } else if (recordCode === '400/15' && element(record, 'language.id') === DESCRIPTION_LANGUAGE) {
+        // Later description periods replace earlier ones
+        getItem(sid).description = (element(record, 'description') || '').replace(/\s+/g, ' ');
+      } else if (recordCode === '400/20') {
+        getItem(sid).footnotes.push(`${element(record, 'footnote.type') || ''}${element(record, 'footnote.id') || ''}`);
+      }
+    }
+
+    const declarable = [...items.values()]
+      .filter(item => item.itemId && item.suffix === DECLARABLE_SUFFIX)
+      .sort((a, b) => a.itemId.localeCompare(b.itemId));
+    for (const item of declarable) {
+      yield {
+        code: item.itemId,
+        checkDigit: null,
+        description: item.description,
+        level: taricLevel(item.itemId, item.indents),
+        notes: item.footnotes
+      };
+    }
+  }
+};
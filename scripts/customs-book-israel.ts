@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Israel adapters (Israel Tax Authority, 3 customs books)
+ *
+ * - il-customs-tariff: Customs Tariff and Exemptions Order (צו תעריף המכס והפטורים), CSV export
+ *   of the tariff (one row per customs item)
+ * - il-free-import-order: Free Import Order (צו יבוא חופשי), PDF
+ * - il-free-export-order: Free Export Order (צו יצוא חופשי), PDF
+ *
+ * Customs items are published with a check digit after a slash ("0101210000/5"); the check
+ * digit is kept separately (customs_books.customs_book_checksum_algorithm documents it).
+ * The books have no indentation data, so levels come from the code (see levelFromCode).
+ * There is no stable download URL for the books yet (see documents/11.0_CUSTOMS_DATA_DOWNLOAD.md),
+ * so `sourceUrls` is empty: the sources are saved exports passed with --source (or the book's
+ * data source URL when syncing), and reading a book without any fails with an error saying so.
+ */
+
+import {
+  codeDigits,
+  extractPdfLines,
+  levelFromCode,
+  parseCsv,
+  type CustomsBookAdapter,
+  type CustomsBookLine
+} from './customs-book-adapters.js';
+
+// Accepted CSV headers (English and Hebrew exports)
+const CODE_COLUMNS = ['CustomsItem', 'Customs Item', 'פרט מכס', 'פרט'];
+const DESCRIPTION_COLUMNS = ['Description', 'EnglishDescription', 'תיאור', 'תאור'];
+const NOTES_COLUMNS = ['Notes', 'הערות'];
+
+// Customs item at the start of a PDF line: "01.01.2100/5", "0101210000/5" or "01.01"; a dotted
+// item is printed with its check digit, so a date (01.01.2022) continues the text
+const PDF_ITEM_PATTERN = /^(\d{2}\.\d{2}\.\d{4}(?=\s*\/\s*\d)|\d{2}\.\d{2}|\d{10})(?![.\d])(?:\s*\/\s*(\d))?\s+(.+)$/;
+
+// Split a published customs item into digits and check digit
+const parseCustomsItem = (value: string): { code: string; checkDigit: string | null } => {
+  const [item, checkDigit] = value.split('/');
+  return { code: codeDigits(item || ''), checkDigit: checkDigit?.trim() || null };
+};
+
+// First column present in a CSV row
+const column = (row: Record<string, string>, names: string[]): string | undefined =>
+  names.map(name => row[name]).find(value => value !== undefined);
+
+// CSV books: one row per customs item
+function* parseCsvBook(content: Buffer, source: string): Iterable<CustomsBookLine> {
+  const rows = parseCsv(content.toString('utf-8'));
+  if (rows.length > 0 && column(rows[0]!, CODE_COLUMNS) === undefined) {
+    throw new Error(`No customs item column (${CODE_COLUMNS.join(', ')}) in ${source}`);
+  }
+  for (const row of rows) {
+    const { code, checkDigit } = parseCustomsItem(column(row, CODE_COLUMNS) || '');
+    if (!code) {
+      continue;
+    }
+    const notes = column(row, NOTES_COLUMNS);
+    yield {
+      code,
+      checkDigit,
+      description: (column(row, DESCRIPTION_COLUMNS) || '').replace(/\s+/g, ' '),
+      level: levelFromCode(code),
+      notes: notes ? [notes] : []
+    };
+  }
+}
+
+// PDF books: lines starting with a customs item; the lines up to the next item continue its text
+async function* parsePdfBook(content: Buffer): AsyncIterable<CustomsBookLine> {
+  let current: CustomsBookLine | null = null;
+  for (const line of await extractPdfLines(content)) {
+    const match = line.match(PDF_ITEM_PATTERN);
+    if (match) {
+      if (current) {
+        yield current;
+      }
+      const code = codeDigits(match[1]!);
+      current = { code, checkDigit: match[2] || null, description: match[3]!, level: levelFromCode(code), notes: [] };
+    } else if (current) {
+      current.description += ` ${line}`;
+    }
+  }
+  if (current) {
+    yield current;
+  }
+}
+
+export const israelCustomsTariffAdapter: CustomsBookAdapter = {
+  id: 'il-customs-tariff',
+  country: 'IL',
+  name: 'Israel Customs Tariff',
+  format: 'csv',
+  sourceUrls: [],
+  parse: parseCsvBook
+};
+
+export const israelFreeImportOrderAdapter: CustomsBookAdapter = {
+  id: 'il-free-import-order',
+  country: 'IL',
+  name: 'Israel Free Import Order',
+  format: 'pdf',
+  sourceUrls: [],
+  parse: parsePdfBook
+};
+
+export const israelFreeExportOrderAdapter: CustomsBookAdapter = {
+  id: 'il-free-export-order',
+  country: 'IL',
+  name: 'Israel Free Export Order',
+  format: 'pdf',
+  sourceUrls: [],
+  parse: parsePdfBook
+};
@@ -0,0 +1,282 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Customs book synchronization (Mehavizim)
+ *
+ * Keeps the customs books in the database in step with their official sources using the
+ * sync columns of `customs_books`:
+ * - a book is due when it is active and `customs_book_next_sync_scheduled_at` has passed
+ *   (or was never set); books stuck `in_progress` after a crashed run become due again
+ * - a due book is claimed (`in_progress`), downloaded with its adapter (customs-books.ts) and
+ *   the checksum of the normalized records is compared with `customs_book_sync_checksum`,
+ *   so a re-published source with the same content is not reported as a change
+ * - success: `success`, `_last_sync_time`, checksum and `_sync_metadata` updated, retries reset,
+ *   next sync one interval later
+ * - failure: logged to `error_logs`; retried with exponential backoff (`pending`) until
+ *   `customs_book_sync_max_retries`, then `failed` (critical error) until the next regular sync,
+ *   which starts the retries over
+ *
+ * Which adapter and sources a book uses: `customs_book_sync_metadata.adapter` / `.sources`, else the
+ * adapter with the book's country and name; sources default to `customs_book_data_source_url`
+ * and then the adapter's official URLs.
+ */
+
+import * as path from 'path';
+import type { Pool } from 'pg';
+import { downloadCustomsBook, RECORDS_FILENAME, type CustomsBookAdapter } from './customs-book-adapters.js';
+import { CUSTOMS_BOOK_ADAPTERS, getCustomsBookAdapter } from './customs-books.js';
+import type { TransportMode } from './http-transport.js';
+
+export type SyncStatus = 'never_synced' | 'pending' | 'in_progress' | 'success' | 'failed';
+
+export const ERROR_TYPE = 'customs_book_sync';
+
+/**
+ * The customs_books columns the sync works with
+ */
+export interface SyncBook {
+  id: number;
+  countryCode: string;
+  name: string;
+  version: string;
+  dataSourceUrl: string | null;
+  status: SyncStatus;
+  retryCount: number;
+  maxRetries: number;
+  checksum: string | null;
+  metadata: SyncMetadata;
+}
+
+/**
+ * customs_book_sync_metadata: configuration (adapter, sources, interval) and the last result
+ */
+export interface SyncMetadata {
+  adapter?: string; // Adapter id (default: matched by country and book name)
+  sources?: string[]; // Sources to read (default: data source URL, then the adapter's URLs)
+  syncIntervalDays?: number; // Overrides the default interval for this book
+  lastResult?: {
+    records: number;
+    changed: boolean;
+    recordsFile: string;
+    sources: Array<{ source: string; sha256: string; size: number }>;
+    durationMs: number;
+    syncedAt: string;
+  };
+  lastChangedAt?: string;
+  [key: string]: unknown;
+}
+
+export interface SyncOptions {
+  dataDir: string; // Records are written to {dataDir}/{adapter id}/records.jsonl
+  intervalDays: number; // Regular sync interval
+  retryBaseMinutes: number; // First retry delay, doubled per retry
+  staleAfterMinutes: number; // An in_progress claim older than this is taken over
+  transportMode: TransportMode;
+  fixturesDir?: string;
+}
+
+export type SyncOutcome =
+  | { book: SyncBook; status: 'success'; changed: boolean; records: number }
+  | { book: SyncBook; status: 'pending' | 'failed'; error: string; nextSyncAt: Date };
+
+/**
+ * Database access of the sync (see createPgSyncStore)
+ */
+export interface SyncStore {
+  /** Claim the next due book (sets it in_progress); null when nothing is due */
+  claimDueBook(staleAfterMinutes: number): Promise<SyncBook | null>;
+  recordSuccess(book: SyncBook, checksum: string, metadata: SyncMetadata, nextSyncAt: Date): Promise<void>;
+  recordFailure(book: SyncBook, status: 'pending' | 'failed', retryCount: number, message: string, nextSyncAt: Date): Promise<void>;
+  logError(type: string, message: string, stack: string | null, context: Record<string, unknown>, severity: 'error' | 'critical'): Promise<void>;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Columns of a claimed customs_books row (with the country code joined in)
+interface CustomsBookRow {
+  customs_book_id: number;
+  country_code: string;
+  customs_book_name: string;
+  customs_book_version: string;
+  customs_book_data_source_url: string | null;
+  customs_book_sync_status: SyncStatus | null;
+  customs_book_sync_retry_count: number | null;
+  customs_book_sync_max_retries: number | null;
+  customs_book_sync_checksum: string | null;
+  customs_book_sync_metadata: SyncMetadata | null;
+}
+
+// customs_books row -> SyncBook
+const toSyncBook = (row: CustomsBookRow): SyncBook => ({
+  id: row.customs_book_id,
+  countryCode: row.country_code,
+  name: row.customs_book_name,
+  version: row.customs_book_version,
+  dataSourceUrl: row.customs_book_data_source_url,
+  status: row.customs_book_sync_status ?? 'never_synced',
+  retryCount: row.customs_book_sync_retry_count ?? 0,
+  maxRetries: row.customs_book_sync_max_retries ?? 3,
+  checksum: row.customs_book_sync_checksum,
+  metadata: row.customs_book_sync_metadata || {}
+});
+
+/**
+ * PostgreSQL store: claims use FOR UPDATE SKIP LOCKED, so several sync services can run side by side
+ */
+export const createPgSyncStore = (pool: Pool): SyncStore => ({
+  claimDueBook: async (staleAfterMinutes) => {
+    const result = await pool.query<CustomsBookRow>(
+      `UPDATE customs_books cb
+          SET customs_book_sync_status = 'in_progress',
+              customs_book_last_sync_attempt_time = NOW()
+         FROM countries c
+        WHERE c.country_id = cb.customs_book_country_fk
+          AND cb.customs_book_id = (
+            SELECT customs_book_id FROM customs_books
+             WHERE customs_book_is_active = true
+               AND (customs_book_next_sync_scheduled_at IS NULL OR customs_book_next_sync_scheduled_at <= NOW())
+               AND (customs_book_sync_status IS DISTINCT FROM 'in_progress'
+                    OR customs_book_last_sync_attempt_time < NOW() - $1 * INTERVAL '1 minute')
+             ORDER BY customs_book_next_sync_scheduled_at NULLS FIRST, customs_book_id
+             LIMIT 1
+             FOR UPDATE SKIP LOCKED)
+        RETURNING cb.*, c.country_code`,
+      [staleAfterMinutes]
+    );
+    return result.rows[0] ? toSyncBook(result.rows[0]) : null;
+  },
+  recordSuccess: async (book, checksum, metadata, nextSyncAt) => {
+    await pool.query(
+      `UPDATE customs_books
+          SET customs_book_sync_status = 'success',
+              customs_book_last_sync_time = NOW(),
+              customs_book_next_sync_scheduled_at = $2,
+              customs_book_sync_error_message = NULL,
+              customs_book_sync_retry_count = 0,
+              customs_book_sync_checksum = $3,
+              customs_book_sync_metadata = $4
+        WHERE customs_book_id = $1`,
+      [book.id, nextSyncAt, checksum, JSON.stringify(metadata)]
+    );
+  },
+  recordFailure: async (book, status, retryCount, message, nextSyncAt) => {
+    await pool.query(
+      `UPDATE customs_books
+          SET customs_book_sync_status = $2,
+              customs_book_sync_retry_count = $3,
+              customs_book_sync_error_message = $4,
+              customs_book_next_sync_scheduled_at = $5
+        WHERE customs_book_id = $1`,
+      [book.id, status, retryCount, message, nextSyncAt]
+    );
+  },
+  logError: async (type, message, stack, context, severity) => {
+    await pool.query(
+      `INSERT INTO error_logs (error_log_error_type, error_log_error_message, error_log_stack_trace, error_log_context, error_log_severity)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [type, message, stack, JSON.stringify(context), severity]
+    );
+  }
+});
+
+/**
+ * Adapter for a book: the one named in its sync metadata, else the one with the same country and name
+ */
+export const resolveAdapter = (book: SyncBook): CustomsBookAdapter => {
+  if (book.metadata.adapter) {
+    return getCustomsBookAdapter(book.metadata.adapter);
+  }
+  const adapter = CUSTOMS_BOOK_ADAPTERS.find(a => a.country === book.countryCode && a.name === book.name);
+  if (!adapter) {
+    throw new Error(`No adapter for customs book "${book.name}" (${book.countryCode}); set customs_book_sync_metadata.adapter`);
+  }
+  return adapter;
+};
+
+/**
+ * Delay before retry number `retry` (1-based): base, 2 x base, 4 x base, ... capped at the regular interval
+ */
+export const getRetryDelayMs = (retry: number, options: Pick<SyncOptions, 'retryBaseMinutes' | 'intervalDays'>): number =>
+  Math.min(options.retryBaseMinutes * MS_PER_MINUTE * 2 ** Math.max(0, retry - 1), options.intervalDays * MS_PER_DAY);
+
+/**
+ * Sync one claimed book and record the outcome
+ */
+export const syncBook = async (store: SyncStore, book: SyncBook, options: SyncOptions): Promise<SyncOutcome> => {
+  const startedAt = Date.now();
+  const intervalDays = book.metadata.syncIntervalDays ?? options.intervalDays;
+  let adapterId: string | null = null;
+  try {
+    const adapter = resolveAdapter(book);
+    adapterId = adapter.id;
+    const sources = book.metadata.sources?.length ? book.metadata.sources
+      : book.dataSourceUrl ? [book.dataSourceUrl]
+      : adapter.sourceUrls;
+    const outputDir = path.join(options.dataDir, adapter.id);
+    const download = await downloadCustomsBook(adapter, outputDir, sources, options.transportMode, options.fixturesDir);
+
+    const changed = download.recordsSha256 !== book.checksum;
+    const now = new Date();
+    const metadata: SyncMetadata = {
+      ...book.metadata,
+      lastResult: {
+        records: download.records,
+        changed,
+        recordsFile: path.join(outputDir, RECORDS_FILENAME),
+        sources: download.sources,
+        durationMs: Date.now() - startedAt,
+        syncedAt: now.toISOString()
+      },
+      ...(changed ? { lastChangedAt: now.toISOString() } : {})
+    };
+    await store.recordSuccess(book, download.recordsSha256, metadata, new Date(now.getTime() + intervalDays * MS_PER_DAY));
+    return { book, status: 'success', changed, records: download.records };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // A book out of retries is claimed again at its next regular sync: its retries start over
+    const retryCount = (book.retryCount > book.maxRetries ? 0 : book.retryCount) + 1;
+    const exhausted = retryCount > book.maxRetries;
+    // Out of retries: wait for the next regular sync (and alert)
+    const delay = exhausted ? intervalDays * MS_PER_DAY : getRetryDelayMs(retryCount, { ...options, intervalDays });
+    const nextSyncAt = new Date(Date.now() + delay);
+    const status = exhausted ? 'failed' : 'pending';
+    // If this throws too (database gone), the book stays in_progress until the stale takeover
+    await store.recordFailure(book, status, retryCount, message, nextSyncAt);
+    await store.logError(
+      ERROR_TYPE,
+      `Sync of customs book "${book.name}" ${book.version} failed: ${message}`,
+      error instanceof Error ? error.stack || null : null,
+      { customsBookId: book.id, adapter: adapterId, attempt: retryCount, maxRetries: book.maxRetries, status, nextSyncAt: nextSyncAt.toISOString() },
+      exhausted ? 'critical' : 'error'
+    );
+    return { book, status, error: message, nextSyncAt };
+  }
+};
+
+/**
+ * Sync every book that is due now, one at a time
+ *
+ * @param onOutcome - Called after each book, so a pass that throws has still reported the books it synced
+ * @param shouldStop - Checked between books (graceful shutdown)
+ */
+export const runSyncPass = async (
+  store: SyncStore,
+  options: SyncOptions,
+  onOutcome: (outcome: SyncOutcome) => void = () => undefined,
+  shouldStop: () => boolean = () => false
+): Promise<SyncOutcome[]> => {
+  const outcomes: SyncOutcome[] = [];
+  while (!shouldStop()) {
+    const book = await store.claimDueBook(options.staleAfterMinutes);
+    if (!book) {
+      break;
+    }
+    const outcome = await syncBook(store, book, options);
+    outcomes.push(outcome);
+    onOutcome(outcome);
+  }
+  return outcomes;
+};
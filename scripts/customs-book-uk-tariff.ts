@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * UK Trade Tariff adapter (10-digit UK Global Tariff, HMRC)
+ *
+ * Reads the Trade Tariff API (JSON:API documents). The goods nomenclature of each section
+ * comes from /api/v2/goods_nomenclatures/section/{n}; a saved heading or chapter response
+ * (/api/v2/headings/0101) works too, its commodities are in `included`.
+ * Like TARIC, only declarable lines (product line suffix 80) are emitted.
+ */
+
+import { taricLevel, type CustomsBookAdapter, type CustomsBookLine } from './customs-book-adapters.js';
+
+const API_BASE_URL = 'https://www.trade-tariff.service.gov.uk/api/v2';
+const SECTION_COUNT = 21;
+
+// Product line suffix of real nomenclature lines
+const DECLARABLE_SUFFIX = '80';
+
+interface JsonApiResource {
+  type?: string;
+  attributes?: {
+    goods_nomenclature_item_id?: string;
+    producline_suffix?: string;
+    number_indents?: number;
+    description?: string;
+    formatted_description?: string;
+    footnotes?: Array<{ code?: string; description?: string }>;
+  };
+}
+
+export const ukTariffAdapter: CustomsBookAdapter = {
+  id: 'uk-tariff',
+  country: 'GB',
+  name: 'UK Trade Tariff',
+  format: 'json',
+  sourceUrls: Array.from({ length: SECTION_COUNT }, (_, i) => `${API_BASE_URL}/goods_nomenclatures/section/${i + 1}`),
+  *parse(content: Buffer, source: string): Iterable<CustomsBookLine> {
+    const document = JSON.parse(content.toString('utf-8')) as { data?: JsonApiResource | JsonApiResource[]; included?: JsonApiResource[] };
+    if (!document.data) {
+      throw new Error(`Not a Trade Tariff API document (no "data"): ${source}`);
+    }
+    const resources = [...(Array.isArray(document.data) ? document.data : [document.data]), ...(document.included || [])];
+
+    // One line per item id (a heading document lists the heading in data and may repeat it in included)
+    const lines = new Map<string, CustomsBookLine>();
+    for (const resource of resources) {
+      const attributes = resource.attributes;
+      const itemId = attributes?.goods_nomenclature_item_id;
+      if (!itemId || (attributes.producline_suffix || DECLARABLE_SUFFIX) !== DECLARABLE_SUFFIX || lines.has(itemId)) {
+        continue;
+      }
+      lines.set(itemId, {
+        code: itemId,
+        checkDigit: null,
+        description: (attributes.description || attributes.formatted_description || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim(),
+        level: taricLevel(itemId, attributes.number_indents || 0),
+        notes: (attributes.footnotes || []).map(footnote => [footnote.code, footnote.description].filter(Boolean).join(': '))
+      });
+    }
+    yield* [...lines.values()].sort((a, b) => a.code.localeCompare(b.code));
+  }
+};
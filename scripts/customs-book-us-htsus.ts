@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * USA HTSUS adapter (10-digit Harmonized Tariff Schedule of the United States, USITC)
+ *
+ * Reads the USITC HTS JSON export (hts.usitc.gov "Export" as JSON): one object per line of
+ * the schedule, in schedule order, with the HTS number ("0101.21.00.10"), indent, description
+ * and footnotes. Lines without a number are grouping texts ("Horses:") and are not emitted;
+ * the numbered lines below them keep their own indent, so levels stay comparable.
+ */
+
+import { codeDigits, type CustomsBookAdapter, type CustomsBookLine } from './customs-book-adapters.js';
+
+interface HtsLine {
+  htsno?: string;
+  indent?: string | number;
+  description?: string;
+  footnotes?: Array<{ value?: string }>;
+}
+
+export const usHtsusAdapter: CustomsBookAdapter = {
+  id: 'us-htsus',
+  country: 'US',
+  name: 'USA HTSUS',
+  format: 'json',
+  sourceUrls: ['https://hts.usitc.gov/reststop/exportList?from=0100&to=9999&format=JSON&styles=false'],
+  *parse(content: Buffer, source: string): Iterable<CustomsBookLine> {
+    const lines = JSON.parse(content.toString('utf-8')) as HtsLine[];
+    if (!Array.isArray(lines)) {
+      throw new Error(`Not an HTS JSON export (expected an array): ${source}`);
+    }
+    for (const line of lines) {
+      const code = codeDigits(line.htsno || '');
+      if (!code) {
+        continue;
+      }
+      // Headings (4 digits) have indent 0; chapters are not part of the export
+      yield {
+        code,
+        checkDigit: null,
+        description: (line.description || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim(),
+        level: parseInt(String(line.indent ?? '0'), 10) + 1,
+        notes: (line.footnotes || []).map(footnote => (footnote.value || '').trim()).filter(Boolean)
+      };
+    }
+  }
+};
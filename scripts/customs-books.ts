@@ -0,0 +1,39 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Registry of customs book adapters (see customs-book-adapters.ts)
+ *
+ * To add a country: write a customs-book-{country}.ts adapter and list it here.
+ */
+
+import type { CustomsBookAdapter } from './customs-book-adapters.js';
+import { euTaricAdapter } from './customs-book-eu-taric.js';
+import { ukTariffAdapter } from './customs-book-uk-tariff.js';
+import { usHtsusAdapter } from './customs-book-us-htsus.js';
+import {
+  israelCustomsTariffAdapter,
+  israelFreeImportOrderAdapter,
+  israelFreeExportOrderAdapter
+} from './customs-book-israel.js';
+
+export const CUSTOMS_BOOK_ADAPTERS: CustomsBookAdapter[] = [
+  israelCustomsTariffAdapter,
+  israelFreeImportOrderAdapter,
+  israelFreeExportOrderAdapter,
+  euTaricAdapter,
+  ukTariffAdapter,
+  usHtsusAdapter
+];
+
+/**
+ * Find an adapter by id (e.g., "il-customs-tariff")
+ */
+export const getCustomsBookAdapter = (id: string): CustomsBookAdapter => {
+  const adapter = CUSTOMS_BOOK_ADAPTERS.find(a => a.id === id);
+  if (!adapter) {
+    throw new Error(`Unknown customs book: ${id}. Available: ${CUSTOMS_BOOK_ADAPTERS.map(a => a.id).join(', ')}`);
+  }
+  return adapter;
+};
@@ -0,0 +1,651 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Download core shared by download-wco-pdfs.ts and download-wco-pdfs-browser.ts
+ *
+ * One implementation of headers, redirect following, PDF validation, 404 semantics,
+ * retries, resume (download-journal.ts), check-existing/skip-existing and manifest recording. The scripts differ
+ * only in how they obtain a session (SessionProvider):
+ * - HTTP provider: visits the edition page first and keeps a cookie jar from Set-Cookie headers
+ * - Browser provider: takes the cookies of the Puppeteer page that discovered the PDFs
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import { createWriteStream, existsSync, statSync, unlinkSync } from 'fs';
+import { createHash } from 'crypto';
+import type { Page } from 'puppeteer';
+import { getBrowserHeaders as getBrowserHeadersBase } from './shared-utils.js';
+import { saveManifest, recordDownload, recordNotModified, getValidatorsForLocalFile, type ConditionalValidators, type DownloadManifest } from './download-manifest.js';
+import { isThrottleStatus, type RateLimiter } from './download-engine.js';
+import type { Transport } from './http-transport.js';
+import type { DownloadJournal } from './download-journal.js';
+import { verifyPdf, quarantineFile, isRetryableIssue, QUARANTINE_DIR } from './pdf-integrity.js';
+
+export const DEFAULT_RETRIES = 3;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Realistic Chrome browser headers
+const CHROME_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+];
+
+// User agent of the Puppeteer page (kept identical so the PDF requests match the browsing session)
+const BROWSER_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * Options both download CLIs accept
+ */
+export interface CommonDownloadOptions {
+  retries: number;
+  resume: boolean;
+  dryRun: boolean;
+  verbose: boolean;
+  checkExisting: boolean; // Check if files exist and skip if unchanged (uses conditional requests)
+  skipExisting: boolean; // Skip files that already exist locally (no request, faster)
+}
+
+/**
+ * Source of request headers and cookies for downloads
+ */
+export interface SessionProvider {
+  name: string;
+  /** Prepare the session (e.g., visit the landing page); returns the referer for downloads */
+  establish(): Promise<string>;
+  /** Headers for a download request */
+  getHeaders(referer: string): Promise<Record<string, string>>;
+  /** Observe every response (e.g., collect Set-Cookie) */
+  onResponse(response: http.IncomingMessage): void;
+  /** Current cookies, for debug output */
+  cookies(): string;
+}
+
+/**
+ * Why a download failed - lets reports and exit codes tell a block from a missing file
+ */
+export type DownloadErrorClass =
+  | 'not-found' // 404, or redirected to an error page
+  | 'rate-limited' // 429
+  | 'blocked' // 403, or an HTML block page instead of the PDF
+  | 'invalid-content' // 200 but not a PDF
+  | 'corrupt' // A PDF that fails the integrity check (truncated, unparsable, wrong heading), quarantined
+  | 'redirect' // Too many redirects / redirect without location
+  | 'http-error' // Any other non-200 status
+  | 'network'; // Connection errors, I/O errors
+
+export interface DownloadResult {
+  success: boolean;
+  status?: number;
+  error?: string;
+  errorClass?: DownloadErrorClass;
+  attempts?: number; // Requests made for this file, excluding redirect hops (1 = no retries)
+  size?: number;
+  notModified?: boolean; // Server answered 304 to a conditional request
+  sha256?: string;
+  etag?: string | null;
+  lastModified?: string | null;
+  finalUrl?: string; // URL after following redirects
+}
+
+export interface DownloadFileOptions {
+  transport: Transport;
+  session: SessionProvider;
+  referer: string;
+  retries?: number;
+  maxRedirects?: number;
+  verbose?: boolean;
+  validators?: ConditionalValidators | null;
+  limiter?: RateLimiter;
+}
+
+/**
+ * Everything a download run needs, shared by all items
+ */
+export interface DownloadContext {
+  tool: string; // Script name, recorded in the journal
+  options: CommonDownloadOptions;
+  outputDir: string;
+  manifest: DownloadManifest;
+  transport: Transport;
+  session: SessionProvider;
+  limiter: RateLimiter;
+  referer: string;
+  journal: DownloadJournal;
+}
+
+export type DownloadOutcome =
+  | 'downloaded'
+  | 'not-modified' // 304 for a conditional request
+  | 'skipped-existing' // --skip-existing and the file is on disk
+  | 'resumed' // Completed in a previous run (journal) and intact on disk, not requested
+  | 'dry-run'
+  | 'not-found' // 404 - the caller decides whether that is expected
+  | 'failed';
+
+export interface DownloadItemResult {
+  outcome: DownloadOutcome;
+  status?: number;
+  size?: number;
+  sha256?: string;
+  attempts?: number;
+  durationMs: number;
+  error?: string;
+  errorClass?: DownloadErrorClass;
+}
+
+/**
+ * HTTP session: visits the edition landing page first (like a regular browser)
+ * and keeps the cookies the site sets
+ */
+export const createHttpSession = (landingUrl: string, transport: Transport, verbose: boolean = false): SessionProvider => {
+  let cookieJar = '';
+
+  // Get realistic browser headers (with cookies and referer if available), random user agent
+  const getHeaders = (referer?: string): Record<string, string> => {
+    const userAgent = CHROME_USER_AGENTS[Math.floor(Math.random() * CHROME_USER_AGENTS.length)]!;
+    const headers = getBrowserHeadersBase(referer, cookieJar || undefined, userAgent);
+    headers['DNT'] = '1';
+    headers['Sec-Fetch-User'] = '?1';
+    headers['Accept'] = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7';
+    return headers;
+  };
+
+  // Extract cookies from Set-Cookie headers
+  const onResponse = (response: http.IncomingMessage): void => {
+    const setCookieHeaders = response.headers['set-cookie'];
+    if (setCookieHeaders) {
+      const cookies = setCookieHeaders
+        .map(cookieHeader => cookieHeader.split(';')[0]?.trim()) // name=value before the attributes
+        .filter((cookie): cookie is string => !!cookie);
+      if (cookies.length > 0) {
+        cookieJar = cookies.join('; ');
+      }
+    }
+  };
+
+  // Visit the landing page to establish the session; any failure still returns it as referer
+  const establish = (): Promise<string> => {
+    if (verbose) {
+      console.log('[DEBUG] Establishing browser session...');
+      console.log(`[DEBUG] Visiting main page: ${landingUrl}`);
+    }
+    return new Promise((resolve) => {
+      const headers = getHeaders();
+      delete headers['Cookie'];
+      const req = transport.request(landingUrl, { headers, method: 'GET' }, (response) => {
+        onResponse(response);
+        response.resume();
+        response.on('end', () => {
+          if (verbose) {
+            console.log(`[DEBUG] Session established: ${response.statusCode}`);
+            console.log(`[DEBUG] Cookies received: ${cookieJar || 'none'}`);
+          }
+          resolve(landingUrl);
+        });
+      });
+      req.on('error', (error) => {
+        if (verbose) {
+          console.log(`[DEBUG] Session establishment error: ${error.message}`);
+        }
+        resolve(landingUrl);
+      });
+      req.setTimeout(10000, () => {
+        req.destroy();
+        if (verbose) {
+          console.log('[DEBUG] Session establishment timeout');
+        }
+        resolve(landingUrl);
+      });
+      req.end();
+    });
+  };
+
+  return {
+    name: 'http',
+    establish,
+    getHeaders: async (referer) => getHeaders(referer),
+    onResponse,
+    cookies: () => cookieJar
+  };
+};
+
+/**
+ * Browser session: downloads carry the cookies of the Puppeteer page
+ */
+export const createBrowserSession = (page: Page): SessionProvider => {
+  let cookieString = '';
+  return {
+    name: 'browser',
+    establish: async () => page.url(),
+    getHeaders: async (referer) => {
+      const cookies = await page.cookies();
+      cookieString = cookies.map(c => `${c.name}=${c.value}`).join('; ');
+      return {
+        'User-Agent': BROWSER_USER_AGENT,
+        'Accept': 'application/pdf,*/*',
+        'Cookie': cookieString,
+        'Referer': referer
+      };
+    },
+    onResponse: () => undefined,
+    cookies: () => cookieString
+  };
+};
+
+// Resolve a redirect Location header against the current URL
+const resolveRedirect = (location: string, currentUrl: string): string => {
+  if (location.startsWith('http://') || location.startsWith('https://')) {
+    return location;
+  }
+  if (location.startsWith('//')) {
+    return `${currentUrl.split('://')[0]}://${location.substring(2)}`;
+  }
+  const urlObj = new URL(currentUrl);
+  if (location.startsWith('/')) {
+    return `${urlObj.protocol}//${urlObj.host}${location}`;
+  }
+  const basePath = urlObj.pathname.substring(0, urlObj.pathname.lastIndexOf('/'));
+  return `${urlObj.protocol}//${urlObj.host}${basePath}/${location}`;
+};
+
+/**
+ * Classify a failed download result
+ */
+export const classifyDownloadError = (result: Pick<DownloadResult, 'status' | 'error'>): DownloadErrorClass => {
+  if (result.status === 404) {
+    return 'not-found';
+  }
+  if (result.status === 429) {
+    return 'rate-limited';
+  }
+  if (result.status === 403 || result.error?.startsWith('Blocked')) {
+    return 'blocked';
+  }
+  if (result.error?.startsWith('Integrity check failed')) {
+    return 'corrupt';
+  }
+  if (result.status === 200) {
+    return 'invalid-content';
+  }
+  if (!result.status || (result.status >= 300 && result.status < 400)) {
+    return 'redirect';
+  }
+  return 'http-error';
+};
+
+/**
+ * Check that a downloaded file is a PDF (starts with %PDF)
+ * Returns an error message for HTML error/block pages and other content, null if valid
+ */
+export const checkPdfContent = async (filePath: string): Promise<string | null> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(1024);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const preview = buffer.toString('utf8', 0, bytesRead);
+    if (preview.startsWith('%PDF')) {
+      return null;
+    }
+    if (preview.includes('<html') || preview.includes('<!DOCTYPE')) {
+      const lower = preview.toLowerCase();
+      return lower.includes('blocked') || lower.includes('access denied')
+        ? 'Blocked/Forbidden (received HTML block page instead of PDF)'
+        : 'Invalid PDF content (received HTML instead of PDF)';
+    }
+    return `Invalid PDF content (does not start with %PDF): ${preview.substring(0, 100)}`;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Download a file with redirect handling and retries
+ * Writes to a temporary ".part" file and only replaces outputPath once the body is complete
+ * and passes the integrity check (pdf-integrity.ts), so a 304, a block page, a truncated PDF or a
+ * failed transfer never clobbers the local copy. PDFs that fail the check are quarantined.
+ * When validators are given, sends If-None-Match/If-Modified-Since and reports 304 as notModified.
+ * Every request (including retries and redirect hops) takes a token from the shared rate limiter.
+ */
+export const downloadFile = (url: string, outputPath: string, options: DownloadFileOptions): Promise<DownloadResult> => {
+  const { transport, session, limiter, validators } = options;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const verbose = options.verbose || false;
+
+  return new Promise((settle, reject) => {
+    const partPath = `${outputPath}.part`;
+    let attempts = 0;
+
+    // Every result carries the number of attempts and, for failures, the error class
+    const resolve = (result: DownloadResult): void => {
+      settle({
+        ...result,
+        attempts,
+        errorClass: result.success ? undefined : classifyDownloadError(result)
+      });
+    };
+
+    const removePartFile = (): void => {
+      if (existsSync(partPath)) {
+        try {
+          unlinkSync(partPath);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    };
+
+    const attemptDownload = async (attempt: number = 1, currentUrl: string = url, redirectCount: number = 0, previousUrl?: string): Promise<void> => {
+      // Prevent infinite redirect loops
+      if (redirectCount >= maxRedirects) {
+        resolve({ success: false, status: 0, error: 'Too many redirects' });
+        return;
+      }
+      attempts = Math.max(attempts, attempt);
+
+      if (limiter) {
+        await limiter.acquire(currentUrl);
+      }
+
+      // Use previous URL as referer if available (for redirects), otherwise use the session referer
+      const referer = previousUrl || options.referer;
+      const headers = await session.getHeaders(referer);
+      if (validators?.etag) {
+        headers['If-None-Match'] = validators.etag;
+      }
+      if (validators?.lastModified) {
+        headers['If-Modified-Since'] = validators.lastModified;
+      }
+
+      if (verbose) {
+        console.log(`\n[DEBUG] Request #${attempt} (redirect: ${redirectCount}):`);
+        console.log(`  URL: ${currentUrl}`);
+        console.log(`  Referer: ${referer}`);
+        console.log(`  Headers:`, JSON.stringify(headers, null, 2));
+      }
+
+      // Schedule a retry with linear backoff; false when attempts are exhausted
+      const retry = (): boolean => {
+        if (attempt >= retries) {
+          return false;
+        }
+        console.log(`  Retrying... (${attempt}/${retries})`);
+        setTimeout(() => attemptDownload(attempt + 1, currentUrl, redirectCount, previousUrl).catch(reject), 1000 * attempt);
+        return true;
+      };
+
+      transport.get(currentUrl, { headers }, (response) => {
+        session.onResponse(response);
+
+        if (verbose) {
+          console.log(`\n[DEBUG] Response:`);
+          console.log(`  Status: ${response.statusCode} ${response.statusMessage}`);
+          console.log(`  Headers:`, JSON.stringify(response.headers, null, 2));
+          if (session.cookies()) {
+            console.log(`  [DEBUG] Current cookies: ${session.cookies()}`);
+          }
+        }
+
+        // Handle redirects (301, 302, 303, 307, 308)
+        if (response.statusCode === 301 || response.statusCode === 302 || response.statusCode === 303 ||
+            response.statusCode === 307 || response.statusCode === 308) {
+          // Consume response body to prevent hanging
+          response.resume();
+
+          const location = response.headers.location;
+          if (!location) {
+            resolve({ success: false, status: response.statusCode || 302, error: `HTTP ${response.statusCode || 302} - No redirect location` });
+            return;
+          }
+
+          // Check if redirect is to an error page - treat as 404
+          if (location.includes('/error') || location.includes('404')) {
+            if (verbose) {
+              console.log(`  [DEBUG] Redirect to error page detected, treating as 404`);
+            }
+            resolve({ success: false, status: 404, error: 'Not Found (redirected to error page)' });
+            return;
+          }
+
+          const redirectUrl = resolveRedirect(location, currentUrl);
+          if (verbose) {
+            console.log(`  [DEBUG] Redirect detected: ${response.statusCode}`);
+            console.log(`  [DEBUG] Location header: ${location}`);
+            console.log(`  [DEBUG] Following redirect to: ${redirectUrl}`);
+          }
+
+          attemptDownload(attempt, redirectUrl, redirectCount + 1, currentUrl).catch(reject);
+          return;
+        }
+
+        if (limiter && !isThrottleStatus(response.statusCode)) {
+          limiter.reward(currentUrl);
+        }
+
+        if (response.statusCode === 304) {
+          response.resume();
+          resolve({ success: true, status: 304, notModified: true, finalUrl: currentUrl });
+          return;
+        }
+
+        if (response.statusCode === 404) {
+          response.resume();
+          resolve({ success: false, status: 404, error: 'Not Found' });
+          return;
+        }
+
+        if (response.statusCode !== 200) {
+          response.resume();
+          if (verbose) {
+            console.log(`  [DEBUG] Non-200 status code: ${response.statusCode}`);
+          }
+          // Throttled/blocked: pause the whole host, the retry waits for the limiter instead of a fixed delay
+          if (limiter && isThrottleStatus(response.statusCode)) {
+            const backoff = limiter.penalize(currentUrl, response.statusCode!, response.headers['retry-after']);
+            if (attempt < retries) {
+              console.log(`  HTTP ${response.statusCode} - backing off ${Math.round(backoff / 1000)}s, retrying... (${attempt}/${retries})`);
+              attemptDownload(attempt + 1, currentUrl, redirectCount, previousUrl).catch(reject);
+              return;
+            }
+          }
+          if (retry()) {
+            return;
+          }
+          const error = response.statusCode === 403
+            ? 'Access forbidden (403) - may be blocked'
+            : response.statusCode === 429
+              ? 'Rate limited (429) - too many requests'
+              : `HTTP ${response.statusCode}`;
+          resolve({ success: false, status: response.statusCode, error });
+          return;
+        }
+
+        const file = createWriteStream(partPath);
+        const hash = createHash('sha256');
+        response.on('data', (chunk: Buffer) => hash.update(chunk));
+        response.pipe(file);
+
+        file.on('finish', () => {
+          file.close(async () => {
+            try {
+              const contentError = await checkPdfContent(partPath);
+              if (contentError) {
+                removePartFile();
+                resolve({ success: false, status: 200, error: contentError });
+                return;
+              }
+              const integrity = await verifyPdf(partPath, path.basename(outputPath));
+              if (!integrity.ok) {
+                await quarantineFile(partPath, path.dirname(outputPath), path.basename(outputPath), integrity, currentUrl);
+                console.log(`  ⚠️  ${path.basename(outputPath)} - ${integrity.reason}, moved to ${QUARANTINE_DIR}/`);
+                // A truncated or unparsable transfer may succeed next time; a wrong file will not
+                if (isRetryableIssue(integrity.issue) && retry()) {
+                  return;
+                }
+                resolve({ success: false, status: 200, error: `Integrity check failed: ${integrity.reason}` });
+                return;
+              }
+              const size = statSync(partPath).size;
+              await fs.rename(partPath, outputPath);
+              resolve({
+                success: true,
+                status: 200,
+                size,
+                sha256: hash.digest('hex'),
+                etag: typeof response.headers.etag === 'string' ? response.headers.etag : null,
+                lastModified: response.headers['last-modified'] || null,
+                finalUrl: currentUrl
+              });
+            } catch (error) {
+              removePartFile();
+              reject(error);
+            }
+          });
+        });
+
+        file.on('error', (error) => {
+          removePartFile();
+          reject(error);
+        });
+      }).on('error', (error: Error) => {
+        removePartFile();
+        if (verbose) {
+          console.log(`  [DEBUG] Request error:`, error.message);
+          console.log(`  [DEBUG] Error stack:`, error.stack);
+        }
+        if (retry()) {
+          return;
+        }
+        reject(error);
+      });
+    };
+
+    attemptDownload().catch(reject);
+  });
+};
+
+/**
+ * Check if a file exists
+ */
+export const fileExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Download a single PDF and record its provenance in the manifest
+ * Uses a conditional request when the local copy still matches the manifest entry
+ */
+export const fetchAndRecord = async (ctx: DownloadContext, url: string, filename: string, outputPath: string): Promise<DownloadResult> => {
+  const validators = ctx.options.checkExisting && await fileExists(outputPath)
+    ? await getValidatorsForLocalFile(ctx.manifest, filename, outputPath)
+    : null;
+
+  const result = await downloadFile(url, outputPath, {
+    transport: ctx.transport,
+    session: ctx.session,
+    referer: ctx.referer,
+    retries: ctx.options.retries,
+    verbose: ctx.options.verbose,
+    validators,
+    limiter: ctx.limiter
+  });
+
+  if (result.notModified) {
+    recordNotModified(ctx.manifest, filename);
+    await saveManifest(ctx.outputDir, ctx.manifest);
+  } else if (result.success) {
+    recordDownload(ctx.manifest, {
+      filename,
+      url: result.finalUrl || url,
+      sha256: result.sha256 || '',
+      etag: result.etag ?? null,
+      lastModified: result.lastModified ?? null,
+      size: result.size || 0,
+      httpStatus: result.status || 200
+    });
+    await saveManifest(ctx.outputDir, ctx.manifest);
+  }
+
+  return result;
+};
+
+/**
+ * Download one file with the shared skip/resume/dry-run/check-existing semantics
+ * and append the outcome to the resume journal. Never throws: errors are reported as a 'failed' outcome.
+ *
+ * @param notFoundExpected - A 404 is a normal result for this file (so --resume need not retry it)
+ */
+export const downloadItem = async (ctx: DownloadContext, url: string, filename: string, outputPath: string, notFoundExpected: boolean = false): Promise<DownloadItemResult> => {
+  const startedAt = Date.now();
+  if (ctx.options.resume) {
+    const state = await ctx.journal.check(filename, outputPath, notFoundExpected);
+    if (state === 'completed') {
+      return { outcome: 'resumed', durationMs: Date.now() - startedAt };
+    }
+    if (state === 'truncated') {
+      console.log(`  ⚠️  ${filename} - local copy is missing, truncated or modified since the last run, downloading again`);
+    }
+  }
+
+  // Skip if file exists (simple check, no request)
+  if (ctx.options.skipExisting && !ctx.options.dryRun && await fileExists(outputPath)) {
+    return { outcome: 'skipped-existing', durationMs: Date.now() - startedAt };
+  }
+
+  if (ctx.options.dryRun) {
+    return { outcome: 'dry-run', durationMs: 0 };
+  }
+
+  const itemResult = await fetchItem(ctx, url, filename, outputPath, startedAt);
+  await ctx.journal.append({
+    tool: ctx.tool,
+    url,
+    filename,
+    outcome: itemResult.outcome,
+    status: itemResult.status ?? null,
+    size: itemResult.size ?? null,
+    sha256: itemResult.sha256 ?? null,
+    errorClass: itemResult.errorClass ?? null,
+    error: itemResult.error ?? null
+  });
+  return itemResult;
+};
+
+// Request one file and map the download result to an item outcome
+const fetchItem = async (ctx: DownloadContext, url: string, filename: string, outputPath: string, startedAt: number): Promise<DownloadItemResult> => {
+  try {
+    const result = await fetchAndRecord(ctx, url, filename, outputPath);
+    const details = { status: result.status, attempts: result.attempts, durationMs: Date.now() - startedAt };
+    if (result.notModified) {
+      // The local copy is the recorded one (validators are only sent when it matches the manifest)
+      const entry = ctx.manifest.files[filename];
+      return { outcome: 'not-modified', size: entry?.size, sha256: entry?.sha256, ...details };
+    }
+    if (result.success) {
+      return { outcome: 'downloaded', size: result.size, sha256: result.sha256, ...details };
+    }
+    if (result.status === 404) {
+      return { outcome: 'not-found', error: result.error, errorClass: 'not-found', ...details };
+    }
+    return { outcome: 'failed', error: result.error || 'Unknown error', errorClass: result.errorClass, ...details };
+  } catch (error) {
+    return {
+      outcome: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      errorClass: 'network',
+      durationMs: Date.now() - startedAt
+    };
+  }
+};
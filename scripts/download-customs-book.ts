@@ -0,0 +1,164 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * Customs Book Download Script
+ *
+ * Fetches a country customs book from its official source (or reads a saved copy) and
+ * normalizes it with the book's adapter (see customs-book-adapters.ts, customs-books.ts)
+ * into one JSON record per line: code, check digit, description, level, parent code, notes.
+ *
+ * Usage:
+ *   tsx scripts/download-customs-book.ts --book <id> [options]
+ *
+ * Options:
+ *   --book <id>          Customs book to download (see --list)
+ *   --source <file|url>  Source to read instead of the official URLs (repeatable, read in order)
+ *   --output <dir>       Output directory (default: ./data/customs-books/{book})
+ *   --transport <mode>   HTTP transport: live (default), record or replay (see http-transport.ts)
+ *   --fixtures <dir>     Fixtures directory for record/replay (default: ./data/fixtures/customs-books-http)
+ *   --list               List the available customs books
+ *   --help, -h           Show help message
+ *
+ * Output:
+ *   {output}/records.jsonl   One CustomsBookRecord per line, in book order
+ *   {output}/book.json       Book, sources (with SHA-256), record count and records checksum
+ */
+
+import * as path from 'path';
+import { downloadCustomsBook, RECORDS_FILENAME } from './customs-book-adapters.js';
+import { CUSTOMS_BOOK_ADAPTERS, getCustomsBookAdapter } from './customs-books.js';
+import { parseTransportMode, type TransportMode } from './http-transport.js';
+
+// Configuration
+const DEFAULT_OUTPUT_DIR = './data/customs-books';
+const DEFAULT_FIXTURES_DIR = './data/fixtures/customs-books-http';
+
+interface Config {
+  book: string | null;
+  sources: string[];
+  outputDir: string | null; // null = {DEFAULT_OUTPUT_DIR}/{book}
+  transportMode: TransportMode;
+  fixturesDir: string;
+  list: boolean;
+}
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    book: null,
+    sources: [],
+    outputDir: null,
+    transportMode: 'live',
+    fixturesDir: DEFAULT_FIXTURES_DIR,
+    list: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--book':
+        config.book = args[++i] || null;
+        break;
+      case '--source':
+        const source = args[++i];
+        if (source) {
+          config.sources.push(source);
+        }
+        break;
+      case '--output':
+        config.outputDir = args[++i] || null;
+        break;
+      case '--transport':
+        config.transportMode = parseTransportMode(args[++i]);
+        break;
+      case '--fixtures':
+        config.fixturesDir = args[++i] || DEFAULT_FIXTURES_DIR;
+        break;
+      case '--list':
+        config.list = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Customs Book Download Script
+
+Usage:
+  tsx scripts/download-customs-book.ts --book <id> [options]
+
+Options:
+  --book <id>           Customs book to download (see --list)
+  --source <file|url>   Source to read instead of the official URLs (repeatable, read in order)
+  --output <dir>        Output directory (default: ${DEFAULT_OUTPUT_DIR}/{book})
+  --transport <mode>    HTTP transport: live (default), record or replay
+  --fixtures <dir>      Fixtures directory for record/replay (default: ${DEFAULT_FIXTURES_DIR})
+  --list                List the available customs books
+  --help, -h            Show this help message
+
+Customs books:
+${CUSTOMS_BOOK_ADAPTERS.map(a => `  ${a.id.padEnd(22)}${a.name} (${a.country}, ${a.format})`).join('\n')}
+
+Examples:
+  # Israel Customs Tariff from a saved export
+  tsx scripts/download-customs-book.ts --book il-customs-tariff --source ./data/sources/il-tariff.csv
+
+  # USA HTSUS from the USITC export
+  tsx scripts/download-customs-book.ts --book us-htsus
+
+  # UK Trade Tariff, recording the responses for offline runs
+  tsx scripts/download-customs-book.ts --book uk-tariff --transport record
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  if (!config.list && !config.book) {
+    console.error('Missing --book (use --list to see the available customs books)');
+    process.exit(1);
+  }
+
+  return config;
+}
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  if (config.list) {
+    for (const adapter of CUSTOMS_BOOK_ADAPTERS) {
+      const source = adapter.sourceUrls.length > 0 ? `${adapter.sourceUrls.length} source URL(s)` : 'saved source files only (--source)';
+      console.log(`${adapter.id.padEnd(22)}${adapter.name} (${adapter.country}, ${adapter.format}, ${source})`);
+    }
+    return;
+  }
+
+  const adapter = getCustomsBookAdapter(config.book!);
+  const outputDir = config.outputDir || path.join(DEFAULT_OUTPUT_DIR, adapter.id);
+  const sources = config.sources.length > 0 ? config.sources : adapter.sourceUrls;
+
+  console.log('Customs Book Download Script');
+  console.log('============================');
+  console.log(`Book: ${adapter.name} (${adapter.id})`);
+  console.log(`Country: ${adapter.country}`);
+  console.log(`Format: ${adapter.format}`);
+  console.log(`Sources: ${sources.length}`);
+  console.log(`Output: ${outputDir}`);
+  console.log('');
+
+  const download = await downloadCustomsBook(adapter, outputDir, sources, config.transportMode, config.fixturesDir);
+  for (const source of download.sources) {
+    console.log(`  ✓ ${source.source} (${source.size} bytes, sha256 ${source.sha256.substring(0, 12)})`);
+  }
+  console.log(`\n✓ ${download.records} records saved to: ${path.join(outputDir, RECORDS_FILENAME)}`);
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,203 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Concurrent download engine shared by download-wco-pdfs.ts and download-wco-pdfs-browser.ts
+ *
+ * - Bounded worker pool (`--concurrency N`) so slow responses overlap instead of queueing
+ * - Per-host token-bucket rate limiter shared by all workers: concurrency never raises the
+ *   request rate above what the politeness settings (`--delay`, `--delay-variation`, `--rate`) allow
+ * - Adaptive backoff: a 429/403 pauses the host (honouring Retry-After) and halves its rate;
+ *   the rate recovers gradually after consecutive successes
+ */
+
+import { sleep } from './shared-utils.js';
+
+const MIN_BACKOFF_MS = 30000; // First pause after a 429/403 when the server sends no Retry-After
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+const MAX_RATE_REDUCTION = 8; // Never slow a host down by more than 8x its configured interval
+const SUCCESSES_TO_RECOVER = 10; // Consecutive successes before the interval is relaxed one step
+
+export interface RateLimiterOptions {
+  minIntervalMs: number; // Minimum spacing between requests to one host (token refill interval)
+  jitterMs?: number; // Random extra spacing (0 to jitterMs) so requests don't follow a fixed rhythm
+  burst?: number; // Token bucket capacity (default: 1 = strictly spaced requests)
+  verbose?: boolean;
+}
+
+export interface RateLimiter {
+  /** Wait until a request to this host is allowed */
+  acquire(url: string): Promise<void>;
+  /** Report a 429/403 for this host: pause it and reduce its rate */
+  penalize(url: string, statusCode: number, retryAfter?: string | string[]): number;
+  /** Report a successful response for this host */
+  reward(url: string): void;
+}
+
+interface HostState {
+  tokens: number;
+  lastRefill: number;
+  intervalMs: number;
+  pausedUntil: number;
+  strikes: number;
+  successes: number;
+  queue: Promise<void>; // Serializes token acquisition so waiters are served in order
+}
+
+// Host key for a URL (falls back to the raw string for unparsable URLs)
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value?: string | string[]): number | null => {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+};
+
+/**
+ * Create a per-host token-bucket rate limiter
+ */
+export const createRateLimiter = (options: RateLimiterOptions): RateLimiter => {
+  const baseInterval = Math.max(0, options.minIntervalMs);
+  const jitter = Math.max(0, options.jitterMs || 0);
+  const burst = Math.max(1, options.burst || 1);
+  const hosts = new Map<string, HostState>();
+
+  const getState = (host: string): HostState => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = {
+        tokens: burst,
+        lastRefill: Date.now(),
+        intervalMs: baseInterval,
+        pausedUntil: 0,
+        strikes: 0,
+        successes: 0,
+        queue: Promise.resolve()
+      };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  const refill = (state: HostState): void => {
+    if (state.intervalMs === 0) {
+      state.tokens = burst;
+      state.lastRefill = Date.now();
+      return;
+    }
+    const now = Date.now();
+    const newTokens = Math.floor((now - state.lastRefill) / state.intervalMs);
+    if (newTokens > 0) {
+      state.tokens = Math.min(burst, state.tokens + newTokens);
+      state.lastRefill += newTokens * state.intervalMs;
+    }
+  };
+
+  const takeToken = async (state: HostState): Promise<void> => {
+    for (;;) {
+      const pause = state.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+      refill(state);
+      if (state.tokens > 0) {
+        state.tokens--;
+        break;
+      }
+      await sleep(Math.max(1, state.lastRefill + state.intervalMs - Date.now()));
+    }
+    if (jitter > 0) {
+      await sleep(Math.floor(Math.random() * jitter));
+    }
+  };
+
+  return {
+    acquire(url: string): Promise<void> {
+      const state = getState(hostOf(url));
+      const turn = state.queue.then(() => takeToken(state));
+      state.queue = turn.catch(() => undefined);
+      return turn;
+    },
+
+    penalize(url: string, statusCode: number, retryAfter?: string | string[]): number {
+      const host = hostOf(url);
+      const state = getState(host);
+      state.strikes++;
+      state.successes = 0;
+      const maxInterval = Math.max(baseInterval, 1000) * MAX_RATE_REDUCTION;
+      state.intervalMs = Math.min(maxInterval, Math.max(state.intervalMs * 2, 1000));
+      const backoff = parseRetryAfter(retryAfter)
+        ?? Math.min(MAX_BACKOFF_MS, MIN_BACKOFF_MS * Math.pow(2, state.strikes - 1));
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + backoff);
+      state.tokens = 0;
+      if (options.verbose) {
+        console.log(`  [DEBUG] ${host} answered ${statusCode}: pausing ${Math.round(backoff / 1000)}s, interval now ${state.intervalMs}ms`);
+      }
+      return backoff;
+    },
+
+    reward(url: string): void {
+      const state = getState(hostOf(url));
+      state.successes++;
+      if (state.successes >= SUCCESSES_TO_RECOVER && state.intervalMs > baseInterval) {
+        state.intervalMs = Math.max(baseInterval, Math.floor(state.intervalMs / 2));
+        state.successes = 0;
+        if (state.intervalMs === baseInterval) {
+          state.strikes = 0;
+        }
+      }
+    }
+  };
+};
+
+/**
+ * Run `worker` over all items with at most `concurrency` in flight.
+ * Results keep the order of `items`, regardless of completion order.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]!, index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, () => runWorker());
+  await Promise.all(workers);
+  return results;
+};
+
+/**
+ * Whether a status code means the host is throttling or blocking us
+ */
+export const isThrottleStatus = (statusCode?: number): boolean => {
+  return statusCode === 429 || statusCode === 403;
+};
@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Append-only resume journal for the WCO downloaders
+ *
+ * Every attempted download is appended to `download-journal.jsonl` in the output directory
+ * (one JSON object per line: URL, filename, outcome, status, size, SHA-256). `--resume` replays
+ * the journal instead of guessing from the last filename on disk:
+ * - files whose last outcome was downloaded/unchanged are skipped, but only if the local copy
+ *   still has the recorded size and SHA-256 (truncated or modified copies are downloaded again)
+ * - failed files are retried
+ * - 404s are skipped only where a 404 is expected (e.g., headings tried without a table of contents)
+ * Entries are keyed by filename, so it works for any `--chapters` subset, in any order,
+ * and for both download-wco-pdfs.ts and download-wco-pdfs-browser.ts.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { sha256File } from './download-manifest.js';
+import type { DownloadErrorClass, DownloadOutcome } from './download-core.js';
+
+export const JOURNAL_FILENAME = 'download-journal.jsonl';
+
+export interface JournalEntry {
+  time: string;
+  tool: string;
+  url: string;
+  filename: string;
+  outcome: DownloadOutcome;
+  status: number | null;
+  size: number | null;
+  sha256: string | null;
+  errorClass: DownloadErrorClass | null;
+  error: string | null;
+}
+
+/**
+ * State of a file according to the journal of previous runs
+ * - completed: nothing to do
+ * - truncated: recorded as complete, but the local copy no longer matches
+ * - pending: never attempted, or failed last time
+ */
+export type JournalFileState = 'completed' | 'truncated' | 'pending';
+
+export interface DownloadJournal {
+  path: string;
+  /** Number of files with an entry from previous runs */
+  size: number;
+  /** Last entry recorded for a file (previous runs and this one) */
+  last(filename: string): JournalEntry | undefined;
+  /** Append an entry (writes are serialized, one line each) */
+  append(entry: Omit<JournalEntry, 'time'>): Promise<void>;
+  /** Whether a file still needs downloading on --resume */
+  check(filename: string, localPath: string, notFoundExpected: boolean): Promise<JournalFileState>;
+}
+
+/**
+ * Read a journal file, tolerating a torn last line from an interrupted run
+ */
+export const readJournalEntries = async (journalPath: string): Promise<JournalEntry[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(journalPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const entries: JournalEntry[] = [];
+  let invalid = 0;
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as JournalEntry;
+      if (entry.filename && entry.outcome) {
+        entries.push(entry);
+        continue;
+      }
+    } catch {
+      // Counted below
+    }
+    invalid++;
+  }
+  if (invalid > 0) {
+    console.warn(`Warning: Ignored ${invalid} unreadable line(s) in ${journalPath}`);
+  }
+  return entries;
+};
+
+/**
+ * Open (or start) the journal in an output directory
+ */
+export const openJournal = async (dir: string): Promise<DownloadJournal> => {
+  const journalPath = path.join(dir, JOURNAL_FILENAME);
+  const latest = new Map<string, JournalEntry>();
+  for (const entry of await readJournalEntries(journalPath)) {
+    latest.set(entry.filename, entry);
+  }
+  const previousCount = latest.size;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  return {
+    path: journalPath,
+    size: previousCount,
+
+    last: (filename) => latest.get(filename),
+
+    append(entry) {
+      const recorded: JournalEntry = { time: new Date().toISOString(), ...entry };
+      latest.set(entry.filename, recorded);
+      const write = pendingWrite.catch(() => undefined).then(async () => {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.appendFile(journalPath, JSON.stringify(recorded) + '\n', 'utf-8');
+      });
+      pendingWrite = write;
+      return write;
+    },
+
+    async check(filename, localPath, notFoundExpected) {
+      const entry = latest.get(filename);
+      if (!entry) {
+        return 'pending';
+      }
+      if (entry.outcome === 'not-found') {
+        return notFoundExpected ? 'completed' : 'pending';
+      }
+      if (entry.outcome !== 'downloaded' && entry.outcome !== 'not-modified') {
+        return 'pending';
+      }
+      try {
+        const stats = await fs.stat(localPath);
+        if (entry.size !== null && stats.size !== entry.size) {
+          return 'truncated';
+        }
+        if (entry.sha256 && await sha256File(localPath) !== entry.sha256) {
+          return 'truncated';
+        }
+        return 'completed';
+      } catch {
+        return 'truncated';
+      }
+    }
+  };
+};
@@ -0,0 +1,172 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Download manifest for WCO PDF downloads
+ *
+ * Every edition directory keeps a `manifest.json` describing exactly which source file
+ * each local PDF came from (URL, SHA-256, HTTP validators, size, timestamp).
+ * Downstream extraction uses it to prove provenance, and the downloaders use the stored
+ * ETag/Last-Modified values for conditional requests instead of comparing sizes.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+  filename: string;
+  url: string;
+  sha256: string;
+  etag: string | null;
+  lastModified: string | null;
+  size: number;
+  downloadedAt: string;
+  lastCheckedAt: string;
+  httpStatus: number;
+}
+
+export interface DownloadManifest {
+  version: number;
+  edition: string;
+  updatedAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Conditional request validators taken from a manifest entry
+ */
+export interface ConditionalValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Compute SHA-256 of a file without loading it fully into memory
+ */
+export const sha256File = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+};
+
+/**
+ * Compute SHA-256 of an in-memory buffer
+ */
+export const sha256Buffer = (content: Buffer): string => {
+  return createHash('sha256').update(content).digest('hex');
+};
+
+/**
+ * Load the manifest for an edition directory (empty manifest if none exists yet)
+ */
+export const loadManifest = async (dir: string, edition: string): Promise<DownloadManifest> => {
+  const manifestPath = path.join(dir, MANIFEST_FILENAME);
+  try {
+    const content = await fs.readFile(manifestPath, 'utf-8');
+    const manifest = JSON.parse(content) as DownloadManifest;
+    if (!manifest.files || typeof manifest.files !== 'object') {
+      throw new Error('missing "files" object');
+    }
+    return manifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      // A corrupt manifest must not silently erase provenance - keep a copy before starting over
+      console.warn(`Warning: Could not read ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`);
+      await fs.copyFile(manifestPath, `${manifestPath}.corrupt`).catch(() => undefined);
+    }
+    return { version: MANIFEST_VERSION, edition, updatedAt: new Date().toISOString(), files: {} };
+  }
+};
+
+// Pending writes per manifest path - concurrent download workers must not interleave temp-file writes
+const pendingWrites = new Map<string, Promise<void>>();
+let saveCount = 0;
+
+/**
+ * Save the manifest atomically (write to temp file, then rename)
+ * so an interrupted run never leaves a half-written manifest behind
+ *
+ * Saves of one process run one after the other; each writes its own temp file, so neither a
+ * save that failed half-way nor another process saving the same directory can be renamed in
+ * place of it.
+ */
+export const saveManifest = (dir: string, manifest: DownloadManifest): Promise<void> => {
+  const manifestPath = path.join(dir, MANIFEST_FILENAME);
+  const tempPath = `${manifestPath}.${process.pid}-${++saveCount}.tmp`;
+  const write = async (): Promise<void> => {
+    manifest.updatedAt = new Date().toISOString();
+    await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    try {
+      await fs.rename(tempPath, manifestPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  };
+  const previous = pendingWrites.get(manifestPath) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  pendingWrites.set(manifestPath, next);
+  return next;
+};
+
+/**
+ * Record a freshly downloaded file in the manifest
+ */
+export const recordDownload = (
+  manifest: DownloadManifest,
+  entry: Omit<ManifestEntry, 'downloadedAt' | 'lastCheckedAt'>
+): ManifestEntry => {
+  const now = new Date().toISOString();
+  const recorded: ManifestEntry = { ...entry, downloadedAt: now, lastCheckedAt: now };
+  manifest.files[entry.filename] = recorded;
+  return recorded;
+};
+
+/**
+ * Mark a file as confirmed unchanged by the server (304 Not Modified)
+ */
+export const recordNotModified = (manifest: DownloadManifest, filename: string): void => {
+  const entry = manifest.files[filename];
+  if (entry) {
+    entry.lastCheckedAt = new Date().toISOString();
+  }
+};
+
+/**
+ * Get conditional request validators for a local file, but only if the local file
+ * still matches what the manifest recorded. A modified or truncated local copy must
+ * be re-downloaded unconditionally, otherwise a 304 would keep the bad copy forever.
+ */
+export const getValidatorsForLocalFile = async (
+  manifest: DownloadManifest,
+  filename: string,
+  localPath: string
+): Promise<ConditionalValidators | null> => {
+  const entry = manifest.files[filename];
+  if (!entry || (!entry.etag && !entry.lastModified)) {
+    return null;
+  }
+  try {
+    const stats = await fs.stat(localPath);
+    if (stats.size !== entry.size) {
+      return null;
+    }
+    const localHash = await sha256File(localPath);
+    if (localHash !== entry.sha256) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+  return { etag: entry.etag, lastModified: entry.lastModified };
+};
@@ -0,0 +1,199 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Machine-readable run reports and exit codes for the WCO downloaders
+ *
+ * `--report <path>` writes a JSON report and `--junit <path>` a JUnit XML report with one entry
+ * per file (outcome, HTTP status, timing, retries, error class), so scheduled sync jobs can alert
+ * on failures and back off when the site blocks us.
+ *
+ * Exit codes:
+ *   0  all files downloaded, unchanged or skipped
+ *   1  fatal error (the run did not complete)
+ *   2  partial failure (some files failed)
+ *   3  blocked or rate-limited (403/429/block page) - retry later, not immediately
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { DownloadErrorClass, DownloadItemResult, DownloadOutcome } from './download-core.js';
+
+export const EXIT_OK = 0;
+export const EXIT_FATAL = 1;
+export const EXIT_PARTIAL_FAILURE = 2;
+export const EXIT_BLOCKED = 3;
+
+const REPORT_VERSION = 1;
+
+export interface ReportEntry {
+  filename: string;
+  url: string;
+  outcome: DownloadOutcome;
+  status: number | null;
+  size: number | null;
+  attempts: number;
+  retries: number;
+  durationMs: number;
+  errorClass: DownloadErrorClass | null;
+  error: string | null;
+}
+
+export interface RunReport {
+  version: number;
+  tool: string;
+  edition: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  exitCode: number;
+  summary: Record<DownloadOutcome, number> & { total: number };
+  files: ReportEntry[];
+}
+
+export interface RunRecorder {
+  /**
+   * Record the result of one file. `outcome` overrides the result's outcome when the caller
+   * knows better (e.g., a 404 for a heading listed in the table of contents is a failure).
+   */
+  record(filename: string, url: string, result: DownloadItemResult, outcome?: DownloadOutcome): void;
+  /** Build the final report (entries sorted by filename) */
+  finish(): RunReport;
+}
+
+/**
+ * Exit code for a set of report entries
+ * Blocking takes precedence: a job that was blocked should back off rather than retry at once.
+ */
+export const getExitCode = (entries: ReportEntry[]): number => {
+  const failures = entries.filter(entry => entry.outcome === 'failed');
+  if (failures.some(entry => entry.errorClass === 'blocked' || entry.errorClass === 'rate-limited')) {
+    return EXIT_BLOCKED;
+  }
+  return failures.length > 0 ? EXIT_PARTIAL_FAILURE : EXIT_OK;
+};
+
+/**
+ * Create a recorder for one download run
+ */
+export const createRunRecorder = (tool: string, edition: string): RunRecorder => {
+  const startedAt = new Date();
+  const entries: ReportEntry[] = [];
+
+  return {
+    record(filename, url, result, outcome) {
+      const attempts = result.attempts || 0;
+      entries.push({
+        filename,
+        url,
+        outcome: outcome || result.outcome,
+        status: result.status ?? null,
+        size: result.size ?? null,
+        attempts,
+        retries: Math.max(0, attempts - 1),
+        durationMs: result.durationMs,
+        errorClass: result.errorClass || null,
+        error: result.error || null
+      });
+    },
+
+    finish() {
+      const finishedAt = new Date();
+      const files = [...entries].sort((a, b) => a.filename.localeCompare(b.filename));
+      const summary: RunReport['summary'] = {
+        total: files.length,
+        'downloaded': 0,
+        'not-modified': 0,
+        'skipped-existing': 0,
+        'resumed': 0,
+        'dry-run': 0,
+        'not-found': 0,
+        'failed': 0
+      };
+      for (const entry of files) {
+        summary[entry.outcome]++;
+      }
+      return {
+        version: REPORT_VERSION,
+        tool,
+        edition,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        exitCode: getExitCode(files),
+        summary,
+        files
+      };
+    }
+  };
+};
+
+// Escape text for XML attributes and content
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+/**
+ * Render a report as JUnit XML (one testcase per file)
+ * Failed files are failures; files not requested (skip-existing, resume, dry-run, expected 404) are skipped.
+ */
+export const toJUnitXml = (report: RunReport): string => {
+  const seconds = (ms: number): string => (ms / 1000).toFixed(3);
+  const skippedOutcomes: DownloadOutcome[] = ['skipped-existing', 'resumed', 'dry-run', 'not-found'];
+  const cases = report.files.map((entry) => {
+    const attributes = `classname="${escapeXml(`${report.tool}.${report.edition}`)}" name="${escapeXml(entry.filename)}" time="${seconds(entry.durationMs)}"`;
+    if (entry.outcome === 'failed') {
+      const message = escapeXml(entry.error || 'Unknown error');
+      const details = escapeXml(`url: ${entry.url}\nstatus: ${entry.status ?? 'none'}\nattempts: ${entry.attempts}`);
+      return `    <testcase ${attributes}>\n      <failure message="${message}" type="${entry.errorClass || 'unknown'}">${details}</failure>\n    </testcase>`;
+    }
+    if (skippedOutcomes.includes(entry.outcome)) {
+      return `    <testcase ${attributes}>\n      <skipped message="${entry.outcome}"/>\n    </testcase>`;
+    }
+    return `    <testcase ${attributes}/>`;
+  });
+  const skipped = report.files.filter(entry => skippedOutcomes.includes(entry.outcome)).length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.tool)}" tests="${report.files.length}" failures="${report.summary.failed}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(`${report.tool} ${report.edition}`)}" tests="${report.files.length}" failures="${report.summary.failed}" skipped="${skipped}" timestamp="${report.startedAt}" time="${seconds(report.durationMs)}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Write the JSON and/or JUnit reports
+ */
+export const writeReports = async (report: RunReport, jsonPath?: string, junitPath?: string): Promise<void> => {
+  if (jsonPath) {
+    await fs.mkdir(path.dirname(jsonPath), { recursive: true });
+    await fs.writeFile(jsonPath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+  }
+  if (junitPath) {
+    await fs.mkdir(path.dirname(junitPath), { recursive: true });
+    await fs.writeFile(junitPath, toJUnitXml(report), 'utf-8');
+  }
+};
+
+/**
+ * Human-readable meaning of an exit code, for the console summary
+ */
+export const describeExitCode = (exitCode: number): string => {
+  switch (exitCode) {
+    case EXIT_OK:
+      return 'all files ok';
+    case EXIT_PARTIAL_FAILURE:
+      return 'partial failure';
+    case EXIT_BLOCKED:
+      return 'blocked or rate-limited';
+    default:
+      return 'fatal error';
+  }
+};
@@ -17,13 +17,30 @@
  * 
  * Options:
  *   --edition <year>    WCO edition year (default: 2022)
- *   --output <dir>      Output directory (default: ./data/wco/{edition}/pdfs)
+ *   --language <code>   Edition language: en (default) or fr
+ *   --output <dir>      Output directory (default: ./data/wco/{edition}/{language}/pdfs)
  *   --chapters <range>  Chapter range, e.g., "1-97" or "1,2,3" (default: 1-97)
  *   --delay <ms>        Delay between downloads in milliseconds (default: 5000)
+ *   --concurrency <n>   Number of parallel downloads (default: 1); request rate stays bounded by --delay/--rate
+ *   --rate <n>          Maximum requests per second per host (overrides --delay)
+ *   --retries <n>       Number of retries for failed downloads (default: 3)
+ *   --resume            Skip files a previous run completed (per download-journal.jsonl), retry failures
+ *   --check-existing    Skip files the server reports unchanged (default: enabled, conditional requests)
+ *   --skip-existing     Skip files that already exist locally (no request)
+ *   --no-check-existing, --force  Re-download everything
  *   --headless          Run browser in headless mode (default: false, shows browser)
+ *   --config <file>     Additional PDF config to compare discovered PDFs with (default: scripts/download-wco-pdfs-config.ts)
+ *   --update-config     Append newly discovered non-chapter PDFs to the config (prints the diff; --dry-run only prints it)
+ *   --transport <mode>  Transport for PDF requests: live (default), record or replay (see http-transport.ts)
+ *   --fixtures <dir>    Fixtures directory for record/replay (default: ./data/fixtures/wco-http)
+ *   --report <file>     Write a JSON run report (per-file outcome, timing, retries, error class)
+ *   --junit <file>      Write a JUnit XML run report
  *   --dry-run           Show what would be downloaded without downloading
+ *   --verbose, -v       Show detailed request/response information for debugging
  *   --help, -h          Show help message
  * 
+ * Exit codes: 0 = all ok, 1 = fatal error, 2 = some files failed, 3 = blocked/rate-limited (see download-report.ts)
+ * 
  * Code Style Guidelines:
  * - Prefer arrow functions for consistency and modern JavaScript style
  * - Use function declarations only when necessary (e.g., inside page.evaluate() browser context
@@ -35,33 +52,57 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { existsSync } from 'fs';
-import { sleep, processUrl as processUrlShared, toAbsoluteUrl as toAbsoluteUrlShared } from './shared-utils.js';
+import {
+  sleep,
+  processUrl as processUrlShared,
+  toAbsoluteUrl as toAbsoluteUrlShared,
+  parseLanguage,
+  DEFAULT_LANGUAGE,
+  WCO_LANGUAGES,
+  type WcoLanguage
+} from './shared-utils.js';
+import { loadManifest, MANIFEST_FILENAME } from './download-manifest.js';
+import { createRateLimiter, runWithConcurrency } from './download-engine.js';
+import { createTransport, parseTransportMode, DEFAULT_FIXTURES_DIR, type TransportMode } from './http-transport.js';
+import { createRunRecorder, writeReports, describeExitCode } from './download-report.js';
+import { createBrowserSession, downloadItem, DEFAULT_RETRIES, type CommonDownloadOptions, type DownloadContext } from './download-core.js';
+import { openJournal, JOURNAL_FILENAME } from './download-journal.js';
+import { loadAdditionalPdfs, findNewAdditionalPdfs, proposeConfigUpdate, DEFAULT_CONFIG_FILE } from './additional-pdfs.js';
 
 // Configuration
 const DEFAULT_EDITION = '2022';
 const DEFAULT_OUTPUT_DIR = './data/wco';
 const DEFAULT_DELAY_MS = 5000; // Increased to 5 seconds to avoid rate limiting
+const DEFAULT_CONCURRENCY = 1;
 
 // WCO website URLs
 const WCO_BASE_URL = 'https://www.wcoomd.org';
-const WCO_NOMENCLATURE_PAGE = (edition: string) => {
+const WCO_NOMENCLATURE_PAGE = (edition: string, language: WcoLanguage) => {
   // Older editions (2012, 2007, etc.) use a different URL structure
   const year = parseInt(edition, 10);
   if (year < 2017) {
-    return `${WCO_BASE_URL}/en/topics/nomenclature/instrument-and-tools/hs_nomenclature_previous_editions/hs_nomenclature_table_${edition}.aspx`;
+    return `${WCO_BASE_URL}/${language}/topics/nomenclature/instrument-and-tools/hs_nomenclature_previous_editions/hs_nomenclature_table_${edition}.aspx`;
   }
   // Current editions (2017, 2022) use the standard URL
-  return `${WCO_BASE_URL}/en/topics/nomenclature/instrument-and-tools/hs-nomenclature-${edition}-edition/hs-nomenclature-${edition}-edition.aspx`;
+  return `${WCO_BASE_URL}/${language}/topics/nomenclature/instrument-and-tools/hs-nomenclature-${edition}-edition/hs-nomenclature-${edition}-edition.aspx`;
 };
 
-interface Config {
+// retries, resume, dryRun, verbose, checkExisting and skipExisting come from the shared download core
+interface Config extends CommonDownloadOptions {
   edition: string;
+  language: WcoLanguage;
   outputDir: string;
   chapters: string;
   delay: number;
+  concurrency: number;
+  rate?: number; // Requests per second per host (overrides delay-based spacing)
   headless: boolean;
-  dryRun: boolean;
+  configFile?: string; // Additional PDF config (download-wco-pdfs-config.ts)
+  updateConfig: boolean; // Write newly discovered additional PDFs back into the config
+  transport: TransportMode; // live, record (store fixtures) or replay (serve fixtures offline)
+  fixturesDir: string;
+  reportFile?: string; // JSON run report
+  junitFile?: string; // JUnit XML run report
 }
 
 // Parse command line arguments
@@ -70,11 +111,21 @@ const parseArgs = (): Config => {
   const args = process.argv.slice(2);
   const config: Config = {
     edition: DEFAULT_EDITION,
+    language: DEFAULT_LANGUAGE,
     outputDir: '',
     chapters: '1-97',
     delay: DEFAULT_DELAY_MS,
+    concurrency: DEFAULT_CONCURRENCY,
     headless: false,
-    dryRun: false
+    updateConfig: false,
+    retries: DEFAULT_RETRIES,
+    resume: false,
+    dryRun: false,
+    verbose: false,
+    checkExisting: true, // Default: conditional requests, same as download-wco-pdfs.ts
+    skipExisting: false,
+    transport: 'live',
+    fixturesDir: DEFAULT_FIXTURES_DIR
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -83,6 +134,9 @@ const parseArgs = (): Config => {
       case '--edition':
         config.edition = args[++i] || DEFAULT_EDITION;
         break;
+      case '--language':
+        config.language = parseLanguage(args[++i]);
+        break;
       case '--output':
         config.outputDir = args[++i] || '';
         break;
@@ -92,12 +146,59 @@ const parseArgs = (): Config => {
       case '--delay':
         config.delay = parseInt(args[++i] || String(DEFAULT_DELAY_MS), 10);
         break;
+      case '--concurrency':
+        config.concurrency = Math.max(1, parseInt(args[++i] || String(DEFAULT_CONCURRENCY), 10) || DEFAULT_CONCURRENCY);
+        break;
+      case '--rate':
+        config.rate = parseFloat(args[++i] || '') || undefined;
+        break;
+      case '--retries':
+        config.retries = parseInt(args[++i] || String(DEFAULT_RETRIES), 10);
+        break;
+      case '--resume':
+        config.resume = true;
+        break;
+      case '--check-existing':
+        config.checkExisting = true;
+        config.skipExisting = false; // checkExisting takes precedence
+        break;
+      case '--no-check-existing':
+      case '--force':
+        config.checkExisting = false;
+        config.skipExisting = false;
+        break;
+      case '--skip-existing':
+        config.skipExisting = true;
+        config.checkExisting = false; // skipExisting takes precedence (faster, no request)
+        break;
       case '--headless':
         config.headless = true;
         break;
+      case '--config':
+        config.configFile = args[++i] || '';
+        break;
+      case '--update-config':
+        config.updateConfig = true;
+        break;
       case '--dry-run':
         config.dryRun = true;
         break;
+      case '--verbose':
+      case '-v':
+        config.verbose = true;
+        break;
+      case '--transport':
+        config.transport = parseTransportMode(args[++i]);
+        break;
+      case '--fixtures':
+        config.fixturesDir = args[++i] || DEFAULT_FIXTURES_DIR;
+        break;
+      case '--report':
+        config.reportFile = args[++i] || undefined;
+        break;
+      case '--junit':
+        config.junitFile = args[++i] || undefined;
+        break;
       case '--help':
       case '-h':
         console.log(`
@@ -107,18 +208,50 @@ Usage: tsx scripts/download-wco-pdfs-browser.ts [options]
 
 Options:
   --edition <year>    WCO edition year (default: 2022)
-  --output <dir>      Output directory (default: ./data/wco/{edition}/pdfs)
+  --language <code>   Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --output <dir>      Output directory (default: ./data/wco/{edition}/{language}/pdfs)
   --chapters <range>  Chapter range, e.g., "1-97" or "1,2,3" (default: 1-97)
   --delay <ms>        Delay between downloads in milliseconds (default: 5000)
+  --concurrency <n>   Number of parallel downloads (default: ${DEFAULT_CONCURRENCY})
+                       Overlaps slow responses; the request rate is still bounded by --delay or --rate
+  --rate <n>          Maximum requests per second per host (overrides --delay)
+  --retries <n>       Number of retries for failed downloads (default: ${DEFAULT_RETRIES})
+  --resume            Skip files a previous run completed and retry the ones that failed
+                       (replays ${JOURNAL_FILENAME}, shared with download-wco-pdfs.ts)
+  --check-existing    Check if files exist and skip if unchanged (default: enabled, uses ETag/If-Modified-Since
+                       conditional requests based on ${MANIFEST_FILENAME})
+  --skip-existing     Skip files that already exist locally (faster, no request, doesn't check for updates)
+  --no-check-existing  Download all files without checking if they exist (re-downloads everything)
+  --force             Alias for --no-check-existing
   --headless          Run browser in headless mode (default: false)
+  --config <file>     Additional PDF config to compare discovered PDFs with
+                       (default: scripts/download-wco-pdfs-config.ts)
+  --update-config     Append newly discovered non-chapter PDFs to the config as optional entries
+                       for this edition, and print the diff for review (--dry-run only prints it)
   --dry-run           Show what would be downloaded without downloading
+  --verbose, -v       Show detailed request/response information for debugging
+  --transport <mode>  Transport for PDF requests: live (default), record (store request/response
+                       fixtures) or replay (serve recorded fixtures; page navigation still uses the browser)
+  --fixtures <dir>    Fixtures directory for record/replay (default: ${DEFAULT_FIXTURES_DIR})
+  --report <file>     Write a JSON run report (per-file outcome, HTTP status, timing, retries, error class)
+  --junit <file>      Write a JUnit XML run report
   --help, -h          Show this help message
 
+Exit codes:
+  0  All files downloaded, unchanged or skipped
+  1  Fatal error
+  2  Partial failure (some files failed)
+  3  Blocked or rate-limited (403/429) - retry later
+
 Features:
   - Uses Puppeteer to control a real browser
   - Discovers PDF links automatically from the WCO website
   - Handles authentication and sessions automatically
   - Downloads PDFs directly from the browser
+  - Shared per-host rate limiter with adaptive backoff on 429/403 (see download-engine.ts)
+  - Same download core as download-wco-pdfs.ts: retries, resume, check/skip-existing, PDF validation
+  - Integrity check before a download is accepted; failing PDFs go to quarantine/ (see pdf-integrity.ts)
+  - Proposes newly discovered additional PDFs (Introduction, Table of Contents, etc.) for the config
         `);
         process.exit(0);
         break;
@@ -127,7 +260,7 @@ Features:
 
   // Set default output directory if not provided
   if (!config.outputDir) {
-    config.outputDir = path.join(DEFAULT_OUTPUT_DIR, config.edition, 'pdfs');
+    config.outputDir = path.join(DEFAULT_OUTPUT_DIR, config.edition, config.language, 'pdfs');
   }
 
   return config;
@@ -334,7 +467,8 @@ async function findPDFLinks(page: Page, baseUrl: string, edition?: string): Prom
 }
 
 // Navigate through chapters and find PDF links
-async function discoverChapterPDFs(page: Page, edition: string, chapters: number[]): Promise<string[]> {
+async function discoverChapterPDFs(page: Page, edition: string, chapters: number[], language: WcoLanguage = DEFAULT_LANGUAGE): Promise<string[]> {
+  const langSuffix = WCO_LANGUAGES[language];
   const allPdfLinks: string[] = [];
   const baseUrl = WCO_BASE_URL;
   const currentUrl = page.url();
@@ -433,14 +567,14 @@ async function discoverChapterPDFs(page: Page, edition: string, chapters: number
     // First, check current page for chapter PDFs
     let currentPagePdfs: string[] = [];
     try {
-      currentPagePdfs = await page.evaluate((chapterNum, editionYear, base) => {
+      currentPagePdfs = await page.evaluate((chapterNum, editionYear, base, suffix) => {
         // Completely isolate from page's JavaScript context
         // Wrap in IIFE to prevent access to page globals like __name
         return (function() {
           'use strict';
           try {
             const links: string[] = [];
-            const pattern = new RegExp(`${String(chapterNum).padStart(2, '0')}\\d{2}_${editionYear}e\\.pdf`, 'i');
+            const pattern = new RegExp(`${String(chapterNum).padStart(2, '0')}\\d{2}_${editionYear}${suffix}\\.pdf`, 'i');
             
             // Helper function to convert URL to absolute
             function toAbsolute(href: string): string | null {
@@ -466,7 +600,7 @@ async function discoverChapterPDFs(page: Page, edition: string, chapters: number
             return [];
           }
         })();
-      }, chapter, edition, baseUrl);
+      }, chapter, edition, baseUrl, langSuffix);
     } catch (error) {
       console.log(`  Note: Could not find PDFs for chapter ${chapter} on current page (${error instanceof Error ? error.message : String(error)})`);
       currentPagePdfs = [];
@@ -484,7 +618,7 @@ async function discoverChapterPDFs(page: Page, edition: string, chapters: number
         
         // Find PDFs on chapter page
         const chapterPagePdfs = await findPDFLinks(page, baseUrl);
-        const chapterPattern = new RegExp(`${String(chapter).padStart(2, '0')}\\d{2}_${edition}e\\.pdf`, 'i');
+        const chapterPattern = new RegExp(`${String(chapter).padStart(2, '0')}\\d{2}_${edition}${langSuffix}\\.pdf`, 'i');
         const filteredPdfs = chapterPagePdfs.filter(url => chapterPattern.test(url));
         chapterPdfs.push(...filteredPdfs);
         
@@ -539,11 +673,11 @@ async function discoverChapterPDFs(page: Page, edition: string, chapters: number
         await sleep(2000);
         
         // Check again for PDFs after expanding
-        const expandedPdfs = await page.evaluate((chapterNum, editionYear, base) => {
+        const expandedPdfs = await page.evaluate((chapterNum, editionYear, base, suffix) => {
           // Browser context - strict mode needed here
           'use strict';
           const links: string[] = [];
-          const pattern = new RegExp(`${String(chapterNum).padStart(2, '0')}\\d{2}_${editionYear}e\\.pdf`, 'i');
+          const pattern = new RegExp(`${String(chapterNum).padStart(2, '0')}\\d{2}_${editionYear}${suffix}\\.pdf`, 'i');
           
           // Helper function to convert URL to absolute
           const toAbsolute = (href: string): string | null => {
@@ -565,7 +699,7 @@ async function discoverChapterPDFs(page: Page, edition: string, chapters: number
           });
           
           return links;
-        }, chapter, edition, baseUrl);
+        }, chapter, edition, baseUrl, langSuffix);
         
         chapterPdfs.push(...expandedPdfs);
       } catch (error) {
@@ -580,89 +714,25 @@ async function discoverChapterPDFs(page: Page, edition: string, chapters: number
   return [...new Set(allPdfLinks)];
 };
 
-// Download PDF using direct HTTP request with browser cookies
-// Note: Prefer arrow functions for consistency
-const downloadPDF = async (page: Page, url: string, outputPath: string): Promise<boolean> => {
-  try {
-    // Get cookies from browser
-    const cookies = await page.cookies();
-    const cookieString = cookies.map(c => `${c.name}=${c.value}`).join('; ');
-    
-    // Use direct HTTP request to get PDF content (not rendered HTML)
-    const https = await import('https');
-    const http = await import('http');
-    const { URL } = await import('url');
-    
-    const urlObj = new URL(url);
-    const protocol = urlObj.protocol === 'https:' ? https : http;
-    
-    const content = await new Promise<Buffer>((resolveHttp, rejectHttp) => {
-      const options = {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'application/pdf,*/*',
-          'Cookie': cookieString,
-          'Referer': page.url()
-        }
-      };
-      
-      protocol.get(url, options, (res) => {
-        if (res.statusCode === 404) {
-          // 404 is expected for headings that don't exist
-          resolveHttp(Buffer.from(''));
-          return;
-        }
-        
-        // Check for blocking/rate limiting
-        if (res.statusCode === 403 || res.statusCode === 429) {
-          const errorMsg = res.statusCode === 403 
-            ? 'Access forbidden (403) - may be blocked'
-            : 'Rate limited (429) - too many requests';
-          rejectHttp(new Error(errorMsg));
-          return;
-        }
-        
-        if (res.statusCode !== 200) {
-          rejectHttp(new Error(`HTTP ${res.statusCode}`));
-          return;
-        }
-        
-        const chunks: Buffer[] = [];
-        res.on('data', (chunk) => chunks.push(chunk));
-        res.on('end', () => resolveHttp(Buffer.concat(chunks)));
-        res.on('error', rejectHttp);
-      }).on('error', rejectHttp);
-    });
-    
-    // Handle empty content (404)
-    if (content.length === 0) {
-      return false; // Silently skip 404s
-    }
-    
-    // Verify it's actually a PDF (starts with %PDF)
-    if (content.length < 4 || content.toString('utf8', 0, 4) !== '%PDF') {
-      const preview = content.toString('utf8', 0, 200);
-      // Check if it's an HTML error page
-      if (preview.includes('<html') || preview.includes('<!DOCTYPE')) {
-        if (preview.toLowerCase().includes('blocked') || preview.toLowerCase().includes('access denied')) {
-          console.error(`  ✗ Blocked/Forbidden: ${url}`);
-          console.error(`     The server may be blocking automated access`);
-        } else {
-          console.error(`  ✗ Invalid PDF content: ${url} (received HTML instead of PDF)`);
-        }
-      } else {
-        console.error(`  ✗ Invalid PDF content: ${url} (does not start with %PDF)`);
-        console.error(`     First 100 bytes: ${preview.substring(0, 100)}`);
-      }
-      return false;
-    }
-    
-    // Save to file
-    await fs.writeFile(outputPath, content);
-    return true;
-  } catch (error) {
-    console.error(`  ✗ Error downloading ${url}: ${error instanceof Error ? error.message : String(error)}`);
-    return false;
+// Compare the non-chapter PDFs found on the edition page with the additional PDF config
+// and propose (or, with --update-config, write) the missing ones as a diff
+const proposeAdditionalPdfs = async (config: Config, pdfLinks: string[]): Promise<void> => {
+  const configPath = config.configFile ? path.resolve(config.configFile) : DEFAULT_CONFIG_FILE;
+  const entries = await loadAdditionalPdfs(config.edition, config.configFile);
+  const templates = findNewAdditionalPdfs(pdfLinks, entries, config.edition, config.language);
+  if (templates.length === 0) {
+    console.log('All additional PDFs found on the page are already in the config');
+    return;
+  }
+  const source = await fs.readFile(configPath, 'utf-8');
+  const { updated, diff } = proposeConfigUpdate(source, configPath, templates, config.edition);
+  console.log(`\nFound ${templates.length} additional PDFs not in ${configPath}:`);
+  console.log(diff);
+  if (config.updateConfig && !config.dryRun) {
+    await fs.writeFile(configPath, updated, 'utf-8');
+    console.log(`\n✓ Updated ${configPath} - review the diff before committing\n`);
+  } else {
+    console.log(`\nRun with --update-config to add them (optional, edition ${config.edition} only)\n`);
   }
 };
 
@@ -674,15 +744,33 @@ const main = async (): Promise<void> => {
   console.log('WCO PDF Download Script (Browser-based)');
   console.log('========================================');
   console.log(`Edition: ${config.edition}`);
+  console.log(`Language: ${config.language}`);
   console.log(`Output: ${config.outputDir}`);
   console.log(`Chapters: ${config.chapters}`);
-  console.log(`Delay: ${config.delay}ms`);
+  console.log(config.rate ? `Rate: ${config.rate} requests/s per host` : `Delay: ${config.delay}ms`);
+  console.log(`Concurrency: ${config.concurrency}`);
   console.log(`Headless: ${config.headless}`);
+  console.log(`Retries: ${config.retries}`);
+  console.log(`Resume: ${config.resume}`);
+  if (config.skipExisting) {
+    console.log(`Skip Existing: enabled (fast mode, no requests)`);
+  } else {
+    console.log(`Check Existing: ${config.checkExisting ? 'enabled' : 'disabled'}`);
+  }
   console.log(`Dry Run: ${config.dryRun}`);
+  if (config.transport !== 'live') {
+    console.log(`Transport: ${config.transport} (fixtures: ${config.fixturesDir})`);
+  }
   console.log('');
 
   // Create output directory
   await fs.mkdir(config.outputDir, { recursive: true });
+  
+  // PDF requests go through the transport (live, record or replay)
+  const transport = await createTransport({ mode: config.transport, fixturesDir: config.fixturesDir, verbose: config.verbose });
+  
+  // Provenance manifest shared with the HTTP downloader
+  const manifest = await loadManifest(config.outputDir, config.edition);
 
   // Note: Credentials are not required for PDF downloads - they are publicly accessible
   // The credentials check is removed since login is not needed
@@ -701,7 +789,7 @@ const main = async (): Promise<void> => {
     await page.setViewport({ width: 1920, height: 1080 });
     
     // Navigate to WCO nomenclature page
-    const nomenclatureUrl = WCO_NOMENCLATURE_PAGE(config.edition);
+    const nomenclatureUrl = WCO_NOMENCLATURE_PAGE(config.edition, config.language);
     console.log(`Navigating to: ${nomenclatureUrl}`);
     
     // Set realistic browser behavior to avoid detection
@@ -947,6 +1035,7 @@ const main = async (): Promise<void> => {
     console.log('\nDiscovering PDF links on the page...');
     let pdfLinks = await findPDFLinks(page, WCO_BASE_URL, config.edition);
     console.log(`Found ${pdfLinks.length} PDF links on main page`);
+    await proposeAdditionalPdfs(config, pdfLinks);
     
     // For older editions (with table structure), we already have all PDFs from the table
     // No need to discover chapter-specific PDFs separately
@@ -968,7 +1057,7 @@ const main = async (): Promise<void> => {
       }).flat();
       
       if (chapterRanges.length > 0) {
-        const chapterPdfs = await discoverChapterPDFs(page, config.edition, chapterRanges);
+        const chapterPdfs = await discoverChapterPDFs(page, config.edition, chapterRanges, config.language);
         pdfLinks = [...new Set([...pdfLinks, ...chapterPdfs])];
         console.log(`Total PDF links found: ${pdfLinks.length}`);
       }
@@ -1002,58 +1091,91 @@ const main = async (): Promise<void> => {
       }
     };
     
-    for (let i = 0; i < pdfLinks.length; i++) {
-      let pdfUrl = pdfLinks[i]!;
+    // One limiter for all workers (random 0-50% variation on top of the delay, as before)
+    const limiter = createRateLimiter({
+      minIntervalMs: config.rate ? 1000 / config.rate : config.delay,
+      jitterMs: config.rate ? 0 : Math.floor(config.delay * 0.5),
+      verbose: config.verbose
+    });
+    
+    // Downloads carry the cookies of this page (shared download core, see download-core.ts)
+    const session = createBrowserSession(page);
+    const journal = await openJournal(config.outputDir);
+    if (config.resume) {
+      console.log(`Resuming with ${journal.path} (${journal.size} files recorded)\n`);
+    }
+    const ctx: DownloadContext = {
+      tool: 'download-wco-pdfs-browser',
+      options: config,
+      outputDir: config.outputDir,
+      manifest,
+      transport,
+      session,
+      limiter,
+      referer: await session.establish(),
+      journal
+    };
+    
+    // Per-file results for the run report and exit code
+    const recorder = createRunRecorder('download-wco-pdfs-browser', config.edition);
+    
+    await runWithConcurrency(pdfLinks, config.concurrency, async (link, i) => {
+      let pdfUrl = link;
       
       // Ensure URL is absolute and clean
       const processedUrl = processUrlShared(pdfUrl, WCO_BASE_URL);
       if (!processedUrl) {
         console.log(`  ⚠️  Skipping invalid URL: ${pdfUrl}`);
+        // Reported under the link as found: it has no file name
+        recorder.record(pdfUrl, pdfUrl, { outcome: 'failed', durationMs: 0, error: 'Invalid URL' });
         failed++;
-        continue;
+        return;
       }
       pdfUrl = processedUrl;
       
       // Extract filename from URL
       const urlObj = new URL(pdfUrl);
-      let filename = path.basename(urlObj.pathname);
+      const filename = path.basename(urlObj.pathname);
       const outputPath = path.join(config.outputDir, filename);
+      const position = `[${i + 1}/${pdfLinks.length}]`;
       
-      // Skip if file already exists
-      if (existsSync(outputPath)) {
-        console.log(`  ⊘ ${filename} - already exists, skipping`);
-        skipped++;
-        logProgress();
-        continue;
-      }
-      
-      if (config.dryRun) {
-        console.log(`  [DRY RUN] Would download: ${filename}`);
-        console.log(`           URL: ${pdfUrl}`);
-        downloaded++; // Count as would-be downloaded for summary
-        logProgress();
-        continue;
-      }
-      
-      console.log(`  [${i + 1}/${pdfLinks.length}] Downloading: ${filename}`);
-      
-      const success = await downloadPDF(page, pdfUrl, outputPath);
-      if (success) {
-        downloaded++;
-        console.log(`  ✓ ${filename}`);
-        logProgress();
-      } else {
-        failed++;
-        logProgress();
-      }
-      
-      // Delay between downloads (with random variation to appear more human-like)
-      if (i < pdfLinks.length - 1 && config.delay > 0) {
-        const randomVariation = Math.floor(Math.random() * config.delay * 0.5); // 0-50% variation
-        const delay = config.delay + randomVariation;
-        await sleep(delay);
+      const result = await downloadItem(ctx, pdfUrl, filename, outputPath);
+      // The link was found on the website, so a 404 is a failure
+      recorder.record(filename, pdfUrl, result, result.outcome === 'not-found' ? 'failed' : undefined);
+      switch (result.outcome) {
+        case 'dry-run':
+          console.log(`  [DRY RUN] Would download: ${filename}`);
+          console.log(`           URL: ${pdfUrl}`);
+          downloaded++; // Count as would-be downloaded for summary
+          break;
+        case 'downloaded': {
+          const sizeKB = result.size ? (result.size / 1024).toFixed(2) : '0';
+          console.log(`  ${position} ✓ ${filename} (${sizeKB} KB)`);
+          downloaded++;
+          break;
+        }
+        case 'not-modified':
+          console.log(`  ${position} ⊘ ${filename} - unchanged (304), skipping`);
+          skipped++;
+          break;
+        case 'skipped-existing':
+          console.log(`  ${position} ⊘ ${filename} - already exists, skipping`);
+          skipped++;
+          break;
+        case 'resumed':
+          skipped++;
+          break;
+        case 'not-found':
+          // The link was found on the website, so a missing file is a real failure
+          console.error(`  ${position} ✗ ${filename} - linked on the website but not found (404)`);
+          failed++;
+          break;
+        default:
+          console.error(`  ${position} ✗ ${filename} - ${result.error}`);
+          failed++;
       }
-    }
+      logProgress();
+    });
     
     // Summary
     console.log('\n========================================');
@@ -1063,9 +1185,22 @@ const main = async (): Promise<void> => {
     console.log(`Downloaded: ${downloaded}`);
     console.log(`Failed: ${failed}`);
     console.log(`Skipped: ${skipped}`);
+    console.log(`Manifest: ${path.join(config.outputDir, MANIFEST_FILENAME)} (${Object.keys(manifest.files).length} files)`);
+    
+    const report = recorder.finish();
+    await writeReports(report, config.reportFile, config.junitFile);
+    if (config.reportFile) {
+      console.log(`Report: ${config.reportFile}`);
+    }
+    if (config.junitFile) {
+      console.log(`JUnit report: ${config.junitFile}`);
+    }
+    console.log(`Exit code: ${report.exitCode} (${describeExitCode(report.exitCode)})`);
+    process.exitCode = report.exitCode;
     
   } finally {
     await browser.close();
+    await transport.close();
   }
 };
 
@@ -1,43 +1,78 @@
 /**
  * Configuration file for additional WCO PDFs to download.
- * 
+ *
  * Add new PDF filenames here to ensure they are downloaded automatically.
- * Use the {EDITION} placeholder which will be replaced with the edition year (e.g., 2022).
- * 
- * If a PDF returns 404, the script will stop and report it as a bug (files should exist).
- * To add new PDFs in the future, simply add them to the additionalPdfs array below.
+ * Use the {EDITION} placeholder which will be replaced with the edition year (e.g., 2022)
+ * and the {LANG} placeholder which will be replaced with the language suffix ("e" for --language en,
+ * "f" for --language fr).
+ *
+ * Each entry is either a filename template or an object (see AdditionalPdfEntry):
+ * - editions: only download for these editions (default: all), so names that differ
+ *   between editions get one entry each
+ * - aliases: other names the same document is published under, tried in order when the
+ *   main filename returns 404 (the file is saved under the name that was found)
+ * - required: a 404 (after all aliases) is reported as a failure; optional entries are skipped on 404
+ *
+ * The config is validated when it is loaded (see additional-pdfs.ts); an invalid entry stops the run.
+ * `download-wco-pdfs-browser.ts --update-config` appends newly discovered PDFs here as optional,
+ * edition-specific entries - review the diff before committing.
  * The script will automatically merge these with the default list.
  */
 
+export interface AdditionalPdfEntry {
+  file: string; // Filename template ({EDITION}, {LANG})
+  aliases?: string[]; // Alternative filename templates, tried in order on 404
+  editions?: string[]; // Editions this entry applies to (default: all)
+  required?: boolean; // 404 is a failure (default: false, 404 is skipped)
+  description?: string;
+}
+
 export interface WCOPdfsConfig {
   description: string;
-  additionalPdfs: string[];
+  additionalPdfs: Array<string | AdditionalPdfEntry>; // A string is shorthand for { file } (optional, all editions)
   notes: string[];
 }
 
 export const config: WCOPdfsConfig = {
   description: "Configuration file for additional WCO PDFs to download. Add new PDF filenames here to ensure they are downloaded automatically.",
   additionalPdfs: [
-    "introduction_{EDITION}e.pdf",
-    "table-of-contents_{EDITION}e_rev.pdf" // Note: actual filename has _rev suffix (discovered via browser)
+    {
+      file: "introduction_{EDITION}{LANG}.pdf",
+      required: true,
+      description: "Introduction to the HS Nomenclature"
+    },
+    {
+      file: "table-of-contents_{EDITION}{LANG}_rev.pdf", // 2022 publishes a revised TOC (discovered via browser)
+      aliases: ["table-of-contents_{EDITION}{LANG}.pdf"],
+      editions: ["2022"],
+      required: true,
+      description: "Table of Contents (heading list for download-wco-pdfs.ts)"
+    },
+    {
+      file: "table-of-contents_{EDITION}{LANG}.pdf",
+      aliases: ["table-of-contents_{EDITION}{LANG}_rev.pdf"],
+      editions: ["2017", "2012", "2007"],
+      description: "Table of Contents of older editions (filename not verified yet)"
+    }
     // TODO: Add other PDFs once we verify they exist on the WCO server
+    // (or run download-wco-pdfs-browser.ts --update-config to add the ones it finds)
     // The following files return 404 and need to be fixed:
-    // "table-of-contents_{EDITION}e.pdf", // Wrong - should be _rev.pdf
-    // "general-rules_{EDITION}e.pdf",
-    // "general-rules-for-interpretation_{EDITION}e.pdf",
-    // "explanatory-notes_{EDITION}e.pdf",
-    // "classification-rules_{EDITION}e.pdf",
-    // "section-notes_{EDITION}e.pdf",
-    // "chapter-notes_{EDITION}e.pdf",
-    // "alphabetical-index_{EDITION}e.pdf",
-    // "compendium_{EDITION}e.pdf",
-    // "compendium-of-classification-opinions_{EDITION}e.pdf"
+    // "general-rules_{EDITION}{LANG}.pdf",
+    // "general-rules-for-interpretation_{EDITION}{LANG}.pdf",
+    // "explanatory-notes_{EDITION}{LANG}.pdf",
+    // "classification-rules_{EDITION}{LANG}.pdf",
+    // "section-notes_{EDITION}{LANG}.pdf",
+    // "chapter-notes_{EDITION}{LANG}.pdf",
+    // "alphabetical-index_{EDITION}{LANG}.pdf",
+    // "compendium_{EDITION}{LANG}.pdf",
+    // "compendium-of-classification-opinions_{EDITION}{LANG}.pdf"
   ],
   notes: [
     "Use {EDITION} placeholder which will be replaced with the edition year (e.g., 2022)",
-    "If a PDF returns 404, it will be skipped (not all PDFs may exist for all editions)",
+    "Use {LANG} placeholder which will be replaced with the language suffix (e = English, f = French)",
+    "Use editions to limit an entry to some editions, aliases for alternative filenames and required for files that must exist",
+    "If an optional PDF returns 404, it will be skipped (not all PDFs may exist for all editions); a required one is a failure",
     "To add new PDFs in the future, simply add them to the additionalPdfs array above",
     "The script will automatically merge these with the default list"
   ]
 };
-
@@ -1,25 +1,6 @@
 #!/usr/bin/env tsx
 /// <reference types="node" />
 
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-
-// Get __dirname for config file imports
-// tsx handles both ES modules and CommonJS, so we support both
-const getScriptDir = (): string => {
-  try {
-    // Try ES modules approach (when using import.meta.url)
-    if (typeof import.meta !== 'undefined' && import.meta.url) {
-      return dirname(fileURLToPath(import.meta.url));
-    }
-  } catch {
-    // Fall through to CommonJS
-  }
-  // CommonJS fallback (tsx provides __dirname in CommonJS mode)
-  // @ts-ignore - __dirname may not be defined in ES modules, but tsx provides it
-  return typeof __dirname !== 'undefined' ? __dirname : process.cwd();
-};
-
 /**
  * WCO PDF Download Script
  * 
@@ -27,268 +8,112 @@ const getScriptDir = (): string => {
  * 
  * Downloads:
  * - Additional PDFs: Introduction, Table of Contents, General Rules, Explanatory Notes, etc. (critical for LLM classification)
- * - Chapter/Heading PDFs: All chapters (1-97) and headings (01-99)
+ * - Chapter/Heading PDFs: Exactly the headings listed in the edition's table of contents
+ *   (falls back to trying headings 01-99 only when no table of contents is available)
  * 
  * URL Patterns:
- * - Chapter/Heading: https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-{EDITION}/{EDITION}/{CHAPTER}{HEADING}_{EDITION}e.pdf
+ * - Chapter/Heading: https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-{EDITION}/{EDITION}/{CHAPTER}{HEADING}_{EDITION}{LANG}.pdf
  * - Additional PDFs: https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-{EDITION}/{EDITION}/{FILENAME}
  * Example: https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-2022/2022/0101_2022e.pdf
+ * {LANG} is the language suffix: "e" (English, --language en) or "f" (French, --language fr)
  * 
  * Usage:
  *   tsx scripts/download-wco-pdfs.ts [options]
+ *   tsx scripts/download-wco-pdfs.ts verify [--edition <year>] [--language <lang>] [--output <dir>] [--dry-run]
+ *     Re-check the PDFs already in an edition directory and quarantine the ones that fail (see pdf-integrity.ts)
  * 
  * Options:
  *   --edition <year>    WCO edition year (default: 2022)
- *   --output <dir>      Output directory (default: ./data/wco/{edition}/pdfs)
+ *   --language <lang>   Publication language: en or fr (default: en)
+ *   --output <dir>      Output directory (default: ./data/wco/{edition}/{language}/pdfs)
  *   --chapters <range>  Chapter range, e.g., "1-97" or "1,2,3" (default: 1-97)
- *   --delay <ms>        Base delay between downloads in milliseconds (default: ${DEFAULT_DELAY_MS})
- *   --delay-variation <ms>  Random variation added to delay (default: ${DEFAULT_DELAY_VARIATION_MS})
+ *   --delay <ms>        Minimum spacing between requests to the WCO host in milliseconds (default: ${DEFAULT_DELAY_MS})
+ *   --delay-variation <ms>  Random variation added to the spacing (default: ${DEFAULT_DELAY_VARIATION_MS})
+ *   --concurrency <n>   Number of parallel downloads (default: ${DEFAULT_CONCURRENCY}); request rate stays bounded by --delay/--rate
+ *   --rate <n>          Maximum requests per second per host (overrides --delay/--delay-variation)
  *   --retries <n>       Number of retries for failed downloads (default: 3)
- *   --resume             Resume from last downloaded file
+ *   --resume             Skip files a previous run completed (per download-journal.jsonl), retry failures
  *   --dry-run            Show what would be downloaded without downloading
- *   --check-existing     Check if files exist and skip if unchanged (default: enabled, uses HEAD request)
- *   --skip-existing      Skip files that already exist locally (faster, no HEAD request, doesn't check for updates)
+ *   --check-existing     Check if files exist and skip if unchanged (default: enabled, uses ETag/If-Modified-Since conditional requests)
+ *   --skip-existing      Skip files that already exist locally (faster, no request, doesn't check for updates)
  *   --no-check-existing  Download all files without checking if they exist (re-downloads everything)
  *   --force              Alias for --no-check-existing
+ *   --toc <file>         Table of contents (.pdf or .md) to take the heading list from
+ *   --no-toc             Ignore the table of contents and try headings 01-99 for every chapter
+ *   --transport <mode>   HTTP transport: live (default), record or replay (see http-transport.ts)
+ *   --fixtures <dir>     Fixtures directory for record/replay (default: ./data/fixtures/wco-http)
+ *   --report <file>      Write a JSON run report (per-file outcome, timing, retries, error class)
+ *   --junit <file>       Write a JUnit XML run report
+ * 
+ * Exit codes: 0 = all ok, 1 = fatal error, 2 = some files failed, 3 = blocked/rate-limited (see download-report.ts)
  * 
  * Features:
  *   - Uses realistic Chrome browser headers to avoid detection
  *   - Random delay variation to appear more human-like
- *   - Smart skip logic: checks if file exists and hasn't changed before downloading
+ *   - Bounded worker pool with a shared per-host token-bucket rate limiter (see download-engine.ts)
+ *   - Adaptive backoff on 429/403: pauses the host (honouring Retry-After) and slows down
+ *   - Table-of-contents-driven heading list: a listed heading that returns 404 is reported as a failure
+ *   - Smart skip logic: conditional requests (ETag/If-Modified-Since) skip files the server reports unchanged
+ *   - Provenance manifest: manifest.json records URL, SHA-256, ETag, Last-Modified, size, timestamp and status per PDF
  *   - Retry logic with exponential backoff
- *   - Resume capability for interrupted downloads
- *   - Configurable additional PDFs via config file (scripts/download-wco-pdfs-config.ts)
+ *   - Integrity check before a download is accepted (EOF marker, pdfjs parse, page count, heading code);
+ *     failing PDFs are moved to quarantine/ with the reason
+ *   - Download logic (redirects, retries, PDF validation, resume, check/skip-existing) shared with
+ *     download-wco-pdfs-browser.ts via download-core.ts
+ *   - Resume capability for interrupted downloads (append-only journal, see download-journal.ts)
+ *   - Configurable additional PDFs via config file (scripts/download-wco-pdfs-config.ts): per-edition
+ *     entries, aliases and required/optional flags, validated at load time (see additional-pdfs.ts)
+ *   - Record/replay transport for deterministic offline runs against stored fixtures
  *   - Automatically downloads new PDFs added to config file in the future
  */
 
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import * as https from 'https';
-import * as http from 'http';
-import { createWriteStream, existsSync, statSync, unlinkSync } from 'fs';
 import { URL as NodeURL } from 'url';
-import { sleep, getBrowserHeaders as getBrowserHeadersBase, getRandomDelay as getRandomDelayBase } from './shared-utils.js';
+import { loadManifest, MANIFEST_FILENAME } from './download-manifest.js';
+import { createRateLimiter, runWithConcurrency } from './download-engine.js';
+import { loadTableOfContents, groupByChapter, type TocEntry } from './wco-toc.js';
+import { createTransport, parseTransportMode, DEFAULT_FIXTURES_DIR, type TransportMode } from './http-transport.js';
+import { parseLanguage, applyPlaceholders, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import { createRunRecorder, writeReports, describeExitCode, EXIT_OK, EXIT_PARTIAL_FAILURE } from './download-report.js';
+import { createHttpSession, downloadItem, fileExists, DEFAULT_RETRIES, type CommonDownloadOptions, type DownloadContext, type DownloadItemResult } from './download-core.js';
+import { openJournal, JOURNAL_FILENAME } from './download-journal.js';
+import { loadAdditionalPdfs, getCandidateFilenames } from './additional-pdfs.js';
+import { verifyDirectory, QUARANTINE_DIR } from './pdf-integrity.js';
 
 // Configuration
 const DEFAULT_EDITION = '2022';
 const DEFAULT_OUTPUT_DIR = './data/wco';
 const DEFAULT_DELAY_MS = 5000; // Base delay between downloads (will be randomized)
 const DEFAULT_DELAY_VARIATION_MS = 5000; // Random variation added to base delay
-const DEFAULT_RETRIES = 3;
-
-// Realistic Chrome browser headers
-const CHROME_USER_AGENTS = [
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-];
-
-// Get random Chrome User-Agent
-function getRandomUserAgent(): string {
-  return CHROME_USER_AGENTS[Math.floor(Math.random() * CHROME_USER_AGENTS.length)]!;
-}
-
-// Cookie storage
-let cookieJar: string = '';
-
-// Get realistic browser headers (with cookies and referer if available)
-// Uses shared utility but adds cookie support and random user agent
-const getBrowserHeaders = (referer?: string): Record<string, string> => {
-  const headers = getBrowserHeadersBase(referer, cookieJar || undefined, getRandomUserAgent());
-  // Add additional headers specific to this script
-  headers['DNT'] = '1';
-  headers['Sec-Fetch-User'] = '?1';
-  headers['Accept'] = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7';
-  return headers;
-};
-
-// Extract cookies from Set-Cookie headers
-function extractCookies(response: http.IncomingMessage): void {
-  const setCookieHeaders = response.headers['set-cookie'];
-  if (setCookieHeaders) {
-    const cookies: string[] = [];
-    setCookieHeaders.forEach((cookieHeader: string) => {
-      // Extract cookie name=value (before semicolon)
-      const cookie = cookieHeader.split(';')[0]?.trim();
-      if (cookie) {
-        cookies.push(cookie);
-      }
-    });
-    if (cookies.length > 0) {
-      cookieJar = cookies.join('; ');
-    }
-  }
-}
+const DEFAULT_CONCURRENCY = 1;
 
 // Note: loadWCOCredentials removed - PDFs are publicly accessible, no login needed
 
-// Visit WCO main page to establish session (like a regular browser)
-async function establishSession(edition: string, verbose: boolean = false): Promise<string> {
-  // WCO main page URL for the edition
-  const mainPageUrl = `https://www.wcoomd.org/en/topics/nomenclature/instrument-and-tools/hs-nomenclature-${edition}-edition/hs-nomenclature-${edition}-edition.aspx`;
-  
-  if (verbose) {
-    console.log('[DEBUG] Establishing browser session...');
-    console.log(`[DEBUG] Visiting main page: ${mainPageUrl}`);
-  }
-  
-  return new Promise((resolve, reject) => {
-    const protocol = https;
-    // Clear any existing cookies for initial request
-    const headers = getBrowserHeaders();
-    delete headers['Cookie'];
-    
-    const options = {
-      headers: headers,
-      method: 'GET'
-    };
-    
-    const req = protocol.request(mainPageUrl, options, (response) => {
-      // Extract cookies from response
-      extractCookies(response);
-      
-      // Consume response body
-      response.resume();
-      
-      response.on('end', () => {
-        if (verbose) {
-          console.log(`[DEBUG] Session established: ${response.statusCode}`);
-          console.log(`[DEBUG] Cookies received: ${cookieJar || 'none'}`);
-        }
-        
-        // Return the main page URL to use as referer
-        resolve(mainPageUrl);
-      });
-    });
-    
-    req.on('error', (error) => {
-      if (verbose) {
-        console.log(`[DEBUG] Session establishment error: ${error.message}`);
-      }
-      // Even if there's an error, continue with the main page URL as referer
-      resolve(mainPageUrl);
-    });
-    
-    req.setTimeout(10000, () => {
-      req.destroy();
-      if (verbose) {
-        console.log('[DEBUG] Session establishment timeout');
-      }
-      resolve(mainPageUrl);
-    });
-    
-    req.end();
-  });
-}
-
-// Get random delay with variation (only positive variation for this script)
-const getRandomDelay = (baseDelay: number, variation: number = DEFAULT_DELAY_VARIATION_MS): number => {
-  return getRandomDelayBase(baseDelay, variation, false); // false = only add, don't subtract
-};
 // Base URL for chapter/heading PDFs
-const BASE_URL = 'https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-{EDITION}/{EDITION}/{CHAPTER}{HEADING}_{EDITION}e.pdf';
+const BASE_URL = 'https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-{EDITION}/{EDITION}/{CHAPTER}{HEADING}_{EDITION}{LANG}.pdf';
 
 // Base URL for additional PDFs (Introduction, Table of Contents, etc.)
 const BASE_URL_ADDITIONAL = 'https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-{EDITION}/{EDITION}/{FILENAME}';
 
-// Default additional PDFs for LLM classification context
-// These contain critical information: introduction, general rules, explanatory notes, etc.
-// Can be overridden/extended via config file: scripts/download-wco-pdfs-config.ts
-// NOTE: Only include files that actually exist on the WCO server (404s are treated as bugs)
-const DEFAULT_ADDITIONAL_PDFS = [
-  'introduction_{EDITION}e.pdf'
-  // TODO: Add other PDFs once we verify they exist on the WCO server
-  // The following files return 404 and need to be fixed:
-  // 'table-of-contents_{EDITION}e.pdf',
-  // 'general-rules_{EDITION}e.pdf',
-  // 'general-rules-for-interpretation_{EDITION}e.pdf',
-  // 'explanatory-notes_{EDITION}e.pdf',
-  // 'classification-rules_{EDITION}e.pdf',
-  // 'section-notes_{EDITION}e.pdf',
-  // 'chapter-notes_{EDITION}e.pdf',
-  // 'alphabetical-index_{EDITION}e.pdf',
-  // 'compendium_{EDITION}e.pdf',
-  // 'compendium-of-classification-opinions_{EDITION}e.pdf',
-];
-
-// Load additional PDFs from config file if it exists
-async function loadAdditionalPdfs(configPath?: string): Promise<string[]> {
-  try {
-    if (configPath) {
-      // Custom config path provided
-      if (configPath.endsWith('.ts')) {
-        // TypeScript config file - try to import it
-        try {
-          // Use dynamic import for TypeScript config
-          const configModule = await import(path.resolve(configPath));
-          if (configModule.config && configModule.config.additionalPdfs && Array.isArray(configModule.config.additionalPdfs)) {
-            const merged = [...new Set([...DEFAULT_ADDITIONAL_PDFS, ...configModule.config.additionalPdfs])];
-            console.log(`Loaded ${configModule.config.additionalPdfs.length} additional PDFs from config file`);
-            return merged;
-          }
-        } catch (importError) {
-          console.warn(`Warning: Could not import TypeScript config file ${configPath}: ${importError instanceof Error ? importError.message : String(importError)}`);
-        }
-      } else {
-        // JSON config file (backward compatibility)
-        const configContent = await fs.readFile(configPath, 'utf-8');
-        const config = JSON.parse(configContent);
-        if (config.additionalPdfs && Array.isArray(config.additionalPdfs)) {
-          const merged = [...new Set([...DEFAULT_ADDITIONAL_PDFS, ...config.additionalPdfs])];
-          console.log(`Loaded ${config.additionalPdfs.length} additional PDFs from config file`);
-          return merged;
-        }
-      }
-    } else {
-      // Try to import default TypeScript config
-      try {
-        // Use relative path from current file location (tsx handles TypeScript imports)
-        const scriptDir = getScriptDir();
-        const defaultConfigPath = path.join(scriptDir, 'download-wco-pdfs-config.ts');
-        // For tsx, we can use file:// protocol or just the path
-        const configModule = await import(defaultConfigPath);
-        if (configModule.config && configModule.config.additionalPdfs && Array.isArray(configModule.config.additionalPdfs)) {
-          const merged = [...new Set([...DEFAULT_ADDITIONAL_PDFS, ...configModule.config.additionalPdfs])];
-          console.log(`Loaded ${configModule.config.additionalPdfs.length} additional PDFs from config file`);
-          return merged;
-        }
-      } catch (importError) {
-        // Config file doesn't exist or can't be imported - use defaults
-        // This is expected if the file doesn't exist, so we don't warn
-        // tsx should handle TypeScript imports, but if it fails, we fall back to defaults
-      }
-    }
-  } catch (error) {
-    // Config file doesn't exist or is invalid - use defaults
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      console.warn(`Warning: Could not load config file: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-  return DEFAULT_ADDITIONAL_PDFS;
-}
-
-interface Config {
+// retries, resume, dryRun, verbose, checkExisting and skipExisting come from the shared download core
+interface Config extends CommonDownloadOptions {
   edition: string;
+  language: WcoLanguage; // Publication language ({LANG} placeholder)
   outputDir: string;
   chapters: string;
   delay: number;
   delayVariation: number;
-  retries: number;
-  resume: boolean;
-  dryRun: boolean;
-  verbose: boolean;
+  concurrency: number;
+  rate?: number; // Requests per second per host (overrides delay-based spacing)
   configFile?: string;
-  checkExisting: boolean; // Check if files exist and skip if unchanged (uses HEAD request)
-  skipExisting: boolean; // Skip files that already exist locally (no HEAD request, faster)
-}
-
-interface DownloadResult {
-  success: boolean;
-  status?: number;
-  error?: string;
-  size?: number;
+  useToc: boolean; // Take the heading list from the table of contents (default: true)
+  tocFile?: string; // Explicit table of contents file (.pdf or .md)
+  transport: TransportMode; // live, record (store fixtures) or replay (serve fixtures offline)
+  fixturesDir: string; // Fixtures directory for record/replay
+  reportFile?: string; // JSON run report
+  junitFile?: string; // JUnit XML run report
+  command: 'download' | 'verify'; // verify: re-check an existing edition directory, no requests
 }
 
 interface FileStats {
@@ -297,26 +122,30 @@ interface FileStats {
   skipped: Array<{ chapter: number; heading: string; filename: string }>;
 }
 
-interface ResumePoint {
-  chapter: number;
-  heading: number;
-}
-
 // Parse command line arguments
 function parseArgs(): Config {
-  const args = process.argv.slice(2);
+  const argv = process.argv.slice(2);
+  // "verify" subcommand: re-check an existing edition directory instead of downloading
+  const command = argv[0] === 'verify' ? 'verify' : 'download';
+  const args = command === 'verify' ? argv.slice(1) : argv;
   const config: Config = {
     edition: DEFAULT_EDITION,
+    language: DEFAULT_LANGUAGE,
     outputDir: '',
     chapters: '1-97',
     delay: DEFAULT_DELAY_MS,
     delayVariation: DEFAULT_DELAY_VARIATION_MS,
     retries: DEFAULT_RETRIES,
+    concurrency: DEFAULT_CONCURRENCY,
     resume: false,
     dryRun: false,
     verbose: false,
+    useToc: true,
     checkExisting: true, // Default: check for existing files and skip if unchanged
-    skipExisting: false // Default: don't skip existing files (checkExisting handles this)
+    skipExisting: false, // Default: don't skip existing files (checkExisting handles this)
+    transport: 'live',
+    fixturesDir: DEFAULT_FIXTURES_DIR,
+    command
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -325,6 +154,9 @@ function parseArgs(): Config {
       case '--edition':
         config.edition = args[++i] || DEFAULT_EDITION;
         break;
+      case '--language':
+        config.language = parseLanguage(args[++i]);
+        break;
       case '--output':
         config.outputDir = args[++i] || '';
         break;
@@ -338,7 +170,13 @@ function parseArgs(): Config {
         config.delayVariation = parseInt(args[++i] || String(DEFAULT_DELAY_VARIATION_MS), 10);
         break;
       case '--retries':
-        config.retries = parseInt(args[++i] || '3', 10);
+        config.retries = parseInt(args[++i] || String(DEFAULT_RETRIES), 10);
+        break;
+      case '--concurrency':
+        config.concurrency = Math.max(1, parseInt(args[++i] || String(DEFAULT_CONCURRENCY), 10) || DEFAULT_CONCURRENCY);
+        break;
+      case '--rate':
+        config.rate = parseFloat(args[++i] || '') || undefined;
         break;
       case '--resume':
         config.resume = true;
@@ -364,7 +202,26 @@ function parseArgs(): Config {
         break;
       case '--skip-existing':
         config.skipExisting = true;
-        config.checkExisting = false; // skipExisting takes precedence (faster, no HEAD request)
+        config.checkExisting = false; // skipExisting takes precedence (faster, no request)
+        break;
+      case '--toc':
+        config.tocFile = args[++i] || undefined;
+        config.useToc = true;
+        break;
+      case '--no-toc':
+        config.useToc = false;
+        break;
+      case '--transport':
+        config.transport = parseTransportMode(args[++i]);
+        break;
+      case '--fixtures':
+        config.fixturesDir = args[++i] || DEFAULT_FIXTURES_DIR;
+        break;
+      case '--report':
+        config.reportFile = args[++i] || undefined;
+        break;
+      case '--junit':
+        config.junitFile = args[++i] || undefined;
         break;
       case '--help':
       case '-h':
@@ -372,29 +229,62 @@ function parseArgs(): Config {
 WCO PDF Download Script
 
 Usage: tsx scripts/download-wco-pdfs.ts [options]
+       tsx scripts/download-wco-pdfs.ts verify [--edition <year>] [--language <lang>] [--output <dir>] [--dry-run]
+
+Commands:
+  (none)              Download the edition
+  verify              Re-check the PDFs already in the output directory (EOF marker, pdfjs parse, page count,
+                       heading code) and move the ones that fail to quarantine/ (--dry-run only reports them)
 
 Options:
   --edition <year>    WCO edition year (default: 2022)
-  --output <dir>      Output directory (default: ./data/wco/{edition}/pdfs)
+  --language <lang>   Publication language: en or fr (default: ${DEFAULT_LANGUAGE})
+  --output <dir>      Output directory (default: ./data/wco/{edition}/{language}/pdfs)
   --chapters <range>  Chapter range, e.g., "1-97" or "1,2,3" (default: 1-97)
-  --delay <ms>        Base delay between downloads in milliseconds (default: ${DEFAULT_DELAY_MS})
-  --delay-variation <ms>  Random variation added to delay (default: ${DEFAULT_DELAY_VARIATION_MS})
-                       Actual delay = base + random(0 to variation)
+  --delay <ms>        Minimum spacing between requests to the WCO host in milliseconds (default: ${DEFAULT_DELAY_MS})
+  --delay-variation <ms>  Random variation added to the spacing (default: ${DEFAULT_DELAY_VARIATION_MS})
+                       Actual spacing = base + random(0 to variation), shared by all parallel downloads
+  --concurrency <n>   Number of parallel downloads (default: ${DEFAULT_CONCURRENCY})
+                       Overlaps slow responses; the request rate is still bounded by --delay or --rate
+  --rate <n>          Maximum requests per second per host (overrides --delay/--delay-variation)
   --retries <n>       Number of retries for failed downloads (default: 3)
-  --resume            Resume from last downloaded file
+  --resume            Skip files a previous run completed and retry the ones that failed
+                       (replays ${JOURNAL_FILENAME}; truncated or modified local copies are downloaded again)
   --dry-run           Show what would be downloaded without downloading
-  --check-existing    Check if files exist and skip if unchanged (default: enabled, uses HEAD request)
-  --skip-existing     Skip files that already exist locally (faster, no HEAD request, doesn't check for updates)
+  --check-existing    Check if files exist and skip if unchanged (default: enabled, uses ETag/If-Modified-Since
+                       conditional requests based on ${MANIFEST_FILENAME})
+  --skip-existing     Skip files that already exist locally (faster, no request, doesn't check for updates)
   --no-check-existing  Download all files without checking if they exist (re-downloads everything)
   --force             Alias for --no-check-existing
+  --toc <file>        Table of contents (.pdf or .md) to take the heading list from
+                       (default: table-of-contents_{edition}{e|f}_rev in ../md or the output directory)
+  --no-toc            Ignore the table of contents and try headings 01-99 for every chapter
+                       (404s are then expected and not reported)
+  --transport <mode>  HTTP transport: live (default), record (store request/response fixtures)
+                       or replay (serve recorded fixtures from a local server, no network access)
+  --fixtures <dir>    Fixtures directory for record/replay (default: ${DEFAULT_FIXTURES_DIR})
+  --report <file>     Write a JSON run report (per-file outcome, HTTP status, timing, retries, error class)
+  --junit <file>      Write a JUnit XML run report (for CI/scheduled job dashboards)
   --verbose, -v       Show detailed request/response information for debugging
-  --config <file>     Path to config file for additional PDFs (default: scripts/download-wco-pdfs-config.ts)
+  --config <file>     Path to config file for additional PDFs, .ts or .json (default: scripts/download-wco-pdfs-config.ts)
   --help, -h          Show this help message
 
+Exit codes:
+  0  All files downloaded, unchanged or skipped
+  1  Fatal error
+  2  Partial failure (some files failed)
+  3  Blocked or rate-limited (403/429) - retry later
+
 Examples:
   tsx scripts/download-wco-pdfs.ts --edition 2022
+  tsx scripts/download-wco-pdfs.ts --edition 2022 --language fr
   tsx scripts/download-wco-pdfs.ts --chapters 1-10 --delay ${DEFAULT_DELAY_MS}
+  tsx scripts/download-wco-pdfs.ts --concurrency 4 --rate 2
   tsx scripts/download-wco-pdfs.ts --resume
+  tsx scripts/download-wco-pdfs.ts verify --edition 2022
+  tsx scripts/download-wco-pdfs.ts --report ./data/reports/wco-2022.json --junit ./data/reports/wco-2022.xml
+  tsx scripts/download-wco-pdfs.ts --chapters 1 --transport record --fixtures ./data/fixtures/chapter-1
+  tsx scripts/download-wco-pdfs.ts --chapters 1 --transport replay --fixtures ./data/fixtures/chapter-1 --delay 0 --delay-variation 0
         `);
         process.exit(0);
         break;
@@ -403,7 +293,7 @@ Examples:
 
   // Set default output directory if not specified
   if (!config.outputDir) {
-    config.outputDir = path.join(DEFAULT_OUTPUT_DIR, config.edition, 'pdfs');
+    config.outputDir = path.join(DEFAULT_OUTPUT_DIR, config.edition, config.language, 'pdfs');
   }
 
   return config;
@@ -422,7 +312,7 @@ function parseChapters(chapterStr: string): number[] {
 }
 
 // Generate heading codes for a chapter (e.g., 01, 02, ..., 99)
-// Note: Most chapters have headings from 01 to around 50-60, but we'll try up to 99
+// Only used when no table of contents is available (--no-toc): most of these requests 404
 // Returns just the 2-digit heading number (not chapter+heading)
 function generateHeadings(chapter: number): string[] {
   const headings: string[] = [];
@@ -437,351 +327,90 @@ function generateHeadings(chapter: number): string[] {
 }
 
 // Build URL for a specific chapter and heading
-function buildUrl(edition: string, chapter: number, heading: string): string {
-  return BASE_URL
-    .replace(/{EDITION}/g, edition)
+function buildUrl(edition: string, language: WcoLanguage, chapter: number, heading: string): string {
+  return applyPlaceholders(BASE_URL, edition, language)
     .replace(/{CHAPTER}/g, String(chapter).padStart(2, '0'))
     .replace(/{HEADING}/g, heading);
 }
 
 // Build URL for additional PDFs (Introduction, Table of Contents, etc.)
-function buildAdditionalUrl(edition: string, filename: string): string {
-  return BASE_URL_ADDITIONAL
-    .replace(/{EDITION}/g, edition)
+// filename has its placeholders applied already
+function buildAdditionalUrl(edition: string, language: WcoLanguage, filename: string): string {
+  return applyPlaceholders(BASE_URL_ADDITIONAL, edition, language)
     .replace(/{FILENAME}/g, filename);
 }
 
-// Download a file with redirect handling
-function downloadFile(url: string, outputPath: string, refererUrl: string, retries: number = DEFAULT_RETRIES, maxRedirects: number = 5, verbose: boolean = false): Promise<DownloadResult> {
-  return new Promise((resolve, reject) => {
-    const protocol = url.startsWith('https:') ? https : http;
-    
-    const attemptDownload = (attempt: number = 1, currentUrl: string = url, redirectCount: number = 0, previousUrl?: string): void => {
-      // Prevent infinite redirect loops
-      if (redirectCount >= maxRedirects) {
-        resolve({ success: false, status: 0, error: 'Too many redirects' });
-        return;
-      }
-      
-      // Use previous URL as referer if available (for redirects), otherwise use the main page referer
-      const referer = previousUrl || refererUrl;
-      const headers = getBrowserHeaders(referer);
-      
-      if (verbose) {
-        console.log(`\n[DEBUG] Request #${attempt} (redirect: ${redirectCount}):`);
-        console.log(`  URL: ${currentUrl}`);
-        console.log(`  Referer: ${referer}`);
-        console.log(`  Headers:`, JSON.stringify(headers, null, 2));
-      }
-      
-      const file = createWriteStream(outputPath);
-      
-      const options = {
-        headers: headers
-      };
-      
-      protocol.get(currentUrl, options, (response) => {
-        // Extract cookies from response
-        extractCookies(response);
-        
-        if (verbose) {
-          console.log(`\n[DEBUG] Response:`);
-          console.log(`  Status: ${response.statusCode} ${response.statusMessage}`);
-          console.log(`  Headers:`, JSON.stringify(response.headers, null, 2));
-          if (cookieJar) {
-            console.log(`  [DEBUG] Current cookies: ${cookieJar}`);
-          }
-        }
-        
-        // Handle redirects (301, 302, 303, 307, 308)
-        if (response.statusCode === 301 || response.statusCode === 302 || response.statusCode === 303 || 
-            response.statusCode === 307 || response.statusCode === 308) {
-          // Consume response body to prevent hanging
-          response.resume();
-          
-          const location = response.headers.location;
-          if (!location) {
-            file.close();
-            if (existsSync(outputPath)) {
-              unlinkSync(outputPath);
-            }
-            resolve({ success: false, status: response.statusCode || 302, error: `HTTP ${response.statusCode || 302} - No redirect location` });
-            return;
-          }
-          
-          // Check if redirect is to an error page - treat as 404 and delete empty file
-          if (location.includes('/error') || location.includes('404')) {
-            file.close();
-            // Delete empty file created by this failed request
-            if (existsSync(outputPath)) {
-              try {
-                const stats = statSync(outputPath);
-                // Only delete if file is empty or very small (likely from this failed request)
-                if (stats.size === 0 || stats.size < 100) {
-                  unlinkSync(outputPath);
-                }
-              } catch {
-                // Ignore stat errors
-              }
-            }
-            if (verbose) {
-              console.log(`  [DEBUG] Redirect to error page detected, treating as 404`);
-            }
-            resolve({ success: false, status: 404, error: 'Not Found (redirected to error page)' });
-            return;
-          }
-          
-          // Handle relative and absolute URLs
-          let redirectUrl: string;
-          if (location.startsWith('http://') || location.startsWith('https://')) {
-            redirectUrl = location;
-          } else if (location.startsWith('//')) {
-            redirectUrl = `${currentUrl.split('://')[0]}://${location.substring(2)}`;
-          } else if (location.startsWith('/')) {
-            const urlObj = new URL(currentUrl);
-            redirectUrl = `${urlObj.protocol}//${urlObj.host}${location}`;
-          } else {
-            const urlObj = new URL(currentUrl);
-            const basePath = urlObj.pathname.substring(0, urlObj.pathname.lastIndexOf('/'));
-            redirectUrl = `${urlObj.protocol}//${urlObj.host}${basePath}/${location}`;
-          }
-          
-          if (verbose) {
-            console.log(`  [DEBUG] Redirect detected: ${response.statusCode}`);
-            console.log(`  [DEBUG] Location header: ${location}`);
-            console.log(`  [DEBUG] Following redirect to: ${redirectUrl}`);
-          }
-          
-          // Close file before following redirect (but don't delete - might be valid redirect)
-          file.close();
-          
-          // Follow redirect
-          attemptDownload(attempt, redirectUrl, redirectCount + 1, currentUrl);
-          return;
-        }
-        
-        if (response.statusCode === 404) {
-          file.close();
-          // Delete empty file created by this failed request
-          if (existsSync(outputPath)) {
-            try {
-              const stats = statSync(outputPath);
-              // Only delete if file is empty or very small (likely from this failed request)
-              if (stats.size === 0 || stats.size < 100) {
-                unlinkSync(outputPath);
-              }
-            } catch {
-              // Ignore stat errors
-            }
-          }
-          resolve({ success: false, status: 404, error: 'Not Found' });
-          return;
-        }
-        
-        if (response.statusCode !== 200) {
-          file.close();
-          // Only delete file if it's a server error and we're not retrying
-          if (response.statusCode && response.statusCode >= 500 && attempt >= retries) {
-            if (existsSync(outputPath)) {
-              try {
-                const stats = statSync(outputPath);
-                // Only delete if file is empty or very small (likely incomplete)
-                if (stats.size === 0 || stats.size < 100) {
-                  unlinkSync(outputPath);
-                }
-              } catch {
-                // Ignore stat errors
-              }
-            }
-          }
-          if (verbose) {
-            console.log(`  [DEBUG] Non-200 status code: ${response.statusCode}`);
-          }
-          if (attempt < retries) {
-            console.log(`  Retrying... (${attempt}/${retries})`);
-            setTimeout(() => attemptDownload(attempt + 1, currentUrl, redirectCount, previousUrl), 1000 * attempt);
-            return;
-          }
-          resolve({ success: false, status: response.statusCode, error: `HTTP ${response.statusCode}` });
-          return;
-        }
-        
-        response.pipe(file);
-        
-        file.on('finish', () => {
-          file.close();
-          const size = statSync(outputPath).size;
-          resolve({ success: true, size });
-        });
-      }).on('error', (error: Error) => {
-        file.close();
-        // Only delete file on error if we're not retrying and file is likely incomplete
-        if (attempt >= retries && existsSync(outputPath)) {
-          try {
-            const stats = statSync(outputPath);
-            // Only delete if file is empty or very small (likely incomplete)
-            if (stats.size === 0 || stats.size < 100) {
-              unlinkSync(outputPath);
-            }
-          } catch {
-            // Ignore stat errors
-          }
-        }
-        if (verbose) {
-          console.log(`  [DEBUG] Request error:`, error.message);
-          console.log(`  [DEBUG] Error stack:`, error.stack);
-        }
-        if (attempt < retries) {
-          console.log(`  Retrying... (${attempt}/${retries})`);
-          setTimeout(() => attemptDownload(attempt + 1, currentUrl, redirectCount, previousUrl), 1000 * attempt);
-          return;
-        }
-        reject(error);
-      });
-    };
-    
-    attemptDownload();
-  });
-}
-
-// Sleep/delay function
-// sleep is imported from shared-utils.ts
+// Re-check the PDFs of an existing edition directory (verify subcommand)
+async function verifyEdition(config: Config): Promise<void> {
+  console.log('WCO PDF Verification');
+  console.log('====================');
+  console.log(`Edition: ${config.edition}`);
+  console.log(`Directory: ${config.outputDir}`);
+  console.log(`Dry Run: ${config.dryRun}`);
+  console.log('');
 
-// Check if file exists
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
+  if (!(await fileExists(config.outputDir))) {
+    throw new Error(`Directory does not exist: ${config.outputDir}`);
   }
-}
+  const manifest = await loadManifest(config.outputDir, config.edition);
+  const summary = await verifyDirectory(config.outputDir, manifest, config.dryRun);
 
-// Get local file size
-async function getLocalFileSize(filePath: string): Promise<number | null> {
-  try {
-    const stats = await fs.stat(filePath);
-    return stats.size;
-  } catch {
-    return null;
+  console.log('');
+  console.log(`Checked: ${summary.checked}`);
+  console.log(`OK: ${summary.ok}`);
+  console.log(`${config.dryRun ? 'Would quarantine' : 'Quarantined'}: ${summary.quarantined.length}`);
+  if (summary.quarantined.length > 0 && !config.dryRun) {
+    console.log(`Quarantined files are in ${path.join(config.outputDir, QUARANTINE_DIR)} (with a .reason.json each); run the download again to replace them`);
   }
-}
-
-// Check if remote file has changed by comparing file size (with redirect handling)
-async function checkFileChanged(url: string, localPath: string, maxRedirects: number = 5): Promise<boolean> {
-  return new Promise((resolve) => {
-    const protocol = url.startsWith('https:') ? https : http;
-    
-    const checkFile = (currentUrl: string, redirectCount: number = 0): void => {
-      // Prevent infinite redirect loops
-      if (redirectCount >= maxRedirects) {
-        resolve(true); // Too many redirects, assume changed to force download
-        return;
-      }
-      
-      // Make HEAD request to get file size
-      const baseReferer = 'https://www.wcoomd.org/en/topics/nomenclature/instrument-and-tools/hs-nomenclature-2022-edition/hs-nomenclature-2022-edition.aspx';
-      const options = {
-        method: 'HEAD',
-        headers: getBrowserHeaders(baseReferer)
-      };
-      
-      const req = protocol.request(currentUrl, options, async (response) => {
-        // Handle redirects (301, 302, 303, 307, 308)
-        if (response.statusCode === 301 || response.statusCode === 302 || response.statusCode === 303 || 
-            response.statusCode === 307 || response.statusCode === 308) {
-          const location = response.headers.location;
-          if (!location) {
-            resolve(true); // No redirect location, assume changed
-            return;
-          }
-          
-          // Handle relative and absolute URLs
-          let redirectUrl: string;
-          if (location.startsWith('http://') || location.startsWith('https://')) {
-            redirectUrl = location;
-          } else if (location.startsWith('//')) {
-            redirectUrl = `${currentUrl.split('://')[0]}://${location.substring(2)}`;
-          } else if (location.startsWith('/')) {
-            const urlObj = new URL(currentUrl);
-            redirectUrl = `${urlObj.protocol}//${urlObj.host}${location}`;
-          } else {
-            const urlObj = new URL(currentUrl);
-            const basePath = urlObj.pathname.substring(0, urlObj.pathname.lastIndexOf('/'));
-            redirectUrl = `${urlObj.protocol}//${urlObj.host}${basePath}/${location}`;
-          }
-          
-          // Follow redirect
-          checkFile(redirectUrl, redirectCount + 1);
-          return;
-        }
-        
-        if (response.statusCode === 404) {
-          resolve(true); // File doesn't exist on server, consider it "changed" to skip
-          return;
-        }
-        
-        if (response.statusCode !== 200) {
-          resolve(true); // Error, assume changed to force download
-          return;
-        }
-        
-        const remoteSize = parseInt(response.headers['content-length'] || '0', 10);
-        const localSize = await getLocalFileSize(localPath);
-        
-        // If sizes don't match, file has changed
-        if (localSize === null || localSize !== remoteSize) {
-          resolve(true); // File has changed or doesn't exist locally
-        } else {
-          resolve(false); // File exists and size matches, no change
-        }
-      });
-      
-      req.on('error', () => {
-        resolve(true); // On error, assume changed to force download
-      });
-      
-      req.setTimeout(10000, () => {
-        req.destroy();
-        resolve(true); // On timeout, assume changed to force download
-      });
-      
-      req.end();
-    };
-    
-    checkFile(url);
-  });
+  process.exitCode = summary.quarantined.length > 0 ? EXIT_PARTIAL_FAILURE : EXIT_OK;
 }
 
 // Main download function
 async function main(): Promise<void> {
   const config = parseArgs();
+  if (config.command === 'verify') {
+    await verifyEdition(config);
+    return;
+  }
   
   console.log('WCO PDF Download Script');
   console.log('========================');
   console.log(`Edition: ${config.edition}`);
+  console.log(`Language: ${config.language}`);
   console.log(`Output: ${config.outputDir}`);
   console.log(`Chapters: ${config.chapters}`);
-  console.log(`Delay: ${config.delay}ms (with ±${config.delayVariation}ms random variation)`);
+  if (config.rate) {
+    console.log(`Rate: ${config.rate} requests/s per host`);
+  } else {
+    console.log(`Delay: ${config.delay}ms (with +0-${config.delayVariation}ms random variation)`);
+  }
+  console.log(`Concurrency: ${config.concurrency}`);
   console.log(`Retries: ${config.retries}`);
   console.log(`Resume: ${config.resume}`);
   if (config.skipExisting) {
-    console.log(`Skip Existing: enabled (fast mode, no HEAD requests)`);
+    console.log(`Skip Existing: enabled (fast mode, no requests)`);
   } else {
     console.log(`Check Existing: ${config.checkExisting ? 'enabled' : 'disabled'}`);
   }
   console.log(`Dry Run: ${config.dryRun}`);
+  if (config.transport !== 'live') {
+    console.log(`Transport: ${config.transport} (fixtures: ${config.fixturesDir})`);
+  }
   console.log('');
 
+  const transport = await createTransport({ mode: config.transport, fixturesDir: config.fixturesDir, verbose: config.verbose });
+
   // Create output directory
   if (!config.dryRun) {
     await fs.mkdir(config.outputDir, { recursive: true });
   }
 
   // Establish browser session (visit main page first, like a regular browser)
-  let refererUrl = `https://www.wcoomd.org/en/topics/nomenclature/instrument-and-tools/hs-nomenclature-${config.edition}-edition/hs-nomenclature-${config.edition}-edition.aspx`;
+  const landingUrl = `https://www.wcoomd.org/${config.language}/topics/nomenclature/instrument-and-tools/hs-nomenclature-${config.edition}-edition/hs-nomenclature-${config.edition}-edition.aspx`;
+  const session = createHttpSession(landingUrl, transport, config.verbose);
+  let refererUrl = landingUrl;
   if (!config.dryRun) {
-    refererUrl = await establishSession(config.edition, config.verbose);
+    refererUrl = await session.establish();
     if (config.verbose) {
       console.log(`[DEBUG] Using referer: ${refererUrl}`);
     }
@@ -798,198 +427,208 @@ async function main(): Promise<void> {
     skipped: []
   };
 
-  // Load additional PDFs from config file or use defaults
-  // Use path relative to project root (scripts directory)
-  const additionalPdfs = await loadAdditionalPdfs(config.configFile);
+  // Load provenance manifest (records what was fetched and the validators for conditional requests)
+  const manifest = await loadManifest(config.outputDir, config.edition);
+
+  // One limiter for all workers: concurrency overlaps latency, it never raises the request rate
+  const limiter = createRateLimiter({
+    minIntervalMs: config.rate ? 1000 / config.rate : config.delay,
+    jitterMs: config.rate ? 0 : config.delayVariation,
+    verbose: config.verbose
+  });
+
+  // Journal of every attempted download (replayed by --resume)
+  const journal = await openJournal(config.outputDir);
+  if (config.resume) {
+    console.log(`Resuming with ${journal.path} (${journal.size} files recorded)\n`);
+  }
+
+  const ctx: DownloadContext = {
+    tool: 'download-wco-pdfs',
+    options: config,
+    outputDir: config.outputDir,
+    manifest,
+    transport,
+    session,
+    limiter,
+    referer: refererUrl,
+    journal
+  };
+
+  // Per-file results for the run report and exit code
+  const recorder = createRunRecorder('download-wco-pdfs', config.edition);
+
+  // Load additional PDFs from config file or use defaults (validated, filtered for this edition)
+  const additionalPdfs = await loadAdditionalPdfs(config.edition, config.configFile);
 
   // Download additional important PDFs first (Introduction, Table of Contents, General Rules, etc.)
   // These are critical for LLM classification context
   console.log(`Downloading ${additionalPdfs.length} additional PDFs (Introduction, Table of Contents, General Rules, etc.)...\n`);
-  for (const pdfTemplate of additionalPdfs) {
-    const filename = pdfTemplate.replace(/{EDITION}/g, config.edition);
-    const url = buildAdditionalUrl(config.edition, filename);
-    const outputPath = path.join(config.outputDir, filename);
+  await runWithConcurrency(additionalPdfs, config.concurrency, async (entry) => {
+    // Templates written before {LANG} existed hard-code the English "e" suffix
+    if (config.language !== 'en' && !entry.file.includes('{LANG}')) {
+      console.warn(`  ⚠️  ${entry.file} has no {LANG} placeholder - downloading it as written`);
+    }
+    const candidates = getCandidateFilenames(entry, config.edition, config.language);
 
     totalAttempted++;
 
-    // Skip if file exists (simple check, no HEAD request)
-    if (config.skipExisting && !config.dryRun && await fileExists(outputPath)) {
-      totalSkipped++;
-      continue;
-    }
-
-    // Check if file already exists and hasn't changed (if enabled, uses HEAD request)
-    if (config.checkExisting && !config.dryRun && await fileExists(outputPath)) {
-      // Small random delay before HEAD request
-      if (config.delay > 0) {
-        const headDelay = getRandomDelay(config.delay / 2, config.delayVariation / 2);
-        await sleep(headDelay);
-      }
-      const hasChanged = await checkFileChanged(url, outputPath);
-      if (!hasChanged) {
-        totalSkipped++;
-        continue;
+    // Try the filename, then its aliases; only a required entry's last name may not 404
+    let filename = candidates[0]!;
+    let url = '';
+    let result: DownloadItemResult | undefined;
+    for (const [index, candidate] of candidates.entries()) {
+      filename = candidate;
+      url = buildAdditionalUrl(config.edition, config.language, filename);
+      const notFoundExpected = !entry.required || index < candidates.length - 1;
+      result = await downloadItem(ctx, url, filename, path.join(config.outputDir, filename), notFoundExpected);
+      // A name that 404'd in an earlier run is skipped by --resume; move on to the next alias
+      const resumedNotFound = result.outcome === 'resumed' && journal.last(filename)?.outcome === 'not-found';
+      if (result.outcome !== 'not-found' && !resumedNotFound) {
+        break;
       }
     }
-
-    if (config.dryRun) {
-      console.log(`  [DRY RUN] Would download: ${filename}`);
-      totalDownloaded++;
-    } else {
-      try {
-        const result = await downloadFile(url, outputPath, refererUrl, config.retries, 5, config.verbose);
-        
-        if (result.success) {
-          const sizeKB = result.size ? (result.size / 1024).toFixed(2) : '0';
-          console.log(`  ✓ ${filename} (${sizeKB} KB)`);
-          totalDownloaded++;
-          stats.downloaded.push({ chapter: 0, heading: 'additional', filename });
-        } else if (result.status === 404) {
-          // 404 for additional PDFs - may not exist for older editions, skip and continue
-          console.log(`  ⊘ ${filename} - not found (404), skipping (may not exist for this edition)`);
-          totalSkipped++;
-          stats.skipped.push({ chapter: 0, heading: 'additional', filename });
-        } else {
-          console.log(`  ✗ ${filename} - ${result.error || 'Unknown error'}`);
+    const alias = filename !== candidates[0] ? ` (alias of ${candidates[0]})` : '';
+    const missingRequired = entry.required === true && result!.outcome === 'not-found';
+    recorder.record(filename, url, result!, missingRequired ? 'failed' : undefined);
+    switch (result!.outcome) {
+      case 'dry-run':
+        console.log(`  [DRY RUN] Would download: ${filename}${candidates.length > 1 ? ` (or ${candidates.slice(1).join(', ')})` : ''}`);
+        totalDownloaded++;
+        break;
+      case 'downloaded': {
+        const sizeKB = result!.size ? (result!.size / 1024).toFixed(2) : '0';
+        console.log(`  ✓ ${filename} (${sizeKB} KB)${alias}`);
+        totalDownloaded++;
+        stats.downloaded.push({ chapter: 0, heading: 'additional', filename });
+        break;
+      }
+      case 'not-found':
+        if (missingRequired) {
+          // Required files must exist: a 404 means the config (or the site) changed
+          const error = `Required PDF not found (404), tried: ${candidates.join(', ')}`;
+          console.log(`  ✗ ${candidates[0]} - ${error}`);
           totalFailed++;
-          stats.failed.push({ chapter: 0, heading: 'additional', filename, error: result.error || 'Unknown error' });
+          stats.failed.push({ chapter: 0, heading: 'additional', filename: candidates[0]!, error });
+          break;
         }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.log(`  ✗ ${filename} - ${errorMessage}`);
+        // 404 for optional PDFs - may not exist for older editions, skip and continue
+        console.log(`  ⊘ ${candidates[0]} - not found (404), skipping (may not exist for this edition)`);
+        totalSkipped++;
+        stats.skipped.push({ chapter: 0, heading: 'additional', filename: candidates[0]! });
+        break;
+      case 'failed':
+        console.log(`  ✗ ${filename} - ${result!.error}`);
         totalFailed++;
-        stats.failed.push({ chapter: 0, heading: 'additional', filename, error: errorMessage });
-      }
-
-      // Random delay between downloads
-      if (config.delay > 0) {
-        const randomDelay = getRandomDelay(config.delay, config.delayVariation);
-        await sleep(randomDelay);
-      }
+        stats.failed.push({ chapter: 0, heading: 'additional', filename, error: result!.error || 'Unknown error' });
+        break;
+      default:
+        // Unchanged (304) or already on disk (--skip-existing)
+        totalSkipped++;
+        stats.skipped.push({ chapter: 0, heading: 'additional', filename });
     }
-  }
+  });
   console.log('');
 
   // Parse chapters
   const chapters = parseChapters(config.chapters);
   console.log(`Processing ${chapters.length} chapters...\n`);
 
-  // Find last downloaded file if resuming
-  let resumeFrom: ResumePoint | null = null;
-  if (config.resume && !config.dryRun) {
-    const files = await fs.readdir(config.outputDir).catch(() => []);
-    if (files.length > 0) {
-      const pdfFiles = files.filter(f => f.endsWith('.pdf')).sort();
-      if (pdfFiles.length > 0) {
-        const lastFile = pdfFiles[pdfFiles.length - 1];
-        const match = lastFile.match(/^(\d{2})(\d{2})_(\d{4})e\.pdf$/);
-        if (match) {
-          resumeFrom = {
-            chapter: parseInt(match[1]!, 10),
-            heading: parseInt(match[2]!, 10)
-          };
-          console.log(`Resuming from Chapter ${resumeFrom.chapter}, Heading ${String(resumeFrom.heading).padStart(2, '0')}\n`);
-        }
-      }
+  // Take the heading list from the table of contents (downloaded with the additional PDFs above)
+  let tocByChapter: Map<number, TocEntry[]> | null = null;
+  if (config.useToc) {
+    const toc = await loadTableOfContents(config.outputDir, config.edition, config.tocFile, config.language);
+    if (toc && toc.entries.length > 0) {
+      tocByChapter = groupByChapter(toc.entries);
+      console.log(`Using table of contents: ${toc.source} (${toc.entries.length} headings)\n`);
+    } else if (toc) {
+      console.warn(`⚠️  No heading codes found in ${toc.source} - trying headings 01-99 instead (404s will not be reported)\n`);
+    } else {
+      console.warn(`⚠️  Table of contents not found for edition ${config.edition} - trying headings 01-99 instead (404s will not be reported)\n`);
     }
   }
 
-  // Process each chapter
+  // Heading files of all chapters go through one pool, paced by the per-host limiter
+  // (a pool per chapter would wait for the slowest file at every chapter boundary)
+  const jobs: Array<{ chapter: number; heading: string }> = [];
+  const chapterCounts = new Map<number, { remaining: number; downloaded: number; failed: number; skipped: number }>();
   for (const chapter of chapters) {
-    // Skip if resuming and we haven't reached the resume point
-    if (resumeFrom && chapter < resumeFrom.chapter) {
+    const headings = tocByChapter
+      ? (tocByChapter.get(chapter) || []).map(entry => entry.heading)
+      : generateHeadings(chapter);
+    if (tocByChapter && headings.length === 0) {
+      console.log(`Chapter ${chapter}: not listed in table of contents, skipping`);
       continue;
     }
+    chapterCounts.set(chapter, { remaining: headings.length, downloaded: 0, failed: 0, skipped: 0 });
+    jobs.push(...headings.map(heading => ({ chapter, heading })));
+  }
+  console.log(`Downloading ${jobs.length} heading PDFs from ${chapterCounts.size} chapters...\n`);
 
-    console.log(`Chapter ${chapter}...`);
-    const headings = generateHeadings(chapter);
-    let chapterDownloaded = 0;
-    let chapterFailed = 0;
-    let chapterSkipped = 0;
-
-    for (const heading of headings) {
-      // Skip if resuming and we haven't reached the resume point
-      if (resumeFrom && chapter === resumeFrom.chapter) {
-        const headingNum = parseInt(heading, 10);
-        if (headingNum <= resumeFrom.heading) {
-          continue;
-        }
-      }
-
-      const url = buildUrl(config.edition, chapter, heading);
-      const filename = `${String(chapter).padStart(2, '0')}${heading}_${config.edition}e.pdf`;
+  await runWithConcurrency(jobs, config.concurrency, async ({ chapter, heading }) => {
+    const counts = chapterCounts.get(chapter)!;
+    try {
+      const url = buildUrl(config.edition, config.language, chapter, heading);
+      const filename = `${String(chapter).padStart(2, '0')}${heading}_${config.edition}${WCO_LANGUAGES[config.language]}.pdf`;
       const outputPath = path.join(config.outputDir, filename);
 
-      totalAttempted++;
-
-      // Skip if file exists (simple check, no HEAD request)
-      if (config.skipExisting && !config.dryRun && await fileExists(outputPath)) {
-        totalSkipped++;
-        chapterSkipped++;
-        continue;
+      const result = await downloadItem(ctx, url, filename, outputPath, !tocByChapter);
+      // A listed heading that is missing is a failure; without a TOC the 404 is expected
+      recorder.record(filename, url, result, result.outcome === 'not-found' && tocByChapter ? 'failed' : undefined);
+      // Completed in a previous run (--resume)
+      if (result.outcome === 'resumed') {
+        return;
       }
 
-      // Check if file already exists and hasn't changed (if enabled, uses HEAD request)
-      if (config.checkExisting && !config.dryRun && await fileExists(outputPath)) {
-        // Small random delay before HEAD request (to avoid being blocked)
-        if (config.delay > 0) {
-          const headDelay = getRandomDelay(config.delay / 2, config.delayVariation / 2);
-          await sleep(headDelay);
-        }
-        const hasChanged = await checkFileChanged(url, outputPath);
-        if (!hasChanged) {
-          // File exists and hasn't changed, skip download
-          totalSkipped++;
-          chapterSkipped++;
-          continue;
-        }
-        // File exists but has changed, will re-download
-      }
+      totalAttempted++;
 
-      if (config.dryRun) {
-        console.log(`  [DRY RUN] Would download: ${filename}`);
-        totalDownloaded++;
-        chapterDownloaded++;
-      } else {
-        try {
-          const result = await downloadFile(url, outputPath, refererUrl, config.retries, 5, config.verbose);
-          
-          if (result.success) {
-            const sizeKB = result.size ? (result.size / 1024).toFixed(2) : '0';
-            console.log(`  ✓ ${filename} (${sizeKB} KB)`);
-            totalDownloaded++;
-            chapterDownloaded++;
-            stats.downloaded.push({ chapter, heading, filename });
-          } else if (result.status === 404) {
-            // 404 is expected for headings that don't exist (not all chapters have all headings 01-99)
-            // Skip silently to avoid cluttering output
-            totalSkipped++;
-            chapterSkipped++;
-            // Don't add to stats.failed - 404s are expected for non-existent headings
-          } else {
-            console.log(`  ✗ ${filename} - ${result.error || 'Unknown error'}`);
+      switch (result.outcome) {
+        case 'dry-run':
+          console.log(`  [DRY RUN] Would download: ${filename}`);
+          totalDownloaded++;
+          counts.downloaded++;
+          break;
+        case 'downloaded': {
+          const sizeKB = result.size ? (result.size / 1024).toFixed(2) : '0';
+          console.log(`  ✓ ${filename} (${sizeKB} KB)`);
+          totalDownloaded++;
+          counts.downloaded++;
+          stats.downloaded.push({ chapter, heading, filename });
+          break;
+        }
+        case 'not-found':
+          if (tocByChapter) {
+            // The table of contents lists this heading, so a missing file is a real failure
+            const error = 'Listed in table of contents but not found (404)';
+            console.log(`  ✗ ${filename} - ${error}`);
             totalFailed++;
-            chapterFailed++;
-            stats.failed.push({ chapter, heading, filename, error: result.error || 'Unknown error' });
+            counts.failed++;
+            stats.failed.push({ chapter, heading, filename, error });
+          } else {
+            // Without a table of contents, 404 is expected for headings that don't exist
+            // (not all chapters have all headings 01-99). Skip silently to avoid cluttering output
+            totalSkipped++;
+            counts.skipped++;
           }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.log(`  ✗ ${filename} - ${errorMessage}`);
+          break;
+        case 'failed':
+          console.log(`  ✗ ${filename} - ${result.error}`);
           totalFailed++;
-          chapterFailed++;
-          stats.failed.push({ chapter, heading, filename, error: errorMessage });
-        }
-
-        // Random delay between downloads (to avoid being blocked)
-        if (config.delay > 0) {
-          const randomDelay = getRandomDelay(config.delay, config.delayVariation);
-          await sleep(randomDelay);
-        }
+          counts.failed++;
+          stats.failed.push({ chapter, heading, filename, error: result.error || 'Unknown error' });
+          break;
+        default:
+          // Server confirmed the local copy is current (304), or it is already on disk (--skip-existing)
+          totalSkipped++;
+          counts.skipped++;
+      }
+    } finally {
+      if (--counts.remaining === 0) {
+        console.log(`  Chapter ${chapter}: ${counts.downloaded} downloaded, ${counts.failed} failed, ${counts.skipped} skipped`);
       }
     }
-
-    console.log(`  Chapter ${chapter}: ${chapterDownloaded} downloaded, ${chapterFailed} failed, ${chapterSkipped} skipped\n`);
-  }
+  });
+  console.log('');
 
   // Print summary
   console.log('========================');
@@ -998,7 +637,7 @@ async function main(): Promise<void> {
   console.log(`Total attempted: ${totalAttempted}`);
   console.log(`Downloaded: ${totalDownloaded}`);
   console.log(`Failed: ${totalFailed}`);
-  console.log(`Skipped: ${totalSkipped} (already exists and unchanged, or 404)`);
+  console.log(`Skipped: ${totalSkipped} (already exists and unchanged (304), or 404)`);
   console.log('');
 
   if (stats.failed.length > 0) {
@@ -1011,7 +650,22 @@ async function main(): Promise<void> {
 
   if (!config.dryRun) {
     console.log(`PDFs saved to: ${config.outputDir}`);
+    console.log(`Manifest: ${path.join(config.outputDir, MANIFEST_FILENAME)} (${Object.keys(manifest.files).length} files)`);
+  }
+
+  // Flush recorded fixtures / stop the replay server
+  await transport.close();
+
+  const report = recorder.finish();
+  await writeReports(report, config.reportFile, config.junitFile);
+  if (config.reportFile) {
+    console.log(`Report: ${config.reportFile}`);
+  }
+  if (config.junitFile) {
+    console.log(`JUnit report: ${config.junitFile}`);
   }
+  console.log(`Exit code: ${report.exitCode} (${describeExitCode(report.exitCode)})`);
+  process.exitCode = report.exitCode;
 }
 
 // Run the script
@@ -0,0 +1,348 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Comparison of two downloaded WCO editions
+ *
+ * Each edition directory (`data/wco/{edition}/{language}`) holds the downloaded PDFs with
+ * their manifest (`pdfs/manifest.json`) and the converted Markdown (`md/`). Documents are
+ * matched across editions by name with the edition year removed (`0101_2017e.pdf` and
+ * `0101_2022e.pdf`). Markdown is compared after whitespace normalization, so re-running a
+ * converter does not show up as an amendment; documents without Markdown fall back to
+ * comparing the manifest SHA-256 of the PDFs.
+ *
+ * Headings and HS codes are not tied to file names: a numbered file may hold a section, a
+ * whole chapter with many headings, or a single heading. Every numbered file is parsed with
+ * the nomenclature parser (wco-nomenclature.ts) and the headings and codes are compared by
+ * their own codes, wherever they are printed.
+ *
+ * The result is a change set for the database importer: which `wco_headings` and
+ * `wco_hs_codes` rows are new, deleted or amended in the newer edition.
+ */
+
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { loadManifest, sha256File } from './download-manifest.js';
+import { unifiedDiff, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import { parseNomenclatureMarkdown } from './wco-nomenclature.js';
+
+export const CHANGE_SET_VERSION = 2;
+
+export type ChangeType = 'new' | 'deleted' | 'amended';
+
+// How a document was compared: converted text, or only the PDF checksum
+export type ComparisonBasis = 'markdown' | 'sha256';
+
+export interface HeadingChange {
+  wco_heading_code: string; // 4 digits without dot (e.g., "0101")
+  change: ChangeType;
+  fromFile: string | null; // Markdown file the heading was parsed from
+  toFile: string | null;
+  fromTitle: string | null;
+  toTitle: string | null;
+  hsCodesChanged: number; // New, deleted and amended codes of the heading
+}
+
+export interface HsCodeChange {
+  wco_hs_code_code: string; // 6 digits without dot (e.g., "010121")
+  wco_heading_code: string;
+  change: ChangeType;
+  fromDescription: string | null;
+  toDescription: string | null;
+}
+
+export interface DocumentChange {
+  document: string; // Name with the edition replaced by {EDITION} (e.g., "introduction_{EDITION}e")
+  change: ChangeType;
+  basis: ComparisonBasis;
+  fromFile: string | null;
+  toFile: string | null;
+}
+
+export interface EditionChangeSet {
+  version: number;
+  language: WcoLanguage;
+  fromEdition: string;
+  toEdition: string;
+  generatedAt: string;
+  summary: {
+    headings: Record<ChangeType | 'unchanged', number>;
+    hsCodes: Record<ChangeType, number>;
+    documents: Record<ChangeType | 'unchanged', number>;
+  };
+  wco_headings: HeadingChange[];
+  wco_hs_codes: HsCodeChange[];
+  documents: DocumentChange[]; // Every changed file: sections, chapters, headings, introduction, etc.
+  warnings: string[];
+}
+
+export interface EditionDiffResult {
+  changeSet: EditionChangeSet;
+  diffs: Map<string, string>; // Unified diff of the Markdown per changed document (key: document name)
+}
+
+// One document of an edition (PDF and/or converted Markdown)
+interface EditionDocument {
+  key: string;
+  pdfFile: string | null;
+  mdFile: string | null;
+  sha256: string | null;
+}
+
+// A heading parsed from one edition's Markdown
+interface EditionHeading {
+  code: string;
+  title: string;
+  file: string;
+  hsCodes: Map<string, string>; // 6-digit code -> description
+}
+
+// Numbered files (sections, chapters, headings: 0100_{EDITION}e, 0101_{EDITION}e), not 0001_{EDITION}e-gir
+const NOMENCLATURE_DOCUMENT_PATTERN = /^\d{4}_\{EDITION\}[a-z]$/i;
+
+/**
+ * Find the directory holding an edition's pdfs/ and md/ directories
+ * (`{dataDir}/{edition}/{language}`, or the older `{dataDir}/{edition}` layout from before
+ * --language existed, which only held English files)
+ */
+export const resolveEditionDir = (dataDir: string, edition: string, language: WcoLanguage): string | null => {
+  const languageDir = path.join(dataDir, edition, language);
+  if (existsSync(languageDir)) {
+    return languageDir;
+  }
+  const legacyDir = path.join(dataDir, edition);
+  if (language === 'en' && (existsSync(path.join(legacyDir, 'pdfs')) || existsSync(path.join(legacyDir, 'md')))) {
+    return legacyDir;
+  }
+  return null;
+};
+
+// File names in a directory with the given extension (empty if the directory does not exist)
+const listFiles = async (dir: string, extension: string): Promise<string[]> => {
+  try {
+    return (await fs.readdir(dir)).filter(f => f.toLowerCase().endsWith(extension)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Document key: file name without extension and with the edition year replaced
+const documentKey = (filename: string, edition: string): string =>
+  path.basename(filename, path.extname(filename)).split(`_${edition}`).join('_{EDITION}');
+
+// Collect the PDFs (with manifest checksums) and Markdown files of one edition
+const loadEditionDocuments = async (editionDir: string, edition: string, language: WcoLanguage): Promise<Map<string, EditionDocument>> => {
+  const pdfDir = path.join(editionDir, 'pdfs');
+  const mdDir = path.join(editionDir, 'md');
+  const suffix = `_${edition}${WCO_LANGUAGES[language]}`;
+  const manifest = existsSync(pdfDir) ? await loadManifest(pdfDir, edition) : null;
+  const documents = new Map<string, EditionDocument>();
+  const getDocument = (key: string): EditionDocument => {
+    let document = documents.get(key);
+    if (!document) {
+      document = { key, pdfFile: null, mdFile: null, sha256: null };
+      documents.set(key, document);
+    }
+    return document;
+  };
+
+  for (const pdfFile of await listFiles(pdfDir, '.pdf')) {
+    if (!pdfFile.includes(suffix)) {
+      continue; // Another language in a legacy directory
+    }
+    const document = getDocument(documentKey(pdfFile, edition));
+    document.pdfFile = pdfFile;
+    // Files downloaded before the manifest existed have no recorded checksum
+    document.sha256 = manifest?.files[pdfFile]?.sha256 ?? await sha256File(path.join(pdfDir, pdfFile));
+  }
+  for (const mdFile of await listFiles(mdDir, '.md')) {
+    if (mdFile.includes(suffix)) {
+      getDocument(documentKey(mdFile, edition)).mdFile = mdFile;
+    }
+  }
+  return documents;
+};
+
+/**
+ * Normalize converted Markdown for comparison: trim lines, collapse whitespace, drop blank lines
+ * (converters differ in spacing, not in content)
+ */
+export const normalizeMarkdown = (markdown: string): string =>
+  markdown
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .map(line => `${line}\n`)
+    .join('');
+
+// Add the headings of one Markdown file (a heading printed in two files is kept from the first)
+const addHeadings = (headings: Map<string, EditionHeading>, markdown: string, mdFile: string, warnings: string[]): void => {
+  const document = parseNomenclatureMarkdown(markdown, mdFile);
+  for (const row of document.wco_headings) {
+    const other = headings.get(row.wco_heading_code);
+    if (other) {
+      warnings.push(`${mdFile}: heading ${row.wco_heading_code} is also in ${other.file}; compared from ${other.file}`);
+      continue;
+    }
+    const hsCodes = new Map<string, string>();
+    for (const hsCode of document.wco_hs_codes.filter(hsCode => hsCode.wco_heading_code === row.wco_heading_code)) {
+      if (!hsCodes.has(hsCode.wco_hs_code_code)) {
+        hsCodes.set(hsCode.wco_hs_code_code, hsCode.wco_hs_code_description);
+      }
+    }
+    headings.set(row.wco_heading_code, { code: row.wco_heading_code, title: row.wco_heading_title, file: mdFile, hsCodes });
+  }
+};
+
+// Compare the HS codes of a heading in both editions (an empty map for a new or deleted heading)
+const compareHsCodes = (headingCode: string, before: Map<string, string>, after: Map<string, string>): HsCodeChange[] => {
+  const changes: HsCodeChange[] = [];
+  for (const code of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+    const fromDescription = before.get(code) ?? null;
+    const toDescription = after.get(code) ?? null;
+    if (fromDescription === toDescription) {
+      continue;
+    }
+    const change: ChangeType = fromDescription === null ? 'new' : toDescription === null ? 'deleted' : 'amended';
+    changes.push({ wco_hs_code_code: code, wco_heading_code: headingCode, change, fromDescription, toDescription });
+  }
+  return changes;
+};
+
+/**
+ * Compare two editions of the same language
+ *
+ * @param dataDir - WCO data directory (default layout: `{dataDir}/{edition}/{language}/{pdfs,md}`)
+ * @param context - Context lines in the per-document diffs
+ */
+export const compareEditions = async (
+  dataDir: string,
+  fromEdition: string,
+  toEdition: string,
+  language: WcoLanguage,
+  context: number = 3
+): Promise<EditionDiffResult> => {
+  const fromDir = resolveEditionDir(dataDir, fromEdition, language);
+  const toDir = resolveEditionDir(dataDir, toEdition, language);
+  if (!fromDir || !toDir) {
+    throw new Error(`Edition directory not found: ${path.join(dataDir, fromDir ? toEdition : fromEdition, language)}`);
+  }
+
+  const before = await loadEditionDocuments(fromDir, fromEdition, language);
+  const after = await loadEditionDocuments(toDir, toEdition, language);
+  const changeSet: EditionChangeSet = {
+    version: CHANGE_SET_VERSION,
+    language,
+    fromEdition,
+    toEdition,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      headings: { new: 0, deleted: 0, amended: 0, unchanged: 0 },
+      hsCodes: { new: 0, deleted: 0, amended: 0 },
+      documents: { new: 0, deleted: 0, amended: 0, unchanged: 0 }
+    },
+    wco_headings: [],
+    wco_hs_codes: [],
+    documents: [],
+    warnings: []
+  };
+  const diffs = new Map<string, string>();
+  if (before.size === 0) {
+    changeSet.warnings.push(`No PDFs or Markdown files found for edition ${fromEdition} in ${fromDir}`);
+  }
+  if (after.size === 0) {
+    changeSet.warnings.push(`No PDFs or Markdown files found for edition ${toEdition} in ${toDir}`);
+  }
+
+  const readMarkdown = (dir: string, document: EditionDocument | undefined): Promise<string> | null =>
+    document?.mdFile ? fs.readFile(path.join(dir, 'md', document.mdFile), 'utf-8') : null;
+
+  // Documents, by name; the headings of numbered files are collected for the comparison below
+  const fromHeadings = new Map<string, EditionHeading>();
+  const toHeadings = new Map<string, EditionHeading>();
+  for (const key of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+    const fromDocument = before.get(key);
+    const toDocument = after.get(key);
+    const fromMarkdown = await readMarkdown(fromDir, fromDocument);
+    const toMarkdown = await readMarkdown(toDir, toDocument);
+
+    let change: ChangeType | null;
+    let basis: ComparisonBasis = 'markdown';
+    let diff = '';
+    if (!fromDocument || !toDocument) {
+      change = fromDocument ? 'deleted' : 'new';
+      basis = (fromDocument || toDocument)!.mdFile ? 'markdown' : 'sha256';
+      if (fromMarkdown !== null || toMarkdown !== null) {
+        diff = unifiedDiff(normalizeMarkdown(fromMarkdown ?? ''), normalizeMarkdown(toMarkdown ?? ''), (toDocument || fromDocument)!.mdFile!, context);
+      }
+    } else if (fromMarkdown !== null && toMarkdown !== null) {
+      diff = unifiedDiff(normalizeMarkdown(fromMarkdown), normalizeMarkdown(toMarkdown), toDocument.mdFile!, context);
+      change = diff ? 'amended' : null;
+    } else {
+      basis = 'sha256';
+      change = fromDocument.sha256 && fromDocument.sha256 === toDocument.sha256 ? null : 'amended';
+    }
+
+    // Headings are only compared where the text of the file is known in every edition that has it
+    if (NOMENCLATURE_DOCUMENT_PATTERN.test(key)) {
+      if (basis === 'markdown') {
+        if (fromMarkdown !== null) {
+          addHeadings(fromHeadings, fromMarkdown, fromDocument!.mdFile!, changeSet.warnings);
+        }
+        if (toMarkdown !== null) {
+          addHeadings(toHeadings, toMarkdown, toDocument!.mdFile!, changeSet.warnings);
+        }
+      } else if (change) {
+        changeSet.warnings.push(`${key}: no Markdown in both editions, its headings and HS codes are not compared (run pdf-to-markdown.ts)`);
+      }
+    }
+
+    if (!change) {
+      changeSet.summary.documents.unchanged++;
+      continue;
+    }
+    changeSet.summary.documents[change]++;
+    if (basis === 'sha256' && !NOMENCLATURE_DOCUMENT_PATTERN.test(key)) {
+      changeSet.warnings.push(`${key}: no Markdown in both editions, text not compared (run pdf-to-markdown.ts for a text diff)`);
+    }
+    if (diff) {
+      diffs.set(key, diff);
+    }
+    changeSet.documents.push({ document: key, change, basis, fromFile: fromDocument?.pdfFile ?? fromDocument?.mdFile ?? null, toFile: toDocument?.pdfFile ?? toDocument?.mdFile ?? null });
+  }
+
+  // Headings and HS codes, by code: a heading that moved to another file is not a change
+  for (const code of [...new Set([...fromHeadings.keys(), ...toHeadings.keys()])].sort()) {
+    const fromHeading = fromHeadings.get(code);
+    const toHeading = toHeadings.get(code);
+    const hsChanges = compareHsCodes(code, fromHeading?.hsCodes ?? new Map(), toHeading?.hsCodes ?? new Map());
+    const change: ChangeType | null = !fromHeading ? 'new'
+      : !toHeading ? 'deleted'
+        : fromHeading.title !== toHeading.title || hsChanges.length > 0 ? 'amended' : null;
+    if (!change) {
+      changeSet.summary.headings.unchanged++;
+      continue;
+    }
+    changeSet.summary.headings[change]++;
+    changeSet.wco_headings.push({
+      wco_heading_code: code,
+      change,
+      fromFile: fromHeading?.file ?? null,
+      toFile: toHeading?.file ?? null,
+      fromTitle: fromHeading?.title ?? null,
+      toTitle: toHeading?.title ?? null,
+      hsCodesChanged: hsChanges.length
+    });
+    for (const hsChange of hsChanges) {
+      changeSet.summary.hsCodes[hsChange.change]++;
+    }
+    changeSet.wco_hs_codes.push(...hsChanges);
+  }
+
+  return { changeSet, diffs };
+};
@@ -0,0 +1,325 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * WCO General Rules Extractor Script
+ *
+ * Extracts the General Rules for Interpretation (Rules 1-6 with sub-rules 2 (a)-(b), 3 (a)-(c)
+ * and 5 (a)-(b)) and the introduction of every downloaded edition, for the `wco_edition_gir_rules`
+ * and `wco_edition_introduction` columns of `wco_editions` (see wco-gir.ts). Writes `gir.json`
+ * per edition and, with --diff, shows how the rules changed from one edition to the next.
+ *
+ * Usage:
+ *   tsx scripts/extract-wco-gir.ts [options]
+ *
+ * Options:
+ *   --editions <list>    Comma-separated edition years (default: all editions in the data directory)
+ *   --language <lang>    Edition language: en or fr (default: en)
+ *   --data-dir <dir>     WCO data directory (default: ./data/wco)
+ *   --diff               Compare the rules of consecutive editions
+ *   --patch <file>       Also write the rule diffs to a patch file (implies --diff)
+ *   --context <n>        Context lines per diff hunk (default: 3)
+ *   --help, -h           Show help message
+ *
+ * Run pdf-to-markdown.ts first: the rules are read from `0001_{EDITION}{LANG}-gir.md` and the
+ * introduction from `introduction_{EDITION}{LANG}.md`.
+ */
+
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { parseLanguage, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import { resolveEditionDir } from './edition-diff.js';
+import {
+  diffGirRules,
+  extractIntroduction,
+  parseGirMarkdown,
+  GIR_VERSION,
+  type GirRuleChange,
+  type GirRules
+} from './wco-gir.js';
+
+// Configuration
+const DEFAULT_DATA_DIR = './data/wco';
+const DEFAULT_CONTEXT = 3;
+const OUTPUT_FILENAME = 'gir.json';
+const EDITION_PATTERN = /^\d{4}$/;
+
+interface Config {
+  editions: string[] | null; // null = all editions in the data directory
+  language: WcoLanguage;
+  dataDir: string;
+  diff: boolean;
+  patchFile: string | null;
+  context: number;
+}
+
+// gir.json of one edition
+interface EditionGir {
+  version: number;
+  edition: string;
+  language: WcoLanguage;
+  generatedAt: string;
+  sources: { gir: string | null; introduction: string | null };
+  wco_edition_gir_rules: GirRules | null;
+  wco_edition_introduction: string | null;
+  warnings: string[];
+}
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    editions: null,
+    language: DEFAULT_LANGUAGE,
+    dataDir: DEFAULT_DATA_DIR,
+    diff: false,
+    patchFile: null,
+    context: DEFAULT_CONTEXT
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--editions':
+        config.editions = (args[++i] || '').split(',').map(edition => edition.trim()).filter(Boolean);
+        const invalid = config.editions.filter(edition => !EDITION_PATTERN.test(edition));
+        if (config.editions.length === 0 || invalid.length > 0) {
+          console.error(`Invalid --editions value: ${invalid.join(', ') || '(empty)'} (expected years, e.g. 2017,2022)`);
+          process.exit(1);
+        }
+        break;
+      case '--language':
+        try {
+          config.language = parseLanguage(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
+      case '--data-dir':
+        config.dataDir = args[++i] || DEFAULT_DATA_DIR;
+        break;
+      case '--diff':
+        config.diff = true;
+        break;
+      case '--patch':
+        config.patchFile = args[++i] || null;
+        config.diff = true;
+        break;
+      case '--context':
+        const context = parseInt(args[++i] || '', 10);
+        if (isNaN(context) || context < 0) {
+          console.error('Invalid --context value. Must be a non-negative number');
+          process.exit(1);
+        }
+        config.context = context;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+WCO General Rules Extractor Script
+
+Usage:
+  tsx scripts/extract-wco-gir.ts [options]
+
+Options:
+  --editions <list>     Comma-separated edition years (default: all editions in the data directory)
+  --language <lang>     Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --data-dir <dir>      WCO data directory (default: ${DEFAULT_DATA_DIR})
+  --diff                Compare the rules of consecutive editions
+  --patch <file>        Also write the rule diffs to a patch file (implies --diff)
+  --context <n>         Context lines per diff hunk (default: ${DEFAULT_CONTEXT})
+  --help, -h            Show this help message
+
+Input:
+  {data-dir}/{edition}/{language}/md/0001_{edition}{lang}-gir.md       General Rules for Interpretation
+  {data-dir}/{edition}/{language}/md/introduction_{edition}{lang}.md   Introduction
+  ({data-dir}/{edition}/md/ is used for English when there is no language directory)
+
+Output:
+  {data-dir}/{edition}/{language}/${OUTPUT_FILENAME}   wco_edition_gir_rules, wco_edition_introduction and warnings
+
+Examples:
+  # Extract the rules of every downloaded edition
+  tsx scripts/extract-wco-gir.ts
+
+  # Show how the rules changed from HS 2017 to HS 2022
+  tsx scripts/extract-wco-gir.ts --editions 2017,2022 --diff
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  return config;
+}
+
+// Edition years found in the data directory
+async function findEditions(dataDir: string): Promise<string[]> {
+  if (!existsSync(dataDir)) {
+    return [];
+  }
+  const entries = await fs.readdir(dataDir, { withFileTypes: true });
+  return entries.filter(entry => entry.isDirectory() && EDITION_PATTERN.test(entry.name)).map(entry => entry.name).sort();
+}
+
+// Read a converted file, null when it does not exist
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Extract the rules and introduction of one edition
+async function extractEdition(editionDir: string, edition: string, language: WcoLanguage): Promise<EditionGir> {
+  const lang = WCO_LANGUAGES[language];
+  const girFile = `0001_${edition}${lang}-gir.md`;
+  const introductionFile = `introduction_${edition}${lang}.md`;
+  const girMarkdown = await readOptional(path.join(editionDir, 'md', girFile));
+  const introductionMarkdown = await readOptional(path.join(editionDir, 'md', introductionFile));
+  const warnings: string[] = [];
+
+  let rules: GirRules | null = null;
+  if (girMarkdown === null) {
+    warnings.push(`${girFile} not found`);
+  } else {
+    const extraction = parseGirMarkdown(girMarkdown, language);
+    rules = Object.keys(extraction.rules).length > 0 ? extraction.rules : null;
+    warnings.push(...extraction.warnings.map(warning => `${girFile}: ${warning}`));
+  }
+  if (introductionMarkdown === null) {
+    warnings.push(`${introductionFile} not found`);
+  }
+
+  return {
+    version: GIR_VERSION,
+    edition,
+    language,
+    generatedAt: new Date().toISOString(),
+    sources: {
+      gir: girMarkdown === null ? null : girFile,
+      introduction: introductionMarkdown === null ? null : introductionFile
+    },
+    wco_edition_gir_rules: rules,
+    wco_edition_introduction: introductionMarkdown === null ? null : extractIntroduction(introductionMarkdown) || null,
+    warnings
+  };
+}
+
+// Console symbols per change type
+const CHANGE_SYMBOLS: Record<GirRuleChange['change'], string> = {
+  new: '+',
+  deleted: '-',
+  amended: '~',
+  unchanged: ' '
+};
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+
+  console.log('WCO General Rules Extractor Script');
+  console.log('==================================');
+  console.log(`Language: ${config.language}`);
+  console.log(`Data directory: ${config.dataDir}`);
+  console.log('');
+
+  const editions = config.editions || await findEditions(config.dataDir);
+  if (editions.length === 0) {
+    console.error(`❌ No editions found in ${config.dataDir}`);
+    console.error('   Run download-wco-pdfs.ts and pdf-to-markdown.ts first');
+    process.exit(1);
+  }
+
+  const extracted: EditionGir[] = [];
+  let skipped = 0;
+  let warningCount = 0;
+  for (const edition of editions) {
+    const editionDir = resolveEditionDir(config.dataDir, edition, config.language);
+    if (!editionDir) {
+      console.log(`⊘ ${edition}: no ${config.language} files`);
+      skipped++;
+      continue;
+    }
+    const result = await extractEdition(editionDir, edition, config.language);
+    const outputFile = path.join(editionDir, OUTPUT_FILENAME);
+    await fs.writeFile(outputFile, JSON.stringify(result, null, 2) + '\n', 'utf-8');
+    extracted.push(result);
+    warningCount += result.warnings.length;
+
+    const rules = result.wco_edition_gir_rules ? Object.keys(result.wco_edition_gir_rules).length : 0;
+    const introduction = result.wco_edition_introduction ? `introduction ${result.wco_edition_introduction.length} chars` : 'no introduction';
+    const symbol = rules === 0 ? '✗' : result.warnings.length > 0 ? '⚠️ ' : '✓';
+    console.log(`${symbol} ${edition}: ${rules} rules, ${introduction} → ${outputFile}`);
+    for (const warning of result.warnings) {
+      console.log(`    ${warning}`);
+    }
+  }
+
+  // Rule changes between consecutive editions that both have rules
+  const diffs: string[] = [];
+  const comparisons: Array<{ from: string; to: string; changes: GirRuleChange[] }> = [];
+  if (config.diff) {
+    const withRules = extracted.filter(result => result.wco_edition_gir_rules);
+    for (let i = 1; i < withRules.length; i++) {
+      const from = withRules[i - 1]!;
+      const to = withRules[i]!;
+      const changes = diffGirRules(from.wco_edition_gir_rules!, to.wco_edition_gir_rules!, config.context);
+      comparisons.push({ from: from.edition, to: to.edition, changes });
+
+      console.log('');
+      console.log(`Rules ${from.edition} → ${to.edition}:`);
+      for (const change of changes) {
+        console.log(`  ${CHANGE_SYMBOLS[change.change]} ${change.rule} ${change.change}`);
+      }
+      for (const change of changes.filter(change => change.diff)) {
+        diffs.push(`# ${from.edition} → ${to.edition}\n${change.diff}`);
+        console.log('');
+        console.log(change.diff);
+      }
+    }
+    if (comparisons.length === 0) {
+      console.log('');
+      console.log('⚠️  --diff needs at least two editions with rules');
+    }
+    if (config.patchFile) {
+      await fs.mkdir(path.dirname(config.patchFile), { recursive: true });
+      await fs.writeFile(config.patchFile, diffs.map(diff => diff + '\n').join(''), 'utf-8');
+    }
+  }
+
+  console.log('');
+  console.log('========================================');
+  console.log('General Rules Summary');
+  console.log('========================================');
+  console.log(`Editions: ${extracted.length} extracted, ${skipped} skipped`);
+  console.log(`With all 6 rules: ${extracted.filter(result => Object.keys(result.wco_edition_gir_rules || {}).length === 6).length}`);
+  console.log(`With introduction: ${extracted.filter(result => result.wco_edition_introduction).length}`);
+  console.log(`Warnings: ${warningCount}`);
+  for (const comparison of comparisons) {
+    const amended = comparison.changes.filter(change => change.change !== 'unchanged').length;
+    console.log(`Rules ${comparison.from} → ${comparison.to}: ${amended} changed, ${comparison.changes.length - amended} unchanged`);
+  }
+  if (config.patchFile) {
+    console.log(`\nPatch saved to: ${config.patchFile}`);
+  }
+
+  if (extracted.length === 0) {
+    process.exit(1);
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
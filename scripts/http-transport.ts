@@ -0,0 +1,295 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Pluggable HTTP transport for the WCO downloaders
+ *
+ * Modes:
+ * - live:   plain http/https requests (default)
+ * - record: live requests, and every request/response pair (headers, cookies, redirects, body)
+ *           is stored in a fixtures directory
+ * - replay: a local HTTP server serves the recorded pairs; requests for the original URLs are
+ *           routed to it, so downloads, redirects, cookies, 404/403/429 handling and resume logic
+ *           can be exercised deterministically without network access
+ *
+ * Fixture format (one exchange per file, hand-editable for crafted scenarios):
+ *   {fixturesDir}/{hash}-{n}.json   { request: { method, url, headers }, response: { status, statusMessage, headers, bodyFile | body } }
+ *   {fixturesDir}/{hash}-{n}.body   raw response body (when bodyFile is used)
+ * `n` is the 1-based sequence for the same method+URL: replay serves them in order and keeps
+ * repeating the last one (e.g., "-1" = 429, "-2" = 200 to test a retry).
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { AddressInfo } from 'net';
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export const TRANSPORT_MODES: TransportMode[] = ['live', 'record', 'replay'];
+export const DEFAULT_FIXTURES_DIR = './data/fixtures/wco-http';
+
+// Header carrying the original URL from the replay transport to the replay server
+const REPLAY_URL_HEADER = 'x-replay-url';
+
+type ResponseCallback = (response: http.IncomingMessage) => void;
+
+export interface Transport {
+  mode: TransportMode;
+  /** Same contract as http.request: caller must call end() on the returned request */
+  request(url: string, options: http.RequestOptions, callback: ResponseCallback): http.ClientRequest;
+  /** Same contract as http.get */
+  get(url: string, options: http.RequestOptions, callback: ResponseCallback): http.ClientRequest;
+  /** Requests received by the replay server (for assertions on cookies, referers, conditional headers) */
+  replayLog: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export interface TransportOptions {
+  mode: TransportMode;
+  fixturesDir?: string;
+  verbose?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusMessage?: string;
+  headers: Record<string, string | string[] | undefined>;
+  bodyFile?: string;
+  body?: string;
+}
+
+export interface RecordedExchange {
+  request: RecordedRequest;
+  response: RecordedResponse;
+  recordedAt?: string;
+}
+
+// Fixture key for a request
+const exchangeKey = (method: string, url: string): string => `${method.toUpperCase()} ${url}`;
+
+// Stable, filesystem-safe fixture name prefix for a request
+const fixturePrefix = (key: string): string => createHash('sha256').update(key).digest('hex').substring(0, 16);
+
+// Node's protocol module for a URL
+const protocolFor = (url: string): typeof http | typeof https => (url.startsWith('https:') ? https : http);
+
+/**
+ * Live transport: plain Node http/https
+ */
+const createLiveTransport = (): Transport => ({
+  mode: 'live',
+  request: (url, options, callback) => protocolFor(url).request(url, options, callback),
+  get: (url, options, callback) => protocolFor(url).get(url, options, callback),
+  replayLog: [],
+  close: async () => undefined
+});
+
+/**
+ * Record transport: live requests, storing every exchange once its body has been received
+ */
+const createRecordTransport = async (fixturesDir: string, verbose: boolean): Promise<Transport> => {
+  await fs.mkdir(fixturesDir, { recursive: true });
+  const sequences = new Map<string, number>();
+  const pendingWrites: Promise<void>[] = [];
+
+  const request = (url: string, options: http.RequestOptions, callback: ResponseCallback): http.ClientRequest => {
+    const method = (options.method || 'GET').toUpperCase();
+    const key = exchangeKey(method, url);
+    return protocolFor(url).request(url, options, (response) => {
+      const sequence = (sequences.get(key) || 0) + 1;
+      sequences.set(key, sequence);
+      const baseName = `${fixturePrefix(key)}-${sequence}`;
+      const chunks: Buffer[] = [];
+      // Tee the body: the caller still consumes the stream (pipe/resume) as usual
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => {
+        const body = Buffer.concat(chunks);
+        const exchange: RecordedExchange = {
+          request: { method, url, headers: { ...(options.headers as RecordedRequest['headers']) } },
+          response: {
+            status: response.statusCode || 0,
+            statusMessage: response.statusMessage,
+            headers: response.headers,
+            bodyFile: body.length > 0 ? `${baseName}.body` : undefined
+          },
+          recordedAt: new Date().toISOString()
+        };
+        const write = (async () => {
+          if (body.length > 0) {
+            await fs.writeFile(path.join(fixturesDir, `${baseName}.body`), body);
+          }
+          await fs.writeFile(path.join(fixturesDir, `${baseName}.json`), JSON.stringify(exchange, null, 2) + '\n', 'utf-8');
+          if (verbose) {
+            console.log(`  [DEBUG] Recorded ${key} -> ${baseName}.json`);
+          }
+        })();
+        pendingWrites.push(write.catch((error) => {
+          console.warn(`Warning: Could not record fixture for ${key}: ${error instanceof Error ? error.message : String(error)}`);
+        }));
+      });
+      callback(response);
+    });
+  };
+
+  return {
+    mode: 'record',
+    request,
+    get: (url, options, callback) => {
+      const req = request(url, options, callback);
+      req.end();
+      return req;
+    },
+    replayLog: [],
+    close: async () => {
+      await Promise.all(pendingWrites);
+    }
+  };
+};
+
+/**
+ * Load all recorded exchanges from a fixtures directory, grouped by request key in sequence order
+ */
+export const loadFixtures = async (fixturesDir: string): Promise<Map<string, RecordedExchange[]>> => {
+  const files = (await fs.readdir(fixturesDir)).filter(f => f.endsWith('.json')).sort();
+  const sequenced: Array<{ key: string; sequence: number; exchange: RecordedExchange }> = [];
+  for (const file of files) {
+    const exchange = JSON.parse(await fs.readFile(path.join(fixturesDir, file), 'utf-8')) as RecordedExchange;
+    if (!exchange.request?.url || !exchange.response) {
+      continue;
+    }
+    const sequence = parseInt(file.match(/-(\d+)\.json$/)?.[1] || '1', 10);
+    sequenced.push({ key: exchangeKey(exchange.request.method || 'GET', exchange.request.url), sequence, exchange });
+  }
+  sequenced.sort((a, b) => a.sequence - b.sequence);
+  const byKey = new Map<string, RecordedExchange[]>();
+  for (const { key, exchange } of sequenced) {
+    const list = byKey.get(key) || [];
+    list.push(exchange);
+    byKey.set(key, list);
+  }
+  return byKey;
+};
+
+/**
+ * Replay transport: a local server answers with the recorded exchanges
+ */
+const createReplayTransport = async (fixturesDir: string, verbose: boolean): Promise<Transport> => {
+  const fixtures = await loadFixtures(fixturesDir);
+  const served = new Map<string, number>();
+  const replayLog: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const originalUrl = String(req.headers[REPLAY_URL_HEADER] || '');
+    const method = (req.method || 'GET').toUpperCase();
+    const key = exchangeKey(method, originalUrl);
+    const headers = { ...req.headers };
+    delete headers[REPLAY_URL_HEADER];
+    replayLog.push({ method, url: originalUrl, headers });
+    // Drain the request body so keep-alive connections stay usable
+    req.resume();
+
+    const exchanges = fixtures.get(key);
+    if (!exchanges || exchanges.length === 0) {
+      if (verbose) {
+        console.log(`  [DEBUG] Replay miss: ${key}`);
+      }
+      res.writeHead(404, { 'content-type': 'text/plain', 'x-replay-miss': '1' });
+      res.end(`No recorded fixture for ${key}`);
+      return;
+    }
+
+    const index = served.get(key) || 0;
+    served.set(key, index + 1);
+    const exchange = exchanges[Math.min(index, exchanges.length - 1)]!;
+
+    const serve = async (): Promise<void> => {
+      const body = exchange.response.bodyFile
+        ? await fs.readFile(path.join(fixturesDir, exchange.response.bodyFile))
+        : Buffer.from(exchange.response.body || '', 'utf-8');
+      const responseHeaders = { ...exchange.response.headers };
+      // The recorded length may not match a hand-edited body; the server sets its own
+      delete responseHeaders['content-length'];
+      delete responseHeaders['transfer-encoding'];
+      delete responseHeaders['connection'];
+      res.writeHead(exchange.response.status, exchange.response.statusMessage, responseHeaders as http.OutgoingHttpHeaders);
+      res.end(method === 'HEAD' ? undefined : body);
+    };
+    serve().catch((error) => {
+      res.writeHead(500, { 'content-type': 'text/plain' });
+      res.end(`Replay error: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const agent = new http.Agent({ keepAlive: false });
+  if (verbose) {
+    console.log(`[DEBUG] Replaying ${fixtures.size} recorded requests from ${fixturesDir} on port ${port}`);
+  }
+
+  // Route a request for the original URL to the local replay server
+  const request = (url: string, options: http.RequestOptions, callback: ResponseCallback): http.ClientRequest => {
+    const original = new URL(url);
+    return http.request({
+      ...options,
+      agent,
+      protocol: 'http:',
+      host: '127.0.0.1',
+      hostname: '127.0.0.1',
+      port,
+      path: `${original.pathname}${original.search}`,
+      headers: { ...(options.headers as http.OutgoingHttpHeaders), [REPLAY_URL_HEADER]: url }
+    }, callback);
+  };
+
+  return {
+    mode: 'replay',
+    request,
+    get: (url, options, callback) => {
+      const req = request(url, options, callback);
+      req.end();
+      return req;
+    },
+    replayLog,
+    close: () => new Promise<void>((resolve) => {
+      agent.destroy();
+      server.close(() => resolve());
+    })
+  };
+};
+
+/**
+ * Create a transport for the given mode
+ */
+export const createTransport = async (options: TransportOptions): Promise<Transport> => {
+  const fixturesDir = options.fixturesDir || DEFAULT_FIXTURES_DIR;
+  switch (options.mode) {
+    case 'record':
+      return createRecordTransport(fixturesDir, options.verbose || false);
+    case 'replay':
+      return createReplayTransport(fixturesDir, options.verbose || false);
+    default:
+      return createLiveTransport();
+  }
+};
+
+/**
+ * Parse a --transport value
+ */
+export const parseTransportMode = (value: string | undefined): TransportMode => {
+  const mode = (value || 'live').toLowerCase();
+  if (!TRANSPORT_MODES.includes(mode as TransportMode)) {
+    throw new Error(`Invalid transport: ${value}. Must be ${TRANSPORT_MODES.join(', ')}`);
+  }
+  return mode as TransportMode;
+};
@@ -0,0 +1,361 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * LLM-Based Data Extraction Script
+ *
+ * Extracts headings, subheadings, notes and rules from an edition's converted Markdown files
+ * with an LLM (see llm-extraction.ts): files are cut into chunks by heading, every answer is
+ * validated against JSON schemas and the model is asked again with the errors when it is not.
+ * Every record carries the provider, model, token counts and cost of its chunk.
+ *
+ * Usage:
+ *   tsx scripts/llm-extract-data.ts [options]
+ *
+ * Options:
+ *   --edition <year>         WCO edition year (default: 2022)
+ *   --language <lang>        Edition language: en or fr (default: en)
+ *   --data-dir <dir>         WCO data directory (default: ./data/wco)
+ *   --input <dir>            Markdown files (default: {data-dir}/{edition}/{language}/md)
+ *   --output <dir>           Output directory (default: {data-dir}/{edition}/{language}/extracted)
+ *   --files <list>           Comma-separated Markdown files to extract instead of all
+ *   --provider <provider>    LLM provider: openai, anthropic, google, xai or mock (default: openai)
+ *   --model <model>          Model name (default: provider-specific)
+ *   --max-reasks <n>         Requests again after an invalid answer (default: 2)
+ *   --max-chunk-chars <n>    Longer chunks are split at blank lines (default: 12000)
+ *   --mock-responses <file>  JSON array of answers the mock provider returns first
+ *   --skip-existing          Skip files already extracted from the same Markdown with the same model
+ *   --dry-run                Show the chunks and estimated input tokens without calling the LLM
+ *   --help, -h               Show help message
+ *
+ * API keys are read from OPENAI_API_KEY, ANTHROPIC_API_KEY, GOOGLE_GEMINI_API_KEY or XAI_API_KEY.
+ */
+
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { parseLanguage, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import { resolveEditionDir } from './edition-diff.js';
+import { sha256Buffer } from './download-manifest.js';
+import {
+  createLlmProvider,
+  estimateTokens,
+  llmCost,
+  parseLlmProvider,
+  API_KEY_ENV,
+  DEFAULT_MODELS,
+  LLM_PROVIDERS,
+  type LlmProviderId
+} from './llm-providers.js';
+import {
+  addUsage,
+  buildExtractionPrompt,
+  chunkMarkdown,
+  emptyUsage,
+  extractFile,
+  DEFAULT_MAX_CHUNK_CHARS,
+  DEFAULT_MAX_REASKS,
+  type FileExtraction
+} from './llm-extraction.js';
+
+// Configuration
+const DEFAULT_EDITION = '2022';
+const DEFAULT_DATA_DIR = './data/wco';
+const DEFAULT_PROVIDER: LlmProviderId = 'openai';
+
+interface Config {
+  edition: string;
+  language: WcoLanguage;
+  dataDir: string;
+  inputDir: string | null; // null = {data-dir}/{edition}/{language}/md
+  outputDir: string | null; // null = {data-dir}/{edition}/{language}/extracted
+  files: string[] | null;
+  provider: LlmProviderId;
+  model: string | null; // null = DEFAULT_MODELS[provider]
+  maxReasks: number;
+  maxChunkChars: number;
+  mockResponses: string | null;
+  skipExisting: boolean;
+  dryRun: boolean;
+}
+
+// Parse a non-negative integer option
+const parseCount = (option: string, value: string | undefined): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    console.error(`Invalid ${option} value: ${value}`);
+    process.exit(1);
+  }
+  return count;
+};
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    edition: DEFAULT_EDITION,
+    language: DEFAULT_LANGUAGE,
+    dataDir: DEFAULT_DATA_DIR,
+    inputDir: null,
+    outputDir: null,
+    files: null,
+    provider: DEFAULT_PROVIDER,
+    model: null,
+    maxReasks: DEFAULT_MAX_REASKS,
+    maxChunkChars: DEFAULT_MAX_CHUNK_CHARS,
+    mockResponses: null,
+    skipExisting: false,
+    dryRun: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--edition':
+        config.edition = args[++i] || DEFAULT_EDITION;
+        break;
+      case '--language':
+        try {
+          config.language = parseLanguage(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
+      case '--data-dir':
+        config.dataDir = args[++i] || DEFAULT_DATA_DIR;
+        break;
+      case '--input':
+        config.inputDir = args[++i] || null;
+        break;
+      case '--output':
+        config.outputDir = args[++i] || null;
+        break;
+      case '--files':
+        config.files = (args[++i] || '').split(',').map(file => file.trim()).filter(Boolean);
+        break;
+      case '--provider':
+        try {
+          config.provider = parseLlmProvider(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
+      case '--model':
+        config.model = args[++i] || null;
+        break;
+      case '--max-reasks':
+        config.maxReasks = parseCount(arg, args[++i]);
+        break;
+      case '--max-chunk-chars':
+        config.maxChunkChars = parseCount(arg, args[++i]);
+        break;
+      case '--mock-responses':
+        config.mockResponses = args[++i] || null;
+        break;
+      case '--skip-existing':
+        config.skipExisting = true;
+        break;
+      case '--dry-run':
+        config.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+LLM-Based Data Extraction Script
+
+Usage:
+  tsx scripts/llm-extract-data.ts [options]
+
+Options:
+  --edition <year>          WCO edition year (default: ${DEFAULT_EDITION})
+  --language <lang>         Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --data-dir <dir>          WCO data directory (default: ${DEFAULT_DATA_DIR})
+  --input <dir>             Markdown files (default: {data-dir}/{edition}/{language}/md)
+  --output <dir>            Output directory (default: {data-dir}/{edition}/{language}/extracted)
+  --files <list>            Comma-separated Markdown files to extract instead of all (e.g., 0101_2022e.md)
+  --provider <provider>     LLM provider: ${LLM_PROVIDERS.join(', ')} (default: ${DEFAULT_PROVIDER})
+  --model <model>           Model name (default: ${LLM_PROVIDERS.map(id => `${id} ${DEFAULT_MODELS[id]}`).join(', ')})
+  --max-reasks <n>          Requests again after an invalid answer (default: ${DEFAULT_MAX_REASKS})
+  --max-chunk-chars <n>     Longer chunks are split at blank lines (default: ${DEFAULT_MAX_CHUNK_CHARS})
+  --mock-responses <file>   JSON array of answers the mock provider returns first
+  --skip-existing           Skip files already extracted from the same Markdown with the same model
+  --dry-run                 Show the chunks and estimated input tokens without calling the LLM
+  --help, -h                Show this help message
+
+API keys:
+${LLM_PROVIDERS.filter(id => API_KEY_ENV[id]).map(id => `  ${id.padEnd(12)}${API_KEY_ENV[id]}`).join('\n')}
+
+Examples:
+  # Extract HS 2022 with OpenAI
+  tsx scripts/llm-extract-data.ts --edition 2022
+
+  # Two headings with Claude
+  tsx scripts/llm-extract-data.ts --provider anthropic --files 0101_2022e.md,0102_2022e.md
+
+  # Estimate the input tokens of an edition
+  tsx scripts/llm-extract-data.ts --dry-run
+
+  # Run the pipeline offline with the local mock provider
+  tsx scripts/llm-extract-data.ts --provider mock --files 0101_2022e.md
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  return config;
+}
+
+// Previous extraction of a file, when it can be kept
+const loadExisting = async (outputPath: string, sourceSha256: string, provider: string, model: string): Promise<FileExtraction | null> => {
+  if (!existsSync(outputPath)) {
+    return null;
+  }
+  try {
+    const existing = JSON.parse(await fs.readFile(outputPath, 'utf-8')) as FileExtraction;
+    const complete = existing.chunks.every(chunk => chunk.status === 'extracted');
+    return complete && existing.sourceSha256 === sourceSha256 && existing.provider === provider && existing.model === model
+      ? existing
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+  const model = config.model || DEFAULT_MODELS[config.provider];
+  const editionDir = resolveEditionDir(config.dataDir, config.edition, config.language) ||
+    path.join(config.dataDir, config.edition, config.language);
+  const inputDir = config.inputDir || path.join(editionDir, 'md');
+  const outputDir = config.outputDir || path.join(editionDir, 'extracted');
+
+  console.log('LLM-Based Data Extraction Script');
+  console.log('================================');
+  console.log(`Edition: ${config.edition}`);
+  console.log(`Language: ${config.language}`);
+  console.log(`Input: ${inputDir}`);
+  console.log(`Output: ${outputDir}`);
+  console.log(`Provider: ${config.provider} (${model})`);
+  if (config.dryRun) {
+    console.log('Mode: DRY RUN (no LLM requests)');
+  }
+  console.log('');
+
+  if (!existsSync(inputDir)) {
+    console.error(`❌ Input directory does not exist: ${inputDir}`);
+    console.error('   Run pdf-to-markdown.ts first');
+    process.exit(1);
+  }
+  const marker = `_${config.edition}${WCO_LANGUAGES[config.language]}`;
+  const mdFiles = config.files
+    ? config.files.map(file => (file.endsWith('.md') ? file : `${file}.md`))
+    : (await fs.readdir(inputDir)).filter(file => file.endsWith('.md') && file.includes(marker)).sort();
+  if (mdFiles.length === 0) {
+    console.error(`❌ No Markdown files (*${marker}*.md) found in ${inputDir}`);
+    process.exit(1);
+  }
+
+  // Dry run: chunks and estimated input tokens only
+  if (config.dryRun) {
+    let totalChunks = 0;
+    let totalTokens = 0;
+    for (const mdFile of mdFiles) {
+      const chunks = chunkMarkdown(await fs.readFile(path.join(inputDir, mdFile), 'utf-8'), mdFile, config.maxChunkChars);
+      const tokens = chunks.reduce((sum, chunk) => {
+        const prompt = buildExtractionPrompt(chunk);
+        return sum + estimateTokens(prompt.system + prompt.user);
+      }, 0);
+      totalChunks += chunks.length;
+      totalTokens += tokens;
+      console.log(`  ${mdFile}: ${chunks.length} chunks, ~${tokens} input tokens`);
+    }
+    const cost = llmCost(model, totalTokens, 0);
+    console.log('');
+    console.log(`Files: ${mdFiles.length}, chunks: ${totalChunks}, ~${totalTokens} input tokens` +
+      (cost !== null ? ` (~$${cost.toFixed(4)} input cost with ${model}, before output and re-asks)` : ''));
+    return;
+  }
+
+  let mockResponses: string[] = [];
+  if (config.mockResponses) {
+    const responses = JSON.parse(await fs.readFile(config.mockResponses, 'utf-8')) as unknown[];
+    mockResponses = responses.map(response => (typeof response === 'string' ? response : JSON.stringify(response)));
+  }
+  let provider;
+  try {
+    provider = await createLlmProvider(config.provider, { mockResponses });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+  let usage = emptyUsage(config.provider, model);
+  const counts = { extracted: 0, skipped: 0, chunks: 0, failedChunks: 0, headings: 0, subheadings: 0, notes: 0, rules: 0 };
+
+  for (const [index, mdFile] of mdFiles.entries()) {
+    const prefix = `[${index + 1}/${mdFiles.length}]`;
+    const content = await fs.readFile(path.join(inputDir, mdFile));
+    const sourceSha256 = sha256Buffer(content);
+    const outputPath = path.join(outputDir, mdFile.replace(/\.md$/, '.json'));
+    if (config.skipExisting && await loadExisting(outputPath, sourceSha256, config.provider, model)) {
+      console.log(`${prefix} ⊘ ${mdFile} (already extracted)`);
+      counts.skipped++;
+      continue;
+    }
+
+    console.log(`${prefix} ${mdFile}`);
+    const extraction = await extractFile(provider, content.toString('utf-8'), mdFile, sourceSha256, {
+      model,
+      maxReasks: config.maxReasks,
+      maxChunkChars: config.maxChunkChars,
+      onChunk: chunk => {
+        const cost = chunk.usage.llm_cost !== null ? `, $${chunk.usage.llm_cost.toFixed(6)}` : '';
+        const reasks = chunk.attempts > 1 ? `, ${chunk.attempts - 1} re-ask${chunk.attempts > 2 ? 's' : ''}` : '';
+        const symbol = chunk.status === 'failed' ? '✗' : chunk.warnings.length > 0 ? '⚠️ ' : '✓';
+        console.log(`    ${symbol} ${chunk.chunk} (${chunk.usage.llm_total_tokens} tokens${cost}${reasks})`);
+        for (const message of [...chunk.errors, ...chunk.warnings]) {
+          console.log(`      ${message}`);
+        }
+      }
+    });
+    await fs.writeFile(outputPath, JSON.stringify(extraction, null, 2) + '\n', 'utf-8');
+
+    usage = addUsage(usage, extraction.usage);
+    counts.extracted++;
+    counts.chunks += extraction.chunks.length;
+    counts.failedChunks += extraction.chunks.filter(chunk => chunk.status === 'failed').length;
+    counts.headings += extraction.headings.length;
+    counts.subheadings += extraction.subheadings.length;
+    counts.notes += extraction.notes.length;
+    counts.rules += extraction.rules.length;
+  }
+
+  console.log('');
+  console.log('========================================');
+  console.log('Extraction Summary');
+  console.log('========================================');
+  console.log(`Files: ${counts.extracted} extracted, ${counts.skipped} skipped`);
+  console.log(`Chunks: ${counts.chunks} (${counts.failedChunks} failed)`);
+  console.log(`Records: ${counts.headings} headings, ${counts.subheadings} subheadings, ${counts.notes} notes, ${counts.rules} rules`);
+  console.log(`Tokens: ${usage.llm_input_tokens} input, ${usage.llm_output_tokens} output, ${usage.llm_total_tokens} total`);
+  console.log(`Cost: ${usage.llm_cost !== null ? `$${usage.llm_cost.toFixed(6)}` : 'unknown (no pricing for this model)'}`);
+  console.log(`\nExtracted data saved to: ${outputDir}`);
+
+  if (counts.failedChunks > 0) {
+    process.exit(1);
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
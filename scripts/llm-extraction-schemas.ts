@@ -0,0 +1,187 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * JSON schemas of the LLM extraction output (llm-extraction.ts) and a validator for them
+ *
+ * The schemas are sent to the model with the extraction prompt and every answer is checked
+ * against them; the errors are sent back when the model is asked again. One answer holds the
+ * records of one chunk:
+ *   { "headings": [...], "subheadings": [...], "notes": [...], "rules": [...] }
+ *
+ * The validator covers the JSON Schema keywords these schemas use (type, enum, pattern,
+ * minLength, required, properties, additionalProperties, items), not the whole standard.
+ */
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: Array<string | number | null>;
+  pattern?: string;
+  minLength?: number;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+}
+
+/**
+ * 4-digit heading (wco_headings)
+ */
+export interface ExtractedHeading {
+  code: string;
+  title: string;
+  notes: string | null;
+}
+
+/**
+ * 6-digit subheading (wco_hs_codes)
+ */
+export interface ExtractedSubheading {
+  code: string;
+  heading_code: string;
+  description: string;
+}
+
+export type NoteScope = 'section' | 'chapter' | 'heading' | 'subheading';
+
+/**
+ * Legal note of a section, chapter, heading or subheadings
+ */
+export interface ExtractedNote {
+  scope: NoteScope;
+  reference: string; // Section number ("I"), chapter ("01"), heading ("0101") or subheading ("010121")
+  number: string | null; // As printed ("1", "2 (a)"), null for an unnumbered note
+  text: string;
+}
+
+/**
+ * Classification rule (General Rules for Interpretation)
+ */
+export interface ExtractedRule {
+  rule: string; // "1", "2 (a)", ...
+  title: string | null;
+  text: string;
+}
+
+export interface ExtractionResult {
+  headings: ExtractedHeading[];
+  subheadings: ExtractedSubheading[];
+  notes: ExtractedNote[];
+  rules: ExtractedRule[];
+}
+
+export const HEADING_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['code', 'title', 'notes'],
+  additionalProperties: false,
+  properties: {
+    code: { type: 'string', pattern: '^\\d{4}$', description: '4 digits without dot, e.g. "0101" for 01.01' },
+    title: { type: 'string', minLength: 1, description: 'Heading text without the final period' },
+    notes: { type: ['string', 'null'], description: 'Text printed under the heading that is not a subheading, else null' }
+  }
+};
+
+export const SUBHEADING_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['code', 'heading_code', 'description'],
+  additionalProperties: false,
+  properties: {
+    code: { type: 'string', pattern: '^\\d{6}$', description: '6 digits without dot, e.g. "010121" for 0101.21' },
+    heading_code: { type: 'string', pattern: '^\\d{4}$', description: 'Heading the subheading belongs to' },
+    description: { type: 'string', minLength: 1, description: 'Description without leading dashes or unit of quantity' }
+  }
+};
+
+export const NOTE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['scope', 'reference', 'number', 'text'],
+  additionalProperties: false,
+  properties: {
+    scope: { type: 'string', enum: ['section', 'chapter', 'heading', 'subheading'] },
+    reference: { type: 'string', minLength: 1, description: 'Section number in Roman numerals, 2-digit chapter, 4-digit heading or 6-digit subheading' },
+    number: { type: ['string', 'null'], description: 'Note number as printed, null when unnumbered' },
+    text: { type: 'string', minLength: 1, description: 'Full note text, including its lettered items' }
+  }
+};
+
+export const RULE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['rule', 'title', 'text'],
+  additionalProperties: false,
+  properties: {
+    rule: { type: 'string', pattern: '^\\d+( ?\\([a-z]\\))?$', description: 'Rule number, e.g. "1" or "2 (a)"' },
+    title: { type: ['string', 'null'] },
+    text: { type: 'string', minLength: 1 }
+  }
+};
+
+export const EXTRACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['headings', 'subheadings', 'notes', 'rules'],
+  additionalProperties: false,
+  properties: {
+    headings: { type: 'array', items: HEADING_SCHEMA },
+    subheadings: { type: 'array', items: SUBHEADING_SCHEMA },
+    notes: { type: 'array', items: NOTE_SCHEMA },
+    rules: { type: 'array', items: RULE_SCHEMA }
+  }
+};
+
+// JSON type name of a value
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns One message per error, with the JSON path of the value ("$.subheadings[2].code: ...")
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, at: string = '$'): string[] => {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.includes(typeOf(value))) {
+      return [`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number | null)) {
+    errors.push(`${at}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push(`${at}: must have at least ${schema.minLength} non-blank characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: ${JSON.stringify(value)} does not match ${schema.pattern}`);
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${at}[${index}]`)));
+  }
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in object)) {
+        errors.push(`${at}: missing property "${key}"`);
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateSchema(item, property, `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      }
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,436 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * LLM extraction of headings, subheadings, notes and rules from converted WCO Markdown
+ *
+ * Pipeline per file:
+ * 1. Chunk: heading files are cut at each heading the rule-based parser (wco-nomenclature.ts)
+ *    finds, so every chunk holds one heading with its subheadings; the text before the first
+ *    heading (chapter notes) and files without headings (GIR, section notes) are chunks of their
+ *    own. Chunks longer than the limit are split at blank lines.
+ * 2. Ask: the chunk is sent to the provider (llm-providers.ts) with the JSON schemas of
+ *    llm-extraction-schemas.ts.
+ * 3. Validate: the answer must parse as JSON, match the schemas and be consistent (subheadings
+ *    under their heading, note references of the right form, no duplicates). Otherwise the errors
+ *    are sent back and the model answers again, up to the re-ask limit; then the chunk fails.
+ * 4. Record: every extracted record carries the chunk it came from and the usage of that chunk,
+ *    in the columns of the classification_llm_* accounting (provider, model, input/output/total
+ *    tokens, cost, response time), summed over the chunk's attempts.
+ *
+ * HS codes that the rule-based parser reads differently are reported as warnings, not errors:
+ * either side may be wrong, and the parser cannot read every layout.
+ */
+
+import * as path from 'path';
+import { flattenHsCodes, parseNomenclatureMarkdown } from './wco-nomenclature.js';
+import { llmCost, type LlmMessage, type LlmProvider } from './llm-providers.js';
+import {
+  EXTRACTION_SCHEMA,
+  validateSchema,
+  type ExtractedHeading,
+  type ExtractedNote,
+  type ExtractedRule,
+  type ExtractedSubheading,
+  type ExtractionResult
+} from './llm-extraction-schemas.js';
+
+export const EXTRACTION_VERSION = 1;
+export const DEFAULT_MAX_CHUNK_CHARS = 12000;
+export const DEFAULT_MAX_REASKS = 2;
+export const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Part of a Markdown file sent in one request
+ */
+export interface ExtractionChunk {
+  id: string; // "{file base}:{heading code}" or "{file base}:text" (".2", ".3" for split parts)
+  file: string;
+  lines: [number, number]; // First and last Markdown line (1-based)
+  headingCodes: string[]; // Headings the rule-based parser found in the chunk
+  hsCodes: string[]; // HS codes the rule-based parser found in the chunk
+  markdown: string;
+}
+
+/**
+ * LLM usage, named after the classification_llm_* columns
+ */
+export interface LlmUsage {
+  llm_provider: string;
+  llm_model: string;
+  llm_input_tokens: number;
+  llm_output_tokens: number;
+  llm_total_tokens: number;
+  llm_cost: number | null; // USD, null when the model has no pricing (see LLM_PRICING)
+  llm_response_time_ms: number;
+}
+
+export type ExtractedRecord<T> = T & { chunk: string } & LlmUsage;
+
+export interface ChunkExtraction {
+  chunk: string;
+  lines: [number, number];
+  status: 'extracted' | 'failed';
+  attempts: number; // Requests sent (1 + re-asks)
+  errors: string[]; // Why answers were rejected ("[attempt 1] ..."), or the request error
+  warnings: string[]; // Differences from the rule-based parser
+  usage: LlmUsage;
+}
+
+export interface FileExtraction {
+  version: number;
+  source: string; // Markdown file name
+  sourceSha256: string;
+  provider: string;
+  model: string;
+  extractedAt: string;
+  chunks: ChunkExtraction[];
+  headings: ExtractedRecord<ExtractedHeading>[];
+  subheadings: ExtractedRecord<ExtractedSubheading>[];
+  notes: ExtractedRecord<ExtractedNote>[];
+  rules: ExtractedRecord<ExtractedRule>[];
+  usage: LlmUsage; // All chunks
+}
+
+export interface ExtractionOptions {
+  model: string;
+  maxReasks?: number; // Default: DEFAULT_MAX_REASKS
+  maxChunkChars?: number; // Default: DEFAULT_MAX_CHUNK_CHARS
+  maxTokens?: number; // Output limit per request (default: DEFAULT_MAX_TOKENS)
+  temperature?: number; // Default: 0
+  onChunk?: (extraction: ChunkExtraction) => void; // Progress callback
+}
+
+// Form of a note reference per scope
+const NOTE_REFERENCE_PATTERNS: Record<ExtractedNote['scope'], RegExp> = {
+  section: /^[IVXL]+$/,
+  chapter: /^\d{2}$/,
+  heading: /^\d{4}$/,
+  subheading: /^\d{6}$/
+};
+
+const SYSTEM_PROMPT = `You extract structured data from one part of the WCO Harmonized System Nomenclature, converted from PDF to Markdown.
+
+Answer with one JSON object matching this JSON schema, and nothing else:
+${JSON.stringify(EXTRACTION_SCHEMA, null, 1)}
+
+Rules:
+- Use only what is printed in the document; never add codes, titles or notes that are not in it.
+- headings: 4-digit headings, printed with a dot ("01.01"), written without it ("0101"), with their title.
+- subheadings: 6-digit codes, printed "0101.21", written "010121", with the heading they belong to. The description is the printed text without the leading dashes and without the unit of quantity ("u", "kg", ...). Lines without a code ("- Horses :") only group the codes below them and are not subheadings.
+- notes: Section, Chapter and Subheading Notes, one entry per numbered note, with its lettered items in the text. Subheading Notes have the scope "chapter" of their chapter unless they name one subheading.
+- rules: General Rules for Interpretation, one entry per rule or lettered part of a rule.
+- Use empty arrays for what the document does not contain.`;
+
+/**
+ * Empty usage for a provider and model
+ */
+export const emptyUsage = (provider: string, model: string): LlmUsage => ({
+  llm_provider: provider,
+  llm_model: model,
+  llm_input_tokens: 0,
+  llm_output_tokens: 0,
+  llm_total_tokens: 0,
+  llm_cost: 0,
+  llm_response_time_ms: 0
+});
+
+/**
+ * Sum of usages (cost is null when one of them has no cost)
+ */
+export const addUsage = (total: LlmUsage, usage: LlmUsage): LlmUsage => ({
+  llm_provider: total.llm_provider,
+  llm_model: usage.llm_model,
+  llm_input_tokens: total.llm_input_tokens + usage.llm_input_tokens,
+  llm_output_tokens: total.llm_output_tokens + usage.llm_output_tokens,
+  llm_total_tokens: total.llm_total_tokens + usage.llm_total_tokens,
+  llm_cost: total.llm_cost === null || usage.llm_cost === null ? null : Math.round((total.llm_cost + usage.llm_cost) * 1e6) / 1e6,
+  llm_response_time_ms: total.llm_response_time_ms + usage.llm_response_time_ms
+});
+
+const TABLE_LINE_PATTERN = /^\s*\|/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/;
+const COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+
+// Header and separator lines of the GFM table holding a line (null outside a table)
+const tableHeaderAt = (lines: string[], index: number): { start: number; header: string[] } | null => {
+  if (!TABLE_LINE_PATTERN.test(lines[index] || '')) {
+    return null;
+  }
+  let start = index;
+  while (start > 0 && TABLE_LINE_PATTERN.test(lines[start - 1]!)) {
+    start--;
+  }
+  return TABLE_SEPARATOR_PATTERN.test(lines[start + 1] || '') ? { start, header: lines.slice(start, start + 2) } : null;
+};
+
+// Split lines at blank lines into parts of at most maxChars (a longer paragraph stays whole)
+const splitLines = (lines: string[], first: number, maxChars: number): Array<{ first: number; lines: string[] }> => {
+  const parts: Array<{ first: number; lines: string[] }> = [];
+  let part: { first: number; lines: string[] } = { first, lines: [] };
+  let paragraph: string[] = [];
+  let paragraphStart = first;
+  const flush = (): void => {
+    const size = [...part.lines, ...paragraph].join('\n').length;
+    if (part.lines.length > 0 && size > maxChars) {
+      parts.push(part);
+      part = { first: paragraphStart, lines: [] };
+    }
+    part.lines.push(...paragraph);
+    paragraph = [];
+  };
+  lines.forEach((line, index) => {
+    if (paragraph.length === 0) {
+      paragraphStart = first + index;
+    }
+    paragraph.push(line);
+    if (!line.trim()) {
+      flush();
+    }
+  });
+  flush();
+  if (part.lines.some(line => line.trim())) {
+    parts.push(part);
+  }
+  return parts;
+};
+
+/**
+ * Cut a converted Markdown file into chunks (one per heading, plus the other text)
+ */
+export const chunkMarkdown = (markdown: string, file: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): ExtractionChunk[] => {
+  const base = path.basename(file).replace(/\.md$/i, '');
+  const lines = markdown.split('\n');
+  const { headings } = parseNomenclatureMarkdown(markdown, file);
+  const lineOf = (source: string[]): number => parseInt(source[0]!.substring(1), 10) - 1;
+
+  // Segments: text before the first heading, then one per heading. A heading in the first row
+  // of a table takes the table header with it; one further down repeats the header
+  const segments: Array<{ name: string; start: number; header: string[]; headingCodes: string[]; hsCodes: string[] }> = [
+    { name: 'text', start: 0, header: [], headingCodes: [], hsCodes: [] }
+  ];
+  for (const heading of headings) {
+    let start = lineOf(heading.source);
+    let header: string[] = [];
+    const table = tableHeaderAt(lines, start);
+    if (table && start <= table.start + 2) {
+      start = table.start;
+    } else if (table) {
+      header = table.header;
+    }
+    const codes = flattenHsCodes(heading.children).map(code => code.code);
+    const segment = segments[segments.length - 1]!;
+    if (start <= segment.start) {
+      segment.headingCodes.push(heading.code);
+      segment.hsCodes.push(...codes);
+      continue;
+    }
+    segments.push({ name: heading.code, start, header, headingCodes: [heading.code], hsCodes: codes });
+  }
+
+  const chunks: ExtractionChunk[] = [];
+  segments.forEach((segment, index) => {
+    const end = segments[index + 1]?.start ?? lines.length;
+    const parts = splitLines(lines.slice(segment.start, end), segment.start, maxChars);
+    parts.forEach((part, partIndex) => {
+      const text = part.lines.join('\n').trim();
+      // Page markers and other comments alone are no chunk
+      if (!text.replace(COMMENT_PATTERN, '').trim()) {
+        return;
+      }
+      chunks.push({
+        id: `${base}:${segment.name}${partIndex > 0 ? `.${partIndex + 1}` : ''}`,
+        file,
+        lines: [part.first + 1, part.first + part.lines.length],
+        headingCodes: partIndex === 0 ? segment.headingCodes : [],
+        hsCodes: partIndex === 0 ? segment.hsCodes : [],
+        markdown: partIndex === 0 && segment.header.length > 0 ? [...segment.header, text].join('\n') : text
+      });
+    });
+  });
+  return chunks;
+};
+
+/**
+ * Prompt for one chunk: the system prompt (task and schemas) and the first user message
+ */
+export const buildExtractionPrompt = (chunk: ExtractionChunk): { system: string; user: string } => ({
+  system: SYSTEM_PROMPT,
+  user: `File: ${chunk.file}\nPart: ${chunk.id} (lines ${chunk.lines[0]}-${chunk.lines[1]})\n\n<document>\n${chunk.markdown}\n</document>`
+});
+
+// Parse an answer: JSON object, optionally in a code fence or with text around it
+const parseAnswer = (text: string): { value: unknown; error: string | null } => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    return { value: null, error: 'The answer contains no JSON object' };
+  }
+  try {
+    return { value: JSON.parse(text.substring(start, end + 1)), error: null };
+  } catch (error) {
+    return { value: null, error: `The answer is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/**
+ * Check an answer against the schemas and for consistency
+ *
+ * @returns The errors (empty when the answer is valid)
+ */
+export const validateExtraction = (value: unknown, chunk: ExtractionChunk): string[] => {
+  const errors = validateSchema(value, EXTRACTION_SCHEMA);
+  if (errors.length > 0) {
+    return errors;
+  }
+  const result = value as ExtractionResult;
+  const headingCodes = new Set([...chunk.headingCodes, ...result.headings.map(heading => heading.code)]);
+  const seen = new Set<string>();
+  result.headings.forEach((heading, index) => {
+    if (seen.has(heading.code)) {
+      errors.push(`$.headings[${index}].code: heading ${heading.code} is listed twice`);
+    }
+    seen.add(heading.code);
+  });
+  result.subheadings.forEach((subheading, index) => {
+    if (!subheading.code.startsWith(subheading.heading_code)) {
+      errors.push(`$.subheadings[${index}]: code ${subheading.code} is not under heading ${subheading.heading_code}`);
+    } else if (!headingCodes.has(subheading.heading_code)) {
+      errors.push(`$.subheadings[${index}].heading_code: heading ${subheading.heading_code} is not in headings`);
+    }
+    if (seen.has(subheading.code)) {
+      errors.push(`$.subheadings[${index}].code: subheading ${subheading.code} is listed twice`);
+    }
+    seen.add(subheading.code);
+  });
+  result.notes.forEach((note, index) => {
+    if (!NOTE_REFERENCE_PATTERNS[note.scope].test(note.reference)) {
+      errors.push(`$.notes[${index}].reference: "${note.reference}" is not a ${note.scope} reference (${NOTE_REFERENCE_PATTERNS[note.scope].source})`);
+    }
+  });
+  return errors;
+};
+
+// Differences between the extracted HS codes and the rule-based parser's
+const compareWithParser = (result: ExtractionResult, chunk: ExtractionChunk): string[] => {
+  if (chunk.hsCodes.length === 0) {
+    return [];
+  }
+  const extracted = new Set(result.subheadings.map(subheading => subheading.code));
+  const parsed = new Set(chunk.hsCodes);
+  const missing = chunk.hsCodes.filter(code => !extracted.has(code));
+  const extra = [...extracted].filter(code => !parsed.has(code));
+  return [
+    ...(missing.length > 0 ? [`Not extracted, found by the rule-based parser: ${missing.join(', ')}`] : []),
+    ...(extra.length > 0 ? [`Extracted, not found by the rule-based parser: ${extra.join(', ')}`] : [])
+  ];
+};
+
+/**
+ * Extract one chunk, asking again with the errors until the answer is valid
+ */
+export const extractChunk = async (
+  provider: LlmProvider,
+  chunk: ExtractionChunk,
+  options: ExtractionOptions
+): Promise<{ result: ExtractionResult | null; extraction: ChunkExtraction }> => {
+  const maxReasks = options.maxReasks ?? DEFAULT_MAX_REASKS;
+  const prompt = buildExtractionPrompt(chunk);
+  const messages: LlmMessage[] = [{ role: 'user', content: prompt.user }];
+  let usage = emptyUsage(provider.id, options.model);
+  const errors: string[] = [];
+  let attempts = 0;
+
+  while (attempts <= maxReasks) {
+    attempts++;
+    let text: string;
+    try {
+      const response = await provider.generate({
+        model: options.model,
+        system: prompt.system,
+        messages,
+        temperature: options.temperature ?? 0,
+        maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS
+      });
+      usage = addUsage(usage, {
+        llm_provider: provider.id,
+        llm_model: response.model,
+        llm_input_tokens: response.inputTokens,
+        llm_output_tokens: response.outputTokens,
+        llm_total_tokens: response.inputTokens + response.outputTokens,
+        llm_cost: llmCost(response.model, response.inputTokens, response.outputTokens),
+        llm_response_time_ms: response.responseTimeMs
+      });
+      text = response.text;
+    } catch (error) {
+      // Request failed after the provider's retries: asking again would not help
+      errors.push(`[attempt ${attempts}] ${error instanceof Error ? error.message : String(error)}`);
+      break;
+    }
+
+    const answer = parseAnswer(text);
+    const answerErrors = answer.error ? [answer.error] : validateExtraction(answer.value, chunk);
+    if (answerErrors.length === 0) {
+      const result = answer.value as ExtractionResult;
+      return {
+        result,
+        extraction: { chunk: chunk.id, lines: chunk.lines, status: 'extracted', attempts, errors, warnings: compareWithParser(result, chunk), usage }
+      };
+    }
+    messages.push(
+      { role: 'assistant', content: text },
+      { role: 'user', content: `The answer is not valid:\n${answerErrors.map(error => `- ${error}`).join('\n')}\n\nAnswer again with the complete corrected JSON object only.` }
+    );
+    errors.push(...answerErrors.map(error => `[attempt ${attempts}] ${error}`));
+  }
+
+  return {
+    result: null,
+    extraction: { chunk: chunk.id, lines: chunk.lines, status: 'failed', attempts, errors, warnings: [], usage }
+  };
+};
+
+/**
+ * Extract all chunks of a converted Markdown file
+ *
+ * @param sourceSha256 - SHA-256 of the Markdown (to tell later whether the file changed)
+ */
+export const extractFile = async (
+  provider: LlmProvider,
+  markdown: string,
+  file: string,
+  sourceSha256: string,
+  options: ExtractionOptions
+): Promise<FileExtraction> => {
+  const extraction: FileExtraction = {
+    version: EXTRACTION_VERSION,
+    source: path.basename(file),
+    sourceSha256,
+    provider: provider.id,
+    model: options.model,
+    extractedAt: new Date().toISOString(),
+    chunks: [],
+    headings: [],
+    subheadings: [],
+    notes: [],
+    rules: [],
+    usage: emptyUsage(provider.id, options.model)
+  };
+
+  for (const chunk of chunkMarkdown(markdown, path.basename(file), options.maxChunkChars)) {
+    const { result, extraction: chunkExtraction } = await extractChunk(provider, chunk, options);
+    extraction.chunks.push(chunkExtraction);
+    extraction.usage = addUsage(extraction.usage, chunkExtraction.usage);
+    options.onChunk?.(chunkExtraction);
+    if (!result) {
+      continue;
+    }
+    const record = { chunk: chunk.id, ...chunkExtraction.usage };
+    extraction.headings.push(...result.headings.map(heading => ({ ...heading, ...record })));
+    extraction.subheadings.push(...result.subheadings.map(subheading => ({ ...subheading, ...record })));
+    extraction.notes.push(...result.notes.map(note => ({ ...note, ...record })));
+    extraction.rules.push(...result.rules.map(rule => ({ ...rule, ...record })));
+  }
+  return extraction;
+};
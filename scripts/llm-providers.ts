@@ -0,0 +1,437 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * LLM provider abstraction for the extraction pipeline (llm-extraction.ts)
+ *
+ * Every provider takes the same request (system prompt, conversation, model, temperature,
+ * output limit) and returns the text with its token counts, so the pipeline can switch between:
+ * - openai:    Chat Completions API (`OPENAI_API_KEY`)
+ * - anthropic: Messages API (`ANTHROPIC_API_KEY`)
+ * - google:    Gemini generateContent API (`GOOGLE_GEMINI_API_KEY`)
+ * - xai:       Grok, OpenAI-compatible Chat Completions API (`XAI_API_KEY`)
+ * - mock:      local and deterministic, no key or network: answers with the headings and
+ *              HS codes the rule-based parser (wco-nomenclature.ts) finds in the document,
+ *              or with scripted responses first (to exercise invalid output and re-asks)
+ *
+ * Requests go through the HTTP transport (http-transport.ts). Rate limits (429), overload and
+ * server errors are retried with exponential backoff, honouring Retry-After.
+ * Costs are computed from LLM_PRICING (USD per million tokens), matched by model name prefix
+ * since the APIs answer with dated model names ("gpt-4o-mini-2024-07-18").
+ */
+
+import { createTransport, type Transport } from './http-transport.js';
+import { sleep } from './shared-utils.js';
+import { flattenHsCodes, parseNomenclatureMarkdown } from './wco-nomenclature.js';
+
+export type LlmProviderId = 'openai' | 'anthropic' | 'google' | 'xai' | 'mock';
+
+export const LLM_PROVIDERS: LlmProviderId[] = ['openai', 'anthropic', 'google', 'xai', 'mock'];
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-20241022',
+  google: 'gemini-1.5-flash',
+  xai: 'grok-2-1212',
+  mock: 'mock-1'
+};
+
+// Environment variable holding each provider's API key (see documents/9.0_INTEGRATIONS.md)
+export const API_KEY_ENV: Record<LlmProviderId, string | null> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_GEMINI_API_KEY',
+  xai: 'XAI_API_KEY',
+  mock: null
+};
+
+/**
+ * USD per million input / output tokens
+ */
+export const LLM_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'grok-2': { input: 2, output: 10 },
+  'grok-beta': { input: 5, output: 15 },
+  'mock': { input: 0, output: 0 }
+};
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  system: string;
+  messages: LlmMessage[]; // Conversation so far, ending with a user message
+  temperature: number;
+  maxTokens: number; // Output limit
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string; // Model that answered, as reported by the API
+  inputTokens: number;
+  outputTokens: number;
+  responseTimeMs: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  defaultModel: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export interface LlmProviderOptions {
+  apiKey?: string; // Default: the provider's environment variable
+  transport?: Transport; // Default: a live transport
+  maxRetries?: number; // Retries of rate-limited or failed requests (default: 3)
+  mockResponses?: string[]; // mock: answers returned in order before the deterministic ones
+}
+
+// First retry delay, doubled per retry
+const RETRY_BASE_MS = 2000;
+const REQUEST_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_RETRIES = 3;
+// HTTP statuses worth retrying (529: Anthropic overloaded)
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529];
+
+// Token counts as the APIs name them (0 when missing)
+interface ChatCompletionsUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+interface GeminiUsage {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+}
+
+// Response bodies, narrowed to the fields read here (a missing text is '', a missing model null)
+interface ChatCompletionsChoice {
+  message: { content: string };
+}
+
+interface ChatCompletionsResponse {
+  model: string | null;
+  choices: ChatCompletionsChoice[];
+  usage: ChatCompletionsUsage;
+}
+
+// Content part of an Anthropic message: only "text" parts carry the answer ("tool_use" and others are skipped)
+interface AnthropicContentPart {
+  type: string;
+  text: string;
+}
+
+interface AnthropicMessagesResponse {
+  model: string | null;
+  content: AnthropicContentPart[];
+  usage: AnthropicUsage;
+}
+
+interface GeminiPart {
+  text: string;
+}
+
+interface GeminiCandidate {
+  content: { parts: GeminiPart[] };
+}
+
+interface GeminiResponse {
+  modelVersion: string | null;
+  candidates: GeminiCandidate[];
+  usageMetadata: GeminiUsage;
+}
+
+// Fields of a JSON object ({} for any other value)
+const fieldsOf = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const listOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const stringOf = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const countOf = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const readChatCompletions = (body: unknown): ChatCompletionsResponse => {
+  const fields = fieldsOf(body);
+  const usage = fieldsOf(fields.usage);
+  return {
+    model: stringOf(fields.model),
+    choices: listOf(fields.choices).map(choice => ({ message: { content: stringOf(fieldsOf(fieldsOf(choice).message).content) ?? '' } })),
+    usage: { prompt_tokens: countOf(usage.prompt_tokens), completion_tokens: countOf(usage.completion_tokens) }
+  };
+};
+
+const readAnthropicMessage = (body: unknown): AnthropicMessagesResponse => {
+  const fields = fieldsOf(body);
+  const usage = fieldsOf(fields.usage);
+  return {
+    model: stringOf(fields.model),
+    content: listOf(fields.content).map(part => ({ type: stringOf(fieldsOf(part).type) ?? '', text: stringOf(fieldsOf(part).text) ?? '' })),
+    usage: { input_tokens: countOf(usage.input_tokens), output_tokens: countOf(usage.output_tokens) }
+  };
+};
+
+const readGeminiResponse = (body: unknown): GeminiResponse => {
+  const fields = fieldsOf(body);
+  const usage = fieldsOf(fields.usageMetadata);
+  return {
+    modelVersion: stringOf(fields.modelVersion),
+    candidates: listOf(fields.candidates).map(candidate => ({
+      content: { parts: listOf(fieldsOf(fieldsOf(candidate).content).parts).map(part => ({ text: stringOf(fieldsOf(part).text) ?? '' })) }
+    })),
+    usageMetadata: { promptTokenCount: countOf(usage.promptTokenCount), candidatesTokenCount: countOf(usage.candidatesTokenCount) }
+  };
+};
+
+// Message of an error body: { error: "..." } or { error: { message, type } } (OpenAI, Anthropic, Gemini)
+const errorMessage = (body: unknown): string => {
+  const error = fieldsOf(body).error;
+  const fields = fieldsOf(error);
+  return stringOf(error) || stringOf(fields.message) || stringOf(fields.type) || 'request failed';
+};
+
+/**
+ * Cost in USD of a call (6 decimals, as classification_llm_cost), or null for a model without pricing
+ */
+export const llmCost = (model: string, inputTokens: number, outputTokens: number): number | null => {
+  const key = Object.keys(LLM_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) {
+    return null;
+  }
+  const pricing = LLM_PRICING[key]!;
+  return Math.round((inputTokens * pricing.input + outputTokens * pricing.output)) / 1e6;
+};
+
+/**
+ * Parse a --provider value
+ */
+export const parseLlmProvider = (value: string | undefined): LlmProviderId => {
+  const id = (value || '').toLowerCase();
+  if (!LLM_PROVIDERS.includes(id as LlmProviderId)) {
+    throw new Error(`Invalid provider: ${value}. Must be ${LLM_PROVIDERS.join(', ')}`);
+  }
+  return id as LlmProviderId;
+};
+
+// POST a JSON body once: status and parsed body (an error message when not JSON)
+const postJsonOnce = (transport: Transport, url: string, headers: Record<string, string>, body: unknown):
+  Promise<{ status: number; retryAfter: string | undefined; body: unknown }> =>
+  new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const request = transport.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'content-type': 'application/json', 'content-length': Buffer.byteLength(payload) }
+    }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          parsed = { error: { message: text.substring(0, 200) } };
+        }
+        const retryAfter = response.headers['retry-after'];
+        resolve({ status: response.statusCode || 0, retryAfter: Array.isArray(retryAfter) ? retryAfter[0] : retryAfter, body: parsed });
+      });
+      response.on('error', reject);
+    });
+    request.setTimeout(REQUEST_TIMEOUT_MS, () => request.destroy(new Error(`Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)));
+    request.on('error', reject);
+    request.end(payload);
+  });
+
+// POST a JSON body, retrying rate limits, server errors and network failures
+const postJson = async (transport: Transport, url: string, headers: Record<string, string>, body: unknown, maxRetries: number): Promise<unknown> => {
+  for (let attempt = 0; ; attempt++) {
+    let failure = '';
+    let delay = RETRY_BASE_MS * 2 ** attempt;
+    let response: Awaited<ReturnType<typeof postJsonOnce>> | null = null;
+    try {
+      response = await postJsonOnce(transport, url, headers, body);
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+    if (response) {
+      if (response.status >= 200 && response.status < 300) {
+        return response.body;
+      }
+      failure = `HTTP ${response.status}: ${errorMessage(response.body)}`;
+      if (!RETRYABLE_STATUSES.includes(response.status)) {
+        throw new Error(failure);
+      }
+      const retryAfter = Number(response.retryAfter);
+      if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        delay = retryAfter * 1000;
+      }
+    }
+    if (attempt >= maxRetries) {
+      throw new Error(`${failure} (after ${maxRetries} retries)`);
+    }
+    console.log(`    ${failure} - retrying in ${Math.round(delay / 1000)}s (${attempt + 1}/${maxRetries})`);
+    await sleep(delay);
+  }
+};
+
+// Run a request and measure its time
+const timed = async (call: () => Promise<Omit<LlmResponse, 'responseTimeMs'>>): Promise<LlmResponse> => {
+  const start = Date.now();
+  const response = await call();
+  return { ...response, responseTimeMs: Date.now() - start };
+};
+
+// OpenAI-compatible Chat Completions (OpenAI, xAI)
+const chatCompletionsProvider = (id: 'openai' | 'xai', url: string, apiKey: string, transport: Transport, maxRetries: number): LlmProvider => ({
+  id,
+  defaultModel: DEFAULT_MODELS[id],
+  generate: request => timed(async () => {
+    const body = readChatCompletions(await postJson(transport, url, { authorization: `Bearer ${apiKey}` }, {
+      model: request.model,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: { type: 'json_object' }
+    }, maxRetries));
+    return {
+      text: body.choices[0]?.message.content ?? '',
+      model: body.model || request.model,
+      inputTokens: body.usage.prompt_tokens,
+      outputTokens: body.usage.completion_tokens
+    };
+  })
+});
+
+// Anthropic Messages API
+const anthropicProvider = (apiKey: string, transport: Transport, maxRetries: number): LlmProvider => ({
+  id: 'anthropic',
+  defaultModel: DEFAULT_MODELS.anthropic,
+  generate: request => timed(async () => {
+    const body = readAnthropicMessage(await postJson(transport, 'https://api.anthropic.com/v1/messages', {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: request.model,
+      system: request.system,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    }, maxRetries));
+    return {
+      text: body.content.filter(part => part.type === 'text').map(part => part.text).join(''),
+      model: body.model || request.model,
+      inputTokens: body.usage.input_tokens,
+      outputTokens: body.usage.output_tokens
+    };
+  })
+});
+
+// Google Gemini generateContent API
+const googleProvider = (apiKey: string, transport: Transport, maxRetries: number): LlmProvider => ({
+  id: 'google',
+  defaultModel: DEFAULT_MODELS.google,
+  generate: request => timed(async () => {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(request.model)}:generateContent`;
+    const body = readGeminiResponse(await postJson(transport, url, { 'x-goog-api-key': apiKey }, {
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: request.messages.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      })),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: 'application/json'
+      }
+    }, maxRetries));
+    return {
+      text: (body.candidates[0]?.content.parts ?? []).map(part => part.text).join(''),
+      model: body.modelVersion || request.model,
+      inputTokens: body.usageMetadata.promptTokenCount,
+      outputTokens: body.usageMetadata.candidatesTokenCount
+    };
+  })
+});
+
+// Rough token count of a text (about 4 characters per token)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Document between <document> tags in the first user message (see llm-extraction.ts)
+const DOCUMENT_PATTERN = /<document>\n?([\s\S]*?)\n?<\/document>/;
+
+// Local provider: scripted responses first, then the rule-based parse of the document
+const mockProvider = (responses: string[]): LlmProvider => {
+  const scripted = [...responses];
+  return {
+    id: 'mock',
+    defaultModel: DEFAULT_MODELS.mock,
+    generate: request => timed(async () => {
+      let text = scripted.shift();
+      if (text === undefined) {
+        const document = request.messages[0]?.content.match(DOCUMENT_PATTERN)?.[1] || '';
+        const { headings } = parseNomenclatureMarkdown(document, 'mock');
+        text = JSON.stringify({
+          headings: headings.map(heading => ({ code: heading.code, title: heading.title, notes: null })),
+          subheadings: headings.flatMap(heading => flattenHsCodes(heading.children).map(code => ({
+            code: code.code,
+            heading_code: heading.code,
+            description: code.description
+          }))),
+          notes: [],
+          rules: []
+        });
+      }
+      const prompt = [request.system, ...request.messages.map(message => message.content)].join('\n');
+      return { text, model: request.model, inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) };
+    })
+  };
+};
+
+/**
+ * Create a provider; throws when its API key is not set
+ */
+export const createLlmProvider = async (id: LlmProviderId, options: LlmProviderOptions = {}): Promise<LlmProvider> => {
+  if (id === 'mock') {
+    return mockProvider(options.mockResponses || []);
+  }
+  const keyEnv = API_KEY_ENV[id]!;
+  const apiKey = options.apiKey || process.env[keyEnv];
+  if (!apiKey) {
+    throw new Error(`${keyEnv} is not set (required for --provider ${id})`);
+  }
+  const transport = options.transport || await createTransport({ mode: 'live' });
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  switch (id) {
+    case 'openai':
+      return chatCompletionsProvider('openai', 'https://api.openai.com/v1/chat/completions', apiKey, transport, maxRetries);
+    case 'xai':
+      return chatCompletionsProvider('xai', 'https://api.x.ai/v1/chat/completions', apiKey, transport, maxRetries);
+    case 'anthropic':
+      return anthropicProvider(apiKey, transport, maxRetries);
+    case 'google':
+      return googleProvider(apiKey, transport, maxRetries);
+  }
+};
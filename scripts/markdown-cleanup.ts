@@ -0,0 +1,278 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Cleanup pass for converted Markdown (all tools), run by pdf-to-markdown.ts
+ *
+ * - Page furniture: lines among the first/last EDGE_LINES of a page that recur on many pages of
+ *   the document (running headers, footers, copyright lines, page numbers) are removed. Lines are
+ *   compared with digits masked, so "Page 3" and "Page 4", or "I-01-3" and "I-01-4", are the same.
+ *   Short documents have little to count on: in a 2-page document a line must be at an edge of
+ *   both pages, and the known WCO furniture (page references, copyright lines, "Page N") is
+ *   removed from page edges whatever the page count, so a 1-page document is cleaned too
+ * - Page markers (`## Page N` from pdfplumber, `<!-- Page N -->` from pdfjs) are removed; where
+ *   each page starts is kept as page anchors (line and column in the cleaned Markdown)
+ * - Text split at a page break is joined back: a word hyphenated across lines or pages
+ *   ("classi-" / "fied"), and a sentence continued on the next page (lower case start)
+ *
+ * The cleaned Markdown is what extraction reads; the anchors go to `{file}.pages.json`.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const PAGES_SUFFIX = '.pages.json';
+
+const EDGE_LINES = 3; // Lines at the top and at the bottom of a page that may be furniture
+const MIN_FURNITURE_PAGES = 2; // A 1-page document has no statistics to go by
+// A line is furniture when it is at a page edge on at least this share of the pages
+const FURNITURE_PAGE_RATIO = 0.4;
+
+// Content that recurs at page edges without being furniture: table rows, dash rows, subheading
+// rows ("0101.29 - - Other" and "0102.29 - - Other" look alike once digits are masked) and
+// pdfplumber's "### Table" titles
+const NOT_FURNITURE_PATTERN = /^\s*(\||[-–—]\s|\d{4}\.\d{2}(?!\d)|#{1,6}\s+Table\s*$)/i;
+// Furniture of WCO PDFs, recognised without statistics: page references ("I-01-3", "XVI-84-12"),
+// copyright lines and page numbers ("Page 2", "Page 2 of 3")
+const KNOWN_FURNITURE_PATTERNS = [
+  /^[IVXL]+-\d{2,4}-\d+$/,
+  /^(?:©|\(c\)|copyright\b).*(?:world customs organi[sz]ation|organisation mondiale des douanes|\bwco\b|\bomd\b)/i,
+  /^page\s+\d+(?:\s*(?:\/|of|sur)\s*\d+)?$/i
+];
+// The `<div dir="rtl">` / `</div>` lines around right-to-left text (pdfjs): not content
+const DIV_TAG_PATTERN = /^\s*<\/?div\b[^>]*>\s*$/i;
+const PAGE_MARKER_PATTERN = /^\s*(?:#{1,6}\s+Page\s+(\d+)|<!--\s*Page\s+(\d+)\s*-->)\s*$/i;
+// Lines that are never joined with a neighbouring page: headings, tables, comments, HTML tags
+const STRUCTURE_PATTERN = /^\s*(#{1,6}\s|\||<)/;
+const HYPHEN_END_PATTERN = /([A-Za-zÀ-ÿ]+)-$/;
+const LOWER_START_PATTERN = /^([a-zà-ÿ][\wÀ-ÿ]*)/;
+const SENTENCE_END_PATTERN = /[.:;!?)]$/;
+
+/**
+ * Where a page starts in the cleaned Markdown
+ */
+export interface PageAnchor {
+  page: number;
+  line: number; // 1-based line
+  column: number; // 0-based; > 0 when the page starts inside a line joined across the page break
+}
+
+export interface CleanupResult {
+  markdown: string;
+  pages: PageAnchor[];
+  furniture: Array<{ text: string; pages: number }>; // Removed lines (first occurrence) and on how many pages
+  joins: number; // Hyphenated words and sentences joined
+}
+
+// Lines of one page of the converter output
+interface PageLines {
+  page: number;
+  lines: string[];
+}
+
+// Split Markdown at its page markers (a document without markers is one page)
+const splitPages = (markdown: string): PageLines[] => {
+  const pages: PageLines[] = [];
+  let current: PageLines | null = null;
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(PAGE_MARKER_PATTERN);
+    if (marker) {
+      current = { page: parseInt(marker[1] || marker[2]!, 10), lines: [] };
+      pages.push(current);
+      continue;
+    }
+    if (!current) {
+      current = { page: 1, lines: [] };
+      pages.push(current);
+    }
+    current.lines.push(line);
+  }
+  return pages;
+};
+
+// Text of a line without heading marks, emphasis and table pipes, spacing collapsed
+const plainLine = (line: string): string =>
+  line
+    .replace(/^\s*#{1,6}\s+/, '')
+    .replace(/[*_`|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Text used to recognise furniture: digit runs masked, case ignored
+const furnitureKey = (line: string): string => plainLine(line).replace(/\d+/g, '#').toLowerCase();
+
+const isKnownFurniture = (line: string): boolean => KNOWN_FURNITURE_PATTERNS.some(pattern => pattern.test(plainLine(line)));
+
+// Indices of the content lines at the top and bottom of a page that may be furniture
+const edgeLines = (lines: string[]): number[] => {
+  const content = lines.map((line, i) => (line.trim() && !DIV_TAG_PATTERN.test(line) ? i : -1)).filter(i => i >= 0);
+  return [...new Set([...content.slice(0, EDGE_LINES), ...content.slice(-EDGE_LINES)])]
+    .filter(i => !NOT_FURNITURE_PATTERN.test(lines[i]!));
+};
+
+// Remove recurring and known furniture edge lines; a Markdown heading is kept where it first
+// appears (a document title that is also the running header)
+const removeFurniture = (pages: PageLines[]): CleanupResult['furniture'] => {
+  const pagesWithKey = new Map<string, number>();
+  for (const page of pages) {
+    const keys = new Set(edgeLines(page.lines).map(i => furnitureKey(page.lines[i]!)).filter(Boolean));
+    for (const key of keys) {
+      pagesWithKey.set(key, (pagesWithKey.get(key) || 0) + 1);
+    }
+  }
+  // 2 pages: on both of them
+  const threshold = pages.length < MIN_FURNITURE_PAGES ? Infinity : Math.max(2, Math.ceil(pages.length * FURNITURE_PAGE_RATIO));
+  const furniture = new Map<string, { text: string; pages: number }>();
+  const headingSeen = new Set<string>();
+  for (const page of pages) {
+    const remove = new Set<number>();
+    for (const i of edgeLines(page.lines)) {
+      const line = page.lines[i]!;
+      const key = furnitureKey(line);
+      if (!key || ((pagesWithKey.get(key) || 0) < threshold && !isKnownFurniture(line))) {
+        continue;
+      }
+      if (/^\s*#{1,6}\s/.test(line) && !headingSeen.has(key)) {
+        headingSeen.add(key);
+        continue;
+      }
+      remove.add(i);
+      if (!furniture.has(key)) {
+        furniture.set(key, { text: line.trim(), pages: pagesWithKey.get(key)! });
+      }
+    }
+    page.lines = page.lines.filter((_, i) => !remove.has(i));
+  }
+  return [...furniture.values()];
+};
+
+// Counts of the words of a document (lower case), including hyphenated compounds
+const countWords = (markdown: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const word of markdown.toLowerCase().match(/[a-zà-ÿ]+(?:-[a-zà-ÿ]+)*/g) || []) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+};
+
+// Join "classi-" and "fied ..." into "classified ...": the hyphen is kept when the document
+// uses the hyphenated compound more often than the joined word ("non-" / "alcoholic")
+const joinHyphenated = (left: string, right: string, words: Map<string, number>): string | null => {
+  const head = left.match(HYPHEN_END_PATTERN);
+  const tail = right.trimStart().match(LOWER_START_PATTERN);
+  if (!head || !tail) {
+    return null;
+  }
+  const compound = `${head[1]}-${tail[1]}`.toLowerCase();
+  const joined = `${head[1]}${tail[1]}`.toLowerCase();
+  const keepHyphen = (words.get(compound) || 0) > (words.get(joined) || 0);
+  return left.slice(0, keepHyphen ? left.length : -1) + right.trimStart();
+};
+
+// Remove `<div ...>` / `</div>` pairs on a page left with only blank lines between them (a
+// right-to-left block that held only furniture)
+const dropEmptyDivs = (lines: string[]): string[] => {
+  const out: string[] = [];
+  for (const line of lines) {
+    if (/^\s*<\/div>\s*$/i.test(line)) {
+      let open = out.length - 1;
+      while (open >= 0 && !out[open]!.trim()) {
+        open--;
+      }
+      if (open >= 0 && DIV_TAG_PATTERN.test(out[open]!) && !/^\s*<\//.test(out[open]!)) {
+        out.length = open;
+        continue;
+      }
+    }
+    out.push(line);
+  }
+  return out;
+};
+
+/**
+ * Clean converted Markdown: remove page furniture and page markers, join words and sentences
+ * split at page breaks
+ */
+export const cleanupMarkdown = (markdown: string): CleanupResult => {
+  const pages = splitPages(markdown.replace(/\r\n/g, '\n'));
+  const furniture = removeFurniture(pages);
+  const words = countWords(markdown);
+
+  const out: string[] = [];
+  const anchors: PageAnchor[] = [];
+  let joins = 0;
+
+  for (const page of pages) {
+    // Trim blank lines at the page edges
+    const lines = dropEmptyDivs(page.lines);
+    while (lines.length > 0 && !lines[0]!.trim()) {
+      lines.shift();
+    }
+    while (lines.length > 0 && !lines[lines.length - 1]!.trim()) {
+      lines.pop();
+    }
+    if (lines.length === 0) {
+      continue;
+    }
+
+    // Continue the last line of the previous page
+    const last = out[out.length - 1];
+    const first = lines[0]!;
+    if (last !== undefined && last.trim() && !STRUCTURE_PATTERN.test(last) && !STRUCTURE_PATTERN.test(first)) {
+      const hyphenated = joinHyphenated(last, first, words);
+      const continued = !hyphenated && !SENTENCE_END_PATTERN.test(last.trimEnd()) && LOWER_START_PATTERN.test(first.trimStart())
+        ? `${last.trimEnd()} ${first.trimStart()}`
+        : null;
+      const joined = hyphenated ?? continued;
+      if (joined !== null) {
+        const column = hyphenated ? joined.length - first.trimStart().length : last.trimEnd().length + 1;
+        anchors.push({ page: page.page, line: out.length, column });
+        out[out.length - 1] = joined;
+        lines.shift();
+        joins++;
+      }
+    }
+    if (anchors[anchors.length - 1]?.page !== page.page) {
+      if (out.length > 0) {
+        out.push('');
+      }
+      anchors.push({ page: page.page, line: out.length + 1, column: 0 });
+    }
+
+    for (const line of lines) {
+      // A word hyphenated across two lines of one paragraph
+      const previous = out[out.length - 1];
+      const hyphenated = previous !== undefined && previous.trim() && line.trim() && !STRUCTURE_PATTERN.test(previous)
+        ? joinHyphenated(previous, line, words)
+        : null;
+      if (hyphenated !== null) {
+        out[out.length - 1] = hyphenated;
+        joins++;
+      } else if (line.trim() || out[out.length - 1]?.trim()) {
+        out.push(line); // Runs of blank lines (left by removed lines) collapse to one
+      }
+    }
+  }
+
+  while (out.length > 0 && !out[out.length - 1]!.trim()) {
+    out.pop();
+  }
+  return { markdown: out.length > 0 ? `${out.join('\n')}\n` : '', pages: anchors, furniture, joins };
+};
+
+/**
+ * Where the page anchors of a Markdown file are written: 0101_2022e.md -> 0101_2022e.pages.json
+ */
+export const pagesPath = (mdPath: string): string => mdPath.replace(/\.md$/i, '') + PAGES_SUFFIX;
+
+/**
+ * Clean a converted Markdown file in place and write its page anchors next to it
+ */
+export const cleanupMarkdownFile = async (mdPath: string): Promise<CleanupResult> => {
+  const result = cleanupMarkdown(await fs.readFile(mdPath, 'utf-8'));
+  await fs.writeFile(mdPath, result.markdown, 'utf-8');
+  const metadata = { source: path.basename(mdPath), pages: result.pages, furniture: result.furniture };
+  await fs.writeFile(pagesPath(mdPath), JSON.stringify(metadata, null, 2) + '\n', 'utf-8');
+  return result;
+};
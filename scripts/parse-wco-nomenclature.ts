@@ -0,0 +1,269 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * WCO Nomenclature Parser Script
+ *
+ * Parses an edition's converted heading files (0101_2022e.md, ...) into headings, subheading
+ * groups and 6-digit HS codes with descriptions and units, without an LLM (see wco-nomenclature.ts).
+ * Writes one JSON file per heading file and `nomenclature.json` with the `wco_headings` and
+ * `wco_hs_codes` rows of the whole edition.
+ *
+ * Usage:
+ *   tsx scripts/parse-wco-nomenclature.ts [options]
+ *
+ * Options:
+ *   --edition <year>     WCO edition year (default: 2022)
+ *   --language <lang>    Edition language: en or fr (default: en)
+ *   --data-dir <dir>     WCO data directory (default: ./data/wco)
+ *   --input <dir>        Converted files (default: {data-dir}/{edition}/{language}/md)
+ *   --output <dir>       Output directory (default: {data-dir}/{edition}/{language}/nomenclature)
+ *   --files <list>       Comma-separated heading files to parse instead of all
+ *   --format <format>    auto (default: the document model when there is one, else Markdown),
+ *                        markdown or json
+ *   --help, -h           Show help message
+ *
+ * Run pdf-to-markdown.ts first; with `--tool pdfjs --json` the codes cite the PDF lines they
+ * were read from.
+ */
+
+import { promises as fs } from 'fs';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import { parseLanguage, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import { documentPath } from './pdf-converters.js';
+import {
+  isHeadingFile,
+  parseNomenclatureDocument,
+  parseNomenclatureMarkdown,
+  NOMENCLATURE_VERSION,
+  type NomenclatureDocument,
+  type WcoHeadingRow,
+  type WcoHsCodeRow
+} from './wco-nomenclature.js';
+import type { DocumentModel } from './pdf-document.js';
+
+// Configuration
+const DEFAULT_EDITION = '2022';
+const DEFAULT_DATA_DIR = './data/wco';
+const EDITION_FILENAME = 'nomenclature.json';
+
+type InputFormat = 'auto' | 'markdown' | 'json';
+const INPUT_FORMATS: InputFormat[] = ['auto', 'markdown', 'json'];
+
+interface Config {
+  edition: string;
+  language: WcoLanguage;
+  dataDir: string;
+  inputDir: string | null; // null = {data-dir}/{edition}/{language}/md
+  outputDir: string | null; // null = {data-dir}/{edition}/{language}/nomenclature
+  files: string[] | null;
+  format: InputFormat;
+}
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    edition: DEFAULT_EDITION,
+    language: DEFAULT_LANGUAGE,
+    dataDir: DEFAULT_DATA_DIR,
+    inputDir: null,
+    outputDir: null,
+    files: null,
+    format: 'auto'
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--edition':
+        config.edition = args[++i] || DEFAULT_EDITION;
+        break;
+      case '--language':
+        try {
+          config.language = parseLanguage(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
+      case '--data-dir':
+        config.dataDir = args[++i] || DEFAULT_DATA_DIR;
+        break;
+      case '--input':
+        config.inputDir = args[++i] || null;
+        break;
+      case '--output':
+        config.outputDir = args[++i] || null;
+        break;
+      case '--files':
+        config.files = (args[++i] || '').split(',').map(file => file.trim()).filter(Boolean);
+        break;
+      case '--format':
+        const format = args[++i] as InputFormat;
+        if (!INPUT_FORMATS.includes(format)) {
+          console.error(`Invalid --format value. Must be one of: ${INPUT_FORMATS.join(', ')}`);
+          process.exit(1);
+        }
+        config.format = format;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+WCO Nomenclature Parser Script
+
+Usage:
+  tsx scripts/parse-wco-nomenclature.ts [options]
+
+Options:
+  --edition <year>      WCO edition year (default: ${DEFAULT_EDITION})
+  --language <lang>     Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --data-dir <dir>      WCO data directory (default: ${DEFAULT_DATA_DIR})
+  --input <dir>         Converted files (default: {data-dir}/{edition}/{language}/md)
+  --output <dir>        Output directory (default: {data-dir}/{edition}/{language}/nomenclature)
+  --files <list>        Comma-separated heading files to parse instead of all (e.g., 0101_2022e.md)
+  --format <format>     auto (document model when present, else Markdown), markdown or json
+  --help, -h            Show this help message
+
+Output:
+  {output}/{file}.json          Heading tree, wco_headings / wco_hs_codes rows and warnings per file
+  {output}/${EDITION_FILENAME}     All wco_headings / wco_hs_codes rows of the edition
+
+Examples:
+  # Parse all heading files of HS 2022
+  tsx scripts/parse-wco-nomenclature.ts --edition 2022
+
+  # Parse two headings from their Markdown only
+  tsx scripts/parse-wco-nomenclature.ts --files 0101_2022e.md,0102_2022e.md --format markdown
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  return config;
+}
+
+// Parse one heading file from the requested input
+async function parseFile(inputDir: string, mdFile: string, format: InputFormat): Promise<NomenclatureDocument> {
+  const mdPath = path.join(inputDir, mdFile);
+  const jsonPath = documentPath(mdPath);
+  if (format === 'json' || (format === 'auto' && existsSync(jsonPath))) {
+    const model = JSON.parse(await fs.readFile(jsonPath, 'utf-8')) as DocumentModel;
+    return parseNomenclatureDocument(model, path.basename(jsonPath));
+  }
+  return parseNomenclatureMarkdown(await fs.readFile(mdPath, 'utf-8'), mdFile);
+}
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+  const editionDir = path.join(config.dataDir, config.edition, config.language);
+  const inputDir = config.inputDir || path.join(editionDir, 'md');
+  const outputDir = config.outputDir || path.join(editionDir, 'nomenclature');
+
+  console.log('WCO Nomenclature Parser Script');
+  console.log('==============================');
+  console.log(`Edition: ${config.edition}`);
+  console.log(`Language: ${config.language}`);
+  console.log(`Input: ${inputDir}`);
+  console.log(`Output: ${outputDir}`);
+  console.log(`Format: ${config.format}`);
+  console.log('');
+
+  if (!existsSync(inputDir)) {
+    console.error(`❌ Input directory does not exist: ${inputDir}`);
+    console.error('   Run pdf-to-markdown.ts first');
+    process.exit(1);
+  }
+  const suffix = `_${config.edition}${WCO_LANGUAGES[config.language]}.md`;
+  const mdFiles = config.files
+    ? config.files.map(file => (file.endsWith('.md') ? file : `${file}.md`))
+    : (await fs.readdir(inputDir)).filter(file => file.endsWith(suffix) && isHeadingFile(file)).sort();
+  if (mdFiles.length === 0) {
+    console.error(`❌ No heading files (*${suffix}) found in ${inputDir}`);
+    process.exit(1);
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+  const wcoHeadings: WcoHeadingRow[] = [];
+  const wcoHsCodes: WcoHsCodeRow[] = [];
+  const warnings: string[] = [];
+  const files: Array<{ file: string; source: string; format: NomenclatureDocument['format']; headings: number; hsCodes: number; warnings: number }> = [];
+  let failed = 0;
+
+  for (const [index, mdFile] of mdFiles.entries()) {
+    const prefix = `[${index + 1}/${mdFiles.length}]`;
+    let document: NomenclatureDocument;
+    try {
+      document = await parseFile(inputDir, mdFile, config.format);
+    } catch (error) {
+      console.log(`${prefix} ✗ ${mdFile}: ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+      continue;
+    }
+    await fs.writeFile(path.join(outputDir, mdFile.replace(/\.md$/, '.json')), JSON.stringify(document, null, 2) + '\n', 'utf-8');
+
+    // Headings found in more than one file are kept from the first
+    for (const heading of document.wco_headings) {
+      if (wcoHeadings.some(other => other.wco_heading_code === heading.wco_heading_code)) {
+        warnings.push(`${document.source}: heading ${heading.wco_heading_code} is also in an earlier file; skipped`);
+        continue;
+      }
+      wcoHeadings.push(heading);
+      wcoHsCodes.push(...document.wco_hs_codes.filter(row => row.wco_heading_code === heading.wco_heading_code));
+    }
+    warnings.push(...document.warnings.map(warning => `${document.source}: ${warning}`));
+    files.push({
+      file: mdFile,
+      source: document.source,
+      format: document.format,
+      headings: document.wco_headings.length,
+      hsCodes: document.wco_hs_codes.length,
+      warnings: document.warnings.length
+    });
+
+    const symbol = document.warnings.length > 0 ? '⚠️ ' : '✓';
+    console.log(`${prefix} ${symbol} ${document.source} (${document.wco_headings.length} headings, ${document.wco_hs_codes.length} HS codes)`);
+    for (const warning of document.warnings) {
+      console.log(`    ${warning}`);
+    }
+  }
+
+  const editionFile = path.join(outputDir, EDITION_FILENAME);
+  const edition = {
+    version: NOMENCLATURE_VERSION,
+    edition: config.edition,
+    language: config.language,
+    generatedAt: new Date().toISOString(),
+    files,
+    wco_headings: wcoHeadings,
+    wco_hs_codes: wcoHsCodes,
+    warnings
+  };
+  await fs.writeFile(editionFile, JSON.stringify(edition, null, 2) + '\n', 'utf-8');
+
+  console.log('');
+  console.log('========================================');
+  console.log('Nomenclature Summary');
+  console.log('========================================');
+  console.log(`Files: ${files.length} parsed, ${failed} failed`);
+  console.log(`Headings: ${wcoHeadings.length}`);
+  console.log(`HS codes: ${wcoHsCodes.length}`);
+  console.log(`Warnings: ${warnings.length}`);
+  console.log(`\nNomenclature saved to: ${editionFile}`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Reading order of right-to-left text (Hebrew, Arabic) in PDF text lines
+ *
+ * PDFs draw text left to right on the page. pdfjs puts the characters of each text item in
+ * logical order, but a line made of several items (words, columns, or single glyphs in some
+ * PDFs) is still in visual order when its items are sorted by x. This module orders the items
+ * of a line for reading, at item level after the Unicode bidirectional algorithm:
+ * - the line's direction is RTL when it has more RTL than Latin letters
+ * - in an RTL line, runs of LTR text and numbers (HS codes, "01.01.2100/5", amounts) keep
+ *   their left-to-right order and everything else is read right to left; an LTR line reads a
+ *   run of RTL items right to left
+ * - neutral items (spaces, punctuation) between two items of the other direction join their run
+ * - columns (items apart by a column gap on the page) are read in the line's direction whatever
+ *   their text, so an RTL table row reads code, rate, description from the right (readingColumns)
+ *
+ * Positions along the reading direction (readingStart) let layout code compare column starts and
+ * indentation the same way for both directions: x for LTR, minus the right edge for RTL.
+ */
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Hebrew, Arabic (with supplements) and their presentation forms
+const RTL_LETTERS = '\\u0590-\\u05ff\\u0600-\\u06ff\\u0750-\\u077f\\ufb1d-\\ufdff\\ufe70-\\ufeff';
+const LTR_LETTERS = 'A-Za-z\\u00c0-\\u024f';
+const RTL_LETTER_PATTERN = new RegExp(`[${RTL_LETTERS}]`);
+const LTR_LETTER_PATTERN = new RegExp(`[${LTR_LETTERS}]`);
+const RTL_LETTERS_PATTERN = new RegExp(`[${RTL_LETTERS}]`, 'g');
+const LTR_LETTERS_PATTERN = new RegExp(`[${LTR_LETTERS}]`, 'g');
+const DIGIT_PATTERN = /\d/;
+
+/**
+ * Horizontal extent of an item or span
+ */
+export interface HorizontalBox {
+  x: number;
+  width: number;
+}
+
+/**
+ * Direction of a text: RTL when it has more RTL than Latin letters
+ */
+export const textDirection = (text: string): TextDirection => {
+  const rtl = text.match(RTL_LETTERS_PATTERN)?.length ?? 0;
+  const ltr = text.match(LTR_LETTERS_PATTERN)?.length ?? 0;
+  return rtl > ltr ? 'rtl' : 'ltr';
+};
+
+// Direction class of one item: numbers read left to right in both directions
+const itemClass = (text: string): TextDirection | 'number' | 'neutral' => {
+  if (RTL_LETTER_PATTERN.test(text)) {
+    return 'rtl';
+  }
+  if (LTR_LETTER_PATTERN.test(text)) {
+    return 'ltr';
+  }
+  return DIGIT_PATTERN.test(text) ? 'number' : 'neutral';
+};
+
+/**
+ * Items of one line in reading order
+ *
+ * @param items - The line's items (any order)
+ * @param direction - The line's direction (see textDirection)
+ */
+export const readingOrder = <T extends HorizontalBox & { text: string }>(items: T[], direction: TextDirection): T[] => {
+  const visual = [...items].sort((a, b) => a.x - b.x);
+  // Items that read against the line's direction
+  const classes = visual.map(item => itemClass(item.text));
+  const opposite = classes.map(cls =>
+    cls === 'neutral' ? null : direction === 'rtl' ? cls !== 'rtl' : cls === 'rtl');
+  const against = opposite.map((value, i) => {
+    if (value !== null) {
+      return value;
+    }
+    const before = opposite.slice(0, i).reverse().find(other => other !== null);
+    const after = opposite.slice(i + 1).find(other => other !== null);
+    return before === true && after === true;
+  });
+
+  // Runs of items with the same reading direction, left to right
+  const runs: Array<{ against: boolean; items: T[] }> = [];
+  visual.forEach((item, i) => {
+    const run = runs[runs.length - 1];
+    if (run && run.against === against[i]) {
+      run.items.push(item);
+    } else {
+      runs.push({ against: against[i]!, items: [item] });
+    }
+  });
+
+  const rtlRun = (run: { against: boolean }): boolean => (direction === 'rtl') !== run.against;
+  const ordered = direction === 'rtl' ? [...runs].reverse() : runs;
+  return ordered.flatMap(run => (rtlRun(run) ? [...run.items].reverse() : run.items));
+};
+
+/**
+ * Columns of one line in reading order, each with its items in reading order
+ *
+ * Columns are found on the page (left to right, apart by more than columnGapEm times the font
+ * size), so a run of the other direction inside a column is not split off by its own width.
+ *
+ * @param items - The line's items (any order)
+ * @param direction - The line's direction (see textDirection)
+ * @param columnGapEm - Smallest gap between two columns, in ems
+ */
+export const readingColumns = <T extends HorizontalBox & { text: string; fontSize: number }>(
+  items: T[],
+  direction: TextDirection,
+  columnGapEm: number
+): T[][] => {
+  const columns: Array<{ right: number; fontSize: number; items: T[] }> = [];
+  for (const item of [...items].sort((a, b) => a.x - b.x)) {
+    const column = columns[columns.length - 1];
+    if (column && item.x - column.right < columnGapEm * Math.max(column.fontSize, item.fontSize)) {
+      column.items.push(item);
+      column.right = Math.max(column.right, item.x + item.width);
+      column.fontSize = Math.max(column.fontSize, item.fontSize);
+    } else {
+      columns.push({ right: item.x + item.width, fontSize: item.fontSize, items: [item] });
+    }
+  }
+  const ordered = direction === 'rtl' ? columns.reverse() : columns;
+  return ordered.map(column => readingOrder(column.items, direction));
+};
+
+/**
+ * Position where a box starts in reading order: x for LTR, minus the right edge for RTL (so
+ * positions grow in reading order in both directions)
+ */
+export const readingStart = (box: HorizontalBox, direction: TextDirection): number =>
+  direction === 'rtl' ? -(box.x + box.width) : box.x;
+
+/**
+ * Position where a box ends in reading order (see readingStart)
+ */
+export const readingEnd = (box: HorizontalBox, direction: TextDirection): number =>
+  readingStart(box, direction) + box.width;
+
+/**
+ * Empty space between two boxes on one line (negative when they overlap)
+ */
+export const horizontalGap = (a: HorizontalBox, b: HorizontalBox): number =>
+  Math.max(b.x - (a.x + a.width), a.x - (b.x + b.width));
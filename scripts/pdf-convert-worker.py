@@ -0,0 +1,172 @@
+#!/usr/bin/env python3
+"""
+Persistent PDF to Markdown worker for pdf-to-markdown.ts (marker or pdfplumber)
+
+Started once per job by pdf-converters.ts and driven over stdin/stdout with JSON lines:
+
+  ready:    {"type": "ready", "tool": "marker", "version": "0.2.17"}
+  fatal:    {"type": "fatal", "error": {"type": "ModuleNotFoundError", "message": "...", "traceback": "..."}}
+  request:  {"id": 1, "pdf": "/data/0101_2022e.pdf", "output": "/data/0101_2022e.md", "language": "English"}
+  response: {"type": "result", "id": 1, "ok": true, "pageCount": 3,
+             "pages": [{"page": 1, "ms": 812.4}, ...], "durationMs": 2405.1, "warnings": []}
+            {"type": "result", "id": 1, "ok": false, "error": {"type": "...", "message": "...", "traceback": "..."}, ...}
+
+Paths are data in the request, never part of the code. marker's models are loaded once per worker.
+Anything the libraries print goes to stderr, so stdout only carries the protocol.
+The worker exits when stdin is closed.
+
+Usage:
+  python3 scripts/pdf-convert-worker.py --tool marker|pdfplumber
+"""
+
+import argparse
+import json
+import sys
+import time
+import traceback
+import warnings
+from importlib import metadata
+from pathlib import Path
+
+
+def error_info(error):
+    return {
+        "type": type(error).__name__,
+        "message": str(error),
+        "traceback": "".join(traceback.format_exception(type(error), error, error.__traceback__)),
+    }
+
+
+def package_version(package):
+    try:
+        return metadata.version(package)
+    except metadata.PackageNotFoundError:
+        return None
+
+
+def elapsed_ms(started):
+    return round((time.perf_counter() - started) * 1000, 1)
+
+
+class PdfplumberConverter:
+    package = "pdfplumber"
+
+    def __init__(self):
+        import pdfplumber
+
+        self.pdfplumber = pdfplumber
+
+    def convert(self, pdf_path, output_path, language, pages):
+        with self.pdfplumber.open(pdf_path) as pdf:
+            markdown_content = []
+
+            for page_num, page in enumerate(pdf.pages, 1):
+                started = time.perf_counter()
+                text = page.extract_text()
+                if text:
+                    markdown_content.append(f"## Page {page_num}\n\n{text}\n")
+
+                # Extract tables
+                tables = page.extract_tables()
+                for table in tables:
+                    if table:
+                        markdown_content.append("\n### Table\n\n")
+                        # Convert table to markdown
+                        for row in table:
+                            if row:
+                                markdown_content.append("| " + " | ".join(str(cell) if cell else "" for cell in row) + " |\n")
+                        markdown_content.append("\n")
+                pages.append({"page": page_num, "ms": elapsed_ms(started)})
+
+        with open(output_path, "w", encoding="utf-8") as f:
+            f.write("\n".join(markdown_content))
+        return len(pages)
+
+
+class MarkerConverter:
+    package = "marker-pdf"
+
+    def __init__(self):
+        from marker.convert import convert_single_pdf
+        from marker.models import load_all_models
+
+        self.convert_single_pdf = convert_single_pdf
+        # Load models once (first time will download)
+        self.models = load_all_models()
+
+    def convert(self, pdf_path, output_path, language, pages):
+        # marker converts the whole document at once: page count only, no per-page timing
+        full_text, images, out_meta = self.convert_single_pdf(pdf_path, self.models, langs=[language])
+
+        output = Path(output_path)
+        output.parent.mkdir(parents=True, exist_ok=True)
+        output.write_text(full_text, encoding="utf-8")
+        return out_meta.get("pages") if isinstance(out_meta, dict) else None
+
+
+CONVERTERS = {
+    "marker": MarkerConverter,
+    "pdfplumber": PdfplumberConverter,
+}
+
+
+def invalid_request(request_id, error):
+    return {"type": "result", "id": request_id, "ok": False, "error": error_info(error), "pages": [], "warnings": []}
+
+
+def handle(converter, request):
+    response = {"type": "result", "id": request.get("id"), "pages": [], "warnings": []}
+    started = time.perf_counter()
+    with warnings.catch_warnings(record=True) as caught:
+        warnings.simplefilter("always")
+        try:
+            response["pageCount"] = converter.convert(
+                request["pdf"], request["output"], request.get("language", "English"), response["pages"]
+            )
+            response["ok"] = True
+        except Exception as error:
+            response["ok"] = False
+            response["error"] = error_info(error)
+    response["warnings"] = [f"{w.category.__name__}: {w.message}" for w in caught]
+    response["durationMs"] = elapsed_ms(started)
+    return response
+
+
+def main():
+    parser = argparse.ArgumentParser(description="Persistent PDF to Markdown worker (JSON lines on stdin/stdout)")
+    parser.add_argument("--tool", choices=sorted(CONVERTERS), required=True)
+    args = parser.parse_args()
+
+    # Keep the real stdout for the protocol; library output goes to stderr
+    protocol = sys.stdout
+    sys.stdout = sys.stderr
+
+    def send(message):
+        protocol.write(json.dumps(message) + "\n")
+        protocol.flush()
+
+    try:
+        converter = CONVERTERS[args.tool]()
+    except Exception as error:
+        send({"type": "fatal", "error": error_info(error)})
+        return 1
+    send({"type": "ready", "tool": args.tool, "version": package_version(converter.package)})
+
+    for line in sys.stdin:
+        if not line.strip():
+            continue
+        try:
+            request = json.loads(line)
+        except ValueError as error:
+            send(invalid_request(None, error))
+            continue
+        if not isinstance(request, dict) or "pdf" not in request or "output" not in request:
+            request_id = request.get("id") if isinstance(request, dict) else None
+            send(invalid_request(request_id, ValueError("request must be an object with pdf and output")))
+            continue
+        send(handle(converter, request))
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(main())
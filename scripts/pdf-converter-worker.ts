@@ -0,0 +1,28 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Worker thread for pdfjs conversions (started by createConversionPool in pdf-converters.ts)
+ *
+ * Receives a WorkerTask per PDF, converts it with convertWithPdfjs and replies with a WorkerResult.
+ */
+
+import { parentPort } from 'worker_threads';
+import { convertWithPdfjs, type WorkerResult, type WorkerTask } from './pdf-converters.js';
+
+if (!parentPort) {
+  throw new Error('pdf-converter-worker.ts must be started as a worker thread');
+}
+
+const port = parentPort;
+
+port.on('message', async (task: WorkerTask) => {
+  const result: WorkerResult = { id: task.id };
+  try {
+    result.report = await convertWithPdfjs(task.pdfPath, task.outputPath, task.tables, task.documentModel);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  port.postMessage(result);
+});
@@ -0,0 +1,390 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * PDF to Markdown converters used by pdf-to-markdown.ts
+ *
+ * - marker and pdfplumber run in long-lived Python workers (pdf-convert-worker.py), one per job,
+ *   driven over stdin/stdout with JSON lines: paths are sent as data, marker's models are loaded
+ *   once per worker, and each response carries a structured error, warnings and page timings
+ * - pdfjs (layout engine in pdf-layout.ts) runs in-process, or in worker threads
+ *   (pdf-converter-worker.ts) for `--jobs N`
+ *
+ * A conversion resolves with a ConversionReport once the Markdown file is written and throws
+ * with the reason otherwise.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { execFile, spawn, type ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import { promisify } from 'util';
+import { Worker } from 'worker_threads';
+import type { WcoLanguage } from './shared-utils.js';
+import { convertPdfLayout, type TableMode } from './pdf-layout.js';
+
+const execFileAsync = promisify(execFile);
+
+export type ConversionTool = 'marker' | 'pdfplumber' | 'pdfjs';
+
+export const CONVERSION_TOOLS: ConversionTool[] = ['marker', 'pdfplumber', 'pdfjs'];
+
+// OCR/layout language passed to marker for each edition language
+export const MARKER_LANGUAGES: Record<WcoLanguage, string> = {
+  en: 'English',
+  fr: 'French'
+};
+
+const TABLES_SUFFIX = '.tables.json';
+const DOCUMENT_SUFFIX = '.document.json';
+const THREAD_WORKER_FILE = path.join(__dirname, 'pdf-converter-worker.ts');
+const PYTHON_WORKER_FILE = path.join(__dirname, 'pdf-convert-worker.py');
+const STDERR_TAIL_LINES = 20; // Python stderr kept for the error message when a worker dies
+const PYTHON_EXIT_GRACE_MS = 5000; // After closing stdin, wait this long before killing a worker
+
+/**
+ * Result of one conversion
+ */
+export interface ConversionReport {
+  pageCount: number | null;
+  pages: Array<{ page: number; ms: number }>; // Time per page (empty when the tool does not report it)
+  warnings: string[];
+}
+
+/**
+ * Error reported by a Python worker
+ */
+export interface ConversionErrorInfo {
+  type: string;
+  message: string;
+  traceback?: string;
+}
+
+/**
+ * Line written to a Python worker's stdin
+ */
+export interface PythonWorkerRequest {
+  id: number;
+  pdf: string;
+  output: string;
+  language: string;
+}
+
+/**
+ * Line read from a Python worker's stdout
+ */
+export type PythonWorkerMessage =
+  | { type: 'ready'; tool: string; version: string | null }
+  | { type: 'fatal'; error: ConversionErrorInfo }
+  | {
+      type: 'result';
+      id: number | null;
+      ok: boolean;
+      pageCount?: number | null;
+      pages: Array<{ page: number; ms: number }>;
+      durationMs?: number;
+      warnings: string[];
+      error?: ConversionErrorInfo;
+    };
+
+// Succeeds when python3 runs
+const canRun = async (args: string[]): Promise<boolean> => {
+  try {
+    await execFileAsync('python3', args);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check if Python is available
+ */
+export const checkPython = (): Promise<boolean> => canRun(['--version']);
+
+/**
+ * Check if marker is installed
+ */
+export const checkMarker = (): Promise<boolean> => canRun(['-c', 'import marker']);
+
+/**
+ * Check if pdfplumber is installed
+ */
+export const checkPdfplumber = (): Promise<boolean> => canRun(['-c', 'import pdfplumber']);
+
+/**
+ * Where `--tables json` writes the tables of a Markdown file: 0101_2022e.md -> 0101_2022e.tables.json
+ */
+export const tablesPath = (outputPath: string): string => outputPath.replace(/\.md$/i, '') + TABLES_SUFFIX;
+
+/**
+ * Where `--json` writes the document model of a Markdown file: 0101_2022e.md -> 0101_2022e.document.json
+ */
+export const documentPath = (outputPath: string): string => outputPath.replace(/\.md$/i, '') + DOCUMENT_SUFFIX;
+
+/**
+ * Convert PDF to Markdown using pdfjs (Node.js, see pdf-layout.ts)
+ *
+ * @param documentModel - Also write the document model (pdf-document.ts) next to the Markdown
+ */
+export const convertWithPdfjs = async (
+  pdfPath: string,
+  outputPath: string,
+  tables: TableMode = 'markdown',
+  documentModel: boolean = false
+): Promise<ConversionReport> => {
+  const data = await fs.readFile(pdfPath);
+  const conversion = await convertPdfLayout(new Uint8Array(data), tables);
+  await fs.writeFile(outputPath, conversion.markdown, 'utf-8');
+  if (tables === 'json') {
+    const document = { source: path.basename(pdfPath), tables: conversion.tables };
+    await fs.writeFile(tablesPath(outputPath), JSON.stringify(document, null, 2) + '\n', 'utf-8');
+  }
+  if (documentModel) {
+    const document = { ...conversion.document, source: path.basename(pdfPath) };
+    await fs.writeFile(documentPath(outputPath), JSON.stringify(document, null, 2) + '\n', 'utf-8');
+  }
+  return { pageCount: conversion.pages.length, pages: conversion.pages, warnings: [] };
+};
+
+/**
+ * Settings shared by all conversions of a run
+ */
+export interface ConversionOptions {
+  language: WcoLanguage; // marker
+  tables: TableMode; // pdfjs
+  documentModel: boolean; // pdfjs: also write {file}.document.json
+}
+
+/**
+ * Message from the main thread to a pdfjs worker thread (pdf-converter-worker.ts)
+ */
+export interface WorkerTask {
+  id: number;
+  pdfPath: string;
+  outputPath: string;
+  tables: TableMode;
+  documentModel: boolean;
+}
+
+/**
+ * Reply of a pdfjs worker thread: error is set when the conversion failed
+ */
+export interface WorkerResult {
+  id: number;
+  report?: ConversionReport;
+  error?: string;
+}
+
+// Runs one conversion at a time: the main thread, a worker thread or a Python process
+interface ConversionWorker {
+  convert(pdfPath: string, outputPath: string): Promise<ConversionReport>;
+  close(): Promise<void>;
+}
+
+/**
+ * Runs conversions on `jobs` workers; more calls than workers wait for a free one
+ */
+export interface ConversionPool {
+  convert(pdfPath: string, outputPath: string): Promise<ConversionReport>;
+  close(): Promise<void>;
+}
+
+// Worker threads do not inherit the tsx loader, so register it before loading the TypeScript worker
+const startThread = (): Worker =>
+  new Worker(`require(${JSON.stringify(require.resolve('tsx/cjs'))}); require(${JSON.stringify(THREAD_WORKER_FILE)});`, { eval: true });
+
+// pdfjs in a worker thread, started on first use and again after a crash
+const createThreadWorker = (tables: TableMode, documentModel: boolean): ConversionWorker => {
+  let thread: Worker | null = null;
+  let pending: { id: number; resolve: (report: ConversionReport) => void; reject: (error: Error) => void } | null = null;
+  let nextId = 1;
+
+  const start = (): Worker => {
+    const worker = startThread();
+    let crash: Error | null = null;
+    worker.on('message', (result: WorkerResult) => {
+      const task = pending;
+      if (task?.id !== result.id) {
+        return;
+      }
+      pending = null;
+      if (result.error !== undefined) {
+        task.reject(new Error(result.error));
+      } else {
+        task.resolve(result.report!);
+      }
+    });
+    worker.on('error', (error) => {
+      crash = error;
+    });
+    // A crashed thread fails its current task; the next task starts a new one
+    worker.on('exit', (code) => {
+      if (thread === worker) {
+        thread = null;
+      }
+      pending?.reject(crash || new Error(`Worker thread stopped with exit code ${code}`));
+      pending = null;
+    });
+    return worker;
+  };
+
+  return {
+    convert: (pdfPath, outputPath) => new Promise<ConversionReport>((resolve, reject) => {
+      thread = thread || start();
+      const id = nextId++;
+      pending = { id, resolve, reject };
+      const task: WorkerTask = { id, pdfPath, outputPath, tables, documentModel };
+      thread.postMessage(task);
+    }),
+    close: async () => {
+      const worker = thread;
+      thread = null;
+      await worker?.terminate();
+    }
+  };
+};
+
+// Error for a failed request, from the worker's structured error
+const toError = (error: ConversionErrorInfo | undefined): Error =>
+  new Error(error ? `${error.type}: ${error.message}` : 'Conversion failed without an error report');
+
+// marker/pdfplumber in a persistent Python process (pdf-convert-worker.py), started on first use
+// and again after it died
+const createPythonWorker = (tool: 'marker' | 'pdfplumber', language: WcoLanguage): ConversionWorker => {
+  let child: ChildProcess | null = null;
+  let ready: Promise<void> | null = null;
+  let pending: { id: number; resolve: (report: ConversionReport) => void; reject: (error: Error) => void } | null = null;
+  let nextId = 1;
+
+  const start = (): Promise<void> => {
+    const worker = spawn('python3', [PYTHON_WORKER_FILE, '--tool', tool], { stdio: ['pipe', 'pipe', 'pipe'] });
+    child = worker;
+    const stderrTail: string[] = [];
+    let readyResolve: () => void = () => undefined;
+    let readyReject: (error: Error) => void = () => undefined;
+    const started = new Promise<void>((resolve, reject) => {
+      readyResolve = resolve;
+      readyReject = reject;
+    });
+
+    createInterface({ input: worker.stderr! }).on('line', (line) => {
+      stderrTail.push(line);
+      if (stderrTail.length > STDERR_TAIL_LINES) {
+        stderrTail.shift();
+      }
+    });
+
+    createInterface({ input: worker.stdout! }).on('line', (line) => {
+      let message: PythonWorkerMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return; // Not protocol output
+      }
+      if (message.type === 'ready') {
+        readyResolve();
+      } else if (message.type === 'fatal') {
+        readyReject(toError(message.error));
+      } else if (message.type === 'result' && pending && message.id === pending.id) {
+        const task = pending;
+        pending = null;
+        if (message.ok) {
+          task.resolve({ pageCount: message.pageCount ?? null, pages: message.pages, warnings: message.warnings });
+        } else {
+          task.reject(toError(message.error));
+        }
+      }
+    });
+
+    worker.on('error', (error) => {
+      readyReject(error);
+    });
+    // A worker that died fails its current task; the next task starts a new one
+    worker.on('close', (code) => {
+      if (child === worker) {
+        child = null;
+        ready = null;
+      }
+      const last = stderrTail.filter(line => line.trim()).pop();
+      const error = new Error(`Python worker exited with code ${code}${last ? `: ${last}` : ''}`);
+      readyReject(error);
+      pending?.reject(error);
+      pending = null;
+    });
+
+    return started;
+  };
+
+  return {
+    convert: async (pdfPath, outputPath) => {
+      ready = ready || start();
+      await ready;
+      return new Promise<ConversionReport>((resolve, reject) => {
+        const id = nextId++;
+        pending = { id, resolve, reject };
+        const request: PythonWorkerRequest = { id, pdf: pdfPath, output: outputPath, language: MARKER_LANGUAGES[language] };
+        child!.stdin!.write(JSON.stringify(request) + '\n');
+      });
+    },
+    close: async () => {
+      const worker = child;
+      child = null;
+      ready = null;
+      if (!worker || worker.exitCode !== null) {
+        return;
+      }
+      // Closing stdin ends the worker's request loop
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => worker.kill(), PYTHON_EXIT_GRACE_MS);
+        worker.once('close', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        worker.stdin!.end();
+      });
+    }
+  };
+};
+
+/**
+ * Conversion pool for a tool: `jobs` Python workers (marker, pdfplumber), `jobs` worker threads
+ * (pdfjs with jobs > 1) or the main thread (pdfjs with a single job)
+ */
+export const createConversionPool = (tool: ConversionTool, jobs: number, options: ConversionOptions): ConversionPool => {
+  const startWorker = (): ConversionWorker => {
+    if (tool !== 'pdfjs') {
+      return createPythonWorker(tool, options.language);
+    }
+    if (jobs > 1) {
+      return createThreadWorker(options.tables, options.documentModel);
+    }
+    return {
+      convert: (pdfPath, outputPath) => convertWithPdfjs(pdfPath, outputPath, options.tables, options.documentModel),
+      close: async () => undefined
+    };
+  };
+  const workers = Array.from({ length: jobs }, startWorker);
+  const idle = [...workers];
+  const waiting: Array<(worker: ConversionWorker) => void> = [];
+
+  return {
+    convert: async (pdfPath, outputPath) => {
+      const worker = idle.pop() || await new Promise<ConversionWorker>(resolve => waiting.push(resolve));
+      try {
+        return await worker.convert(pdfPath, outputPath);
+      } finally {
+        const waiter = waiting.shift();
+        if (waiter) {
+          waiter(worker);
+        } else {
+          idle.push(worker);
+        }
+      }
+    },
+    close: async () => {
+      await Promise.all(workers.map(worker => worker.close()));
+    }
+  };
+};
@@ -0,0 +1,254 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Document model of the pdfjs layout engine (pdf-layout.ts)
+ *
+ * The JSON intermediate between the PDF and the Markdown: pages with their text lines (spans with
+ * box, font and size, indentation level) and the blocks built from them (headings, paragraphs,
+ * listing rows, tables with their cells). Blocks and cells refer to their source lines by id
+ * ("p3.l12" = line 12 of page 3), so extracted data can cite the exact position in the PDF.
+ * The Markdown output is rendered from this model (documentToMarkdown). Lines and blocks carry
+ * their reading direction; right-to-left blocks (Hebrew) are rendered inside `<div dir="rtl">`.
+ *
+ * Boxes are [x0, y0, x1, y1] in PDF points with the origin at the bottom left of the page
+ * (as in the PDF itself); a span's box runs from its baseline to one font size above it.
+ */
+
+import type { LayoutBlock, LayoutLine, TextSpan } from './pdf-layout.js';
+import { readingStart, type TextDirection } from './pdf-bidi.js';
+
+const DOCUMENT_MODEL_VERSION = 2;
+
+// Left edges closer than this (in body font sizes) are the same indentation stop
+const INDENT_TOLERANCE_EM = 1;
+
+export type BBox = [number, number, number, number];
+
+export interface DocumentSpan {
+  text: string;
+  bbox: BBox;
+  font: string; // PDF font name (e.g., "Helvetica-Bold"; internal id when the font has no name)
+  fontSize: number;
+  bold: boolean;
+}
+
+export interface DocumentLine {
+  id: string; // "p{page}.l{index}"
+  index: number; // 1-based, top to bottom
+  bbox: BBox;
+  fontSize: number;
+  bold: boolean;
+  dir: TextDirection;
+  indent: number; // Indentation stops of the page before the line's start (0 = margin; right margin for RTL)
+  text: string; // Spans in reading order
+  spans: DocumentSpan[];
+}
+
+export interface DocumentTableCell {
+  text: string;
+  bbox: BBox | null; // null for an empty cell
+  lines: string[]; // Line ids
+}
+
+interface DocumentBlockBase {
+  id: string; // "p{page}.b{index}"
+  bbox: BBox | null;
+  dir: TextDirection; // Direction of most of its lines
+  lines: string[]; // Source line ids, top to bottom
+}
+
+export type DocumentBlock = DocumentBlockBase & (
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'row'; code: string; dashLevel: number; text: string }
+  | { type: 'table'; header: DocumentTableCell[] | null; rows: DocumentTableCell[][] }
+);
+
+export interface DocumentPage {
+  number: number;
+  width: number;
+  height: number;
+  lines: DocumentLine[];
+  blocks: DocumentBlock[];
+}
+
+export interface DocumentModel {
+  version: number;
+  source: string | null; // PDF file name
+  generator: { tool: 'pdfjs'; version: string | null };
+  bodyFontSize: number;
+  pages: DocumentPage[];
+}
+
+/**
+ * Page size and lines as extracted from the PDF
+ */
+export interface PageLayout {
+  number: number;
+  width: number;
+  height: number;
+  lines: LayoutLine[];
+}
+
+// Coordinates in the model: 0.1 pt is finer than any text position that matters
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Box of a span: from its baseline to one font size above
+ */
+export const spanBox = (span: TextSpan): BBox =>
+  [round(span.x), round(span.y), round(span.x + span.width), round(span.y + span.fontSize)];
+
+/**
+ * Smallest box around two boxes (either may be null)
+ */
+export const unionBox = (a: BBox | null, b: BBox | null): BBox | null => {
+  if (!a || !b) {
+    return a || b;
+  }
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+};
+
+/**
+ * Id of a line in the model
+ */
+export const lineId = (page: number, index: number): string => `p${page}.l${index}`;
+
+// Indentation level of each line: the stops (line starts used by two or more lines) before its
+// start, along its reading direction (left edges for LTR lines, right edges for RTL lines)
+const indentLevels = (lines: LayoutLine[], bodySize: number): number[] => {
+  const tolerance = INDENT_TOLERANCE_EM * (bodySize || 1);
+  const starts = lines.map(line => readingStart(line.spans[0]!, line.dir));
+  const stops: Array<{ x: number; count: number }> = [];
+  for (const x of [...starts].sort((a, b) => a - b)) {
+    const stop = stops[stops.length - 1];
+    if (stop && x - stop.x <= tolerance) {
+      stop.count++;
+    } else {
+      stops.push({ x, count: 1 });
+    }
+  }
+  const used = stops.filter(stop => stop.count > 1).map(stop => stop.x);
+  return starts.map(start => used.filter(x => Math.sign(x) === Math.sign(start) && x < start - tolerance).length);
+};
+
+// Model cell from cell text and source
+const toCell = (page: number, text: string, source: { lines: number[]; bbox: BBox | null } | undefined): DocumentTableCell => ({
+  text,
+  bbox: source?.bbox ?? null,
+  lines: (source?.lines || []).map(index => lineId(page, index))
+});
+
+/**
+ * Build the document model from the extracted pages and the blocks built from their lines
+ */
+export const buildDocumentModel = (pages: PageLayout[], blocks: LayoutBlock[], bodySize: number, pdfjsVersion: string | null): DocumentModel => ({
+  version: DOCUMENT_MODEL_VERSION,
+  source: null,
+  generator: { tool: 'pdfjs', version: pdfjsVersion },
+  bodyFontSize: bodySize,
+  pages: pages.map(page => {
+    const indents = indentLevels(page.lines, bodySize);
+    const lines = page.lines.map((line, i): DocumentLine => {
+      const spans = line.spans.map((span): DocumentSpan => ({
+        text: span.text,
+        bbox: spanBox(span),
+        font: span.font,
+        fontSize: round(span.fontSize),
+        bold: span.bold
+      }));
+      return {
+        id: lineId(page.number, line.index),
+        index: line.index,
+        bbox: spans.map(span => span.bbox).reduce<BBox | null>(unionBox, null)!,
+        fontSize: round(line.fontSize),
+        bold: line.bold,
+        dir: line.dir,
+        indent: indents[i]!,
+        text: line.text,
+        spans
+      };
+    });
+    const lineBoxes = new Map(lines.map(line => [line.index, line.bbox]));
+    const rtlLines = new Set(lines.filter(line => line.dir === 'rtl').map(line => line.index));
+
+    const pageBlocks = blocks.filter(block => block.page === page.number).map((block, i): DocumentBlock => {
+      const base: DocumentBlockBase = {
+        id: `p${page.number}.b${i + 1}`,
+        bbox: block.lines.map(index => lineBoxes.get(index) ?? null).reduce<BBox | null>(unionBox, null),
+        dir: block.lines.filter(index => rtlLines.has(index)).length * 2 > block.lines.length ? 'rtl' : 'ltr',
+        lines:  block.lines.map(index => lineId(page.number, index))
+      };
+      switch (block.type) {
+        case 'heading':
+          return { ...base, type: 'heading', level: block.level, text: block.text };
+        case 'paragraph':
+          return { ...base, type: 'paragraph', text: block.text };
+        case 'row':
+          return { ...base, type: 'row', code: block.code, dashLevel: block.dashLevel, text: block.text };
+        case 'table':
+          return {
+            ...base,
+            type: 'table',
+            header: block.header ? block.header.map((text, c) => toCell(page.number, text, block.headerCells?.[c])) : null,
+            rows: block.rows.map((row, r) => row.map((text, c) => toCell(page.number, text, block.cells[r]?.[c])))
+          };
+      }
+    });
+
+    return { number: page.number, width: round(page.width), height: round(page.height), lines, blocks: pageBlocks };
+  })
+});
+
+// Cells in GFM table syntax
+const tableRow = (cells: string[]): string => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+
+/**
+ * Render the model as Markdown; consecutive listing rows stay on consecutive lines, each page
+ * starts with a `<!-- Page N -->` comment and runs of RTL blocks are wrapped in `<div dir="rtl">`
+ */
+export const documentToMarkdown = (model: DocumentModel): string => {
+  const out: string[] = [];
+  let rtl = false;
+  for (const page of model.pages) {
+    let previous: DocumentBlock | null = null;
+    for (const block of page.blocks) {
+      if (!previous) {
+        out.push(out.length > 0 ? '\n\n' : '', `<!-- Page ${page.number} -->`);
+      }
+      // Blank lines around the tags, so the Markdown inside the div is still Markdown
+      const toggle = (block.dir === 'rtl') !== rtl;
+      if (toggle) {
+        out.push('\n\n', rtl ? '</div>' : '<div dir="rtl">');
+        rtl = !rtl;
+      }
+      out.push(previous?.type === 'row' && block.type === 'row' && !toggle ? '\n' : '\n\n');
+      switch (block.type) {
+        case 'heading':
+          out.push(`${'#'.repeat(block.level)} ${block.text}`);
+          break;
+        case 'paragraph':
+          out.push(block.text);
+          break;
+        case 'row':
+          out.push([block.code, '- '.repeat(block.dashLevel) + block.text].filter(Boolean).join(' '));
+          break;
+        case 'table':
+          const width = block.rows[0]?.length || 0;
+          out.push([
+            tableRow(block.header ? block.header.map(cell => cell.text) : new Array(width).fill('')),
+            tableRow(new Array(width).fill('---')),
+            ...block.rows.map(row => tableRow(row.map(cell => cell.text)))
+          ].join('\n'));
+          break;
+      }
+      previous = block;
+    }
+  }
+  if (rtl) {
+    out.push('\n\n</div>');
+  }
+  return out.length > 0 ? `${out.join('')}\n` : '';
+};
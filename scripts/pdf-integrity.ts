@@ -0,0 +1,212 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * PDF integrity verification and quarantine for downloaded WCO PDFs
+ *
+ * A response that starts with `%PDF` can still be truncated or unrelated to the file it was
+ * saved as, and pdf-to-markdown.ts turns such files into garbage Markdown. Every download is
+ * checked before it replaces the local copy:
+ * - the file ends with an `%%EOF` marker (truncated transfers do not)
+ * - pdfjs can open it and parse every page
+ * - the page count is plausible (heading PDFs are short, nothing is empty)
+ * - heading PDFs (e.g., `0101_2022e.pdf`) mention their own heading code (`01.01`)
+ * Files that fail are moved to `quarantine/` in the edition directory with a `.reason.json`
+ * next to them, so they are kept for inspection but never converted.
+ * `download-wco-pdfs.ts verify` re-checks an existing edition directory the same way.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { sha256File, type DownloadManifest } from './download-manifest.js';
+
+export const QUARANTINE_DIR = 'quarantine';
+
+// Page count limits: heading PDFs are a few pages of Explanatory Notes,
+// the other documents (Introduction, Table of Contents, etc.) can be long
+const MAX_HEADING_PAGES = 200;
+const MAX_PAGES = 5000;
+
+// How far from the end of the file the %%EOF marker may be (trailing whitespace/garbage)
+const EOF_SEARCH_BYTES = 2048;
+
+// Pages searched for the heading code (it appears on the first page)
+const HEADING_SEARCH_PAGES = 3;
+
+// Chapter/heading PDFs: 0101_2022e.pdf (not 0001_2022e-gir.pdf)
+const HEADING_FILE_PATTERN = /^(\d{2})(\d{2})_\d{4}[a-z]\.pdf$/i;
+
+/**
+ * Why a PDF was rejected
+ * - truncated: no %%EOF marker (retrying the download may help)
+ * - unparsable: pdfjs cannot open the document or one of its pages (retrying may help)
+ * - page-count: no pages, or implausibly many for the file
+ * - heading-mismatch: the heading code from the filename does not appear in the text
+ */
+export type PdfIntegrityIssue = 'truncated' | 'unparsable' | 'page-count' | 'heading-mismatch';
+
+export interface PdfIntegrityResult {
+  ok: boolean;
+  issue?: PdfIntegrityIssue;
+  reason?: string;
+  pages?: number;
+}
+
+export interface QuarantineRecord {
+  filename: string;
+  reason: string;
+  issue: PdfIntegrityIssue | null;
+  url: string | null;
+  size: number;
+  sha256: string;
+  quarantinedAt: string;
+}
+
+// Whether a rejected download is worth requesting again
+export const isRetryableIssue = (issue: PdfIntegrityIssue | undefined): boolean =>
+  issue === 'truncated' || issue === 'unparsable';
+
+// Check for the %%EOF marker near the end of the file
+const hasEofMarker = async (filePath: string): Promise<boolean> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, EOF_SEARCH_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    return buffer.toString('latin1').includes('%%EOF');
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Verify a downloaded PDF
+ *
+ * @param filePath - File to check (may be a ".part" file)
+ * @param filename - Name the file is saved as, used for the page count and heading code checks
+ */
+export const verifyPdf = async (filePath: string, filename: string = path.basename(filePath)): Promise<PdfIntegrityResult> => {
+  if (!(await hasEofMarker(filePath))) {
+    return { ok: false, issue: 'truncated', reason: 'No %%EOF marker (truncated download)' };
+  }
+
+  const headingMatch = filename.match(HEADING_FILE_PATTERN);
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const data = new Uint8Array(await fs.readFile(filePath));
+  let pdf: Awaited<ReturnType<typeof pdfjsLib.getDocument>['promise']>;
+  try {
+    pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  } catch (error) {
+    return { ok: false, issue: 'unparsable', reason: `pdfjs cannot open the document: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  try {
+    const pages = pdf.numPages;
+    const maxPages = headingMatch ? MAX_HEADING_PAGES : MAX_PAGES;
+    if (pages < 1 || pages > maxPages) {
+      return { ok: false, issue: 'page-count', reason: `Implausible page count: ${pages} (expected 1-${maxPages})`, pages };
+    }
+
+    // Parse every page; keep the text of the first pages for the heading check
+    let headText = '';
+    for (let pageNum = 1; pageNum <= pages; pageNum++) {
+      try {
+        const page = await pdf.getPage(pageNum);
+        const textContent = await page.getTextContent();
+        if (pageNum <= HEADING_SEARCH_PAGES) {
+          headText += textContent.items.map(item => ('str' in item ? item.str : '')).join(' ') + '\n';
+        }
+      } catch (error) {
+        return { ok: false, issue: 'unparsable', reason: `pdfjs cannot parse page ${pageNum}: ${error instanceof Error ? error.message : String(error)}`, pages };
+      }
+    }
+
+    if (headingMatch) {
+      // "01.01" may be split into several text items ("01", ".", "01")
+      const [, chapter, heading] = headingMatch;
+      const codePattern = new RegExp(`(?<![\\d.])${chapter}\\s*\\.\\s*${heading}(?!\\d)`);
+      if (!codePattern.test(headText)) {
+        return { ok: false, issue: 'heading-mismatch', reason: `Heading code ${chapter}.${heading} not found in the text of the first pages`, pages };
+      }
+    }
+
+    return { ok: true, pages };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Move a rejected PDF into `{dir}/quarantine/` and record why next to it
+ * Returns the quarantined path.
+ *
+ * @param filePath - File to move (the downloaded file or its ".part" file)
+ * @param dir - Edition PDF directory
+ * @param filename - Name to quarantine the file under
+ */
+export const quarantineFile = async (
+  filePath: string,
+  dir: string,
+  filename: string,
+  result: PdfIntegrityResult,
+  url: string | null = null
+): Promise<string> => {
+  const quarantineDir = path.join(dir, QUARANTINE_DIR);
+  await fs.mkdir(quarantineDir, { recursive: true });
+  const target = path.join(quarantineDir, filename);
+  const record: QuarantineRecord = {
+    filename,
+    reason: result.reason || 'Unknown integrity problem',
+    issue: result.issue || null,
+    url,
+    size: (await fs.stat(filePath)).size,
+    sha256: await sha256File(filePath),
+    quarantinedAt: new Date().toISOString()
+  };
+  await fs.rename(filePath, target);
+  await fs.writeFile(`${target}.reason.json`, JSON.stringify(record, null, 2) + '\n', 'utf-8');
+  return target;
+};
+
+export interface VerifySummary {
+  checked: number;
+  ok: number;
+  quarantined: Array<{ filename: string; reason: string }>;
+}
+
+/**
+ * Re-check every PDF in an edition directory and quarantine the ones that fail
+ *
+ * @param manifest - Source URLs for the quarantine records
+ * @param dryRun - Only report, leave failing files in place
+ */
+export const verifyDirectory = async (dir: string, manifest: DownloadManifest | null, dryRun: boolean = false): Promise<VerifySummary> => {
+  const files = (await fs.readdir(dir)).filter(f => f.toLowerCase().endsWith('.pdf')).sort();
+  const summary: VerifySummary = { checked: 0, ok: 0, quarantined: [] };
+
+  for (const filename of files) {
+    const filePath = path.join(dir, filename);
+    summary.checked++;
+    let result: PdfIntegrityResult;
+    try {
+      result = await verifyPdf(filePath, filename);
+    } catch (error) {
+      result = { ok: false, issue: 'unparsable', reason: error instanceof Error ? error.message : String(error) };
+    }
+    if (result.ok) {
+      summary.ok++;
+      console.log(`  ✓ ${filename} (${result.pages} pages)`);
+      continue;
+    }
+    summary.quarantined.push({ filename, reason: result.reason || 'Unknown integrity problem' });
+    if (dryRun) {
+      console.log(`  [DRY RUN] ✗ ${filename} - ${result.reason} (would quarantine)`);
+    } else {
+      await quarantineFile(filePath, dir, filename, result, manifest?.files[filename]?.url ?? null);
+      console.log(`  ✗ ${filename} - ${result.reason} (moved to ${QUARANTINE_DIR}/)`);
+    }
+  }
+  return summary;
+};
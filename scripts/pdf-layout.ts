@@ -0,0 +1,469 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Layout-aware PDF to Markdown conversion with pdfjs (the `--tool pdfjs` converter)
+ *
+ * Works from the positioned text items pdfjs returns instead of the raw text stream:
+ * - items are grouped into lines by baseline and into spans by horizontal gaps, so a code
+ *   column and its description column stay on one line, in order, separated by a space
+ * - right-to-left lines (Hebrew) are read right to left, with embedded codes and numbers kept
+ *   left to right (see pdf-bidi.ts); their blocks are rendered inside `<div dir="rtl">`
+ * - the body font size is the most used size in the document; larger lines and bold lines
+ *   (single column) are titles: "Section I" -> #, "Chapter 1" -> ##, other titles by size (#-###), bold body text -> ####
+ * - rows of a nomenclature listing (a leading code such as 01.01 or 0101.21, or a description
+ *   starting with dashes) keep their "- " / "- - " levels; a heading row (01.01) becomes ###
+ * - wrapped description and paragraph lines are joined back into one row/paragraph
+ * - code/description listings with column gaps become GFM tables (see pdf-tables.ts), split at
+ *   heading rows so each heading keeps its ### title; `tables: 'json'` also returns them as data
+ * - page boundaries are kept as `<!-- Page N -->` comments (not headings, so the heading structure
+ *   is only the document's own)
+ * - the lines and blocks form a document model (pdf-document.ts) with positions and fonts; the
+ *   Markdown is rendered from it
+ */
+
+import { detectTables, type LayoutTable, type TableCellSource } from './pdf-tables.js';
+import { buildDocumentModel, documentToMarkdown, type DocumentModel, type PageLayout } from './pdf-document.js';
+import { horizontalGap, readingColumns, readingEnd, readingStart, textDirection, type TextDirection } from './pdf-bidi.js';
+
+type PdfDocument = Awaited<ReturnType<typeof import('pdfjs-dist/legacy/build/pdf.mjs')['getDocument']>['promise']>;
+type PdfPage = Awaited<ReturnType<PdfDocument['getPage']>>;
+
+/**
+ * Run of text on one line without a column gap
+ */
+export interface TextSpan {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+  font: string; // PDF font name of the first item
+}
+
+/**
+ * Text on one baseline, split into spans at column gaps (spans in reading order)
+ */
+export interface LayoutLine {
+  page: number;
+  index: number; // 1-based position on the page, top to bottom
+  y: number;
+  x: number; // Left edge
+  dir: TextDirection;
+  fontSize: number;
+  bold: boolean; // Every span is bold
+  spans: TextSpan[];
+  text: string;
+}
+
+// lines: LayoutLine.index of the block's source lines on its page
+export type LayoutBlock =
+  | { type: 'heading'; page: number; lines: number[]; level: number; text: string }
+  | { type: 'paragraph'; page: number; lines: number[]; text: string }
+  | { type: 'row'; page: number; lines: number[]; code: string; dashLevel: number; text: string }
+  | {
+      type: 'table';
+      page: number;
+      lines: number[];
+      header: string[] | null;
+      rows: string[][];
+      headerCells: TableCellSource[] | null;
+      cells: TableCellSource[][];
+    };
+
+/**
+ * Tables: markdown = GFM tables, json = GFM tables and the tables as data, none = listing rows as lines
+ */
+export type TableMode = 'markdown' | 'json' | 'none';
+
+export const TABLE_MODES: TableMode[] = ['markdown', 'json', 'none'];
+
+export interface LayoutConversion {
+  markdown: string;
+  document: DocumentModel;
+  tables: LayoutTable[]; // Filled in json mode
+  pages: Array<{ page: number; ms: number }>; // Text extraction time per page
+}
+
+// Horizontal gap (in font sizes) that separates columns; smaller gaps are word spaces
+const COLUMN_GAP_EM = 1.5;
+const WORD_GAP_EM = 0.15;
+// Items whose baselines differ by less than this (in font sizes) are on the same line
+const LINE_TOLERANCE_EM = 0.4;
+// Largest baseline distance (in font sizes) between two lines of one paragraph or row
+const CONTINUATION_GAP_EM = 1.8;
+const TITLE_SIZE_RATIO = 1.15; // Lines this much larger than the body text are titles
+const MAX_TITLE_LENGTH = 150; // Longer bold lines are emphasized text, not titles
+const COLUMN_MATCH_TOLERANCE = 5; // Points between the columns of a table continued on the next page
+const MAX_SIZE_LEVEL = 3;
+const BOLD_TITLE_LEVEL = 4;
+
+const BOLD_FONT_PATTERN = /bold|black|heavy|semibold|demi/i;
+// HS codes in the code column: 01.01 (heading), 0101.21 (subheading), 0101.21.10 (national),
+// 01.01.2100/5 and 0101210000/5 (Israeli customs items with their check digit)
+const CODE_PATTERN = /^(\d{2}\.\d{2}|\d{4}\.\d{2}(?:\.\d{2,4})?|\d{2}\.\d{2}\.\d{4,6}\/\d|\d{10}\/\d)$/;
+const CODE_PREFIX_PATTERN = /^(\d{2}\.\d{2}|\d{4}\.\d{2}(?:\.\d{2,4})?|\d{2}\.\d{2}\.\d{4,6}\/\d|\d{10}\/\d)\s+([-–—A-Z\u05d0-\u05ea].*)$/;
+const HEADING_CODE_PATTERN = /^\d{2}\.\d{2}$/;
+const SECTION_PATTERN = /^section\s+[IVXLC]+\b/i;
+const CHAPTER_PATTERN = /^(chapter|chapitre)\s+\d+\b/i;
+const LABEL_ONLY_PATTERN = /^(section\s+[IVXLC]+|chapter\s+\d+|chapitre\s+\d+)\s*$/i;
+// Dash levels: "- Horses :", "- - Other" (also en/em dashes and "--")
+const DASH_PATTERN = /^((?:[-–—]\s*)+)(?=\S)/;
+// Start of a numbered note item: "1. ", "(a) ", "(ii) ", "b) "
+const ENUMERATION_PATTERN = /^(\d{1,2}\.|\([a-z0-9]{1,5}\)|[a-z]\))\s/i;
+
+// Merge the items of one column (in reading order) into a span
+const mergeColumn = (items: TextSpan[]): TextSpan => {
+  const span = { ...items[0]! };
+  items.slice(1).forEach((item, i) => {
+    const gap = horizontalGap(items[i]!, item);
+    const space = gap > WORD_GAP_EM * item.fontSize && !/\s$/.test(span.text) && !/^\s/.test(item.text) ? ' ' : '';
+    const right = Math.max(span.x + span.width, item.x + item.width);
+    span.text += space + item.text;
+    span.x = Math.min(span.x, item.x);
+    span.width = right - span.x;
+    span.fontSize = Math.max(span.fontSize, item.fontSize);
+    span.bold = span.bold && item.bold;
+  });
+  return span;
+};
+
+// Merge a line's items into spans, one per column (in reading order, see readingColumns)
+const buildLine = (items: TextSpan[], page: number): LayoutLine | null => {
+  const dir = textDirection(items.map(item => item.text).join(' '));
+  const spans = readingColumns(items, dir, COLUMN_GAP_EM).map(mergeColumn);
+  const cleaned = spans
+    .map(span => ({ ...span, text: span.text.replace(/\s+/g, ' ').trim() }))
+    .filter(span => span.text);
+  if (cleaned.length === 0) {
+    return null;
+  }
+  // The line's size is the size of its longest span (a superscript does not make a title)
+  const main = cleaned.reduce((a, b) => (b.text.length > a.text.length ? b : a));
+  return {
+    page,
+    index: 0,
+    y: Math.max(...cleaned.map(span => span.y)),
+    x: Math.min(...cleaned.map(span => span.x)),
+    dir,
+    fontSize: main.fontSize,
+    bold: cleaned.every(span => span.bold),
+    spans: cleaned,
+    text: cleaned.map(span => span.text).join(' ')
+  };
+};
+
+/**
+ * Group positioned text items into lines, top to bottom
+ */
+export const groupLines = (items: TextSpan[], page: number): LayoutLine[] => {
+  const groups: TextSpan[][] = [];
+  for (const item of [...items].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const group = groups[groups.length - 1];
+    const first = group?.[0];
+    if (group && first && Math.abs(first.y - item.y) <= LINE_TOLERANCE_EM * Math.min(first.fontSize, item.fontSize)) {
+      group.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+  const lines = groups.map(group => buildLine(group, page)).filter((line): line is LayoutLine => line !== null);
+  lines.forEach((line, i) => {
+    line.index = i + 1;
+  });
+  return lines;
+};
+
+/**
+ * Text items of a page with position, size and weight, grouped into lines
+ */
+export const extractPageLines = async (page: PdfPage, pageNumber: number): Promise<LayoutLine[]> => {
+  const textContent = await page.getTextContent();
+  // The real font names (for bold detection) are only known once the page's fonts are loaded
+  await page.getOperatorList();
+  const fonts = new Map<string, { name: string; bold: boolean }>();
+  const fontOf = (fontName: string): { name: string; bold: boolean } => {
+    if (!fonts.has(fontName)) {
+      let font = { name: fontName, bold: false };
+      try {
+        const loaded = page.commonObjs.get(fontName) as { name?: string; bold?: boolean } | undefined;
+        font = { name: loaded?.name || fontName, bold: Boolean(loaded?.bold) || BOLD_FONT_PATTERN.test(loaded?.name || '') };
+      } catch {
+        // Font not loaded (e.g., Type3): treat as regular
+      }
+      fonts.set(fontName, font);
+    }
+    return fonts.get(fontName)!;
+  };
+
+  const items: TextSpan[] = [];
+  for (const item of textContent.items) {
+    if (!('str' in item) || !item.str.trim()) {
+      continue;
+    }
+    const [a = 0, b = 0, c = 0, d = 0, x = 0, y = 0] = item.transform as number[];
+    const font = fontOf(item.fontName);
+    items.push({
+      text: item.str,
+      x,
+      y,
+      width: item.width,
+      fontSize: Math.hypot(c, d) || Math.hypot(a, b) || 1,
+      bold: font.bold,
+      font: font.name
+    });
+  }
+  return groupLines(items, pageNumber);
+};
+
+/**
+ * Body text size: the font size (rounded to 0.5pt) with the most characters
+ */
+export const bodyFontSize = (lines: LayoutLine[]): number => {
+  const characters = new Map<number, number>();
+  for (const line of lines) {
+    for (const span of line.spans) {
+      const size = Math.round(span.fontSize * 2) / 2;
+      characters.set(size, (characters.get(size) || 0) + span.text.length);
+    }
+  }
+  let body = 0;
+  let most = -1;
+  for (const [size, count] of characters) {
+    if (count > most) {
+      body = size;
+      most = count;
+    }
+  }
+  return body;
+};
+
+// Split "- - Pure-bred" into its dash level and text
+const splitDashes = (text: string): { dashLevel: number; text: string } => {
+  const match = text.match(DASH_PATTERN);
+  if (!match) {
+    return { dashLevel: 0, text };
+  }
+  return { dashLevel: (match[1]!.match(/[-–—]/g) || []).length, text: text.substring(match[0].length).trim() };
+};
+
+// "--Other" / "– – Other" -> "- - Other"
+const normalizeDashes = (text: string): string => {
+  const { dashLevel, text: rest } = splitDashes(text);
+  return '- '.repeat(dashLevel) + rest;
+};
+
+// Leading code column of a listing row: { code, description, descriptionStart } or null
+// (descriptionStart: reading position of the description column, see readingStart)
+const splitCode = (line: LayoutLine): { code: string; description: string; descriptionStart: number } | null => {
+  const first = line.spans[0]!;
+  if (CODE_PATTERN.test(first.text)) {
+    const rest = line.spans.slice(1);
+    const descriptionStart = rest[0] ? readingStart(rest[0], line.dir) : readingEnd(first, line.dir);
+    return { code: first.text, description: rest.map(span => span.text).join(' '), descriptionStart };
+  }
+  // Code and description closer together than a column gap
+  const match = first.text.match(CODE_PREFIX_PATTERN);
+  if (match) {
+    const description = [match[2]!, ...line.spans.slice(1).map(span => span.text)].join(' ');
+    return { code: match[1]!, description, descriptionStart: readingStart(first, line.dir) };
+  }
+  return null;
+};
+
+// Source line indices of cells, in page order without duplicates
+const sourceLines = (sources: TableCellSource[]): number[] =>
+  [...new Set(sources.flatMap(source => source.lines))].sort((a, b) => a - b);
+
+// Table blocks of a detected table: a heading row (01.01) ends the table before it and becomes a
+// ### title; columns that are empty in every row of a block are dropped. The header's line
+// belongs to the first table block.
+const tableBlocks = (table: LayoutTable): LayoutBlock[] => {
+  const blocks: LayoutBlock[] = [];
+  let rows: number[] = [];
+  let headerUsed = false;
+  const flush = (): void => {
+    if (rows.length === 0) {
+      return;
+    }
+    const used = table.columns.map((_, i) => rows.some(r => table.rows[r]![i]));
+    const pick = <T>(cells: T[]): T[] => cells.filter((_, i) => used[i]);
+    const header = table.header && pick(table.header).some(Boolean) ? pick(table.header) : null;
+    const headerCells = header && table.headerCells && !headerUsed ? pick(table.headerCells) : null;
+    const cells = rows.map(r => pick(table.cells[r]!));
+    headerUsed = headerUsed || headerCells !== null;
+    blocks.push({
+      type: 'table',
+      page: table.page,
+      lines: sourceLines([...(headerCells || []), ...cells.flat()]),
+      header,
+      rows: rows.map(r => pick(table.rows[r]!)),
+      headerCells,
+      cells
+    });
+    rows = [];
+  };
+  table.rows.forEach((row, r) => {
+    const keys = row.slice(0, table.descriptionColumn).filter(Boolean);
+    const description = row[table.descriptionColumn]!;
+    if (keys.length === 1 && HEADING_CODE_PATTERN.test(keys[0]!) && !DASH_PATTERN.test(description)) {
+      flush();
+      const text = [keys[0]!, ...row.slice(table.descriptionColumn).filter(Boolean)].join(' ');
+      blocks.push({ type: 'heading', page: table.page, lines: sourceLines(table.cells[r]!), level: MAX_SIZE_LEVEL, text });
+    } else {
+      rows.push(r);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+/**
+ * Turn lines (and detected tables) into headings, paragraphs, listing rows and tables
+ *
+ * @param bodySize - Body text size (see bodyFontSize)
+ */
+export const buildBlocks = (segments: Array<LayoutLine | LayoutTable>, bodySize: number): LayoutBlock[] => {
+  const blocks: LayoutBlock[] = [];
+  const lines = segments.filter((segment): segment is LayoutLine => !('rows' in segment));
+  // Title sizes, largest first: their rank is the heading level of untitled titles
+  const titleSizes = [...new Set(lines
+    .filter(line => line.fontSize >= bodySize * TITLE_SIZE_RATIO)
+    .map(line => Math.round(line.fontSize * 2) / 2))].sort((a, b) => b - a);
+
+  // The open block, which the next line may continue
+  // descriptionStart: reading position of the description column of a listing row (null for other blocks)
+  let current: { block: LayoutBlock; line: LayoutLine; descriptionStart: number | null } | null = null;
+
+  const continues = (line: LayoutLine): boolean =>
+    current !== null &&
+    current.line.page === line.page &&
+    current.line.y - line.y <= CONTINUATION_GAP_EM * Math.max(current.line.fontSize, line.fontSize);
+
+  for (const line of segments) {
+    if ('rows' in line) {
+      blocks.push(...tableBlocks(line));
+      current = null;
+      continue;
+    }
+    const row = splitCode(line);
+
+    if (row) {
+      const { dashLevel, text } = splitDashes(row.description);
+      const block: LayoutBlock = HEADING_CODE_PATTERN.test(row.code) && dashLevel === 0
+        ? { type: 'heading', page: line.page, lines: [line.index], level: MAX_SIZE_LEVEL, text: `${row.code} ${text}`.trim() }
+        : { type: 'row', page: line.page, lines: [line.index], code: row.code, dashLevel, text };
+      blocks.push(block);
+      current = { block, line, descriptionStart: row.descriptionStart };
+      continue;
+    }
+
+    const { dashLevel, text } = splitDashes(line.text);
+    const startsItem = dashLevel > 0 || ENUMERATION_PATTERN.test(line.text);
+
+    // Wrapped description of a listing row (or heading row): same style, in the description column
+    const open = current?.block;
+    if (open && open.type !== 'table' && current!.descriptionStart !== null && !startsItem && continues(line) &&
+        line.bold === current!.line.bold && readingStart(line.spans[0]!, line.dir) >= current!.descriptionStart - line.fontSize &&
+        !/[.:]$/.test(open.text)) {
+      open.text += ` ${text}`;
+      open.lines.push(line.index);
+      current = { ...current!, line };
+      continue;
+    }
+
+    // Titles are a single span (a bold line with columns is a table header)
+    const isTitle = line.spans.length === 1 &&
+      (line.fontSize >= bodySize * TITLE_SIZE_RATIO || (line.bold && line.text.length <= MAX_TITLE_LENGTH));
+    if (isTitle) {
+      // A title continued on the next line ("Chapter 1" / "Live animals")
+      const previous = current?.block;
+      if (previous?.type === 'heading' && continues(line) &&
+          current!.line.bold === line.bold && Math.abs(current!.line.fontSize - line.fontSize) < 0.5) {
+        previous.text += `${LABEL_ONLY_PATTERN.test(previous.text) ? ' - ' : ' '}${line.text}`;
+        previous.lines.push(line.index);
+        current = { ...current!, line };
+        continue;
+      }
+      const size = Math.round(line.fontSize * 2) / 2;
+      const level = SECTION_PATTERN.test(line.text) ? 1
+        : CHAPTER_PATTERN.test(line.text) ? 2
+        : titleSizes.includes(size) ? Math.min(titleSizes.indexOf(size) + 1, MAX_SIZE_LEVEL)
+        : BOLD_TITLE_LEVEL;
+      const block: LayoutBlock = { type: 'heading', page: line.page, lines: [line.index], level, text: line.text };
+      blocks.push(block);
+      current = { block, line, descriptionStart: null };
+      continue;
+    }
+
+    const previous = current?.block;
+
+    // Wrapped paragraph line
+    if (previous?.type === 'paragraph' && !startsItem && continues(line) &&
+        Math.abs(current!.line.fontSize - line.fontSize) < 0.5) {
+      previous.text += ` ${text}`;
+      previous.lines.push(line.index);
+      current = { ...current!, line };
+      continue;
+    }
+
+    const block: LayoutBlock = dashLevel > 0
+      ? { type: 'row', page: line.page, lines: [line.index], code: '', dashLevel, text }
+      : { type: 'paragraph', page: line.page, lines: [line.index], text };
+    blocks.push(block);
+    current = { block, line, descriptionStart: dashLevel > 0 ? readingStart(line.spans[0]!, line.dir) : null };
+  }
+
+  return blocks;
+};
+
+/**
+ * Convert a PDF to Markdown with the layout engine
+ */
+export const convertPdfLayout = async (data: Uint8Array, tables: TableMode = 'markdown'): Promise<LayoutConversion> => {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  try {
+    const layouts: PageLayout[] = [];
+    const timings: Array<{ page: number; ms: number }> = [];
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const startedAt = Date.now();
+      const page = await pdf.getPage(pageNum);
+      const [x0 = 0, y0 = 0, x1 = 0, y1 = 0] = page.view;
+      layouts.push({ number: pageNum, width: x1 - x0, height: y1 - y0, lines: await extractPageLines(page, pageNum) });
+      timings.push({ page: pageNum, ms: Date.now() - startedAt });
+    }
+    const pages = layouts.map(layout => layout.lines);
+
+    // Replace the lines of each table by the table
+    const segments: Array<LayoutLine | LayoutTable> = [];
+    const found: LayoutTable[] = [];
+    for (const lines of pages) {
+      let next = 0;
+      for (const { start, end, table } of tables === 'none' ? [] : detectTables(lines)) {
+        for (const row of table.rows) {
+          row[table.descriptionColumn] = normalizeDashes(row[table.descriptionColumn]!);
+        }
+        // A table continued on the next page repeats the header of the table before it
+        const before = found[found.length - 1];
+        if (!table.header && before?.header && before.dir === table.dir && before.columns.length === table.columns.length &&
+            before.columns.every((x, i) => Math.abs(x - table.columns[i]!) <= COLUMN_MATCH_TOLERANCE)) {
+          table.header = before.header;
+          table.headerCells = null; // The header's lines are on the previous page
+        }
+        segments.push(...lines.slice(next, start), table);
+        found.push(table);
+        next = end;
+      }
+      segments.push(...lines.slice(next));
+    }
+
+    const bodySize = bodyFontSize(pages.flat());
+    const document = buildDocumentModel(layouts, buildBlocks(segments, bodySize), bodySize, pdfjsLib.version || null);
+    return { markdown: documentToMarkdown(document), document, tables: tables === 'json' ? found : [], pages: timings };
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,219 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Table reconstruction for the pdfjs layout engine (pdf-layout.ts)
+ *
+ * Heading PDFs are tables without ruling lines: a code column (heading and/or HS code), a
+ * description column and sometimes unit columns. Tables are found from the text positions:
+ * - a table is a run of lines with at least two spans (column gaps), together with the
+ *   single-span lines between and after them that start in the second column or further right
+ *   (description-only rows such as "- Horses :" and wrapped descriptions)
+ * - column boundaries are the span start positions shared by the multi-span lines of the run
+ * - a line starts a new row when it has text before the description column, starts with a
+ *   dash or a note number, or follows a finished description (ending with "." or ":");
+ *   otherwise it is a wrapped line and its text is appended to the cells of the row above
+ * - a first line that is all bold and has no digits is the header
+ * - right-to-left tables (Hebrew) are read from the right: positions are compared along the
+ *   reading direction (see pdf-bidi.ts), so the code column is the rightmost one
+ *
+ * Each cell also keeps its source: the indices of its lines on the page and the box around its text.
+ */
+
+import type { LayoutLine } from './pdf-layout.js';
+import { spanBox, unionBox, type BBox } from './pdf-document.js';
+import { readingStart, type TextDirection } from './pdf-bidi.js';
+
+/**
+ * Where a cell's text comes from
+ */
+export interface TableCellSource {
+  lines: number[]; // LayoutLine.index of the lines on the table's page
+  bbox: BBox | null; // null for an empty cell
+}
+
+/**
+ * Table found on a page
+ */
+export interface LayoutTable {
+  page: number;
+  dir: TextDirection;
+  columns: number[]; // Start x of each column in reading order (right edge for RTL tables)
+  header: string[] | null;
+  rows: string[][]; // One cell per column ('' when empty)
+  headerCells: TableCellSource[] | null; // Sources of the header cells (null when the header is repeated from a previous page)
+  cells: TableCellSource[][]; // Sources of the row cells
+  descriptionColumn: number; // Column with the most text
+}
+
+// Lines in a table are at most this far apart (in font sizes)
+const TABLE_LINE_GAP_EM = 2.5;
+// Wrapped lines of one row are at most this far apart (in font sizes)
+const ROW_LINE_GAP_EM = 1.8;
+// Span starts closer than this (in font sizes) are the same column
+const COLUMN_TOLERANCE_EM = 1;
+const MIN_TABLE_LINES = 2; // Multi-span lines needed for a table
+// Spans needed to make a column in tables of at least SMALL_TABLE_LINES multi-span lines
+// (a stray gap inside one description does not add a column); in smaller tables every start counts
+const MIN_COLUMN_SPANS = 2;
+const SMALL_TABLE_LINES = 4;
+
+const ITEM_START_PATTERN = /^([-–—]|\d{1,2}\.\s|\([a-z0-9]{1,5}\)\s)/i;
+
+// Reading position of the start of a line (see readingStart)
+const lineStart = (line: LayoutLine): number => readingStart(line.spans[0]!, line.dir);
+
+// Column starts (reading positions) shared by the spans of the multi-span lines
+const detectColumns = (lines: LayoutLine[]): number[] => {
+  const multiSpan = lines.filter(line => line.spans.length > 1);
+  const starts = multiSpan
+    .flatMap(line => line.spans.map(span => ({ x: readingStart(span, line.dir), tolerance: COLUMN_TOLERANCE_EM * span.fontSize })))
+    .sort((a, b) => a.x - b.x);
+  const clusters: Array<{ x: number; last: number; count: number }> = [];
+  for (const start of starts) {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && start.x - cluster.last <= start.tolerance) {
+      cluster.last = start.x;
+      cluster.count++;
+    } else {
+      clusters.push({ x: start.x, last: start.x, count: 1 });
+    }
+  }
+  const minSpans = multiSpan.length >= SMALL_TABLE_LINES ? MIN_COLUMN_SPANS : 1;
+  const columns = clusters.filter(cluster => cluster.count >= minSpans).map(cluster => cluster.x);
+  return columns.length > 0 ? columns : [starts[0]?.x ?? 0];
+};
+
+// Index of the column a span starting at x belongs to (the last column starting before it)
+const columnOf = (columns: number[], x: number, tolerance: number): number => {
+  let index = 0;
+  columns.forEach((start, i) => {
+    if (start <= x + tolerance) {
+      index = i;
+    }
+  });
+  return index;
+};
+
+// Cells of one line, with their sources
+const lineCells = (line: LayoutLine, columns: number[]): { cells: string[]; sources: TableCellSource[] } => {
+  const cells = columns.map(() => '');
+  const sources: TableCellSource[] = columns.map(() => ({ lines: [], bbox: null }));
+  for (const span of line.spans) {
+    const index = columnOf(columns, readingStart(span, line.dir), COLUMN_TOLERANCE_EM * span.fontSize);
+    cells[index] = cells[index] ? `${cells[index]} ${span.text}` : span.text;
+    sources[index] = { lines: [line.index], bbox: unionBox(sources[index]!.bbox, spanBox(span)) };
+  }
+  return { cells, sources };
+};
+
+// Build the table of a run of lines
+const buildTable = (lines: LayoutLine[]): LayoutTable => {
+  const columns = detectColumns(lines);
+  const lineCellsOf = lines.map(line => lineCells(line, columns));
+  const cellsOf = lineCellsOf.map(line => line.cells);
+
+  // Description column: the one with the most text
+  const characters = columns.map((_, i) => cellsOf.reduce((sum, cells) => sum + cells[i]!.length, 0));
+  const descriptionColumn = characters.indexOf(Math.max(...characters));
+
+  let header: string[] | null = null;
+  let headerCells: TableCellSource[] | null = null;
+  let first = 0;
+  const top = lines[0]!;
+  if (top.bold && top.spans.length > 1 && !/\d/.test(top.text)) {
+    header = cellsOf[0]!;
+    headerCells = lineCellsOf[0]!.sources;
+    first = 1;
+  }
+
+  const rows: string[][] = [];
+  const cellSources: TableCellSource[][] = [];
+  let previous: LayoutLine | null = null;
+  for (let i = first; i < lines.length; i++) {
+    const line = lines[i]!;
+    const cells = cellsOf[i]!;
+    const sources = lineCellsOf[i]!.sources;
+    const row = rows[rows.length - 1];
+    const description = cells[descriptionColumn]!;
+    const startsRow = !row || !previous ||
+      cells.some((cell, index) => index < descriptionColumn && cell) ||
+      ITEM_START_PATTERN.test(description) ||
+      /[.:]$/.test(row[descriptionColumn]!) ||
+      line.bold !== previous.bold ||
+      previous.y - line.y > ROW_LINE_GAP_EM * Math.max(previous.fontSize, line.fontSize);
+    if (startsRow) {
+      rows.push(cells);
+      cellSources.push(sources);
+    } else {
+      // Wrapped line: continue the cells of the row above
+      const rowSources = cellSources[cellSources.length - 1]!;
+      cells.forEach((cell, index) => {
+        if (cell) {
+          row[index] = row[index] ? `${row[index]} ${cell}` : cell;
+          rowSources[index] = {
+            lines: [...rowSources[index]!.lines, line.index],
+            bbox: unionBox(rowSources[index]!.bbox, sources[index]!.bbox)
+          };
+        }
+      });
+    }
+    previous = line;
+  }
+
+  return {
+    page: top.page,
+    dir: top.dir,
+    columns: columns.map(start => Math.round((top.dir === 'rtl' ? -start : start) * 10) / 10),
+    header,
+    rows,
+    headerCells,
+    cells: cellSources,
+    descriptionColumn
+  };
+};
+
+/**
+ * Find the tables among a page's lines
+ *
+ * @returns The tables with the index range of the lines they replace (end exclusive)
+ */
+export const detectTables = (lines: LayoutLine[]): Array<{ start: number; end: number; table: LayoutTable }> => {
+  const tables: Array<{ start: number; end: number; table: LayoutTable }> = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i]!.spans.length < 2) {
+      i++;
+      continue;
+    }
+    // Extend the run while the lines stay close; single-span lines must start at or right of
+    // the second column (description-only rows, wrapped lines), not in the text margin
+    const start = i;
+    const dir = lines[start]!.dir;
+    let secondColumn = readingStart(lines[start]!.spans[1]!, dir);
+    let end = i + 1;
+    while (end < lines.length) {
+      const line = lines[end]!;
+      const above = lines[end - 1]!;
+      if (line.page !== above.page || line.dir !== dir ||
+          above.y - line.y > TABLE_LINE_GAP_EM * Math.max(above.fontSize, line.fontSize)) {
+        break;
+      }
+      if (line.spans.length > 1) {
+        secondColumn = Math.min(secondColumn, readingStart(line.spans[1]!, dir));
+      } else if (lineStart(line) < secondColumn - COLUMN_TOLERANCE_EM * line.fontSize) {
+        break;
+      }
+      end++;
+    }
+    const run = lines.slice(start, end);
+    if (run.filter(line => line.spans.length > 1).length >= MIN_TABLE_LINES) {
+      tables.push({ start, end, table: buildTable(run) });
+      i = end;
+    } else {
+      i = start + 1;
+    }
+  }
+  return tables;
+};
@@ -12,33 +12,81 @@
  * 
  * Options:
  *   --edition <year>    WCO edition year (default: 2022)
- *   --input <dir>       Input directory with PDFs (default: ./data/wco/{edition}/pdfs)
- *   --output <dir>      Output directory for Markdown files (default: ./data/wco/{edition}/md)
+ *   --language <code>   Edition language: en (default) or fr
+ *   --input <dir>       Input directory with PDFs (default: ./data/wco/{edition}/{language}/pdfs)
+ *   --output <dir>      Output directory for Markdown files (default: ./data/wco/{edition}/{language}/md)
  *   --tool <tool>       Conversion tool: marker, pdfplumber, or pdfjs (default: marker)
- *   --skip-existing     Skip files that already exist
+ *   --skip-existing     Skip files whose Markdown is up to date (same PDF hash, tool, tool
+ *                       version and options as recorded in {file}.conversion.json)
+ *   --status            List up-to-date, stale and missing outputs without converting
+ *   --tables <mode>     pdfjs tables: markdown (GFM tables, default), json (also {file}.tables.json)
+ *                       or none (listing rows as lines)
+ *   --json              pdfjs: also write the document model ({file}.document.json: pages, blocks,
+ *                       lines and spans with boxes and fonts, table cells)
+ *   --no-clean          Keep the converter output as is (by default, running headers/footers and page
+ *                       markers are removed and text split at page breaks is joined; page anchors
+ *                       go to {file}.pages.json, see markdown-cleanup.ts)
+ *   --jobs <n>          Convert n PDFs at a time (default: 1; pdfjs uses worker threads,
+ *                       marker/pdfplumber run n Python processes)
  *   --help, -h          Show help message
  */
 
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { existsSync } from 'fs';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { parseLanguage, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+import { runWithConcurrency } from './download-engine.js';
+import {
+  checkMarker,
+  checkPdfplumber,
+  checkPython,
+  createConversionPool,
+  type ConversionReport,
+  type ConversionTool
+} from './pdf-converters.js';
+import { sha256File } from './download-manifest.js';
+import {
+  checkConversion,
+  getToolVersion,
+  toolOptions,
+  writeConversionRecord,
+  type ConversionSettings
+} from './conversion-record.js';
+import { cleanupMarkdownFile, type CleanupResult } from './markdown-cleanup.js';
+import { TABLE_MODES, type TableMode } from './pdf-layout.js';
 
 // Configuration
 const DEFAULT_EDITION = '2022';
 const DEFAULT_INPUT_DIR = './data/wco';
 const DEFAULT_OUTPUT_DIR = './data/wco';
 const DEFAULT_TOOL = 'marker';
+const DEFAULT_JOBS = 1;
+const DEFAULT_TABLES: TableMode = 'markdown';
 
 interface Config {
   edition: string;
+  language: WcoLanguage;
   inputDir: string;
   outputDir: string;
-  tool: 'marker' | 'pdfplumber' | 'pdfjs';
+  tool: ConversionTool;
   skipExisting: boolean;
+  status: boolean;
+  tables: TableMode;
+  documentModel: boolean;
+  clean: boolean;
+  jobs: number;
+}
+
+// Outcome of one PDF, printed in input order
+interface FileResult {
+  pdfFile: string;
+  mdFile: string;
+  status: 'converted' | 'failed' | 'skipped';
+  reason?: string; // Why an existing output was reconverted (--skip-existing)
+  error?: string;
+  report?: ConversionReport;
+  cleanup?: CleanupResult;
+  durationMs: number;
 }
 
 // Parse command line arguments
@@ -46,10 +94,16 @@ function parseArgs(): Config {
   const args = process.argv.slice(2);
   const config: Config = {
     edition: DEFAULT_EDITION,
+    language: DEFAULT_LANGUAGE,
     inputDir: DEFAULT_INPUT_DIR,
     outputDir: DEFAULT_OUTPUT_DIR,
     tool: DEFAULT_TOOL,
-    skipExisting: false
+    skipExisting: false,
+    status: false,
+    tables: DEFAULT_TABLES,
+    documentModel: false,
+    clean: true,
+    jobs: DEFAULT_JOBS
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -58,6 +112,14 @@ function parseArgs(): Config {
       case '--edition':
         config.edition = args[++i] || DEFAULT_EDITION;
         break;
+      case '--language':
+        try {
+          config.language = parseLanguage(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
       case '--input':
         config.inputDir = args[++i] || DEFAULT_INPUT_DIR;
         break;
@@ -76,6 +138,31 @@ function parseArgs(): Config {
       case '--skip-existing':
         config.skipExisting = true;
         break;
+      case '--status':
+        config.status = true;
+        break;
+      case '--tables':
+        const tables = (args[++i] || '').toLowerCase();
+        if (!TABLE_MODES.includes(tables as TableMode)) {
+          console.error(`Invalid tables mode: ${tables}. Must be ${TABLE_MODES.join(', ')}`);
+          process.exit(1);
+        }
+        config.tables = tables as TableMode;
+        break;
+      case '--json':
+        config.documentModel = true;
+        break;
+      case '--no-clean':
+        config.clean = false;
+        break;
+      case '--jobs':
+        const jobs = parseInt(args[++i] || '', 10);
+        if (isNaN(jobs) || jobs < 1) {
+          console.error('Invalid jobs value. Must be a number >= 1');
+          process.exit(1);
+        }
+        config.jobs = jobs;
+        break;
       case '--help':
       case '-h':
         console.log(`
@@ -86,16 +173,25 @@ Usage:
 
 Options:
   --edition <year>      WCO edition year (default: ${DEFAULT_EDITION})
-  --input <dir>         Input directory with PDFs (default: ${DEFAULT_INPUT_DIR}/{edition}/pdfs)
-  --output <dir>        Output directory for Markdown files (default: ${DEFAULT_OUTPUT_DIR}/{edition}/md)
+  --language <code>     Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --input <dir>         Input directory with PDFs (default: ${DEFAULT_INPUT_DIR}/{edition}/{language}/pdfs)
+  --output <dir>        Output directory for Markdown files (default: ${DEFAULT_OUTPUT_DIR}/{edition}/{language}/md)
   --tool <tool>         Conversion tool: marker, pdfplumber, or pdfjs (default: ${DEFAULT_TOOL})
-  --skip-existing        Skip files that already exist
+  --skip-existing       Skip files whose Markdown is up to date (same PDF hash, tool,
+                        tool version and options as recorded in {file}.conversion.json)
+  --status              List up-to-date, stale and missing outputs without converting
+  --tables <mode>       pdfjs tables: markdown (GFM tables), json (also {file}.tables.json)
+                        or none (default: ${DEFAULT_TABLES})
+  --json                pdfjs: also write the document model ({file}.document.json)
+  --no-clean            Keep the converter output as is (no header/footer removal, page
+                        markers kept; by default page anchors go to {file}.pages.json)
+  --jobs <n>            Convert n PDFs at a time (default: ${DEFAULT_JOBS})
   --help, -h            Show this help message
 
 Tools:
   marker       - AI-powered, best structure preservation (requires Python, GPU recommended)
   pdfplumber   - Python-based, good structure preservation (requires Python, no GPU)
-  pdfjs        - Node.js-based, basic conversion (no Python needed, may lose structure)
+  pdfjs        - Node.js-based, layout-aware conversion (no Python needed, see pdf-layout.ts)
 
 Examples:
   # Convert all PDFs using marker (recommended)
@@ -104,8 +200,20 @@ Examples:
   # Convert specific edition
   tsx scripts/pdf-to-markdown.ts --edition 2022 --tool marker
 
-  # Skip existing files
+  # Convert the French edition
+  tsx scripts/pdf-to-markdown.ts --edition 2022 --language fr
+
+  # Convert only new, revised or stale files
   tsx scripts/pdf-to-markdown.ts --skip-existing
+
+  # Show which outputs are stale for pdfjs
+  tsx scripts/pdf-to-markdown.ts --tool pdfjs --status
+
+  # Markdown plus the JSON document model (positions, fonts, table cells)
+  tsx scripts/pdf-to-markdown.ts --tool pdfjs --json
+
+  # Convert 4 PDFs at a time with pdfjs (worker threads)
+  tsx scripts/pdf-to-markdown.ts --tool pdfjs --jobs 4
         `);
         process.exit(0);
       default:
@@ -115,197 +223,46 @@ Examples:
     }
   }
 
-  return config;
-}
-
-// Check if Python is available
-async function checkPython(): Promise<boolean> {
-  try {
-    await execAsync('python3 --version');
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-// Check if marker is installed
-async function checkMarker(): Promise<boolean> {
-  try {
-    await execAsync('python3 -c "import marker"');
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-// Check if pdfplumber is installed
-async function checkPdfplumber(): Promise<boolean> {
-  try {
-    await execAsync('python3 -c "import pdfplumber"');
-    return true;
-  } catch {
-    return false;
+  if (config.documentModel && config.tool !== 'pdfjs') {
+    console.error('--json requires --tool pdfjs (marker and pdfplumber do not expose the layout it is built from)');
+    process.exit(1);
   }
-}
-
-// Convert PDF to Markdown using marker
-async function convertWithMarker(pdfPath: string, outputPath: string): Promise<boolean> {
-  try {
-    // marker converts PDF to markdown
-    // marker can be used via CLI: marker_single <input_pdf> <output_dir>
-    // Or via Python API
-    const outputDir = path.dirname(outputPath);
-    const baseName = path.basename(pdfPath, '.pdf');
-    
-    // Create a Python script to use marker API
-    const pythonScript = `
-import sys
-from pathlib import Path
-from marker.convert import convert_single_pdf
-from marker.models import load_all_models
-
-pdf_path = "${pdfPath}"
-output_dir = "${outputDir}"
 
-try:
-    # Load models (first time will download)
-    model_lst = load_all_models()
-    
-    # Convert PDF to markdown
-    full_text, images, out_meta = convert_single_pdf(pdf_path, model_lst)
-    
-    # Save markdown
-    output_path = Path("${outputPath}")
-    output_path.parent.mkdir(parents=True, exist_ok=True)
-    output_path.write_text(full_text, encoding='utf-8')
-    
-    print("SUCCESS")
-except Exception as e:
-    print(f"ERROR: {e}")
-    sys.exit(1)
-    `;
-    
-    const tempScript = path.join(__dirname, 'temp_marker_convert.py');
-    await fs.writeFile(tempScript, pythonScript);
-    
-    try {
-      const { stdout } = await execAsync(`python3 "${tempScript}"`);
-      if (stdout.includes('SUCCESS')) {
-        return true;
-      }
-      return false;
-    } finally {
-      // Clean up temp script
-      if (existsSync(tempScript)) {
-        await fs.unlink(tempScript);
-      }
-    }
-  } catch (error) {
-    console.error(`  ✗ Error converting with marker: ${error instanceof Error ? error.message : String(error)}`);
-    return false;
-  }
+  return config;
 }
 
-// Convert PDF to Markdown using pdfplumber
-async function convertWithPdfplumber(pdfPath: string, outputPath: string): Promise<boolean> {
-  try {
-    // Create a Python script to convert PDF to Markdown
-    const pythonScript = `
-import pdfplumber
-import sys
-import json
-
-pdf_path = "${pdfPath}"
-output_path = "${outputPath}"
+// List the state of each output for the current tool and options (--status)
+async function printStatus(pdfFiles: string[], inputDir: string, outputDir: string, settings: ConversionSettings): Promise<void> {
+  const options = Object.entries(settings.options).map(([key, value]) => `${key}=${value}`).join(', ');
+  console.log(`Checking outputs against ${settings.tool} ${settings.toolVersion ?? '(version unknown)'}${options ? ` (${options})` : ''}\n`);
 
-try:
-    with pdfplumber.open(pdf_path) as pdf:
-        markdown_content = []
-        
-        for page_num, page in enumerate(pdf.pages, 1):
-            text = page.extract_text()
-            if text:
-                markdown_content.append(f"## Page {page_num}\\n\\n{text}\\n")
-            
-            # Extract tables
-            tables = page.extract_tables()
-            for table in tables:
-                if table:
-                    markdown_content.append("\\n### Table\\n\\n")
-                    # Convert table to markdown
-                    for row in table:
-                        if row:
-                            markdown_content.append("| " + " | ".join(str(cell) if cell else "" for cell in row) + " |\\n")
-                    markdown_content.append("\\n")
-        
-        with open(output_path, 'w', encoding='utf-8') as f:
-            f.write("\\n".join(markdown_content))
-        
-        print("SUCCESS")
-except Exception as e:
-    print(f"ERROR: {e}")
-    sys.exit(1)
-    `;
-    
-    const tempScript = path.join(__dirname, 'temp_pdfplumber_convert.py');
-    await fs.writeFile(tempScript, pythonScript);
-    
-    try {
-      const { stdout } = await execAsync(`python3 "${tempScript}"`);
-      if (stdout.includes('SUCCESS')) {
-        return true;
-      }
-      return false;
-    } finally {
-      // Clean up temp script
-      if (existsSync(tempScript)) {
-        await fs.unlink(tempScript);
-      }
+  let upToDate = 0;
+  let stale = 0;
+  let missing = 0;
+  for (const pdfFile of pdfFiles) {
+    const mdFile = pdfFile.replace(/\.pdf$/i, '.md');
+    const state = await checkConversion(path.join(outputDir, mdFile), await sha256File(path.join(inputDir, pdfFile)), settings);
+    if (state.status === 'up-to-date') {
+      upToDate++;
+      console.log(`  ✓ ${mdFile}`);
+    } else if (state.status === 'stale') {
+      stale++;
+      console.log(`  ⚠️  ${mdFile} - stale: ${state.reasons.join(', ')}`);
+    } else {
+      missing++;
+      console.log(`  ✗ ${mdFile} - missing`);
     }
-  } catch (error) {
-    console.error(`  ✗ Error converting with pdfplumber: ${error instanceof Error ? error.message : String(error)}`);
-    return false;
   }
-}
 
-// Convert PDF to Markdown using pdfjs (Node.js)
-async function convertWithPdfjs(pdfPath: string, outputPath: string): Promise<boolean> {
-  try {
-    // Dynamic import of pdfjs-dist
-    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
-    
-    const data = await fs.readFile(pdfPath);
-    // Convert Buffer to Uint8Array for pdfjs
-    const uint8Array = new Uint8Array(data);
-    const pdf = await pdfjsLib.getDocument({ data: uint8Array }).promise;
-    
-    const markdownContent: string[] = [];
-    
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-      
-      markdownContent.push(`## Page ${pageNum}\n\n`);
-      
-      let lastY = 0;
-      for (const item of textContent.items) {
-        if ('str' in item) {
-          const y = item.transform[5] || 0;
-          if (Math.abs(y - lastY) > 5) {
-            markdownContent.push('\n');
-          }
-          markdownContent.push(item.str);
-          lastY = y;
-        }
-      }
-      markdownContent.push('\n\n');
-    }
-    
-    await fs.writeFile(outputPath, markdownContent.join(''), 'utf-8');
-    return true;
-  } catch (error) {
-    console.error(`  ✗ Error converting with pdfjs: ${error instanceof Error ? error.message : String(error)}`);
-    return false;
+  console.log('\n========================================');
+  console.log('Conversion Status');
+  console.log('========================================');
+  console.log(`Total PDFs: ${pdfFiles.length}`);
+  console.log(`Up to date: ${upToDate}`);
+  console.log(`Stale: ${stale}`);
+  console.log(`Missing: ${missing}`);
+  if (stale + missing > 0) {
+    console.log('\nRun with --skip-existing to convert only stale and missing files');
   }
 }
 
@@ -313,16 +270,23 @@ async function convertWithPdfjs(pdfPath: string, outputPath: string): Promise<bo
 async function main(): Promise<void> {
   const config = parseArgs();
   
-  const inputDir = path.join(config.inputDir, config.edition, 'pdfs');
-  const outputDir = path.join(config.outputDir, config.edition, 'md');
+  const inputDir = path.join(config.inputDir, config.edition, config.language, 'pdfs');
+  const outputDir = path.join(config.outputDir, config.edition, config.language, 'md');
   
   console.log('PDF to Markdown Conversion Script');
   console.log('==================================');
   console.log(`Edition: ${config.edition}`);
+  console.log(`Language: ${config.language}`);
   console.log(`Input: ${inputDir}`);
   console.log(`Output: ${outputDir}`);
   console.log(`Tool: ${config.tool}`);
   console.log(`Skip Existing: ${config.skipExisting}`);
+  if (config.tool === 'pdfjs') {
+    console.log(`Tables: ${config.tables}`);
+    console.log(`Document model: ${config.documentModel}`);
+  }
+  console.log(`Cleanup: ${config.clean}`);
+  console.log(`Jobs: ${config.jobs}`);
   console.log('');
   
   // Check input directory exists
@@ -331,6 +295,29 @@ async function main(): Promise<void> {
     process.exit(1);
   }
   
+  // Find all PDF files
+  const files = await fs.readdir(inputDir);
+  const pdfFiles = files.filter(f => f.toLowerCase().endsWith('.pdf'));
+  
+  if (pdfFiles.length === 0) {
+    console.error(`❌ No PDF files found in ${inputDir}`);
+    process.exit(1);
+  }
+  
+  console.log(`Found ${pdfFiles.length} PDF files\n`);
+  
+  const conversionOptions = { language: config.language, tables: config.tables, documentModel: config.documentModel };
+  const settings: ConversionSettings = {
+    tool: config.tool,
+    toolVersion: await getToolVersion(config.tool),
+    options: { ...toolOptions(config.tool, conversionOptions), ...(config.clean ? { cleanup: 'on' } : {}) }
+  };
+  
+  if (config.status) {
+    await printStatus(pdfFiles, inputDir, outputDir, settings);
+    return;
+  }
+  
   // Create output directory
   await fs.mkdir(outputDir, { recursive: true });
   
@@ -366,58 +353,73 @@ async function main(): Promise<void> {
     }
   }
   
-  // Find all PDF files
-  const files = await fs.readdir(inputDir);
-  const pdfFiles = files.filter(f => f.toLowerCase().endsWith('.pdf'));
-  
-  if (pdfFiles.length === 0) {
-    console.error(`❌ No PDF files found in ${inputDir}`);
-    process.exit(1);
-  }
-  
-  console.log(`Found ${pdfFiles.length} PDF files\n`);
-  
-  let converted = 0;
-  let failed = 0;
-  let skipped = 0;
-  
-  for (let i = 0; i < pdfFiles.length; i++) {
-    const pdfFile = pdfFiles[i]!;
-    const pdfPath = path.join(inputDir, pdfFile);
-    const mdFile = pdfFile.replace(/\.pdf$/i, '.md');
-    const mdPath = path.join(outputDir, mdFile);
-    
-    // Skip if exists
-    if (config.skipExisting && existsSync(mdPath)) {
-      console.log(`  ⊘ ${pdfFile} - already exists, skipping`);
-      skipped++;
-      continue;
-    }
-    
-    console.log(`  [${i + 1}/${pdfFiles.length}] Converting: ${pdfFile}`);
-    
-    let success = false;
-    switch (config.tool) {
-      case 'marker':
-        success = await convertWithMarker(pdfPath, mdPath);
-        break;
-      case 'pdfplumber':
-        success = await convertWithPdfplumber(pdfPath, mdPath);
-        break;
-      case 'pdfjs':
-        success = await convertWithPdfjs(pdfPath, mdPath);
-        break;
-    }
-    
-    if (success) {
-      console.log(`  ✓ ${mdFile}`);
-      converted++;
-    } else {
-      console.log(`  ✗ Failed: ${pdfFile}`);
-      failed++;
+  // Convert up to config.jobs PDFs at a time; results are printed in input order as they complete
+  const startedAt = Date.now();
+  const pool = createConversionPool(config.tool, config.jobs, conversionOptions);
+  const results: Array<FileResult | undefined> = new Array(pdfFiles.length);
+  let printed = 0;
+
+  const printReady = (): void => {
+    while (printed < results.length && results[printed]) {
+      const result = results[printed]!;
+      printed++;
+      if (result.status === 'skipped') {
+        console.log(`  ⊘ ${result.pdfFile} - up to date, skipping`);
+        continue;
+      }
+      console.log(`  [${printed}/${pdfFiles.length}] Converting: ${result.pdfFile}${result.reason ? ` (${result.reason})` : ''}`);
+      if (result.status === 'converted') {
+        const pages = result.report?.pageCount != null ? `${result.report.pageCount} pages, ` : '';
+        const cleanup = result.cleanup && (result.cleanup.furniture.length > 0 || result.cleanup.joins > 0)
+          ? `, ${result.cleanup.furniture.length} running lines removed, ${result.cleanup.joins} joins`
+          : '';
+        console.log(`  ✓ ${result.mdFile} (${pages}${(result.durationMs / 1000).toFixed(1)}s${cleanup})`);
+        for (const warning of result.report?.warnings || []) {
+          console.log(`    ⚠️  ${warning}`);
+        }
+      } else {
+        console.error(`  ✗ Error converting with ${config.tool}: ${result.error}`);
+        console.log(`  ✗ Failed: ${result.pdfFile}`);
+      }
     }
+  };
+
+  try {
+    await runWithConcurrency(pdfFiles, config.jobs, async (pdfFile, index) => {
+      const pdfPath = path.join(inputDir, pdfFile);
+      const mdFile = pdfFile.replace(/\.pdf$/i, '.md');
+      const mdPath = path.join(outputDir, mdFile);
+      const fileStartedAt = Date.now();
+
+      let result: FileResult;
+      // Hash before converting, so a PDF replaced during the conversion is not recorded as converted
+      const sourceSha256 = await sha256File(pdfPath);
+      const state = config.skipExisting ? await checkConversion(mdPath, sourceSha256, settings) : null;
+      if (state?.status === 'up-to-date') {
+        result = { pdfFile, mdFile, status: 'skipped', durationMs: 0 };
+      } else {
+        const reason = state?.status === 'stale' ? state.reasons.join(', ') : undefined;
+        try {
+          const report = await pool.convert(pdfPath, mdPath);
+          const cleanup = config.clean ? await cleanupMarkdownFile(mdPath) : undefined;
+          await writeConversionRecord(pdfPath, mdPath, sourceSha256, settings);
+          result = { pdfFile, mdFile, status: 'converted', reason, report, cleanup, durationMs: Date.now() - fileStartedAt };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result = { pdfFile, mdFile, status: 'failed', reason, error: message, durationMs: Date.now() - fileStartedAt };
+        }
+      }
+      results[index] = result;
+      printReady();
+    });
+  } finally {
+    await pool.close();
   }
-  
+
+  const converted = results.filter(result => result?.status === 'converted').length;
+  const failed = results.filter(result => result?.status === 'failed').length;
+  const skipped = results.filter(result => result?.status === 'skipped').length;
+
   // Summary
   console.log('\n========================================');
   console.log('Conversion Summary');
@@ -426,6 +428,7 @@ async function main(): Promise<void> {
   console.log(`Converted: ${converted}`);
   console.log(`Failed: ${failed}`);
   console.log(`Skipped: ${skipped}`);
+  console.log(`Time: ${((Date.now() - startedAt) / 1000).toFixed(1)}s (${config.jobs} job${config.jobs === 1 ? '' : 's'})`);
   console.log(`\nMarkdown files saved to: ${outputDir}`);
 }
 
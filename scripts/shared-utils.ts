@@ -6,7 +6,7 @@
  * Shared utility functions for WCO download scripts
  * 
  * These functions are used by both download-wco-pdfs.ts and download-wco-pdfs-browser.ts
- * to avoid code duplication (DRY principle).
+ * (and the other WCO scripts) to avoid code duplication (DRY principle).
  */
 
 /**
@@ -122,3 +122,131 @@ export const getRandomDelay = (baseDelay: number, variation: number = 5000, allo
   return baseDelay + randomVariation;
 };
 
+
+/**
+ * WCO publication languages and the suffix the WCO appends to filenames
+ * (e.g., 0101_2022e.pdf for English, 0101_2022f.pdf for French)
+ */
+export const WCO_LANGUAGES = {
+  en: 'e',
+  fr: 'f'
+} as const;
+
+export type WcoLanguage = keyof typeof WCO_LANGUAGES;
+
+export const DEFAULT_LANGUAGE: WcoLanguage = 'en';
+
+/**
+ * Parse a --language value (en or fr)
+ */
+export const parseLanguage = (value?: string): WcoLanguage => {
+  const language = (value || DEFAULT_LANGUAGE).toLowerCase();
+  if (!(language in WCO_LANGUAGES)) {
+    throw new Error(`Invalid language: ${value}. Must be ${Object.keys(WCO_LANGUAGES).join(' or ')}`);
+  }
+  return language as WcoLanguage;
+};
+
+/**
+ * Replace the {EDITION} and {LANG} placeholders in a URL or filename template
+ * ({LANG} becomes the filename suffix: "e" or "f")
+ */
+export const applyPlaceholders = (template: string, edition: string, language: WcoLanguage): string => {
+  return template
+    .replace(/{EDITION}/g, edition)
+    .replace(/{LANG}/g, WCO_LANGUAGES[language]);
+};
+
+// Largest LCS table unifiedDiff builds (about 16 MB); larger changes are shown as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Minimal unified diff between two texts (changes closer than 2 * context lines share a hunk)
+ * Labels that are absolute paths are printed as-is, relative ones with git's a/ and b/ prefixes.
+ */
+export const unifiedDiff = (before: string, after: string, label: string, context: number = 3): string => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  // A final newline is a line terminator, not an empty last line
+  if (before.endsWith('\n') && after.endsWith('\n')) {
+    a.pop();
+    b.pop();
+  }
+  type DiffOp = { type: ' ' | '-' | '+'; line: string; aLine: number; bLine: number };
+  const ops: DiffOp[] = [];
+
+  // Common prefix and suffix need no alignment
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    ops.push({ type: ' ', line: a[prefix]!, aLine: prefix, bLine: prefix });
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+  const aEnd = a.length - suffix;
+  const bEnd = b.length - suffix;
+  const rows = aEnd - prefix;
+  const cols = bEnd - prefix;
+
+  if ((rows + 1) * (cols + 1) <= MAX_DIFF_CELLS) {
+    // Longest common subsequence of the remaining lines (flat table, row-major)
+    const width = cols + 1;
+    const lcs = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[prefix + i] === b[prefix + j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[prefix + i] === b[prefix + j]) {
+        ops.push({ type: ' ', line: a[prefix + i]!, aLine: prefix + i++, bLine: prefix + j++ });
+      } else if (i < rows && (j >= cols || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)) {
+        ops.push({ type: '-', line: a[prefix + i]!, aLine: prefix + i++, bLine: prefix + j });
+      } else {
+        ops.push({ type: '+', line: b[prefix + j]!, aLine: prefix + i, bLine: prefix + j++ });
+      }
+    }
+  } else {
+    // Too large to align line by line: replace the whole changed region
+    for (let i = prefix; i < aEnd; i++) {
+      ops.push({ type: '-', line: a[i]!, aLine: i, bLine: prefix });
+    }
+    for (let j = prefix; j < bEnd; j++) {
+      ops.push({ type: '+', line: b[j]!, aLine: aEnd, bLine: j });
+    }
+  }
+  for (let k = 0; k < suffix; k++) {
+    ops.push({ type: ' ', line: a[aEnd + k]!, aLine: aEnd + k, bLine: bEnd + k });
+  }
+
+  // Group changes less than 2 * context lines apart into one hunk
+  const changes = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  const groups: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+  const hunks: string[] = [];
+  for (const [first, last] of groups) {
+    const slice = ops.slice(Math.max(0, first - context), Math.min(ops.length, last + context + 1));
+    const aCount = slice.filter(op => op.type !== '+').length;
+    const bCount = slice.filter(op => op.type !== '-').length;
+    // An empty range starts at the line before it (unified diff convention)
+    const aStart = aCount === 0 ? slice[0]!.aLine : slice[0]!.aLine + 1;
+    const bStart = bCount === 0 ? slice[0]!.bLine : slice[0]!.bLine + 1;
+    hunks.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    hunks.push(...slice.map(op => `${op.type}${op.line}`));
+  }
+  const [from, to] = label.startsWith('/') ? [label, label] : [`a/${label}`, `b/${label}`];
+  return hunks.length > 0 ? [`--- ${from}`, `+++ ${to}`, ...hunks].join('\n') : '';
+};
@@ -0,0 +1,248 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * Customs Book Sync Service
+ *
+ * Long-running service that keeps the customs books up to date (see customs-book-sync.ts):
+ * picks the books that are due, downloads them with their adapters, detects real changes by
+ * checksum and updates the customs_books sync columns; failures are retried with backoff and
+ * logged to error_logs.
+ *
+ * Usage:
+ *   tsx scripts/sync-customs-books.ts [options]
+ *
+ * Options:
+ *   --database-url <url>        PostgreSQL connection string (default: $DATABASE_URL)
+ *   --once                      Sync the books that are due now and exit (for cron)
+ *   --poll-interval <seconds>   How often to look for due books (default: 300)
+ *   --data-dir <dir>            Where the downloaded books are written (default: ./data/customs-books)
+ *   --interval-days <n>         Regular sync interval per book (default: 30; per book: sync metadata syncIntervalDays)
+ *   --retry-base-minutes <n>    First retry delay after a failure, doubled per retry (default: 15)
+ *   --stale-after-minutes <n>   Take over in_progress books older than this (crashed run, default: 360)
+ *   --transport <mode>          HTTP transport: live (default), record or replay (see http-transport.ts)
+ *   --fixtures <dir>            Fixtures directory for record/replay (default: ./data/fixtures/customs-books-http)
+ *   --help, -h                  Show help message
+ *
+ * Exit codes (--once): 0 = all due books synced, 2 = some books failed, 1 = fatal error
+ */
+
+import { Pool } from 'pg';
+import { createPgSyncStore, runSyncPass, ERROR_TYPE, type SyncOptions, type SyncOutcome, type SyncStore } from './customs-book-sync.js';
+import { parseTransportMode } from './http-transport.js';
+import { EXIT_OK, EXIT_PARTIAL_FAILURE } from './download-report.js';
+
+// Configuration
+const DEFAULT_POLL_INTERVAL_SECONDS = 300;
+const DEFAULT_DATA_DIR = './data/customs-books';
+const DEFAULT_INTERVAL_DAYS = 30; // Monthly (documents/11.0_CUSTOMS_DATA_DOWNLOAD.md update frequency)
+const DEFAULT_RETRY_BASE_MINUTES = 15;
+const DEFAULT_STALE_AFTER_MINUTES = 360;
+const DEFAULT_FIXTURES_DIR = './data/fixtures/customs-books-http';
+
+interface Config {
+  databaseUrl: string | null;
+  once: boolean;
+  pollIntervalSeconds: number;
+  sync: SyncOptions;
+}
+
+// Parse a positive number option or exit
+const parsePositive = (name: string, value: string | undefined): number => {
+  const number = Number(value);
+  if (!value || isNaN(number) || number <= 0) {
+    console.error(`Invalid ${name} value. Must be a number > 0`);
+    process.exit(1);
+  }
+  return number;
+};
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    databaseUrl: process.env.DATABASE_URL || null,
+    once: false,
+    pollIntervalSeconds: DEFAULT_POLL_INTERVAL_SECONDS,
+    sync: {
+      dataDir: DEFAULT_DATA_DIR,
+      intervalDays: DEFAULT_INTERVAL_DAYS,
+      retryBaseMinutes: DEFAULT_RETRY_BASE_MINUTES,
+      staleAfterMinutes: DEFAULT_STALE_AFTER_MINUTES,
+      transportMode: 'live',
+      fixturesDir: DEFAULT_FIXTURES_DIR
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--database-url':
+        config.databaseUrl = args[++i] || null;
+        break;
+      case '--once':
+        config.once = true;
+        break;
+      case '--poll-interval':
+        config.pollIntervalSeconds = parsePositive(arg, args[++i]);
+        break;
+      case '--data-dir':
+        config.sync.dataDir = args[++i] || DEFAULT_DATA_DIR;
+        break;
+      case '--interval-days':
+        config.sync.intervalDays = parsePositive(arg, args[++i]);
+        break;
+      case '--retry-base-minutes':
+        config.sync.retryBaseMinutes = parsePositive(arg, args[++i]);
+        break;
+      case '--stale-after-minutes':
+        config.sync.staleAfterMinutes = parsePositive(arg, args[++i]);
+        break;
+      case '--transport':
+        config.sync.transportMode = parseTransportMode(args[++i]);
+        break;
+      case '--fixtures':
+        config.sync.fixturesDir = args[++i] || DEFAULT_FIXTURES_DIR;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Customs Book Sync Service
+
+Usage:
+  tsx scripts/sync-customs-books.ts [options]
+
+Options:
+  --database-url <url>        PostgreSQL connection string (default: $DATABASE_URL)
+  --once                      Sync the books that are due now and exit (for cron)
+  --poll-interval <seconds>   How often to look for due books (default: ${DEFAULT_POLL_INTERVAL_SECONDS})
+  --data-dir <dir>            Where the downloaded books are written (default: ${DEFAULT_DATA_DIR})
+  --interval-days <n>         Regular sync interval per book (default: ${DEFAULT_INTERVAL_DAYS})
+  --retry-base-minutes <n>    First retry delay after a failure, doubled per retry (default: ${DEFAULT_RETRY_BASE_MINUTES})
+  --stale-after-minutes <n>   Take over in_progress books older than this (default: ${DEFAULT_STALE_AFTER_MINUTES})
+  --transport <mode>          HTTP transport: live (default), record or replay
+  --fixtures <dir>            Fixtures directory for record/replay (default: ${DEFAULT_FIXTURES_DIR})
+  --help, -h                  Show this help message
+
+Per-book configuration (customs_books.customs_book_sync_metadata):
+  {"adapter": "il-customs-tariff", "sources": ["/data/sources/il-tariff.csv"], "syncIntervalDays": 7}
+
+Examples:
+  # Run as a service
+  source .secrets && tsx scripts/sync-customs-books.ts
+
+  # Single pass from cron
+  tsx scripts/sync-customs-books.ts --once --database-url "$DATABASE_URL_LOCAL"
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  if (!config.databaseUrl) {
+    console.error('Missing database connection: set DATABASE_URL or pass --database-url');
+    process.exit(1);
+  }
+
+  return config;
+}
+
+// Log one sync outcome
+const logOutcome = (outcome: SyncOutcome): void => {
+  const label = `${outcome.book.name} ${outcome.book.version} (#${outcome.book.id})`;
+  if (outcome.status === 'success') {
+    console.log(`  ✓ ${label} - ${outcome.records} records, ${outcome.changed ? 'changed' : 'unchanged'}`);
+  } else {
+    const retry = outcome.status === 'pending' ? 'retry' : 'retries exhausted, next sync';
+    console.log(`  ✗ ${label} - ${outcome.error} (${retry} at ${outcome.nextSyncAt.toISOString()})`);
+  }
+};
+
+// Log a pass that failed (e.g., the database went away) to the console and, when it is reachable, to error_logs
+const logPassError = async (store: SyncStore, error: unknown): Promise<void> => {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[${new Date().toISOString()}] ❌ Sync pass failed: ${message}`);
+  try {
+    await store.logError(ERROR_TYPE, `Sync pass failed: ${message}`, error instanceof Error ? error.stack || null : null, {}, 'error');
+  } catch (logError) {
+    console.error(`   Could not write to error_logs: ${logError instanceof Error ? logError.message : String(logError)}`);
+  }
+};
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+  const pool = new Pool({ connectionString: config.databaseUrl! });
+  const store = createPgSyncStore(pool);
+
+  // Finish the book in progress on SIGINT/SIGTERM, then stop
+  let stopping = false;
+  let wake: () => void = () => undefined;
+  const stop = (): void => {
+    if (!stopping) {
+      console.log('\nStopping after the current book...');
+    }
+    stopping = true;
+    wake();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log('Customs Book Sync Service');
+  console.log('=========================');
+  console.log(`Mode: ${config.once ? 'single pass' : `service (polling every ${config.pollIntervalSeconds}s)`}`);
+  console.log(`Data directory: ${config.sync.dataDir}`);
+  console.log(`Interval: ${config.sync.intervalDays} days, retry backoff from ${config.sync.retryBaseMinutes} minutes`);
+  console.log('');
+
+  let failed = 0;
+  try {
+    do {
+      // Collected as they come, so the books synced before a pass fails are counted
+      const outcomes: SyncOutcome[] = [];
+      const onOutcome = (outcome: SyncOutcome): void => {
+        outcomes.push(outcome);
+        logOutcome(outcome);
+      };
+      try {
+        await runSyncPass(store, config.sync, onOutcome, () => stopping);
+      } catch (error) {
+        if (config.once) {
+          throw error;
+        }
+        // The service keeps polling: the book claimed when the pass failed stays in_progress
+        // until --stale-after-minutes, then a later pass takes it over
+        await logPassError(store, error);
+      }
+      failed += outcomes.filter(outcome => outcome.status !== 'success').length;
+      if (outcomes.length > 0) {
+        console.log(`[${new Date().toISOString()}] Synced ${outcomes.length} book(s)`);
+      }
+      if (!config.once && !stopping) {
+        // Wait for the next poll; a stop signal cancels the wait
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, config.pollIntervalSeconds * 1000);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+    } while (!config.once && !stopping);
+  } finally {
+    await pool.end();
+  }
+
+  if (config.once) {
+    process.exitCode = failed > 0 ? EXIT_PARTIAL_FAILURE : EXIT_OK;
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,245 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+
+/**
+ * WCO Edition Diff Script
+ *
+ * Compares two downloaded WCO editions (manifests and Markdown outputs) and reports which
+ * headings and HS codes were added, removed or modified, with a text diff per modified document.
+ * Writes a machine-readable change set for the database importer that marks
+ * wco_headings / wco_hs_codes rows as new, deleted or amended (see edition-diff.ts).
+ *
+ * Usage:
+ *   tsx scripts/wco-edition-diff.ts [options]
+ *
+ * Options:
+ *   --from <year>        Older edition (default: 2017)
+ *   --to <year>          Newer edition (default: 2022)
+ *   --language <lang>    Edition language: en or fr (default: en)
+ *   --data-dir <dir>     WCO data directory (default: ./data/wco)
+ *   --output <file>      Change set JSON (default: {data-dir}/diffs/{from}-{to}_{language}.json)
+ *   --patch <file>       Also write all per-document diffs to one patch file
+ *   --context <n>        Context lines in the diffs (default: 3)
+ *   --no-diffs           Only print the summary, not the per-document diffs
+ *   --help, -h           Show help message
+ *
+ * Compare the Markdown of both editions for text diffs (run pdf-to-markdown.ts first);
+ * documents without Markdown are compared by the PDF checksums in manifest.json.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { compareEditions, type ChangeType } from './edition-diff.js';
+import { parseLanguage, DEFAULT_LANGUAGE, WCO_LANGUAGES, type WcoLanguage } from './shared-utils.js';
+
+// Configuration
+const DEFAULT_FROM_EDITION = '2017';
+const DEFAULT_TO_EDITION = '2022';
+const DEFAULT_DATA_DIR = './data/wco';
+const DEFAULT_CONTEXT = 3;
+
+interface Config {
+  fromEdition: string;
+  toEdition: string;
+  language: WcoLanguage;
+  dataDir: string;
+  outputFile: string | null; // null = default path in the data directory
+  patchFile: string | null;
+  context: number;
+  showDiffs: boolean;
+}
+
+// Parse command line arguments
+function parseArgs(): Config {
+  const args = process.argv.slice(2);
+  const config: Config = {
+    fromEdition: DEFAULT_FROM_EDITION,
+    toEdition: DEFAULT_TO_EDITION,
+    language: DEFAULT_LANGUAGE,
+    dataDir: DEFAULT_DATA_DIR,
+    outputFile: null,
+    patchFile: null,
+    context: DEFAULT_CONTEXT,
+    showDiffs: true
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--from':
+        config.fromEdition = args[++i] || DEFAULT_FROM_EDITION;
+        break;
+      case '--to':
+        config.toEdition = args[++i] || DEFAULT_TO_EDITION;
+        break;
+      case '--language':
+        try {
+          config.language = parseLanguage(args[++i]);
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        break;
+      case '--data-dir':
+        config.dataDir = args[++i] || DEFAULT_DATA_DIR;
+        break;
+      case '--output':
+        config.outputFile = args[++i] || null;
+        break;
+      case '--patch':
+        config.patchFile = args[++i] || null;
+        break;
+      case '--context':
+        const context = parseInt(args[++i] || '', 10);
+        if (isNaN(context) || context < 0) {
+          console.error('Invalid --context value. Must be a number >= 0');
+          process.exit(1);
+        }
+        config.context = context;
+        break;
+      case '--no-diffs':
+        config.showDiffs = false;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+WCO Edition Diff Script
+
+Usage:
+  tsx scripts/wco-edition-diff.ts [options]
+
+Options:
+  --from <year>         Older edition (default: ${DEFAULT_FROM_EDITION})
+  --to <year>           Newer edition (default: ${DEFAULT_TO_EDITION})
+  --language <lang>     Edition language: ${Object.keys(WCO_LANGUAGES).join(' or ')} (default: ${DEFAULT_LANGUAGE})
+  --data-dir <dir>      WCO data directory (default: ${DEFAULT_DATA_DIR})
+  --output <file>       Change set JSON (default: {data-dir}/diffs/{from}-{to}_{language}.json)
+  --patch <file>        Also write all per-document diffs to one patch file
+  --context <n>         Context lines in the diffs (default: ${DEFAULT_CONTEXT})
+  --no-diffs            Only print the summary, not the per-document diffs
+  --help, -h            Show this help message
+
+Input:
+  {data-dir}/{edition}/{language}/pdfs/manifest.json   PDF checksums
+  {data-dir}/{edition}/{language}/md/*.md              Converted text (pdf-to-markdown.ts)
+  ({data-dir}/{edition}/pdfs and md/ are used for English when there is no language directory)
+
+Examples:
+  # What changed from HS 2017 to HS 2022
+  tsx scripts/wco-edition-diff.ts --from 2017 --to 2022
+
+  # Summary only, with all diffs in a patch file
+  tsx scripts/wco-edition-diff.ts --no-diffs --patch ./data/wco/diffs/2017-2022_en.patch
+
+  # Compare the French editions
+  tsx scripts/wco-edition-diff.ts --from 2017 --to 2022 --language fr
+        `);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${arg}`);
+        console.error('Use --help for usage information');
+        process.exit(1);
+    }
+  }
+
+  if (config.fromEdition === config.toEdition) {
+    console.error('--from and --to must be different editions');
+    process.exit(1);
+  }
+
+  return config;
+}
+
+// Console symbols per change type
+const CHANGE_SYMBOLS: Record<ChangeType, string> = {
+  new: '+',
+  deleted: '-',
+  amended: '~'
+};
+
+// Main function
+async function main(): Promise<void> {
+  const config = parseArgs();
+  const outputFile = config.outputFile
+    || path.join(config.dataDir, 'diffs', `${config.fromEdition}-${config.toEdition}_${config.language}.json`);
+
+  console.log('WCO Edition Diff Script');
+  console.log('=======================');
+  console.log(`From: ${config.fromEdition}`);
+  console.log(`To: ${config.toEdition}`);
+  console.log(`Language: ${config.language}`);
+  console.log(`Data directory: ${config.dataDir}`);
+  console.log('');
+
+  const { changeSet, diffs } = await compareEditions(config.dataDir, config.fromEdition, config.toEdition, config.language, config.context);
+  const { headings, hsCodes, documents } = changeSet.summary;
+
+  if (changeSet.wco_headings.length > 0) {
+    console.log('Headings:');
+    for (const heading of changeSet.wco_headings) {
+      const details = heading.change === 'amended' && heading.fromTitle !== heading.toTitle
+        ? `: "${heading.fromTitle}" → "${heading.toTitle}"`
+        : `: "${heading.toTitle ?? heading.fromTitle}"`;
+      const codes = heading.hsCodesChanged > 0 ? ` (${heading.hsCodesChanged} HS codes)` : '';
+      console.log(`  ${CHANGE_SYMBOLS[heading.change]} ${heading.wco_heading_code.slice(0, 2)}.${heading.wco_heading_code.slice(2)} ${heading.change}${details}${codes}`);
+    }
+    console.log('');
+  }
+  if (changeSet.wco_hs_codes.length > 0) {
+    console.log('HS codes:');
+    for (const hsCode of changeSet.wco_hs_codes) {
+      const code = `${hsCode.wco_hs_code_code.slice(0, 4)}.${hsCode.wco_hs_code_code.slice(4)}`;
+      const description = hsCode.change === 'amended'
+        ? `"${hsCode.fromDescription}" → "${hsCode.toDescription}"`
+        : `"${hsCode.toDescription ?? hsCode.fromDescription}"`;
+      console.log(`  ${CHANGE_SYMBOLS[hsCode.change]} ${code} ${hsCode.change}: ${description}`);
+    }
+    console.log('');
+  }
+  if (changeSet.documents.length > 0) {
+    console.log('Documents:');
+    for (const document of changeSet.documents) {
+      console.log(`  ${CHANGE_SYMBOLS[document.change]} ${document.document} ${document.change}`);
+    }
+    console.log('');
+  }
+
+  if (config.showDiffs && diffs.size > 0) {
+    console.log('Diffs:');
+    for (const diff of diffs.values()) {
+      console.log(diff);
+      console.log('');
+    }
+  }
+
+  for (const warning of changeSet.warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+  if (changeSet.warnings.length > 0) {
+    console.log('');
+  }
+
+  await fs.mkdir(path.dirname(outputFile), { recursive: true });
+  await fs.writeFile(outputFile, JSON.stringify(changeSet, null, 2) + '\n', 'utf-8');
+  if (config.patchFile) {
+    await fs.mkdir(path.dirname(config.patchFile), { recursive: true });
+    await fs.writeFile(config.patchFile, [...diffs.values()].map(diff => diff + '\n').join(''), 'utf-8');
+  }
+
+  console.log('========================================');
+  console.log('Edition Diff Summary');
+  console.log('========================================');
+  console.log(`Headings: ${headings.new} new, ${headings.deleted} deleted, ${headings.amended} amended, ${headings.unchanged} unchanged`);
+  console.log(`HS codes: ${hsCodes.new} new, ${hsCodes.deleted} deleted, ${hsCodes.amended} amended`);
+  console.log(`Documents: ${documents.new} new, ${documents.deleted} deleted, ${documents.amended} amended, ${documents.unchanged} unchanged`);
+  console.log(`\nChange set saved to: ${outputFile}`);
+  if (config.patchFile) {
+    console.log(`Patch saved to: ${config.patchFile}`);
+  }
+}
+
+// Run main function
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,293 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Extractor for the General Rules for Interpretation (`0001_2022e-gir.md`) and the introduction
+ * (`introduction_2022e.md`) of a WCO edition, for `wco_editions.wco_edition_gir_rules` and
+ * `wco_editions.wco_edition_introduction`
+ *
+ * The GIR are six numbered rules, some split into lettered sub-rules:
+ *
+ *   1. The titles of Sections, Chapters and sub-Chapters are provided for ease of reference only; ...
+ *   2. (a) Any reference in a heading to an article shall be taken to include ...
+ *      (b) Any reference in a heading to a material or substance shall be taken to include ...
+ *   3. When by application of Rule 2 (b) or for any other reason, goods are, prima facie, ...
+ *      (a) The heading which provides the most specific description shall be preferred ...
+ *
+ * The French edition prints "2. a) Toute référence ..." (kept as printed). The rules are read from
+ * any converter's output (lines, Markdown headings, list items or GFM table rows). Rule numbers are
+ * only accepted in order, so a wrapped line starting with "3 (a), shall be ..." or "Rule 5 (a) above"
+ * does not start a rule. The text is kept verbatim: only line wraps are joined, and every sub-rule starts
+ * on its own line of the rule text, so a classification can quote a rule exactly.
+ *
+ * Result (one entry per rule, `subrules` only for rules 2, 3 and 5):
+ *   {
+ *     "rule_1": { "title": "Rule 1", "text": "The titles of Sections, ..." },
+ *     "rule_2": {
+ *       "title": "Rule 2",
+ *       "text": "(a) Any reference ...\n(b) Any reference ...",
+ *       "subrules": { "2a": { "title": "Rule 2 (a)", "text": "Any reference ..." }, "2b": {...} }
+ *     },
+ *     ...
+ *   }
+ */
+
+import { unifiedDiff, type WcoLanguage } from './shared-utils.js';
+
+export const GIR_VERSION = 1;
+
+/**
+ * Lettered sub-rule ("2 (a)")
+ */
+export interface GirSubrule {
+  title: string; // "Rule 2 (a)"
+  text: string; // Without the "(a)" marker
+}
+
+/**
+ * One of the six rules
+ */
+export interface GirRule {
+  title: string; // "Rule 2"
+  text: string; // Full text, each sub-rule on its own line starting with its marker
+  subrules?: Record<string, GirSubrule>; // Keyed "2a", "2b", ...
+}
+
+// Keyed "rule_1" ... "rule_6"
+export type GirRules = Record<string, GirRule>;
+
+export interface GirExtraction {
+  rules: GirRules;
+  warnings: string[];
+}
+
+export type GirChangeType = 'new' | 'deleted' | 'amended' | 'unchanged';
+
+export interface GirRuleChange {
+  rule: string; // "rule_3"
+  change: GirChangeType;
+  diff: string | null; // Unified diff of the rule text, for amended rules
+}
+
+// Sub-rules of each rule in the Harmonized System
+export const GIR_STRUCTURE: Record<number, string[]> = {
+  1: [],
+  2: ['a', 'b'],
+  3: ['a', 'b', 'c'],
+  4: [],
+  5: ['a', 'b'],
+  6: []
+};
+
+// Rule titles and sub-rule markers as printed in each language ("Rule 2 (a)", "Règle 2 a)")
+const RULE_WORD: Record<WcoLanguage, string> = {
+  en: 'Rule',
+  fr: 'Règle'
+};
+const SUBRULE_MARKER: Record<WcoLanguage, (letter: string) => string> = {
+  en: letter => `(${letter})`,
+  fr: letter => `${letter})`
+};
+
+// Rule number with text after it: "1. The titles", "2. (a) Any", "4) Goods"
+const NUMBERED_RULE_PATTERN = /^([1-6])\s*[.)]\s+(\S.*)$/;
+
+// Rule number on a line of its own: "Rule 1", "RULE 1", "Règle 1" (not "Rule 3." ending a
+// wrapped sentence)
+const RULE_LINE_PATTERN = /^(?:rule|règle|regle)\s+([1-6])$/i;
+
+// Sub-rule marker: "(a) Any reference", "a) Toute référence"
+const SUBRULE_PATTERN = /^\(?([a-z])\)\s*(.*)$/;
+
+// Separator row of a GFM table
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+// Plain text lines of converted Markdown: without comments, tags, heading marks, emphasis,
+// list bullets and table pipes (the cells of a row are joined)
+const plainLines = (markdown: string): string[] =>
+  markdown
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => !TABLE_SEPARATOR_PATTERN.test(line))
+    .map(line => line
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+      .replace(/^#{1,6}\s+/, '')
+      .replace(/^[-*+]\s+/, '')
+      .replace(/\*\*|__/g, '')
+      .replace(/^\|(.*)\|$/, '$1')
+      .split('|')
+      .map(cell => cell.trim())
+      .filter(Boolean)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim());
+
+// Join the lines of one paragraph
+const joinLines = (lines: string[]): string => lines.filter(Boolean).join(' ').trim();
+
+/**
+ * Parse the GIR from a converted `0001_{EDITION}{LANG}-gir.md`
+ *
+ * Text before rule 1 (the document title and the opening sentence) is skipped. Missing rules,
+ * missing or unexpected sub-rules are reported as warnings; whatever was found is returned.
+ */
+export const parseGirMarkdown = (markdown: string, language: WcoLanguage = 'en'): GirExtraction => {
+  const warnings: string[] = [];
+  const word = RULE_WORD[language];
+  const marker = SUBRULE_MARKER[language];
+
+  // Collected text of the rule being read: its own lines, then one list of lines per sub-rule
+  interface RuleText {
+    number: number;
+    intro: string[];
+    subrules: Array<{ letter: string; lines: string[] }>;
+  }
+  const found: RuleText[] = [];
+  let current: RuleText | null = null;
+
+  // Start a sub-rule when the line has the next expected marker ("(b)" after "(a)")
+  const startSubrule = (rule: RuleText, line: string): boolean => {
+    const match = line.match(SUBRULE_PATTERN);
+    if (!match) {
+      return false;
+    }
+    const expected = String.fromCharCode('a'.charCodeAt(0) + rule.subrules.length);
+    // The text of a sub-rule starts with a capital ("(a) Any"), a wrapped reference does not ("(a) above")
+    if (match[1] !== expected || !/^\p{Lu}/u.test(match[2]!)) {
+      return false;
+    }
+    rule.subrules.push({ letter: expected, lines: [match[2]!] });
+    return true;
+  };
+
+  for (const line of plainLines(markdown)) {
+    if (line === '') {
+      continue;
+    }
+    const next: number = (current?.number ?? 0) + 1;
+    const numbered = line.match(NUMBERED_RULE_PATTERN);
+    const ruleLine = line.match(RULE_LINE_PATTERN);
+    if ((numbered && Number(numbered[1]) === next) || (ruleLine && Number(ruleLine[1]) === next)) {
+      current = { number: next, intro: [], subrules: [] };
+      found.push(current);
+      if (numbered && !startSubrule(current, numbered[2]!)) {
+        current.intro.push(numbered[2]!);
+      }
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    if (startSubrule(current, line)) {
+      continue;
+    }
+    const lastSubrule = current.subrules[current.subrules.length - 1];
+    (lastSubrule ? lastSubrule.lines : current.intro).push(line);
+  }
+
+  const rules: GirRules = {};
+  for (const [numberKey, expectedLetters] of Object.entries(GIR_STRUCTURE)) {
+    const number = Number(numberKey);
+    const ruleText = found.find(rule => rule.number === number);
+    if (!ruleText) {
+      warnings.push(`Rule ${number} not found`);
+      continue;
+    }
+    const intro = joinLines(ruleText.intro);
+    const letters = ruleText.subrules.map(subrule => subrule.letter);
+    if (letters.join(',') !== expectedLetters.join(',')) {
+      const expected = expectedLetters.length > 0 ? expectedLetters.map(letter => `(${letter})`).join(' ') : 'none';
+      const got = letters.length > 0 ? letters.map(letter => `(${letter})`).join(' ') : 'none';
+      warnings.push(`Rule ${number}: expected sub-rules ${expected}, found ${got}`);
+    }
+    if (intro === '' && ruleText.subrules.length === 0) {
+      warnings.push(`Rule ${number} has no text`);
+    }
+
+    const rule: GirRule = {
+      title: `${word} ${number}`,
+      text: [intro, ...ruleText.subrules.map(subrule => `${marker(subrule.letter)} ${joinLines(subrule.lines)}`)]
+        .filter(Boolean)
+        .join('\n')
+    };
+    if (ruleText.subrules.length > 0) {
+      rule.subrules = {};
+      for (const subrule of ruleText.subrules) {
+        rule.subrules[`${number}${subrule.letter}`] = {
+          title: `${word} ${number} ${marker(subrule.letter)}`,
+          text: joinLines(subrule.lines)
+        };
+      }
+    }
+    rules[`rule_${number}`] = rule;
+  }
+
+  return { rules, warnings };
+};
+
+/**
+ * Introduction text from a converted `introduction_{EDITION}{LANG}.md`: the Markdown without
+ * HTML comments (page anchors) and with runs of blank lines collapsed
+ */
+export const extractIntroduction = (markdown: string): string =>
+  markdown
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Verbatim text of a rule or sub-rule, for citing it in a classification
+ *
+ * @param reference "3", "3 (b)", "3(b)", "3b" or "rule_3"
+ * @returns null when the rules do not have it
+ */
+export const citeGirRule = (rules: GirRules, reference: string): GirRule | GirSubrule | null => {
+  const match = reference.trim().toLowerCase().match(/^(?:rule_?\s*)?([1-6])\s*(?:\(?([a-z])\)?)?$/);
+  if (!match) {
+    return null;
+  }
+  const rule = rules[`rule_${match[1]}`];
+  if (!rule || !match[2]) {
+    return rule ?? null;
+  }
+  return rule.subrules?.[`${match[1]}${match[2]}`] ?? null;
+};
+
+/**
+ * Citation of a rule as "Rule 3 (b): "text"" (null when the rules do not have it)
+ */
+export const formatGirCitation = (rules: GirRules, reference: string): string | null => {
+  const cited = citeGirRule(rules, reference);
+  return cited ? `${cited.title}: "${cited.text}"` : null;
+};
+
+// Text of a rule as compared and diffed (its sub-rules are part of the text)
+const ruleDiffText = (rule: GirRule): string => rule.text + '\n';
+
+/**
+ * Compare the rules of two editions, rule by rule
+ */
+export const diffGirRules = (fromRules: GirRules, toRules: GirRules, context: number = 3): GirRuleChange[] => {
+  const keys = [...new Set([...Object.keys(fromRules), ...Object.keys(toRules)])]
+    .sort((a, b) => Number(a.replace('rule_', '')) - Number(b.replace('rule_', '')));
+  return keys.map((rule): GirRuleChange => {
+    const before = fromRules[rule];
+    const after = toRules[rule];
+    if (!before) {
+      return { rule, change: 'new', diff: null };
+    }
+    if (!after) {
+      return { rule, change: 'deleted', diff: null };
+    }
+    if (before.text === after.text) {
+      return { rule, change: 'unchanged', diff: null };
+    }
+    // One sub-rule per line, so a changed sub-rule shows as one changed line
+    return { rule, change: 'amended', diff: unifiedDiff(ruleDiffText(before), ruleDiffText(after), rule, context) };
+  });
+};
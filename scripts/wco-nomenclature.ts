@@ -0,0 +1,500 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * Rule-based parser for WCO heading files (`0101_2022e.md`, or its pdfjs document model
+ * `0101_2022e.document.json`)
+ *
+ * Heading files list a heading and its subdivisions in a fixed pattern:
+ *
+ *   01.01  Live horses, asses, mules and hinnies.
+ *          - Horses :
+ *   0101.21  - - Pure-bred breeding animals            u
+ *   0101.29  - - Other                                 u
+ *   0101.30  - Asses                                   u
+ *
+ * The parser reads these from any converter's output: Markdown headings or lines
+ * (`### 01.01 ...`, `0101.21 - - Pure-bred ...`), GFM table rows (`| 0101.21 | - - Pure-bred ... | u |`)
+ * or the blocks of the document model. The result is a tree per heading: groups (dash rows
+ * without a code, such as "- Horses :") and 6-digit codes, nested by their dash level, each code
+ * with its description and unit of quantity. The tree is flattened into rows for the
+ * `wco_headings` and `wco_hs_codes` tables.
+ *
+ * Notes (chapter, subheading and heading notes) are not parsed: a Markdown heading without a code
+ * ("#### Subheading Note.", "## Chapter 2") ends the current heading, and text that is not a
+ * code or dash row is skipped.
+ */
+
+import type { DocumentModel } from './pdf-document.js';
+
+export const NOMENCLATURE_VERSION = 1;
+
+/**
+ * 6-digit HS code (leaf of the tree)
+ */
+export interface HsCodeNode {
+  type: 'hs_code';
+  code: string; // 6 digits without dot (e.g., "010121")
+  dotted: string; // As printed (e.g., "0101.21")
+  level: number; // Dashes before the description (0 for a heading without subdivisions, "0501.00")
+  description: string;
+  unit: string | null; // Unit of quantity (e.g., "u", "kg", "l alc. 100 %")
+  source: string[]; // Markdown lines ("L12") or document model line ids ("p1.l12")
+}
+
+/**
+ * Dash row without a code (e.g., "- Horses :"): groups the codes below it
+ */
+export interface GroupNode {
+  type: 'group';
+  level: number;
+  description: string;
+  children: NomenclatureNode[];
+  source: string[];
+}
+
+export type NomenclatureNode = HsCodeNode | GroupNode;
+
+export interface HeadingNode {
+  code: string; // 4 digits without dot (e.g., "0101")
+  dotted: string; // As printed (e.g., "01.01")
+  chapter: number;
+  title: string;
+  children: NomenclatureNode[];
+  source: string[];
+}
+
+/**
+ * Row of `wco_headings` (the chapter is referenced by number)
+ */
+export interface WcoHeadingRow {
+  wco_chapter_number: number;
+  wco_heading_code: string;
+  wco_heading_title: string;
+  wco_heading_notes: string | null;
+}
+
+/**
+ * Row of `wco_hs_codes` (the heading is referenced by code)
+ */
+export interface WcoHsCodeRow {
+  wco_heading_code: string;
+  wco_hs_code_code: string;
+  wco_hs_code_description: string;
+}
+
+export interface NomenclatureDocument {
+  version: number;
+  source: string; // File name
+  format: 'markdown' | 'document';
+  headings: HeadingNode[];
+  wco_headings: WcoHeadingRow[];
+  wco_hs_codes: WcoHsCodeRow[];
+  warnings: string[];
+}
+
+// WCO units of quantity, as printed in the unit column
+const UNITS = [
+  'u', '2u', '12u', '1000u', 'kg', 'g', 'carat', 'm', 'm²', 'm³', '1000 m³', 'l', 'l alc. 100 %',
+  'kg N', 'kg P2O5', 'kg K2O', 'kg H2O2', 'kg NaOH', 'kg KOH', 'kg met.am.', 'kg 90 % sdt', 'kg U',
+  'ct/l', 'GT', '1000 kWh', 'TJ', 'GI F/S', 'kg/net eda'
+];
+
+// Units compared without spaces and with plain digits for ² and ³ ("m2", "l alc.100%"); case is
+// only ignored when no unit matches as printed ("kg u" is "kg" then "u", not "kg U")
+const unitKey = (text: string): string => text.replace(/\s+/g, '').replace(/²/g, '2').replace(/³/g, '3');
+const UNIT_KEYS = new Map(UNITS.map(unit => [unitKey(unit), unit]));
+const UNIT_KEYS_ANY_CASE = new Map(UNITS.map(unit => [unitKey(unit).toLowerCase(), unit]));
+const findUnit = (text: string, anyCase: boolean): string | undefined =>
+  (anyCase ? UNIT_KEYS_ANY_CASE.get(unitKey(text).toLowerCase()) : UNIT_KEYS.get(unitKey(text)));
+// Longest unit in words: trailing units are looked for in the last few words of a line
+const MAX_UNIT_WORDS = Math.max(...UNITS.map(unit => unit.split(' ').length));
+
+const HEADING_CODE_PATTERN = /^(\d{2})\.(\d{2})$/;
+const HS_CODE_PATTERN = /^(\d{4})\.(\d{2})$/;
+// "01.01 Live horses, ..." (the title starts with a capital; "01.01.2022" is a date)
+const HEADING_LINE_PATTERN = /^(\d{2})\.(\d{2})(?![.\d])\s*[-–—:]?\s*(\p{Lu}.*)$/u;
+// "05.01 0501.00 Human hair, ..." (heading without subdivisions, both codes on one line)
+const HEADING_CODE_LINE_PATTERN = /^(\d{2})\.(\d{2})\s+(\d{4})\.(\d{2})(?!\d)\s*(.*)$/;
+const HS_CODE_LINE_PATTERN = /^(\d{4})\.(\d{2})(?![.\d])\s*(.*)$/;
+const DASH_PATTERN = /^((?:[-–—]\s*)+)(?=\S)/;
+const PAGE_MARKER_PATTERN = /^\s*(?:#{1,6}\s+Page\s+\d+|<!--.*-->)\s*$/i;
+const HTML_TAG_PATTERN = /^\s*<\/?[a-z][^>]*>\s*$/i;
+const SEPARATOR_ROW_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+// Abbreviations whose final dot is part of the title ("n.e.s.")
+const ABBREVIATION_END_PATTERN = /(?:^|[\s(])(?:\p{L}\.){2,}$/u;
+
+// One row of the input: table cells or a line of text, with where it came from
+interface SourceRow {
+  cells: string[] | null;
+  text: string;
+  title: boolean; // A Markdown heading (or a heading block)
+  continues: boolean; // Follows a text line without a blank line (may be a wrapped line)
+  source: string[];
+}
+
+// What a row says
+type Entry =
+  | { kind: 'heading'; code: string; title: string; source: string[] }
+  | { kind: 'item'; dotted: string | null; level: number; description: string; unit: string | null; source: string[] }
+  | { kind: 'end'; source: string[] }
+  | { kind: 'text'; text: string; continues: boolean; source: string[] };
+
+// Markdown emphasis and quote marks around text
+const stripMarkup = (text: string): string =>
+  text.replace(/\*\*|__|`/g, '').replace(/^>\s*/, '').replace(/\s+/g, ' ').trim();
+
+// Cells of a GFM table row ("\|" is a pipe inside a cell)
+const tableCells = (line: string): string[] => {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => stripMarkup(cell.replace(/\\\|/g, '|')));
+};
+
+// Whether a cell holds a heading or HS code
+const isCodeCell = (cell: string): boolean => HEADING_CODE_PATTERN.test(cell) || HS_CODE_PATTERN.test(cell);
+
+// Split "- - Pure-bred" into its dash level and text
+const splitDashes = (text: string): { level: number; text: string } => {
+  const match = text.match(DASH_PATTERN);
+  if (!match) {
+    return { level: 0, text };
+  }
+  return { level: (match[1]!.match(/[-–—]/g) || []).length, text: text.substring(match[0].length).trim() };
+};
+
+// Split a trailing unit of quantity off a description ("Pure-bred breeding animals u")
+const splitUnit = (text: string): { description: string; unit: string | null } => {
+  const words = text.split(' ');
+  for (const anyCase of [false, true]) {
+    for (let count = Math.min(MAX_UNIT_WORDS, words.length - 1); count >= 1; count--) {
+      const unit = findUnit(words.slice(-count).join(' '), anyCase);
+      if (unit) {
+        return { description: words.slice(0, -count).join(' '), unit };
+      }
+    }
+  }
+  return { description: text, unit: null };
+};
+
+// Description without the colon of a group row ("Horses :") and surrounding space
+const cleanDescription = (text: string): string => text.replace(/\s*:\s*$/, '').trim();
+
+// Heading title without its final full stop (kept after an abbreviation such as "n.e.s.")
+const cleanTitle = (text: string): string => {
+  const title = cleanDescription(text);
+  return title.endsWith('.') && !ABBREVIATION_END_PATTERN.test(title) ? title.slice(0, -1).trim() : title;
+};
+
+// Entry for a code or dash row: "- - Pure-bred breeding animals u"
+const itemEntry = (dotted: string | null, rest: string, source: string[], unit: string | null = null): Entry => {
+  const { level, text } = splitDashes(rest);
+  const split = unit ? { description: text, unit } : splitUnit(text);
+  return { kind: 'item', dotted, level, description: cleanDescription(split.description), unit: split.unit, source };
+};
+
+// Entries of a table row: code cells, description cells and a unit cell
+const cellEntries = (row: SourceRow): Entry[] => {
+  const cells = row.cells!.filter(Boolean);
+  const headingCode = cells.find(cell => HEADING_CODE_PATTERN.test(cell)) ?? null;
+  const hsCode = cells.find(cell => HS_CODE_PATTERN.test(cell)) ?? null;
+  const rest = cells.filter(cell => !isCodeCell(cell));
+  // A unit is a cell of its own after the description
+  const unitCell = rest.length > 1 ? findUnit(rest[rest.length - 1]!, true) ?? null : null;
+  const description = (unitCell ? rest.slice(0, -1) : rest).join(' ');
+
+  const entries: Entry[] = [];
+  if (headingCode) {
+    entries.push({ kind: 'heading', code: headingCode.replace('.', ''), title: cleanTitle(splitDashes(description).text), source: row.source });
+  }
+  if (hsCode) {
+    entries.push(itemEntry(hsCode, headingCode ? splitDashes(description).text : description, row.source, unitCell));
+  } else if (!headingCode && DASH_PATTERN.test(description)) {
+    entries.push(itemEntry(null, description, row.source, unitCell));
+  } else if (!headingCode && description) {
+    entries.push({ kind: 'text', text: description, continues: false, source: row.source });
+  }
+  return entries;
+};
+
+// Entries of a line of text (or a Markdown heading)
+const textEntries = (row: SourceRow): Entry[] => {
+  const text = row.text;
+  const both = text.match(HEADING_CODE_LINE_PATTERN);
+  if (both) {
+    const { description } = splitUnit(both[5]!);
+    return [
+      { kind: 'heading', code: `${both[1]}${both[2]}`, title: cleanTitle(description), source: row.source },
+      itemEntry(`${both[3]}.${both[4]}`, both[5]!, row.source)
+    ];
+  }
+  const heading = text.match(HEADING_LINE_PATTERN);
+  if (heading) {
+    return [{ kind: 'heading', code: `${heading[1]}${heading[2]}`, title: cleanTitle(heading[3]!), source: row.source }];
+  }
+  const hsCode = text.match(HS_CODE_LINE_PATTERN);
+  if (hsCode && hsCode[3]) {
+    return [itemEntry(`${hsCode[1]}.${hsCode[2]}`, hsCode[3], row.source)];
+  }
+  if (DASH_PATTERN.test(text)) {
+    return [itemEntry(null, text, row.source)];
+  }
+  if (row.title) {
+    return [{ kind: 'end', source: row.source }];
+  }
+  return [{ kind: 'text', text, continues: row.continues, source: row.source }];
+};
+
+// Whether a line starts with a heading or HS code
+const isCodedLine = (text: string): boolean =>
+  HEADING_LINE_PATTERN.test(text) || HEADING_CODE_LINE_PATTERN.test(text) || HS_CODE_LINE_PATTERN.test(text);
+
+// Rows of Markdown: table rows (header rows without codes and separator rows dropped),
+// headings and text lines; page markers and HTML tags are skipped
+const markdownRows = (markdown: string): SourceRow[] => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const rows: SourceRow[] = [];
+  let previousText = false;
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    const source = [`L${i + 1}`];
+    if (!line || PAGE_MARKER_PATTERN.test(line) || HTML_TAG_PATTERN.test(line)) {
+      previousText = false;
+      return;
+    }
+    const continues = previousText;
+    previousText = false;
+    if (line.startsWith('|')) {
+      const cells = tableCells(line);
+      const header = SEPARATOR_ROW_PATTERN.test(lines[i + 1] || '') && !cells.some(isCodeCell);
+      if (!SEPARATOR_ROW_PATTERN.test(line) && !header) {
+        rows.push({ cells, text: cells.join(' '), title: false, continues: false, source });
+      }
+      return;
+    }
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const text = stripMarkup(heading ? heading[1]! : line);
+    rows.push({ cells: null, text, title: Boolean(heading), continues: continues && !heading, source });
+    // A heading with a code ("### 01.01 Live horses, asses, mules and") may wrap onto the next line
+    previousText = !heading || isCodedLine(text);
+  });
+  return rows;
+};
+
+// Rows of the document model: its blocks, table rows with the lines of their cells
+const documentRows = (model: DocumentModel): SourceRow[] => {
+  const rows: SourceRow[] = [];
+  for (const page of model.pages) {
+    for (const block of page.blocks) {
+      switch (block.type) {
+        case 'heading':
+          rows.push({ cells: null, text: block.text, title: true, continues: false, source: block.lines });
+          break;
+        case 'paragraph':
+          rows.push({ cells: null, text: block.text, title: false, continues: false, source: block.lines });
+          break;
+        case 'row':
+          const text = [block.code, '- '.repeat(block.dashLevel) + block.text].filter(Boolean).join(' ');
+          rows.push({ cells: null, text, title: false, continues: false, source: block.lines });
+          break;
+        case 'table':
+          const tableRows = block.header?.some(cell => isCodeCell(cell.text)) ? [block.header, ...block.rows] : block.rows;
+          for (const row of tableRows) {
+            const source = [...new Set(row.flatMap(cell => cell.lines))];
+            rows.push({ cells: row.map(cell => cell.text), text: row.map(cell => cell.text).join(' '), title: false, continues: false, source });
+          }
+          break;
+      }
+    }
+  }
+  return rows;
+};
+
+// Build the heading trees from the entries
+const buildTree = (entries: Entry[], warnings: string[]): HeadingNode[] => {
+  const headings: HeadingNode[] = [];
+  const seenCodes = new Set<string>();
+  let heading: HeadingNode | null = null;
+  // Open groups, innermost last
+  let groups: GroupNode[] = [];
+  // Node whose description a wrapped line continues
+  let last: HeadingNode | NomenclatureNode | null = null;
+  // Code printed on the heading's own line ("05.01 0501.00 Human hair, ..."): its description is the title
+  let headingLineCode: HsCodeNode | null = null;
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'heading': {
+        if (headings.some(other => other.code === entry.code)) {
+          warnings.push(`${entry.source[0]}: heading ${entry.code.slice(0, 2)}.${entry.code.slice(2)} listed twice; the second listing is skipped`);
+          heading = null;
+          last = null;
+          break;
+        }
+        heading = {
+          code: entry.code,
+          dotted: `${entry.code.slice(0, 2)}.${entry.code.slice(2)}`,
+          chapter: parseInt(entry.code.slice(0, 2), 10),
+          title: entry.title,
+          children: [],
+          source: entry.source
+        };
+        headings.push(heading);
+        groups = [];
+        last = heading;
+        headingLineCode = null;
+        break;
+      }
+      case 'end':
+        heading = null;
+        last = null;
+        break;
+      case 'text':
+        // A wrapped line starts in lower case ("hinnies.", "travelling menagerie u")
+        if (entry.continues && last && /^\p{Ll}/u.test(entry.text)) {
+          if (!('type' in last)) {
+            last.title = cleanTitle(`${last.title} ${entry.text}`);
+          } else if (last.type === 'hs_code' && last.unit === null) {
+            const { description, unit } = splitUnit(entry.text);
+            last.description = cleanDescription(`${last.description} ${description}`);
+            last.unit = unit;
+            if (heading && last === headingLineCode) {
+              heading.title = cleanTitle(last.description);
+            }
+          } else {
+            last.description = cleanDescription(`${last.description} ${entry.text}`);
+          }
+          last.source.push(...entry.source);
+        } else {
+          last = null;
+        }
+        break;
+      case 'item': {
+        if (!heading) {
+          if (entry.dotted) {
+            warnings.push(`${entry.source[0]}: ${entry.dotted} is not under a heading; skipped`);
+          }
+          last = null;
+          break;
+        }
+        while (groups.length > 0 && groups[groups.length - 1]!.level >= entry.level) {
+          groups.pop();
+        }
+        const parent = groups[groups.length - 1]?.children ?? heading.children;
+        if (!entry.dotted) {
+          const group: GroupNode = { type: 'group', level: entry.level, description: entry.description, children: [], source: entry.source };
+          parent.push(group);
+          groups.push(group);
+          last = group;
+          break;
+        }
+        const code = entry.dotted.replace('.', '');
+        if (!code.startsWith(heading.code)) {
+          warnings.push(`${entry.source[0]}: ${entry.dotted} is not a subheading of ${heading.dotted}; skipped`);
+          last = null;
+          break;
+        }
+        if (seenCodes.has(code)) {
+          warnings.push(`${entry.source[0]}: ${entry.dotted} listed twice; the second listing is skipped`);
+          last = null;
+          break;
+        }
+        seenCodes.add(code);
+        const node: HsCodeNode = {
+          type: 'hs_code',
+          code,
+          dotted: entry.dotted,
+          level: entry.level,
+          description: entry.description,
+          unit: entry.unit,
+          source: entry.source
+        };
+        parent.push(node);
+        last = node;
+        if (entry.source[0] === heading.source[0]) {
+          headingLineCode = node;
+        }
+        break;
+      }
+    }
+  }
+  return headings;
+};
+
+/**
+ * HS codes of a tree, depth first (in the order printed)
+ */
+export const flattenHsCodes = (nodes: NomenclatureNode[]): HsCodeNode[] =>
+  nodes.flatMap(node => (node.type === 'hs_code' ? [node] : flattenHsCodes(node.children)));
+
+// Check the trees and build the document
+const toDocument = (headings: HeadingNode[], source: string, format: NomenclatureDocument['format'], warnings: string[]): NomenclatureDocument => {
+  for (const heading of headings) {
+    const codes = flattenHsCodes(heading.children);
+    if (codes.length === 0) {
+      warnings.push(`${heading.dotted}: no HS codes found`);
+    }
+    for (const group of heading.children.filter((node): node is GroupNode => node.type === 'group')) {
+      if (flattenHsCodes(group.children).length === 0) {
+        warnings.push(`${heading.dotted}: group "${group.description}" has no HS codes`);
+      }
+    }
+    if (!heading.title) {
+      warnings.push(`${heading.dotted}: no title found`);
+    }
+  }
+  if (headings.length === 0) {
+    warnings.push('No heading found');
+  }
+  return {
+    version: NOMENCLATURE_VERSION,
+    source,
+    format,
+    headings,
+    wco_headings: headings.map(heading => ({
+      wco_chapter_number: heading.chapter,
+      wco_heading_code: heading.code,
+      wco_heading_title: heading.title,
+      wco_heading_notes: null
+    })),
+    wco_hs_codes: headings.flatMap(heading => flattenHsCodes(heading.children).map(node => ({
+      wco_heading_code: heading.code,
+      wco_hs_code_code: node.code,
+      wco_hs_code_description: node.description
+    }))),
+    warnings
+  };
+};
+
+// Entries of the input rows
+const rowEntries = (rows: SourceRow[]): Entry[] => rows.flatMap(row => (row.cells ? cellEntries(row) : textEntries(row)));
+
+/**
+ * Parse a heading file's Markdown (any converter)
+ *
+ * @param source - File name, recorded in the document
+ */
+export const parseNomenclatureMarkdown = (markdown: string, source: string): NomenclatureDocument => {
+  const warnings: string[] = [];
+  const headings = buildTree(rowEntries(markdownRows(markdown)), warnings);
+  return toDocument(headings, source, 'markdown', warnings);
+};
+
+/**
+ * Parse a heading file's document model (`{file}.document.json`, `pdf-to-markdown --tool pdfjs --json`);
+ * sources are the model's line ids
+ */
+export const parseNomenclatureDocument = (model: DocumentModel, source: string): NomenclatureDocument => {
+  const warnings: string[] = [];
+  const headings = buildTree(rowEntries(documentRows(model)), warnings);
+  return toDocument(headings, source, 'document', warnings);
+};
+
+/**
+ * Whether a file is a heading file: 0101_2022e.md, not chapter notes (0100_2022e.md) or other
+ * documents (0001_2022e-gir.md, introduction_2022e.md)
+ */
+export const isHeadingFile = (filename: string): boolean => {
+  const match = filename.match(/^(\d{2})(\d{2})_\d{4}[a-z](?:\.document\.json|\.md)$/i);
+  return Boolean(match && match[1] !== '00' && match[2] !== '00');
+};
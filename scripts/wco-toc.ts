@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+/// <reference types="node" />
+'use strict';
+
+/**
+ * WCO Table of Contents parser
+ *
+ * Builds the authoritative list of chapter/heading files for an edition from the
+ * already-downloaded `table-of-contents_{EDITION}{LANG}_rev.pdf` (or its converted Markdown),
+ * so the downloader requests exactly those files instead of brute-forcing headings 01-99.
+ * A heading listed here that then returns 404 is a real failure, not an expected miss.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { existsSync } from 'fs';
+import { WCO_LANGUAGES, DEFAULT_LANGUAGE, type WcoLanguage } from './shared-utils.js';
+
+export interface TocEntry {
+  chapter: number;
+  heading: string; // 2-digit heading within the chapter (e.g., "01")
+  code: string; // 4-digit heading code without dot (e.g., "0101")
+  title: string;
+}
+
+export interface TableOfContents {
+  source: string; // File the entries were parsed from
+  entries: TocEntry[];
+}
+
+// Heading codes are printed as "01.01" at the start of a TOC line, followed by the title
+// (the lookahead rejects dates such as "01.01.2022")
+const HEADING_LINE_PATTERN = /^\s*(?:[#*|>-]\s*)*(\d{2})\.(\d{2})(?![.\d])[\s:|-]*(.*)$/;
+
+/**
+ * Candidate TOC filenames for an edition and language, most specific first
+ * (2022 publishes a "_rev" revision; older editions may not)
+ */
+export const getTocFilenames = (edition: string, language: WcoLanguage = DEFAULT_LANGUAGE): string[] => [
+  `table-of-contents_${edition}${WCO_LANGUAGES[language]}_rev`,
+  `table-of-contents_${edition}${WCO_LANGUAGES[language]}`
+];
+
+/**
+ * Parse TOC text (PDF text lines or Markdown) into heading entries
+ * Duplicate codes (e.g., repeated in running headers) are listed once.
+ */
+export const parseTableOfContents = (text: string): TocEntry[] => {
+  const entries = new Map<string, TocEntry>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(HEADING_LINE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const chapter = parseInt(match[1]!, 10);
+    const heading = match[2]!;
+    // Chapter 00 and heading 00 are not nomenclature headings (page numbers, dates, etc.)
+    if (chapter < 1 || chapter > 99 || heading === '00') {
+      continue;
+    }
+    const code = `${match[1]}${heading}`;
+    if (!entries.has(code)) {
+      const title = (match[3] || '').replace(/[|*]+/g, ' ').replace(/\s*\.{3,}\s*\d*\s*$/, '').replace(/\s+/g, ' ').trim();
+      entries.set(code, { chapter, heading, code, title });
+    }
+  }
+  return [...entries.values()].sort((a, b) => a.code.localeCompare(b.code));
+};
+
+/**
+ * Extract text lines from a PDF with pdfjs (items on the same baseline form one line)
+ */
+export const extractPdfTextLines = async (pdfPath: string): Promise<string[]> => {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const lines: string[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    let current = '';
+    let lastY: number | null = null;
+    for (const item of textContent.items) {
+      if (!('str' in item)) {
+        continue;
+      }
+      const y = item.transform[5] || 0;
+      if (lastY !== null && Math.abs(y - lastY) > 5) {
+        lines.push(current);
+        current = '';
+      }
+      current += current && item.str && !current.endsWith(' ') ? ` ${item.str}` : item.str;
+      lastY = y;
+    }
+    if (current) {
+      lines.push(current);
+    }
+  }
+
+  await pdf.destroy();
+  return lines;
+};
+
+/**
+ * Locate and parse the TOC for an edition.
+ * Looks for converted Markdown next to the PDFs (`../md`) first because it is cheaper to read,
+ * then for the PDF itself. Returns null when no TOC is available.
+ *
+ * @param pdfsDir - Edition PDF directory (e.g., ./data/wco/2022/en/pdfs)
+ * @param tocPath - Explicit TOC file (.pdf or .md), overrides discovery
+ */
+export const loadTableOfContents = async (pdfsDir: string, edition: string, tocPath?: string, language: WcoLanguage = DEFAULT_LANGUAGE): Promise<TableOfContents | null> => {
+  const candidates: string[] = [];
+  if (tocPath) {
+    candidates.push(tocPath);
+  } else {
+    const mdDir = path.join(path.dirname(pdfsDir), 'md');
+    for (const baseName of getTocFilenames(edition, language)) {
+      candidates.push(path.join(mdDir, `${baseName}.md`));
+      candidates.push(path.join(pdfsDir, `${baseName}.pdf`));
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (!existsSync(candidate)) {
+      continue;
+    }
+    const text = candidate.toLowerCase().endsWith('.pdf')
+      ? (await extractPdfTextLines(candidate)).join('\n')
+      : await fs.readFile(candidate, 'utf-8');
+    return { source: candidate, entries: parseTableOfContents(text) };
+  }
+
+  if (tocPath) {
+    throw new Error(`Table of contents not found: ${tocPath}`);
+  }
+  return null;
+};
+
+/**
+ * Group TOC entries by chapter number
+ */
+export const groupByChapter = (entries: TocEntry[]): Map<number, TocEntry[]> => {
+  const byChapter = new Map<number, TocEntry[]>();
+  for (const entry of entries) {
+    const list = byChapter.get(entry.chapter) || [];
+    list.push(entry);
+    byChapter.set(entry.chapter, list);
+  }
+  return byChapter;
+};
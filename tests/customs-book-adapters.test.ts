@@ -0,0 +1,157 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the customs book adapters on the saved sources in fixtures/customs-books
+ *
+ * Every sample covers chapter 01 down to the national subdivisions of heading 01.01, with the
+ * grouping lines, footnotes and deleted or wrapped lines of its format. The records are read
+ * with readCustomsBook, so the parent links are checked along with the adapters' output.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  createSourceLoader,
+  downloadCustomsBook,
+  readCustomsBook,
+  type CustomsBookAdapter,
+  type CustomsBookRecord
+} from '../scripts/customs-book-adapters.js';
+import { getCustomsBookAdapter } from '../scripts/customs-books.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'customs-books');
+
+// All records of a book read from saved sources
+const read = async (adapter: CustomsBookAdapter, ...files: string[]): Promise<CustomsBookRecord[]> => {
+  const loader = await createSourceLoader('replay', FIXTURES_DIR);
+  const records: CustomsBookRecord[] = [];
+  try {
+    for await (const record of readCustomsBook(adapter, loader, files.map(file => path.join(FIXTURES_DIR, file)))) {
+      records.push(record);
+    }
+  } finally {
+    await loader.close();
+  }
+  return records;
+};
+
+// [code, level, parent] of every record
+const tree = (records: CustomsBookRecord[]) => records.map(record => [record.code, record.level, record.parentCode]);
+
+test('Israel customs tariff: CSV rows with check digits and levels from the code', async () => {
+  const records = await read(getCustomsBookAdapter('il-customs-tariff'), 'il-customs-tariff.csv');
+  assert.deepEqual(tree(records), [
+    ['0100000000', 0, null],
+    ['0101000000', 1, '0100000000'],
+    ['0101210000', 2, '0101000000'],
+    ['0101290000', 2, '0101000000'],
+    ['0101291000', 3, '0101290000'],
+    ['0102000000', 1, '0100000000']
+  ]);
+  assert.deepEqual(records[1], {
+    code: '0101000000',
+    checkDigit: '4',
+    description: 'סוסים, חמורים, פרדות ופרדים, חיים',
+    level: 1,
+    parentCode: '0100000000',
+    notes: []
+  });
+  assert.deepEqual(records[2]?.notes, ['פטור ממכס לפי פרט 0101.21']);
+  assert.equal(records[4]?.description, 'סוסי מרוץ "גזעיים"');
+});
+
+test('Israel Free Import Order: PDF items in Hebrew reading order, wrapped lines joined', async () => {
+  const records = await read(getCustomsBookAdapter('il-free-import-order'), 'il-free-import-order.pdf');
+  assert.deepEqual(tree(records), [
+    ['0101', 1, null],
+    ['01012100', 2, '0101'],
+    ['01012900', 2, '0101'],
+    ['0102', 1, null]
+  ]);
+  assert.deepEqual(records.map(record => [record.checkDigit, record.description]), [
+    [null, 'סוסים, חמורים, פרדות ופרדים, חיים'],
+    ['5', 'גזעיים לרבייה'],
+    ['3', 'אחרים, במשקל עד 300 ק"ג'],
+    // A line starting with a date is not an item
+    [null, 'בקר חי 01.01.2022 בתוקף']
+  ]);
+  assert.deepEqual(records[1]?.notes, []);
+});
+
+test('Israel books have no official URL and fail clearly without saved sources', async () => {
+  const adapter = getCustomsBookAdapter('il-free-export-order');
+  assert.deepEqual(adapter.sourceUrls, []);
+  await assert.rejects(read(adapter), /il-free-export-order has no official download URL; pass the saved source files with --source/);
+  await assert.rejects(downloadCustomsBook(adapter, path.join(FIXTURES_DIR, 'unused')), /has no official download URL/);
+});
+
+test('EU TARIC: declarable lines with indents, latest English description and footnotes', async () => {
+  const records = await read(getCustomsBookAdapter('eu-taric'), 'eu-taric.xml');
+  // The "Horses" grouping line (suffix 10) and the deleted 0101 30 00 00 are not emitted
+  assert.deepEqual(tree(records), [
+    ['0100000000', 0, null],
+    ['0101000000', 1, '0100000000'],
+    ['0101210000', 3, '0101000000'],
+    ['0101290000', 3, '0101000000'],
+    ['0101291000', 4, '0101290000'],
+    ['0102000000', 1, '0100000000']
+  ]);
+  assert.deepEqual(records.map(record => record.description), [
+    'LIVE ANIMALS',
+    'Live horses, asses, mules & hinnies',
+    'Pure-bred breeding animals',
+    'Other',
+    'For slaughter',
+    'Live bovine animals'
+  ]);
+  assert.deepEqual(records[4]?.notes, ['TN701', 'CD437']);
+  assert.equal(records.every(record => record.checkDigit === null), true);
+});
+
+test('UK Trade Tariff: heading document with its commodities included', async () => {
+  const records = await read(getCustomsBookAdapter('uk-tariff'), 'uk-tariff.json');
+  assert.deepEqual(tree(records), [
+    ['0100000000', 0, null],
+    ['0101000000', 1, '0100000000'],
+    ['0101210000', 3, '0101000000'],
+    ['0101290000', 3, '0101000000'],
+    ['0101291000', 4, '0101290000'],
+    ['0101300000', 2, '0101000000']
+  ]);
+  assert.deepEqual(records.map(record => record.description), [
+    'LIVE ANIMALS',
+    'Live horses, asses, mules and hinnies',
+    'Pure-bred breeding animals',
+    'Other',
+    'For slaughter',
+    'Asses'
+  ]);
+  assert.deepEqual(records[2]?.notes, ['CD437: Pure-bred breeding animals need a pedigree certificate.']);
+  assert.deepEqual(records[4]?.notes, ['TN701']);
+});
+
+test('USA HTSUS: numbered lines with their indent, grouping texts skipped', async () => {
+  const records = await read(getCustomsBookAdapter('us-htsus'), 'us-htsus.json');
+  assert.deepEqual(tree(records), [
+    ['0101', 1, null],
+    ['01012100', 3, '0101'],
+    ['0101210010', 4, '01012100'],
+    ['0101210020', 4, '01012100'],
+    ['01012900', 3, '0101'],
+    ['0101300000', 2, '0101'],
+    ['0102', 1, null]
+  ]);
+  assert.deepEqual(records.map(record => record.description), [
+    'Live horses, asses, mules and hinnies:',
+    'Purebred breeding animals',
+    'Males',
+    'Females',
+    'Other',
+    'Asses (Equus asinus)',
+    'Live bovine animals:'
+  ]);
+  assert.deepEqual(records[4]?.notes, ['See subheading 9903.01.25.']);
+  assert.deepEqual(records[0]?.notes, []);
+});
@@ -0,0 +1,121 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the customs book sync with an in-memory store
+ *
+ * Books read the saved TARIC sample of fixtures/customs-books (or a missing file, to fail).
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { runSyncPass, syncBook, type SyncBook, type SyncOptions, type SyncStore } from '../scripts/customs-book-sync.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'customs-books');
+
+interface RecordedFailure {
+  status: 'pending' | 'failed';
+  retryCount: number;
+  nextSyncAt: Date;
+}
+
+// Store over a list of due books that records what the sync writes back
+const createMemoryStore = (books: SyncBook[]) => {
+  const failures: RecordedFailure[] = [];
+  const successes: Array<{ checksum: string; nextSyncAt: Date }> = [];
+  const errors: Array<{ message: string; severity: string }> = [];
+  const store: SyncStore = {
+    claimDueBook: async () => books.shift() ?? null,
+    recordSuccess: async (_book, checksum, _metadata, nextSyncAt) => {
+      successes.push({ checksum, nextSyncAt });
+    },
+    recordFailure: async (_book, status, retryCount, _message, nextSyncAt) => {
+      failures.push({ status, retryCount, nextSyncAt });
+    },
+    logError: async (_type, message, _stack, _context, severity) => {
+      errors.push({ message, severity });
+    }
+  };
+  return { store, failures, successes, errors };
+};
+
+// A claimed EU TARIC book reading the given sources
+const taricBook = (sources: string[], retryCount: number = 0): SyncBook => ({
+  id: 1,
+  countryCode: 'EU',
+  name: 'EU TARIC',
+  version: '2024',
+  dataSourceUrl: null,
+  status: 'in_progress',
+  retryCount,
+  maxRetries: 3,
+  checksum: null,
+  metadata: { sources }
+});
+
+// Sync options writing to a temporary directory, removed after the test
+const withOptions = async (run: (options: SyncOptions) => Promise<void>): Promise<void> => {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'customs-book-sync-'));
+  try {
+    await run({ dataDir, intervalDays: 30, retryBaseMinutes: 15, staleAfterMinutes: 360, transportMode: 'replay', fixturesDir: FIXTURES_DIR });
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+};
+
+const MISSING_SOURCE = path.join(FIXTURES_DIR, 'missing.xml');
+
+test('a synced book records the checksum of its records', async () => {
+  await withOptions(async (options) => {
+    const { store, successes } = createMemoryStore([]);
+    const outcome = await syncBook(store, taricBook([path.join(FIXTURES_DIR, 'eu-taric.xml')]), options);
+    assert.equal(outcome.status, 'success');
+    assert.equal(outcome.status === 'success' && outcome.records, 6);
+    assert.match(successes[0]!.checksum, /^[0-9a-f]{64}$/);
+  });
+});
+
+test('failures back off until the retries run out', async () => {
+  await withOptions(async (options) => {
+    const { store, failures, errors } = createMemoryStore([]);
+    await syncBook(store, taricBook([MISSING_SOURCE], 0), options);
+    await syncBook(store, taricBook([MISSING_SOURCE], 3), options);
+    assert.deepEqual(failures.map(failure => [failure.status, failure.retryCount]), [['pending', 1], ['failed', 4]]);
+    assert.deepEqual(errors.map(error => error.severity), ['error', 'critical']);
+  });
+});
+
+test('a book out of retries starts them over at its next regular sync', async () => {
+  await withOptions(async (options) => {
+    const { store, failures } = createMemoryStore([]);
+    const startedAt = Date.now();
+    const outcome = await syncBook(store, taricBook([MISSING_SOURCE], 4), options);
+    assert.equal(outcome.status, 'pending');
+    assert.equal(failures[0]?.retryCount, 1);
+    // First backoff step, not another regular interval
+    assert.ok(failures[0]!.nextSyncAt.getTime() - startedAt < 16 * 60 * 1000);
+  });
+});
+
+test('a pass syncs every due book', async () => {
+  await withOptions(async (options) => {
+    const { store } = createMemoryStore([taricBook([path.join(FIXTURES_DIR, 'eu-taric.xml')]), taricBook([MISSING_SOURCE])]);
+    const outcomes = await runSyncPass(store, options);
+    assert.deepEqual(outcomes.map(outcome => outcome.status), ['success', 'pending']);
+  });
+});
+
+test('a pass that fails has reported the books synced before', async () => {
+  await withOptions(async (options) => {
+    const { store } = createMemoryStore([taricBook([path.join(FIXTURES_DIR, 'eu-taric.xml')]), taricBook([MISSING_SOURCE])]);
+    store.recordFailure = async () => {
+      throw new Error('Connection terminated');
+    };
+    const reported: string[] = [];
+    await assert.rejects(runSyncPass(store, options, outcome => reported.push(outcome.status)), /^Error: Connection terminated$/);
+    assert.deepEqual(reported, ['success']);
+  });
+});
@@ -0,0 +1,63 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the edition comparison on the converted editions in fixtures/editions
+ *
+ * 0101_{EDITION}e.md is a chapter file holding several headings; between the editions a code of
+ * its second heading changes, a title changes, one heading is deleted and one added, and 01.04
+ * moves from its own file into the chapter file. 0100_{EDITION}e.md is a section file.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { compareEditions } from '../scripts/edition-diff.js';
+
+const DATA_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'editions');
+
+test('headings are compared by code across all the headings of a file', async () => {
+  const { changeSet } = await compareEditions(DATA_DIR, '2017', '2022', 'en');
+  assert.deepEqual(
+    changeSet.wco_headings.map(heading => [heading.wco_heading_code, heading.change]),
+    [['0102', 'amended'], ['0103', 'amended'], ['0105', 'new'], ['0106', 'deleted']]
+  );
+  assert.deepEqual(changeSet.summary.headings, { new: 1, deleted: 1, amended: 2, unchanged: 2 });
+
+  const swine = changeSet.wco_headings.find(heading => heading.wco_heading_code === '0103');
+  assert.equal(swine?.fromTitle, 'Live swine');
+  assert.equal(swine?.toTitle, 'Live swine, domestic or wild');
+  assert.equal(swine?.hsCodesChanged, 0);
+});
+
+test('HS codes of every heading in a chapter file are compared', async () => {
+  const { changeSet } = await compareEditions(DATA_DIR, '2017', '2022', 'en');
+  assert.deepEqual(changeSet.wco_hs_codes, [
+    { wco_hs_code_code: '010229', wco_heading_code: '0102', change: 'amended', fromDescription: 'Other', toDescription: 'Other cattle' },
+    { wco_hs_code_code: '010231', wco_heading_code: '0102', change: 'new', fromDescription: null, toDescription: 'Pure-bred breeding animals' },
+    { wco_hs_code_code: '010511', wco_heading_code: '0105', change: 'new', fromDescription: null, toDescription: 'Fowls of the species Gallus domesticus' },
+    { wco_hs_code_code: '010611', wco_heading_code: '0106', change: 'deleted', fromDescription: 'Primates', toDescription: null },
+    { wco_hs_code_code: '010690', wco_heading_code: '0106', change: 'deleted', fromDescription: 'Other', toDescription: null }
+  ]);
+});
+
+test('a heading that moved to another file is unchanged', async () => {
+  const { changeSet } = await compareEditions(DATA_DIR, '2017', '2022', 'en');
+  assert.equal(changeSet.wco_headings.some(heading => heading.wco_heading_code === '0104'), false);
+  assert.equal(changeSet.wco_hs_codes.some(hsCode => hsCode.wco_heading_code === '0104'), false);
+  // The file itself is gone
+  assert.deepEqual(changeSet.documents.find(document => document.document === '0104_{EDITION}e')?.change, 'deleted');
+});
+
+test('files are reported as documents with their Markdown diff', async () => {
+  const { changeSet, diffs } = await compareEditions(DATA_DIR, '2017', '2022', 'en');
+  assert.deepEqual(
+    changeSet.documents.map(document => [document.document, document.change, document.basis]),
+    [['0101_{EDITION}e', 'amended', 'markdown'], ['0104_{EDITION}e', 'deleted', 'markdown']]
+  );
+  // The unchanged section file is neither a document change nor a heading
+  assert.equal(changeSet.summary.documents.unchanged, 1);
+  assert.deepEqual([...diffs.keys()], ['0101_{EDITION}e', '0104_{EDITION}e']);
+  assert.match(diffs.get('0101_{EDITION}e')!, /^\+1\.- This Chapter covers all live animals except fish, crustaceans, molluscs/m);
+  assert.deepEqual(changeSet.warnings, []);
+});
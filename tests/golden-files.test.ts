@@ -0,0 +1,85 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the golden Markdown in golden/wco used by compare-converters.ts
+ *
+ * Every golden file must parse into the headings and HS codes of its PDF (so the codes and titles
+ * it adds to the expectations are right) and score as a perfect conversion of itself.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { isHeadingFile, parseNomenclatureMarkdown } from '../scripts/wco-nomenclature.js';
+import { buildExpectations, scoreMarkdown } from '../scripts/converter-quality.js';
+import { createComparisonReport, renderHtmlReport } from '../scripts/converter-report.js';
+
+const GOLDEN_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'golden', 'wco');
+
+// Golden files as paths relative to GOLDEN_DIR ("2022/en/0101_2022e.md")
+const listGoldenFiles = async (): Promise<string[]> => {
+  const files: string[] = [];
+  for (const edition of await fs.readdir(GOLDEN_DIR, { withFileTypes: true })) {
+    if (!edition.isDirectory()) {
+      continue;
+    }
+    for (const language of await fs.readdir(path.join(GOLDEN_DIR, edition.name))) {
+      for (const file of await fs.readdir(path.join(GOLDEN_DIR, edition.name, language))) {
+        if (file.endsWith('.md')) {
+          files.push(path.join(edition.name, language, file));
+        }
+      }
+    }
+  }
+  return files.sort();
+};
+
+test('golden files exist for the 2022 English sample', async () => {
+  assert.deepEqual(await listGoldenFiles(), [
+    '2022/en/0100_2022e.md',
+    '2022/en/0101_2022e.md',
+    '2022/en/0105_2022e.md',
+    '2022/en/0106_2022e.md'
+  ]);
+});
+
+test('heading golden files parse into their heading and HS codes', async () => {
+  const expected: Record<string, number> = { '0101': 4, '0105': 7, '0106': 13 };
+  for (const file of (await listGoldenFiles()).filter(file => isHeadingFile(path.basename(file)))) {
+    const markdown = await fs.readFile(path.join(GOLDEN_DIR, file), 'utf-8');
+    const document = parseNomenclatureMarkdown(markdown, file);
+    const heading = path.basename(file).slice(0, 4);
+    assert.deepEqual(document.wco_headings.map(entry => entry.wco_heading_code), [heading], file);
+    assert.equal(document.wco_hs_codes.length, expected[heading], file);
+    assert.deepEqual(document.warnings, [], file);
+  }
+});
+
+test('golden files have no page furniture and score as a perfect conversion of themselves', async () => {
+  for (const file of await listGoldenFiles()) {
+    const markdown = await fs.readFile(path.join(GOLDEN_DIR, file), 'utf-8');
+    assert.doesNotMatch(markdown, /<!--|^#+ Page \d+/m, file);
+    const pdfFile = path.basename(file).replace(/\.md$/, '.pdf');
+    const scores = scoreMarkdown(markdown, buildExpectations(pdfFile, [], markdown));
+    assert.equal(scores.cer, 0, file);
+    assert.equal(scores.hsCodes.recall, 1, file);
+    assert.equal(scores.headingTitles.recall, 1, file);
+  }
+});
+
+test('the comparison report warns about PDFs without a golden file', () => {
+  const report = createComparisonReport({
+    edition: '2022',
+    language: 'en',
+    goldenDir: 'golden/wco/2022/en',
+    goldenFiles: 1,
+    missingGolden: ['0102_2022e.pdf'],
+    tocSource: null,
+    files: ['0101_2022e.pdf', '0102_2022e.pdf'],
+    tools: [],
+    results: []
+  });
+  assert.match(renderHtmlReport(report), /<p class="warning">⚠️ No golden file for 1 of 2 PDFs, their CER is not measured: 0102_2022e\.pdf\./);
+});
@@ -0,0 +1,258 @@
+/// <reference types="node" />
+
+/**
+ * Offline tests for the record/replay transport and the download core
+ *
+ * The exchanges in fixtures/wco-http are hand-written in the record format (see http-transport.ts):
+ * the landing page setting session cookies, a relative redirect, a 404, a redirect to the error
+ * page, a 403 block page and a 429 followed by the PDF.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { AddressInfo } from 'net';
+import { createTransport, loadFixtures, type Transport } from '../scripts/http-transport.js';
+import { createHttpSession, downloadFile, downloadItem, type DownloadContext } from '../scripts/download-core.js';
+import { createRateLimiter } from '../scripts/download-engine.js';
+import { openJournal } from '../scripts/download-journal.js';
+import { loadManifest, MANIFEST_FILENAME, recordDownload, saveManifest } from '../scripts/download-manifest.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'wco-http');
+const BASE_URL = 'https://www.wcoomd.org/-/media/wco/public/global/pdf/topics/nomenclature/instruments-and-tools/hs-nomenclature-2022/2022/';
+const LANDING_URL = 'https://www.wcoomd.org/en/topics/nomenclature/instrument-and-tools/hs-nomenclature-2022-edition/hs-nomenclature-2022-edition.aspx';
+
+// Temporary output directory, removed after the test
+const withTempDir = async (run: (dir: string) => Promise<void>): Promise<void> => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-transport-'));
+  try {
+    await run(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+};
+
+// Replay transport over the fixtures, closed after the test
+const withReplay = async (run: (transport: Transport) => Promise<void>): Promise<void> => {
+  const transport = await createTransport({ mode: 'replay', fixturesDir: FIXTURES_DIR });
+  try {
+    await run(transport);
+  } finally {
+    await transport.close();
+  }
+};
+
+// Download one fixture URL with an established session and no delays
+const download = async (transport: Transport, filename: string, outputDir: string, retries: number = 1) => {
+  const session = createHttpSession(LANDING_URL, transport);
+  const referer = await session.establish();
+  return downloadFile(BASE_URL + filename, path.join(outputDir, filename), {
+    transport,
+    session,
+    referer,
+    retries,
+    limiter: createRateLimiter({ minIntervalMs: 0 })
+  });
+};
+
+test('session keeps the landing page cookies and sends them with downloads', async () => {
+  await withReplay(async (transport) => {
+    const session = createHttpSession(LANDING_URL, transport);
+    assert.equal(await session.establish(), LANDING_URL);
+    assert.equal(session.cookies(), 'ASP.NET_SessionId=k2v4c1session; SC_ANALYTICS_GLOBAL_COOKIE=9f1c2e7a');
+
+    const headers = await session.getHeaders(LANDING_URL);
+    assert.equal(headers['Cookie'], 'ASP.NET_SessionId=k2v4c1session; SC_ANALYTICS_GLOBAL_COOKIE=9f1c2e7a');
+    assert.equal(headers['Referer'], LANDING_URL);
+    // The landing page itself is requested without cookies
+    assert.equal(transport.replayLog[0]?.headers['cookie'], undefined);
+  });
+});
+
+test('relative redirects are followed with the previous URL as referer', async () => {
+  await withTempDir(async (dir) => {
+    await withReplay(async (transport) => {
+      const result = await download(transport, '0101_2022e.pdf', dir);
+      assert.equal(result.success, true);
+      assert.equal(result.status, 200);
+      assert.equal(result.finalUrl, `${BASE_URL}0101_2022e.pdf?la=en`);
+      assert.equal(result.etag, '"0101-2022"');
+      assert.equal(result.attempts, 1);
+      assert.equal(result.size, (await fs.stat(path.join(FIXTURES_DIR, 'heading.body'))).size);
+
+      const [landing, first, hop] = transport.replayLog;
+      assert.equal(landing?.url, LANDING_URL);
+      assert.equal(first?.url, `${BASE_URL}0101_2022e.pdf`);
+      assert.equal(hop?.url, `${BASE_URL}0101_2022e.pdf?la=en`);
+      assert.equal(hop?.headers['referer'], `${BASE_URL}0101_2022e.pdf`);
+      assert.match(String(hop?.headers['cookie']), /ASP\.NET_SessionId=k2v4c1session/);
+    });
+  });
+});
+
+test('404 and redirects to the error page are reported as not found', async () => {
+  await withTempDir(async (dir) => {
+    await withReplay(async (transport) => {
+      const missing = await download(transport, '0102_2022e.pdf', dir);
+      assert.equal(missing.success, false);
+      assert.equal(missing.status, 404);
+      assert.equal(missing.errorClass, 'not-found');
+
+      const errorPage = await download(transport, '0103_2022e.pdf', dir);
+      assert.equal(errorPage.status, 404);
+      assert.equal(errorPage.error, 'Not Found (redirected to error page)');
+      assert.equal(errorPage.errorClass, 'not-found');
+      assert.deepEqual(await fs.readdir(dir), []);
+    });
+  });
+});
+
+test('403 is reported as blocked without replacing the local copy', async () => {
+  await withTempDir(async (dir) => {
+    await fs.writeFile(path.join(dir, '0104_2022e.pdf'), 'previous copy');
+    await withReplay(async (transport) => {
+      const result = await download(transport, '0104_2022e.pdf', dir);
+      assert.equal(result.success, false);
+      assert.equal(result.status, 403);
+      assert.equal(result.errorClass, 'blocked');
+      assert.equal(await fs.readFile(path.join(dir, '0104_2022e.pdf'), 'utf-8'), 'previous copy');
+    });
+  });
+});
+
+test('429 is retried after Retry-After and then downloads', async () => {
+  await withTempDir(async (dir) => {
+    await withReplay(async (transport) => {
+      const result = await download(transport, '0105_2022e.pdf', dir, 3);
+      assert.equal(result.success, true);
+      assert.equal(result.attempts, 2);
+      assert.equal(transport.replayLog.filter(request => request.url === `${BASE_URL}0105_2022e.pdf`).length, 2);
+    });
+  });
+});
+
+test('429 is reported as rate limited when retries run out', async () => {
+  await withTempDir(async (dir) => {
+    await withReplay(async (transport) => {
+      const result = await download(transport, '0105_2022e.pdf', dir, 1);
+      assert.equal(result.success, false);
+      assert.equal(result.status, 429);
+      assert.equal(result.errorClass, 'rate-limited');
+    });
+  });
+});
+
+test('--resume skips completed files and expected 404s, and downloads modified copies again', async () => {
+  await withTempDir(async (dir) => {
+    const createContext = async (transport: Transport): Promise<DownloadContext> => {
+      const session = createHttpSession(LANDING_URL, transport);
+      return {
+        tool: 'test',
+        options: { retries: 1, resume: true, dryRun: false, verbose: false, checkExisting: false, skipExisting: false },
+        outputDir: dir,
+        manifest: await loadManifest(dir, '2022'),
+        transport,
+        session,
+        limiter: createRateLimiter({ minIntervalMs: 0 }),
+        referer: await session.establish(),
+        journal: await openJournal(dir)
+      };
+    };
+    const item = (ctx: DownloadContext, filename: string, notFoundExpected: boolean = false) =>
+      downloadItem(ctx, BASE_URL + filename, filename, path.join(dir, filename), notFoundExpected);
+
+    await withReplay(async (transport) => {
+      const ctx = await createContext(transport);
+      assert.equal((await item(ctx, '0101_2022e.pdf')).outcome, 'downloaded');
+      assert.equal((await item(ctx, '0102_2022e.pdf', true)).outcome, 'not-found');
+      assert.equal((await item(ctx, '0104_2022e.pdf')).outcome, 'failed');
+    });
+
+    await withReplay(async (transport) => {
+      const ctx = await createContext(transport);
+      assert.equal((await item(ctx, '0101_2022e.pdf')).outcome, 'resumed');
+      assert.equal((await item(ctx, '0102_2022e.pdf', true)).outcome, 'resumed');
+      // Failures are retried
+      assert.equal((await item(ctx, '0104_2022e.pdf')).outcome, 'failed');
+      assert.deepEqual(transport.replayLog.map(request => request.url), [LANDING_URL, `${BASE_URL}0104_2022e.pdf`]);
+    });
+
+    // A truncated local copy no longer counts as completed
+    await fs.truncate(path.join(dir, '0101_2022e.pdf'), 100);
+    await withReplay(async (transport) => {
+      const ctx = await createContext(transport);
+      assert.equal((await item(ctx, '0101_2022e.pdf')).outcome, 'downloaded');
+    });
+  });
+});
+
+test('concurrent manifest saves leave the last state and no temp file', async () => {
+  await withTempDir(async (dir) => {
+    const manifest = await loadManifest(dir, '2022');
+    await Promise.all(['0101_2022e.pdf', '0102_2022e.pdf', '0103_2022e.pdf'].map((filename, i) => {
+      recordDownload(manifest, {
+        filename, url: BASE_URL + filename, sha256: String(i).repeat(64), etag: null, lastModified: null, size: 100 + i, httpStatus: 200
+      });
+      return saveManifest(dir, manifest);
+    }));
+    assert.deepEqual(await fs.readdir(dir), [MANIFEST_FILENAME]);
+    assert.deepEqual(Object.keys((await loadManifest(dir, '2022')).files), ['0101_2022e.pdf', '0102_2022e.pdf', '0103_2022e.pdf']);
+  });
+});
+
+test('record mode stores exchanges that replay serves back', async () => {
+  await withTempDir(async (dir) => {
+    const server = http.createServer((req, res) => {
+      if (req.url === '/old.pdf') {
+        res.writeHead(301, { location: '/new.pdf', 'set-cookie': 'visited=1; path=/' });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/pdf' });
+      res.end('%PDF-1.4 recorded body');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // GET through a transport and collect status, headers and body
+    const fetch = (transport: Transport, url: string) => new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }>((resolve, reject) => {
+      transport.get(url, {}, (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve({ status: response.statusCode || 0, headers: response.headers, body: Buffer.concat(chunks).toString() }));
+      }).on('error', reject);
+    });
+
+    try {
+      const recorder = await createTransport({ mode: 'record', fixturesDir: dir });
+      await fetch(recorder, `${origin}/old.pdf`);
+      await fetch(recorder, `${origin}/new.pdf`);
+      await recorder.close();
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    const fixtures = await loadFixtures(dir);
+    assert.deepEqual([...fixtures.keys()].sort(), [`GET ${origin}/new.pdf`, `GET ${origin}/old.pdf`]);
+    assert.equal(fixtures.get(`GET ${origin}/old.pdf`)?.[0]?.response.status, 301);
+
+    // The origin server is gone: replay answers from the fixtures alone
+    const replay = await createTransport({ mode: 'replay', fixturesDir: dir });
+    try {
+      const redirect = await fetch(replay, `${origin}/old.pdf`);
+      assert.equal(redirect.status, 301);
+      assert.equal(redirect.headers.location, '/new.pdf');
+      assert.deepEqual(redirect.headers['set-cookie'], ['visited=1; path=/']);
+      assert.equal((await fetch(replay, `${origin}/new.pdf`)).body, '%PDF-1.4 recorded body');
+      const miss = await fetch(replay, `${origin}/other.pdf`);
+      assert.equal(miss.status, 404);
+      assert.equal(miss.headers['x-replay-miss'], '1');
+    } finally {
+      await replay.close();
+    }
+  });
+});
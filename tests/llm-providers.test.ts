@@ -0,0 +1,80 @@
+/// <reference types="node" />
+
+/**
+ * Offline tests for the LLM providers on the API answers in fixtures/llm-http
+ *
+ * The exchanges are hand-written in the record format (see http-transport.ts): an OpenAI answer
+ * and a truncated one without content or usage, an Anthropic answer split by a tool_use part and
+ * an Anthropic error, a Gemini answer in two parts, and an xAI error with a string message.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { createTransport, type Transport } from '../scripts/http-transport.js';
+import { createLlmProvider, type LlmProviderId, type LlmRequest } from '../scripts/llm-providers.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'llm-http');
+
+const ANSWER = '{"headings":[{"code":"01.01","title":"Live horses, asses, mules and hinnies.","notes":null}],"subheadings":[],"notes":[],"rules":[]}';
+
+const request = (model: string): LlmRequest => ({
+  model,
+  system: 'Extract the headings.',
+  messages: [{ role: 'user', content: '<document>\n### 01.01 Live horses, asses, mules and hinnies.\n</document>' }],
+  temperature: 0,
+  maxTokens: 1024
+});
+
+// Replay transport over the fixtures, closed after the test
+const withReplay = async (run: (transport: Transport) => Promise<void>): Promise<void> => {
+  const transport = await createTransport({ mode: 'replay', fixturesDir: FIXTURES_DIR });
+  try {
+    await run(transport);
+  } finally {
+    await transport.close();
+  }
+};
+
+// Text, model and token counts of one call
+const generate = async (transport: Transport, id: LlmProviderId, model: string) => {
+  const provider = await createLlmProvider(id, { apiKey: 'test-key', transport, maxRetries: 0 });
+  const { text, model: answeredBy, inputTokens, outputTokens } = await provider.generate(request(model));
+  return { text, model: answeredBy, inputTokens, outputTokens };
+};
+
+test('OpenAI: text of the first choice and its usage, defaults for a truncated answer', async () => {
+  await withReplay(async (transport) => {
+    assert.deepEqual(await generate(transport, 'openai', 'gpt-4o-mini'), {
+      text: ANSWER, model: 'gpt-4o-mini-2024-07-18', inputTokens: 812, outputTokens: 46
+    });
+    assert.deepEqual(await generate(transport, 'openai', 'gpt-4o-mini'), {
+      text: '', model: 'gpt-4o-mini', inputTokens: 0, outputTokens: 0
+    });
+  });
+});
+
+test('Anthropic: text parts joined without the tool_use part, error message of an error body', async () => {
+  await withReplay(async (transport) => {
+    assert.deepEqual(await generate(transport, 'anthropic', 'claude-3-5-haiku-20241022'), {
+      text: ANSWER, model: 'claude-3-5-haiku-20241022', inputTokens: 790, outputTokens: 52
+    });
+    await assert.rejects(generate(transport, 'anthropic', 'claude-3-5-haiku-20241022'),
+      /^Error: HTTP 400: max_tokens: must be greater than or equal to 1$/);
+  });
+});
+
+test('Google: parts of the first candidate joined, model version and usage metadata', async () => {
+  await withReplay(async (transport) => {
+    assert.deepEqual(await generate(transport, 'google', 'gemini-1.5-flash'), {
+      text: ANSWER, model: 'gemini-1.5-flash-002', inputTokens: 805, outputTokens: 49
+    });
+  });
+});
+
+test('xAI: an error given as a string is reported as is', async () => {
+  await withReplay(async (transport) => {
+    await assert.rejects(generate(transport, 'xai', 'grok-2-1212'), /^Error: HTTP 400: Incorrect API key provided: xa\*\*\*00\.$/);
+  });
+});
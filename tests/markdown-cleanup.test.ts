@@ -0,0 +1,59 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the page furniture removal of the cleanup pass on short documents
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cleanupMarkdown } from '../scripts/markdown-cleanup.js';
+
+test('a 1-page document loses the known WCO furniture and keeps its content', () => {
+  const result = cleanupMarkdown([
+    '<!-- Page 1 -->',
+    'I-01-1',
+    '### 01.04 Live sheep and goats.',
+    '0104.10 - Sheep',
+    '0104.20 - Goats',
+    '© 2022 World Customs Organization',
+    'Page 1 of 1'
+  ].join('\n'));
+  assert.equal(result.markdown, '### 01.04 Live sheep and goats.\n0104.10 - Sheep\n0104.20 - Goats\n');
+  assert.deepEqual(result.furniture.map(line => line.text), ['I-01-1', '© 2022 World Customs Organization', 'Page 1 of 1']);
+});
+
+test('a 2-page document loses the lines at the edges of both pages', () => {
+  const result = cleanupMarkdown([
+    '<!-- Page 1 -->',
+    'Harmonized System Nomenclature 2022 Edition',
+    '### 01.06 Other live animals.',
+    '- Mammals :',
+    '0106.11 - - Primates',
+    'Chapter 1 - sheet 1',
+    '<!-- Page 2 -->',
+    'Harmonized System Nomenclature 2022 Edition',
+    '0106.90 - Other',
+    'Chapter 1 - sheet 2'
+  ].join('\n'));
+  assert.equal(result.markdown, '### 01.06 Other live animals.\n- Mammals :\n0106.11 - - Primates\n\n0106.90 - Other\n');
+  assert.deepEqual(result.furniture, [
+    { text: 'Harmonized System Nomenclature 2022 Edition', pages: 2 },
+    { text: 'Chapter 1 - sheet 1', pages: 2 }
+  ]);
+});
+
+test('lines at an edge of one page only are kept', () => {
+  const result = cleanupMarkdown([
+    '<!-- Page 1 -->',
+    'Note.',
+    '1.- This Chapter covers all live animals except:',
+    '<!-- Page 2 -->',
+    '(c) Animals of heading 95.08.'
+  ].join('\n'));
+  assert.deepEqual(result.furniture, []);
+  assert.equal(result.markdown, 'Note.\n1.- This Chapter covers all live animals except:\n\n(c) Animals of heading 95.08.\n');
+
+  const single = cleanupMarkdown('<!-- Page 1 -->\nNote.\n1.- This Chapter covers all live animals except:\n');
+  assert.deepEqual(single.furniture, []);
+  assert.equal(single.markdown, 'Note.\n1.- This Chapter covers all live animals except:\n');
+});
@@ -0,0 +1,127 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the reading order of right-to-left text (pdf-bidi.ts) and the pdfjs layout engine on
+ * the sample pages in fixtures/pdf-bidi
+ *
+ * hebrew-page.pdf is a Hebrew tariff page (an English running header, a chapter title, a note
+ * quoting a heading number, a heading with its HS codes); mixed-page.pdf has an English line
+ * quoting Hebrew, Hebrew lines quoting English, rates and dates, and rows with a code, a rate and
+ * a description column. Both draw one text item per word, in visual order.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { readingColumns, readingOrder, readingStart, textDirection } from '../scripts/pdf-bidi.js';
+import { convertPdfLayout, groupLines, type TextSpan } from '../scripts/pdf-layout.js';
+import { extractPdfLines } from '../scripts/customs-book-adapters.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'pdf-bidi');
+
+// Items of one line from [x, text] pairs (8 points per character)
+const items = (...parts: Array<[number, string]>): TextSpan[] =>
+  parts.map(([x, text]) => ({ text, x, y: 700, width: 8 * text.length, fontSize: 10, bold: false, font: 'F1' }));
+
+const texts = (spans: Array<{ text: string }>): string[] => spans.map(span => span.text);
+
+const readSample = (file: string): Promise<Buffer> => fs.readFile(path.join(FIXTURES_DIR, file));
+
+test('a line is RTL when it has more Hebrew than Latin letters', () => {
+  assert.equal(textDirection('סוסים, חמורים, פרדות ופרדים, חיים'), 'rtl');
+  assert.equal(textDirection('01.01 Live horses (סוסים)'), 'ltr');
+  assert.equal(textDirection('0101.21'), 'ltr');
+});
+
+test('an RTL line reads right to left and keeps codes, numbers and English runs left to right', () => {
+  // Visual order: "01.01.2100/5 פרט לפי Live horses על 12% של מכס"
+  const line = items([10, '01.01.2100/5'], [114, 'פרט'], [146, 'לפי'], [178, 'Live'], [214, 'horses'], [266, 'על'],
+    [286, '12%'], [318, 'של'], [338, 'מכס']);
+  assert.deepEqual(texts(readingOrder(line, 'rtl')), ['מכס', 'של', '12%', 'על', 'Live', 'horses', 'לפי', 'פרט', '01.01.2100/5']);
+});
+
+test('an LTR line reads a Hebrew run right to left', () => {
+  const line = items([10, 'See'], [42, 'heading'], [106, '01.01'], [154, 'חיים'], [194, 'סוסים'], [242, 'for']);
+  assert.deepEqual(texts(readingOrder(line, 'ltr')), ['See', 'heading', '01.01', 'סוסים', 'חיים', 'for']);
+});
+
+test('columns of an RTL row are read from the right whatever their text', () => {
+  // Description | rate | code, apart by column gaps; the rate and code are both numbers
+  const row = items([100, 'גזעיים'], [156, 'לרבייה'], [300, '12%'], [400, '01.01.2100/5']);
+  assert.deepEqual(readingColumns(row, 'rtl', 1.5).map(texts), [['01.01.2100/5'], ['12%'], ['לרבייה', 'גזעיים']]);
+  assert.deepEqual(texts(groupLines(row, 1)[0]!.spans), ['01.01.2100/5', '12%', 'לרבייה גזעיים']);
+});
+
+test('a run of the other direction stays in its span', () => {
+  const [line] = groupLines(items([10, 'See'], [42, 'heading'], [106, '01.01'], [154, 'חיים'], [194, 'סוסים'], [242, 'for']), 1);
+  assert.equal(line?.dir, 'ltr');
+  assert.deepEqual(texts(line!.spans), ['See heading 01.01 סוסים חיים for']);
+});
+
+test('reading positions grow in reading order for both directions', () => {
+  const right = { x: 400, width: 96 };
+  const left = { x: 100, width: 104 };
+  assert.ok(readingStart(right, 'rtl') < readingStart(left, 'rtl'));
+  assert.ok(readingStart(left, 'ltr') < readingStart(right, 'ltr'));
+  assert.equal(readingStart(right, 'rtl'), -496);
+});
+
+test('Hebrew sample: lines in logical order with HS codes and numbers in place', async () => {
+  assert.deepEqual(await extractPdfLines(await readSample('hebrew-page.pdf')), [
+    'Israel Customs Tariff',
+    'פרק 1 - בעלי חיים חיים',
+    'פרק זה כולל את כל בעלי החיים החיים למעט דגים של פרט 03.01',
+    '01.01 סוסים, חמורים, פרדות ופרדים, חיים',
+    '0101.21 - - גזעיים לרבייה',
+    '0101.29 - - אחרים, במשקל עד 300 ק"ג',
+    '0101.30 - חמורים'
+  ]);
+});
+
+test('Hebrew sample: the pdfjs engine wraps the Hebrew blocks in dir="rtl"', async () => {
+  const { markdown, document } = await convertPdfLayout(new Uint8Array(await readSample('hebrew-page.pdf')));
+  assert.equal(markdown, [
+    '<!-- Page 1 -->',
+    '',
+    'Israel Customs Tariff',
+    '',
+    '<div dir="rtl">',
+    '',
+    '# פרק 1 - בעלי חיים חיים',
+    '',
+    'פרק זה כולל את כל בעלי החיים החיים למעט דגים של פרט 03.01',
+    '',
+    '### 01.01 סוסים, חמורים, פרדות ופרדים, חיים',
+    '',
+    '|  |  |',
+    '| --- | --- |',
+    '| 0101.21 | - - גזעיים לרבייה |',
+    '| 0101.29 | - - אחרים, במשקל עד 300 ק"ג |',
+    '| 0101.30 | - חמורים |',
+    '',
+    '</div>',
+    ''
+  ].join('\n'));
+  const lines = document.pages[0]!.lines;
+  assert.deepEqual(lines.map(line => line.dir), ['ltr', 'rtl', 'rtl', 'rtl', 'rtl', 'rtl', 'rtl']);
+  // The code column comes first in reading order
+  assert.deepEqual(texts(lines[4]!.spans), ['0101.21', '- - גזעיים לרבייה']);
+});
+
+test('mixed sample: embedded runs, rates, dates and code columns in reading order', async () => {
+  assert.deepEqual(await extractPdfLines(await readSample('mixed-page.pdf')), [
+    'See heading 01.01 סוסים חיים for horses.',
+    'מכס של 12% על Live horses לפי פרט 01.01.2100/5',
+    'בתוקף מיום 01/01/2022 עד 31/12/2026',
+    '01.01.2100/5 0% סוסים גזעיים לרבייה',
+    '01.01.2910/3 12% סוסי מרוץ ורכיבה אחרים'
+  ]);
+
+  const { markdown } = await convertPdfLayout(new Uint8Array(await readSample('mixed-page.pdf')));
+  // The English line stays outside the RTL block, the rows become an RTL table
+  assert.match(markdown, /^See heading 01\.01 סוסים חיים for horses\.\n\n<div dir="rtl">\n/m);
+  assert.match(markdown, /\n\| 01\.01\.2100\/5 \| 0% \| סוסים גזעיים לרבייה \|\n\| 01\.01\.2910\/3 \| 12% \| סוסי מרוץ ורכיבה אחרים \|\n\n<\/div>\n$/);
+  assert.equal(markdown.match(/<div dir="rtl">/g)?.length, 1);
+});
@@ -0,0 +1,122 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the General Rules for Interpretation extractor on the converted sample in fixtures/wco-gir
+ *
+ * 0001_2022e-gir.md has the six rules as numbered paragraphs and a Markdown heading (Rule 6),
+ * with page markers, and line wraps that look like rule starts: "Rule 3." alone on a line,
+ * "3 (a), shall be ...", "3 (a) or 3 (b), they shall ..." and "(a) above, packing ...".
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { citeGirRule, diffGirRules, formatGirCitation, parseGirMarkdown } from '../scripts/wco-gir.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'wco-gir');
+
+const readSample = (): Promise<string> => fs.readFile(path.join(FIXTURES_DIR, '0001_2022e-gir.md'), 'utf-8');
+
+// Sub-rule keys of every rule that has some
+const subruleKeys = (rules: ReturnType<typeof parseGirMarkdown>['rules']) =>
+  Object.fromEntries(Object.entries(rules).filter(([, rule]) => rule.subrules).map(([key, rule]) => [key, Object.keys(rule.subrules!)]));
+
+test('the six rules with sub-rules 2 (a)(b), 3 (a)-(c) and 5 (a)(b), wrapped lines joined', async () => {
+  const { rules, warnings } = parseGirMarkdown(await readSample());
+  assert.deepEqual(warnings, []);
+  assert.deepEqual(Object.keys(rules), ['rule_1', 'rule_2', 'rule_3', 'rule_4', 'rule_5', 'rule_6']);
+  assert.deepEqual(subruleKeys(rules), { rule_2: ['2a', '2b'], rule_3: ['3a', '3b', '3c'], rule_5: ['5a', '5b'] });
+  assert.equal(rules.rule_1!.text, 'The titles of Sections, Chapters and sub-Chapters are provided for ease of reference only; ' +
+    'for legal purposes, classification shall be determined according to the terms of the headings and any relative Section ' +
+    'or Chapter Notes and, provided such headings or Notes do not otherwise require, according to the following provisions :');
+  assert.equal(rules.rule_6!.title, 'Rule 6');
+  assert.match(rules.rule_6!.text, /^For legal purposes, .* any related Subheading Notes\.$/);
+  // Every sub-rule starts its own line of the rule text
+  assert.deepEqual(rules.rule_3!.text.split('\n').map(line => line.substring(0, 12)), ['When by appl', '(a) The head', '(b) Mixtures', '(c) When goo']);
+});
+
+test('references to rules inside the text do not start a rule or sub-rule', async () => {
+  const { rules } = parseGirMarkdown(await readSample());
+  assert.match(rules.rule_2!.subrules!['2b']!.text, / according to the principles of Rule 3\.$/);
+  assert.equal(rules.rule_3!.subrules!['3b']!.text, 'Mixtures, composite goods consisting of different materials or made up of ' +
+    'different components, which cannot be classified by reference to 3 (a), shall be classified as if they consisted of the ' +
+    'material or component which gives them their essential character, insofar as this criterion is applicable.');
+  assert.equal(rules.rule_3!.subrules!['3c']!.text, 'When goods cannot be classified by reference to 3 (a) or 3 (b), they ' +
+    'shall be classified under the heading which occurs last in numerical order among those which equally merit consideration.');
+  assert.equal(rules.rule_5!.subrules!['5b']!.text, 'Subject to the provisions of Rule 5 (a) above, packing materials and ' +
+    'packing containers presented with the goods therein shall be classified with the goods if they are of a kind normally ' +
+    'used for packing such goods.');
+});
+
+test('rules and sub-rules are cited verbatim', async () => {
+  const { rules } = parseGirMarkdown(await readSample());
+  assert.equal(citeGirRule(rules, '4'), rules.rule_4);
+  assert.equal(citeGirRule(rules, 'rule_3'), rules.rule_3);
+  for (const reference of ['3 (b)', '3(b)', '3b', 'Rule 3 (b)']) {
+    assert.equal(citeGirRule(rules, reference), rules.rule_3!.subrules!['3b'], reference);
+  }
+  assert.equal(citeGirRule(rules, '4 (a)'), null);
+  assert.equal(citeGirRule(rules, '7'), null);
+  assert.equal(formatGirCitation(rules, '3 (a)'),
+    'Rule 3 (a): "The heading which provides the most specific description shall be preferred to headings providing a more general description."');
+});
+
+test('French markers "a)" are read and kept as printed', () => {
+  const { rules, warnings } = parseGirMarkdown([
+    '1. Le libellé des titres de Sections, de Chapitres ou de Sous-Chapitres est considéré comme n\'ayant qu\'une valeur indicative.',
+    '2. a) Toute référence à un article dans une position déterminée couvre cet article même incomplet ou non fini.',
+    'b) Toute mention d\'une matière dans une position déterminée se rapporte à cette matière soit à l\'état pur, soit',
+    'mélangée ou bien associée à d\'autres matières.'
+  ].join('\n'), 'fr');
+  assert.deepEqual(rules.rule_2!.subrules, {
+    '2a': { title: 'Règle 2 a)', text: 'Toute référence à un article dans une position déterminée couvre cet article même incomplet ou non fini.' },
+    '2b': { title: 'Règle 2 b)', text: 'Toute mention d\'une matière dans une position déterminée se rapporte à cette matière soit à l\'état pur, soit mélangée ou bien associée à d\'autres matières.' }
+  });
+  assert.match(rules.rule_2!.text, /^a\) Toute référence .*\nb\) Toute mention /);
+  assert.equal(rules.rule_1!.title, 'Règle 1');
+  assert.deepEqual(warnings, ['Rule 3 not found', 'Rule 4 not found', 'Rule 5 not found', 'Rule 6 not found']);
+});
+
+test('missing and unexpected sub-rules are reported', () => {
+  const { rules, warnings } = parseGirMarkdown([
+    '1. Titles are for ease of reference only.',
+    '2. (a) Any reference to an article.',
+    '(b) Any reference to a material.',
+    '3. When goods are classifiable under two or more headings :',
+    '(a) The most specific description.',
+    '(b) Essential character.',
+    '4. (a) Goods most akin.',
+    '5. (a) Cases.',
+    '6. Subheadings.'
+  ].join('\n'));
+  assert.deepEqual(warnings, [
+    'Rule 3: expected sub-rules (a) (b) (c), found (a) (b)',
+    'Rule 4: expected sub-rules none, found (a)',
+    'Rule 5: expected sub-rules (a) (b), found (a)'
+  ]);
+  // Whatever was found is returned
+  assert.deepEqual(Object.keys(rules.rule_3!.subrules!), ['3a', '3b']);
+});
+
+test('an amended rule is diffed line by line, one sub-rule per line', async () => {
+  const markdown = await readSample();
+  const { rules: before } = parseGirMarkdown(markdown.replace('gun cases, ', ''));
+  const { rules: after } = parseGirMarkdown(markdown);
+  const changes = diffGirRules(before, after);
+  assert.deepEqual(changes.map(change => [change.rule, change.change]), [
+    ['rule_1', 'unchanged'], ['rule_2', 'unchanged'], ['rule_3', 'unchanged'],
+    ['rule_4', 'unchanged'], ['rule_5', 'amended'], ['rule_6', 'unchanged']
+  ]);
+  const diff = changes[4]!.diff!.split('\n');
+  assert.deepEqual(diff.slice(0, 2), ['--- a/rule_5', '+++ b/rule_5']);
+  assert.deepEqual(diff.filter(line => /^[-+][^-+]/.test(line)).map(line => line.substring(0, 46)), [
+    '-(a) Camera cases, musical instrument cases, d',
+    '+(a) Camera cases, musical instrument cases, g'
+  ]);
+
+  const { rule_6: _removed, ...withoutRule6 } = after;
+  assert.deepEqual(diffGirRules(withoutRule6, after).at(-1), { rule: 'rule_6', change: 'new', diff: null });
+  assert.deepEqual(diffGirRules(after, withoutRule6).at(-1), { rule: 'rule_6', change: 'deleted', diff: null });
+});
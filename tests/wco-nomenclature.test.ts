@@ -0,0 +1,191 @@
+/// <reference types="node" />
+
+/**
+ * Tests for the rule-based heading file parser on the converted samples in fixtures/wco-nomenclature
+ *
+ * lines.md has headings and codes as text lines (a Markdown heading whose title wraps, groups,
+ * a wrapped description with its unit on the next line, and a heading without subdivisions
+ * wrapping onto a second line); table.md is the same kind of listing as a GFM table with a unit
+ * column. The document model and the warnings are built inline.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  flattenHsCodes,
+  parseNomenclatureDocument,
+  parseNomenclatureMarkdown,
+  type NomenclatureNode
+} from '../scripts/wco-nomenclature.js';
+import type { DocumentModel } from '../scripts/pdf-document.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'wco-nomenclature');
+
+const parseSample = async (file: string) =>
+  parseNomenclatureMarkdown(await fs.readFile(path.join(FIXTURES_DIR, file), 'utf-8'), file);
+
+// Tree as [description, level, children] for groups and [dotted, level, description, unit] for codes
+const outline = (nodes: NomenclatureNode[]): unknown[] => nodes.map(node =>
+  (node.type === 'group' ? [node.description, node.level, outline(node.children)] : [node.dotted, node.level, node.description, node.unit]));
+
+test('text lines: headings, groups by dash level, units and wrapped lines', async () => {
+  const document = await parseSample('lines.md');
+  assert.deepEqual(document.warnings, []);
+  assert.deepEqual(document.wco_headings, [
+    { wco_chapter_number: 1, wco_heading_code: '0101', wco_heading_title: 'Live horses, asses, mules and hinnies', wco_heading_notes: null },
+    {
+      wco_chapter_number: 5,
+      wco_heading_code: '0501',
+      wco_heading_title: 'Human hair, unworked, whether or not washed or scoured; waste of human hair',
+      wco_heading_notes: null
+    }
+  ]);
+  assert.deepEqual(outline(document.headings[0]!.children), [
+    ['Horses', 1, [
+      ['0101.21', 2, 'Pure-bred breeding animals', 'u'],
+      ['0101.29', 2, 'Other', 'u']
+    ]],
+    ['0101.30', 1, 'Asses', 'u'],
+    ['0101.90', 1, 'Other, including animals of a travelling menagerie', 'u']
+  ]);
+  assert.deepEqual(outline(document.headings[1]!.children), [
+    ['0501.00', 0, 'Human hair, unworked, whether or not washed or scoured; waste of human hair.', 'kg']
+  ]);
+  // Wrapped lines are sources of what they continue
+  assert.deepEqual(document.headings[0]!.source, ['L3', 'L4']);
+  assert.deepEqual(flattenHsCodes(document.headings[0]!.children).at(-1)?.source, ['L10', 'L11']);
+});
+
+test('GFM table rows: code, description and unit cells, header row dropped', async () => {
+  const document = await parseSample('table.md');
+  assert.deepEqual(document.warnings, []);
+  assert.deepEqual(document.wco_headings.map(heading => [heading.wco_heading_code, heading.wco_heading_title]), [['0102', 'Live bovine animals']]);
+  assert.deepEqual(outline(document.headings[0]!.children), [
+    ['Cattle', 1, [
+      ['0102.21', 2, 'Pure-bred breeding animals', 'u'],
+      ['0102.29', 2, 'Other', 'u']
+    ]],
+    ['Buffalo', 1, [
+      ['0102.31', 2, 'Pure-bred breeding animals', 'u'],
+      ['0102.39', 2, 'Other', 'u']
+    ]],
+    ['0102.90', 1, 'Other', 'u']
+  ]);
+  assert.deepEqual(document.wco_hs_codes[0], {
+    wco_heading_code: '0102',
+    wco_hs_code_code: '010221',
+    wco_hs_code_description: 'Pure-bred breeding animals'
+  });
+});
+
+test('document model: heading, row, paragraph and table blocks with their line ids', () => {
+  // Block fields other than its content
+  const block = (id: string, lines: string[]) => ({ id, bbox: null, dir: 'ltr' as const, lines });
+  const model: DocumentModel = {
+    version: 2,
+    source: '0103_2022e.pdf',
+    generator: { tool: 'pdfjs', version: null },
+    bodyFontSize: 10,
+    pages: [{
+      number: 1,
+      width: 595,
+      height: 842,
+      lines: [],
+      blocks: [
+        { ...block('p1.b1', ['p1.l1']), type: 'heading', level: 3, text: '01.03 Live swine.' },
+        { ...block('p1.b2', ['p1.l2']), type: 'row', code: '0103.10', dashLevel: 1, text: 'Pure-bred breeding animals u' },
+        { ...block('p1.b3', ['p1.l3']), type: 'paragraph', text: '- Other :' },
+        { ...block('p1.b4', ['p1.l4']), type: 'row', code: '0103.91', dashLevel: 2, text: 'Weighing less than 50 kg u' },
+        {
+          ...block('p1.b5', ['p1.l5']),
+          type: 'table',
+          header: null,
+          rows: [[
+            { text: '0103.92', bbox: null, lines: ['p1.l5'] },
+            { text: '- - Weighing 50 kg or more', bbox: null, lines: ['p1.l5'] },
+            { text: 'u', bbox: null, lines: ['p1.l5'] }
+          ]]
+        }
+      ]
+    }]
+  };
+  const document = parseNomenclatureDocument(model, '0103_2022e.document.json');
+  assert.equal(document.format, 'document');
+  assert.deepEqual(document.warnings, []);
+  assert.equal(document.headings[0]!.title, 'Live swine');
+  assert.deepEqual(outline(document.headings[0]!.children), [
+    ['0103.10', 1, 'Pure-bred breeding animals', 'u'],
+    ['Other', 1, [
+      ['0103.91', 2, 'Weighing less than 50 kg', 'u'],
+      ['0103.92', 2, 'Weighing 50 kg or more', 'u']
+    ]]
+  ]);
+  assert.deepEqual(flattenHsCodes(document.headings[0]!.children).map(code => code.source), [['p1.l2'], ['p1.l4'], ['p1.l5']]);
+});
+
+test('units of several words and with superscripts', () => {
+  const document = parseNomenclatureMarkdown([
+    '22.08 Undenatured ethyl alcohol of an alcoholic strength by volume of less than 80 % vol.',
+    '2208.20 - Spirits obtained by distilling grape wine or grape marc l alc.100%',
+    '2208.90 - Other l',
+    '',
+    '44.03 Wood in the rough.',
+    '4403.11 - - Coniferous m3',
+    '4403.12 - - Non-coniferous m²'
+  ].join('\n'), 'units.md');
+  assert.deepEqual(flattenHsCodes(document.headings.flatMap(heading => heading.children)).map(code => [code.dotted, code.description, code.unit]), [
+    ['2208.20', 'Spirits obtained by distilling grape wine or grape marc', 'l alc. 100 %'],
+    ['2208.90', 'Other', 'l'],
+    ['4403.11', 'Coniferous', 'm³'],
+    ['4403.12', 'Non-coniferous', 'm²']
+  ]);
+  // "by volume of less than 80 % vol." is part of the title, a date is not a heading
+  assert.equal(document.headings[0]!.title, 'Undenatured ethyl alcohol of an alcoholic strength by volume of less than 80 % vol');
+  assert.equal(parseNomenclatureMarkdown('01.01.2022 Amended by the Council.\n', 'date.md').headings.length, 0);
+});
+
+test('wrapped lines only continue a line of the same paragraph starting in lower case', () => {
+  const document = parseNomenclatureMarkdown([
+    '### 01.06 Other live animals.',
+    '',
+    'mammals are listed first',
+    '0106.11 - - Primates u',
+    'Compare heading 03.01.',
+    '0106.12 - - Whales, dolphins and porpoises (mammals of the order Cetacea); manatees',
+    'and dugongs (mammals of the order Sirenia); seals u'
+  ].join('\n'), '0106_2022e.md');
+  assert.equal(document.headings[0]!.title, 'Other live animals');
+  assert.deepEqual(flattenHsCodes(document.headings[0]!.children).map(code => [code.description, code.unit]), [
+    ['Primates', 'u'],
+    ['Whales, dolphins and porpoises (mammals of the order Cetacea); manatees and dugongs (mammals of the order Sirenia); seals', 'u']
+  ]);
+});
+
+test('duplicate, out-of-heading and foreign codes are skipped with a warning', () => {
+  const document = parseNomenclatureMarkdown([
+    '01.01 Live horses, asses, mules and hinnies.',
+    '0101.21 - - Pure-bred breeding animals u',
+    '0101.21 - - Pure-bred breeding animals u',
+    '0102.21 - - Pure-bred breeding animals u',
+    '- Horses :',
+    '',
+    '01.01 Live horses, asses, mules and hinnies.',
+    '0101.30 - Asses u',
+    '',
+    '#### Subheading Note.',
+    '0101.90 - Other u'
+  ].join('\n'), '0101_2022e.md');
+  assert.deepEqual(document.warnings, [
+    'L3: 0101.21 listed twice; the second listing is skipped',
+    'L4: 0102.21 is not a subheading of 01.01; skipped',
+    'L7: heading 01.01 listed twice; the second listing is skipped',
+    'L8: 0101.30 is not under a heading; skipped',
+    'L11: 0101.90 is not under a heading; skipped',
+    '01.01: group "Horses" has no HS codes'
+  ]);
+  assert.deepEqual(document.wco_hs_codes.map(row => row.wco_hs_code_code), ['010121']);
+  assert.deepEqual(parseNomenclatureMarkdown('Chapter 1\n', 'empty.md').warnings, ['No heading found']);
+});